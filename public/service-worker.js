@@ -1,11 +1,12 @@
 
-const CACHE_NAME = 'pos-app-v1';
-const urlsToCache = [
-  '/',
+// The build prepends the precache list and cache version (see the
+// service-worker-precache plugin in vite.config.ts). The fallbacks only apply
+// when the file is served unprocessed, e.g. by the dev server.
+const CACHE_VERSION = self.__CACHE_VERSION__ || 'dev';
+const CACHE_NAME = `pos-app-${CACHE_VERSION}`;
+const urlsToCache = self.__PRECACHE_URLS__ || [
   '/index.html',
-  '/static/js/main.chunk.js',
-  '/static/js/0.chunk.js',
-  '/static/js/bundle.js',
+  '/offline.html',
   '/manifest.json',
   '/favicon.ico',
 ];
@@ -14,46 +15,77 @@ const urlsToCache = [
 self.addEventListener('install', event => {
   event.waitUntil(
     caches.open(CACHE_NAME)
-      .then(cache => {
-        console.log('Opened cache');
-        return cache.addAll(urlsToCache);
-      })
+      .then(cache => cache.addAll(urlsToCache))
   );
 });
 
-// Cache and return requests
+// Hashed build output never changes under the same URL
+const isHashedAsset = url => url.pathname.startsWith('/assets/');
+
+const putInCache = (request, response) => {
+  // Only keep complete same-origin responses
+  if (!response || response.status !== 200 || response.type !== 'basic') {
+    return response;
+  }
+
+  // Clone the response because it's a stream and can only be consumed once
+  const responseToCache = response.clone();
+  caches.open(CACHE_NAME)
+    .then(cache => cache.put(request, responseToCache));
+
+  return response;
+};
+
+// Navigations always try the network first so a deploy is picked up on the
+// next load. Offline, every route is served by the cached app shell, and
+// offline.html only when the shell itself isn't cached yet.
+const handleNavigation = request =>
+  fetch(request)
+    .then(response => {
+      if (response && response.ok) {
+        caches.open(CACHE_NAME)
+          .then(cache => cache.put('/index.html', response.clone()));
+      }
+      return response;
+    })
+    .catch(() =>
+      caches.match('/index.html')
+        .then(response => response || caches.match('/offline.html'))
+    );
+
+const handleAsset = request =>
+  caches.match(request)
+    .then(response => response || fetch(request).then(networkResponse => putInCache(request, networkResponse)));
+
+// Anything else (manifest, icons) is refreshed from the network when possible
+const handleOther = request =>
+  fetch(request)
+    .then(response => putInCache(request, response))
+    .catch(() => caches.match(request));
+
 self.addEventListener('fetch', event => {
-  event.respondWith(
-    caches.match(event.request)
-      .then(response => {
-        // Cache hit - return response
-        if (response) {
-          return response;
-        }
-        return fetch(event.request)
-          .then(response => {
-            // Check if we received a valid response
-            if(!response || response.status !== 200 || response.type !== 'basic') {
-              return response;
-            }
-
-            // Clone the response because it's a stream and can only be consumed once
-            const responseToCache = response.clone();
-
-            caches.open(CACHE_NAME)
-              .then(cache => {
-                cache.put(event.request, responseToCache);
-              });
-
-            return response;
-          });
-      }).catch(() => {
-        // If both fetch and cache fail, show offline page
-        if (event.request.mode === 'navigate') {
-          return caches.match('/offline.html');
-        }
-      })
-  );
+  const { request } = event;
+  const url = new URL(request.url);
+
+  // Leave API calls (Supabase) and writes to the browser
+  if (request.method !== 'GET' || url.origin !== self.location.origin) {
+    return;
+  }
+
+  if (request.mode === 'navigate') {
+    event.respondWith(handleNavigation(request));
+  } else if (isHashedAsset(url)) {
+    event.respondWith(handleAsset(request));
+  } else {
+    event.respondWith(handleOther(request));
+  }
+});
+
+// The page asks the waiting worker to take over once the till is idle
+self.addEventListener('message', event => {
+  if (event.data && event.data.type === 'SKIP_WAITING') {
+    self.skipWaiting();
+  }
 });
 
 // Update the service worker
@@ -80,20 +112,221 @@ self.addEventListener('sync', event => {
   }
 });
 
-// Function to sync pending operations
+// Background replay of the outbox the app keeps in IndexedDB (see
+// src/lib/local-db.ts and src/lib/outbox.ts). Only the operations a till
+// queues while selling are handled here. The queue is replayed in order and
+// stops at the first operation of another type, or still backing off after a
+// failed attempt; the app sends the rest when it next runs. Skipping ahead
+// would e.g. replay a sale before the selling day it was made on is opened.
+
+const DB_NAME = 'selis-pos';
+const PENDING_OPERATIONS_STORE = 'pendingOperations';
+const META_STORE = 'meta';
+
+// Keep in step with src/lib/outbox.ts
+const MAX_ATTEMPTS = 5;
+const BASE_RETRY_DELAY = 2000;
+const MAX_RETRY_DELAY = 5 * 60 * 1000;
+
+const getRetryDelay = attempts =>
+  Math.min(BASE_RETRY_DELAY * 2 ** (attempts - 1), MAX_RETRY_DELAY);
+
+const requestToPromise = request =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Opens the app's database without upgrading it. Resolves to null when the
+// app hasn't created it yet.
+const openLocalDb = () =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME);
+    let isNew = false;
+
+    request.onupgradeneeded = () => {
+      isNew = true;
+      request.transaction.abort();
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => (isNew ? resolve(null) : reject(request.error));
+  });
+
+const getSellingDate = timestamp => new Date(timestamp).toISOString().split('T')[0];
+
+// Keep in step with toCheckoutPayload in src/lib/outbox.ts: builds that
+// predate the checkout RPC queued the whole cart with both prices per item
+const toCheckoutPayload = data => {
+  if (!('timestamp' in data)) return data;
+
+  return {
+    paymentMethod: data.paymentMethod,
+    soldAt: data.timestamp,
+    items: data.items.map(item => ({
+      menuItemId: item.id,
+      quantity: item.quantity,
+      pricePerUnit: data.paymentMethod === 'qris' ? item.qrisPrice : item.cashPrice,
+      basePrice: item.cashPrice,
+    })),
+  };
+};
+
+class SupabaseRequestError extends Error {
+  constructor(status, body) {
+    super((body && body.message) || `Request failed with status ${status}`);
+    this.status = status;
+  }
+}
+
+const callSupabase = async (credentials, path, method, body) => {
+  const response = await fetch(`${credentials.supabaseUrl}/rest/v1/${path}`, {
+    method,
+    headers: {
+      apikey: credentials.supabaseKey,
+      Authorization: `Bearer ${credentials.accessToken}`,
+      'Content-Type': 'application/json',
+      Prefer: 'return=minimal',
+    },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const errorBody = await response.json().catch(() => null);
+    throw new SupabaseRequestError(response.status, errorBody);
+  }
+};
+
+const handlers = {
+  // The operation id is the checkout's idempotency key, so a sale the app
+  // sends at the same time is only recorded once. As in the app, a replayed
+  // sale is recorded even when the day's stock can't cover it.
+  CREATE_TRANSACTION: (credentials, operation) => {
+    const payload = toCheckoutPayload(operation.data);
+    return callSupabase(credentials, 'rpc/checkout_transaction', 'POST', {
+      p_client_operation_id: operation.id,
+      p_payment_method: payload.paymentMethod,
+      p_selling_date: getSellingDate(payload.soldAt || operation.timestamp),
+      p_sold_at: payload.soldAt || operation.timestamp,
+      p_allow_shortfall: true,
+      p_items: payload.items.map(item => ({
+        menu_item_id: item.menuItemId,
+        quantity: item.quantity,
+        price_per_unit: item.pricePerUnit,
+        base_price: item.basePrice,
+        modifiers: (item.modifiers || []).map(modifier => ({
+          option_id: modifier.optionId,
+          group_name: modifier.groupName,
+          option_name: modifier.optionName,
+          price_delta: modifier.priceDelta,
+        })),
+        components: (item.components || []).map(component => ({
+          menu_item_id: component.menuItemId,
+          slot_name: component.slotName,
+          quantity: component.quantity,
+          allocated_amount: component.allocatedAmount,
+        })),
+      })),
+    });
+  },
+  UPDATE_STOCK: async () => {
+    // Nothing to send: stock is decremented by the CREATE_TRANSACTION replay
+  },
+  END_SELLING: (credentials, operation) =>
+    callSupabase(credentials, 'rpc/end_selling', 'POST', {
+      p_store_id: operation.data.storeId,
+      p_selling_date: getSellingDate(operation.data.timestamp),
+      p_counts: (operation.data.counts || []).map(count => ({
+        stock_item_id: count.stockItemId,
+        counted_quantity: count.countedQuantity,
+      })),
+    }),
+  UPDATE_HOLIDAY_MODE: (credentials, operation) =>
+    callSupabase(credentials, `stores?id=eq.${operation.data.storeId}`, 'PATCH', {
+      is_holiday_mode: operation.data.holidayMode,
+    }),
+  LOG_WASTE: (credentials, operation) =>
+    callSupabase(credentials, 'rpc/log_waste', 'POST', {
+      p_client_operation_id: operation.id,
+      p_store_id: operation.data.storeId,
+      p_selling_date: getSellingDate(operation.data.timestamp),
+      p_reason: operation.data.reason,
+      p_quantity: operation.data.quantity,
+      p_stock_item_id: operation.data.stockItemId || null,
+      p_menu_item_id: operation.data.menuItemId || null,
+      p_note: operation.data.note || null,
+      p_photo_path: operation.data.photoPath || null,
+    }),
+};
+
+const notifyClients = async message => {
+  const clients = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+  clients.forEach(client => client.postMessage(message));
+};
+
 async function syncPendingOperations() {
+  const db = await openLocalDb();
+  if (!db) return;
+
   try {
-    // Implement the logic to send pending operations to the server
-    console.log('Syncing pending operations...');
-    
-    // This would typically involve:
-    // 1. Retrieving pending operations from IndexedDB or localStorage
-    // 2. Sending them to the server via fetch
-    // 3. Clearing the pending operations upon successful sync
-    
-    // For demo purposes, we'll just log
-    console.log('Sync completed');
-  } catch (error) {
-    console.error('Sync failed:', error);
+    const credentials = await requestToPromise(
+      db.transaction(META_STORE).objectStore(META_STORE).get('syncCredentials')
+    );
+
+    // The worker can't refresh the session without signing the app out, so an
+    // expired token leaves the queue for the app to send
+    if (!credentials || credentials.expiresAt * 1000 <= Date.now()) return;
+
+    const operations = await requestToPromise(
+      db.transaction(PENDING_OPERATIONS_STORE).objectStore(PENDING_OPERATIONS_STORE).getAll()
+    );
+    operations.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+
+    const syncedIds = [];
+    const failedOperations = [];
+
+    const now = Date.now();
+
+    for (const operation of operations) {
+      if (operation.status === 'failed') continue;
+      if (operation.nextAttemptAt && new Date(operation.nextAttemptAt).getTime() > now) break;
+
+      const handler = handlers[operation.type];
+      if (!handler) break;
+
+      try {
+        await handler(credentials, operation);
+        const transaction = db.transaction(PENDING_OPERATIONS_STORE, 'readwrite');
+        await requestToPromise(transaction.objectStore(PENDING_OPERATIONS_STORE).delete(operation.id));
+        syncedIds.push(operation.id);
+      } catch (error) {
+        console.error(`Error syncing ${operation.type}:`, error);
+
+        // Still offline or signed out: stop and let the browser retry the sync
+        if (!(error instanceof SupabaseRequestError) || error.status === 401) {
+          await notifyClients({ type: 'PENDING_OPERATIONS_SYNCED', syncedIds, failedOperations });
+          throw error;
+        }
+
+        const attempts = (operation.attempts || 0) + 1;
+        const failedOperation = {
+          ...operation,
+          attempts,
+          lastError: error.message,
+          status: attempts >= MAX_ATTEMPTS ? 'failed' : 'pending',
+          nextAttemptAt: new Date(Date.now() + getRetryDelay(attempts)).toISOString(),
+        };
+        const transaction = db.transaction(PENDING_OPERATIONS_STORE, 'readwrite');
+        await requestToPromise(transaction.objectStore(PENDING_OPERATIONS_STORE).put(failedOperation));
+        failedOperations.push(failedOperation);
+
+        // Later operations may depend on this one, e.g. a sale on a store
+        // whose selling day hasn't been replayed
+        break;
+      }
+    }
+
+    await notifyClients({ type: 'PENDING_OPERATIONS_SYNCED', syncedIds, failedOperations });
+  } finally {
+    db.close();
   }
 }
@@ -20,12 +20,19 @@ import MenuManagement from "./pages/owner/MenuManagement";
 import StockManagement from "./pages/owner/StockManagement";
 import UserManagement from "./pages/owner/UserManagement";
 import SalesReport from "./pages/owner/SalesReport";
+import StockVariance from "./pages/owner/StockVariance";
+import WasteReport from "./pages/owner/WasteReport";
+import SupplierManagement from "./pages/owner/SupplierManagement";
 
 // Manager routes
 import ManagerDashboard from "./pages/manager/ManagerDashboard";
 import StockControl from "./pages/manager/StockControl";
+import StockConflicts from "./pages/manager/StockConflicts";
+import StockTransfers from "./pages/manager/StockTransfers";
 import ManagerSalesReport from "./pages/manager/SalesReport";
 import StoreSettings from "./pages/manager/StoreSettings";
+import PurchaseOrders from "./pages/manager/PurchaseOrders";
+import GoodsReceiving from "./pages/manager/GoodsReceiving";
 
 // Cashier routes
 import POSInterface from "./pages/cashier/POSInterface";
@@ -119,6 +126,21 @@ const App = () => (
                   <StockManagement />
                 </ProtectedRoute>
               } />
+              <Route path="/admin/stock/variance" element={
+                <ProtectedRoute allowedRoles={['owner']}>
+                  <StockVariance />
+                </ProtectedRoute>
+              } />
+              <Route path="/admin/waste" element={
+                <ProtectedRoute allowedRoles={['owner']}>
+                  <WasteReport />
+                </ProtectedRoute>
+              } />
+              <Route path="/admin/suppliers" element={
+                <ProtectedRoute allowedRoles={['owner']}>
+                  <SupplierManagement />
+                </ProtectedRoute>
+              } />
               <Route path="/admin/users" element={
                 <ProtectedRoute allowedRoles={['owner']}>
                   <UserManagement />
@@ -141,6 +163,26 @@ const App = () => (
                   <StockControl />
                 </ProtectedRoute>
               } />
+              <Route path="/manager/stock/conflicts" element={
+                <ProtectedRoute allowedRoles={['manager']}>
+                  <StockConflicts />
+                </ProtectedRoute>
+              } />
+              <Route path="/manager/stock/transfers" element={
+                <ProtectedRoute allowedRoles={['manager']}>
+                  <StockTransfers />
+                </ProtectedRoute>
+              } />
+              <Route path="/manager/purchase-orders" element={
+                <ProtectedRoute allowedRoles={['manager']}>
+                  <PurchaseOrders />
+                </ProtectedRoute>
+              } />
+              <Route path="/manager/receiving" element={
+                <ProtectedRoute allowedRoles={['manager']}>
+                  <GoodsReceiving />
+                </ProtectedRoute>
+              } />
               <Route path="/manager/reports" element={
                 <ProtectedRoute allowedRoles={['manager']}>
                   <ManagerSalesReport />
@@ -4,6 +4,7 @@ import { useNavigate, useLocation } from 'react-router-dom';
 import { useAuth } from '@/context/AuthContext';
 import { usePwa } from '@/context/PwaContext';
 import { Button } from '@/components/ui/button';
+import UpdateBanner from '@/components/pwa/UpdateBanner';
 import {
   CircleUser,
   LogOut,
@@ -15,6 +16,9 @@ import {
   Package,
   Layers,
   Home,
+  ClipboardCheck,
+  Truck,
+  Trash2,
   Menu,
   X,
 } from 'lucide-react';
@@ -44,6 +48,9 @@ const AdminLayout: React.FC<AdminLayoutProps> = ({ children, title }) => {
     { path: '/admin/categories', label: 'Categories', icon: <Layers size={20} /> },
     { path: '/admin/menu', label: 'Menu Items', icon: <Package size={20} /> },
     { path: '/admin/stock', label: 'Stock Items', icon: <Package size={20} /> },
+    { path: '/admin/stock/variance', label: 'Stock Variance', icon: <ClipboardCheck size={20} /> },
+    { path: '/admin/waste', label: 'Waste', icon: <Trash2 size={20} /> },
+    { path: '/admin/suppliers', label: 'Suppliers', icon: <Truck size={20} /> },
     { path: '/admin/users', label: 'Users', icon: <Users size={20} /> },
     { path: '/admin/reports', label: 'Reports', icon: <BarChart size={20} /> },
   ];
@@ -85,6 +92,7 @@ const AdminLayout: React.FC<AdminLayoutProps> = ({ children, title }) => {
             </div>
           </div>
         </div>
+        <UpdateBanner />
       </header>
 
       <div className="flex flex-1 overflow-hidden">
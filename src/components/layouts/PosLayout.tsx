@@ -4,7 +4,10 @@ import { useNavigate, useLocation } from 'react-router-dom';
 import { useAuth } from '@/context/AuthContext';
 import { usePwa } from '@/context/PwaContext';
 import { Button } from '@/components/ui/button';
-import { CircleUser, LogOut, ShoppingCart, BarChart, Menu, X } from 'lucide-react';
+import UpdateBanner from '@/components/pwa/UpdateBanner';
+import SyncStatusPanel from '@/components/pwa/SyncStatusPanel';
+import WasteEntryDialog from '@/components/stock/WasteEntryDialog';
+import { CircleUser, LogOut, ShoppingCart, BarChart, Menu, X, Trash2 } from 'lucide-react';
 import { useState } from 'react';
 
 interface PosLayoutProps {
@@ -17,6 +20,7 @@ const PosLayout: React.FC<PosLayoutProps> = ({ children }) => {
   const navigate = useNavigate();
   const location = useLocation();
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
+  const [isWasteDialogOpen, setIsWasteDialogOpen] = useState(false);
 
   const handleLogout = async () => {
     await logout();
@@ -33,6 +37,8 @@ const PosLayout: React.FC<PosLayoutProps> = ({ children }) => {
         { path: '/manager/dashboard', label: 'Dashboard', icon: <BarChart size={20} /> },
         { path: '/manager/reports', label: 'Reports', icon: <BarChart size={20} /> },
         { path: '/manager/stock', label: 'Stock', icon: <BarChart size={20} /> },
+        { path: '/manager/purchase-orders', label: 'Orders', icon: <BarChart size={20} /> },
+        { path: '/manager/receiving', label: 'Receiving', icon: <BarChart size={20} /> },
         { path: '/manager/settings', label: 'Settings', icon: <BarChart size={20} /> },
         { path: '/pos/history', label: 'History', icon: <BarChart size={20} /> },
       ]
@@ -68,6 +74,16 @@ const PosLayout: React.FC<PosLayoutProps> = ({ children }) => {
             <span className="mr-2 text-sm font-medium text-gray-700 dark:text-gray-200">
               {user?.name}
             </span>
+            <SyncStatusPanel />
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setIsWasteDialogOpen(true)}
+              title="Log waste"
+              aria-label="Log waste"
+            >
+              <Trash2 size={18} />
+            </Button>
             <Button variant="ghost" size="sm" onClick={handleLogout}>
               <LogOut size={18} />
             </Button>
@@ -92,6 +108,8 @@ const PosLayout: React.FC<PosLayoutProps> = ({ children }) => {
             </button>
           ))}
         </div>
+        
+        <UpdateBanner />
       </header>
 
       {/* Sidebar for mobile */}
@@ -164,6 +182,8 @@ const PosLayout: React.FC<PosLayoutProps> = ({ children }) => {
       <main className="flex-1 relative">
         {children}
       </main>
+
+      <WasteEntryDialog open={isWasteDialogOpen} onOpenChange={setIsWasteDialogOpen} />
     </div>
   );
 };
@@ -0,0 +1,117 @@
+
+import React from 'react';
+import { BundleSlot, MenuItem } from '@/lib/repository';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Plus, Trash, X } from 'lucide-react';
+
+interface BundleSlotsEditorProps {
+  slots: BundleSlot[];
+  // The menu items a slot can be filled with
+  menuItems: MenuItem[];
+  onChange: (slots: BundleSlot[]) => void;
+}
+
+const BundleSlotsEditor: React.FC<BundleSlotsEditorProps> = ({ slots, menuItems, onChange }) => {
+  const updateSlot = (slotId: string, changes: Partial<BundleSlot>) => {
+    onChange(slots.map(slot => slot.id === slotId ? { ...slot, ...changes } : slot));
+  };
+
+  const getMenuItemName = (menuItemId: string) =>
+    menuItems.find(item => item.id === menuItemId)?.name || 'Removed item';
+
+  const handleAddSlot = () => {
+    onChange([...slots, { id: crypto.randomUUID(), name: '', quantity: 1, menuItemIds: [] }]);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label>Bundle Contents</Label>
+        <Button type="button" variant="outline" size="sm" onClick={handleAddSlot}>
+          <Plus className="h-4 w-4 mr-1" />
+          Add Slot
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        The cashier picks one item per slot. A slot with a single item is always included.
+      </p>
+      {slots.map(slot => (
+        <div key={slot.id} className="border rounded-md p-3 space-y-2">
+          <div className="flex gap-2">
+            <Input
+              placeholder="Slot name, e.g. Drink"
+              aria-label="Slot name"
+              value={slot.name}
+              onChange={e => updateSlot(slot.id, { name: e.target.value })}
+            />
+            <Input
+              type="number"
+              min="1"
+              className="w-20"
+              aria-label="Quantity"
+              value={slot.quantity}
+              onChange={e => {
+                const quantity = parseInt(e.target.value, 10);
+                updateSlot(slot.id, { quantity: isNaN(quantity) ? 1 : quantity });
+              }}
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              aria-label="Remove slot"
+              onClick={() => onChange(slots.filter(s => s.id !== slot.id))}
+            >
+              <Trash className="h-4 w-4" />
+            </Button>
+          </div>
+          <div className="flex flex-wrap gap-1">
+            {slot.menuItemIds.map(menuItemId => (
+              <Badge key={menuItemId} variant="secondary" className="gap-1">
+                {getMenuItemName(menuItemId)}
+                <button
+                  type="button"
+                  aria-label="Remove item"
+                  onClick={() => updateSlot(slot.id, {
+                    menuItemIds: slot.menuItemIds.filter(id => id !== menuItemId),
+                  })}
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </Badge>
+            ))}
+          </div>
+          <Select
+            value=""
+            onValueChange={menuItemId => updateSlot(slot.id, { menuItemIds: [...slot.menuItemIds, menuItemId] })}
+          >
+            <SelectTrigger>
+              <SelectValue placeholder="Add a menu item..." />
+            </SelectTrigger>
+            <SelectContent>
+              {menuItems
+                .filter(item => !slot.menuItemIds.includes(item.id))
+                .map(item => (
+                  <SelectItem key={item.id} value={item.id}>
+                    {item.name} · Rp {item.cashPrice.toLocaleString()}
+                  </SelectItem>
+                ))}
+            </SelectContent>
+          </Select>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default BundleSlotsEditor;
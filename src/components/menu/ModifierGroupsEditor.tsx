@@ -0,0 +1,184 @@
+
+import React from 'react';
+import { ModifierGroup, ModifierOption, ModifierSelection } from '@/lib/repository';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Plus, Trash } from 'lucide-react';
+
+interface ModifierGroupsEditorProps {
+  groups: ModifierGroup[];
+  onChange: (groups: ModifierGroup[]) => void;
+}
+
+const parseNumber = (value: string) => {
+  const numValue = parseFloat(value);
+  return isNaN(numValue) ? 0 : numValue;
+};
+
+const newOption = (): ModifierOption => ({ id: crypto.randomUUID(), name: '', priceDelta: 0 });
+
+const ModifierGroupsEditor: React.FC<ModifierGroupsEditorProps> = ({ groups, onChange }) => {
+  const updateGroup = (groupId: string, changes: Partial<ModifierGroup>) => {
+    onChange(groups.map(group => group.id === groupId ? { ...group, ...changes } : group));
+  };
+
+  const updateOption = (group: ModifierGroup, optionId: string, changes: Partial<ModifierOption>) => {
+    updateGroup(group.id, {
+      options: group.options.map(option => option.id === optionId ? { ...option, ...changes } : option),
+    });
+  };
+
+  const handleAddGroup = () => {
+    onChange([
+      ...groups,
+      {
+        id: crypto.randomUUID(),
+        name: '',
+        selection: 'single',
+        isRequired: false,
+        minSelect: 0,
+        options: [newOption()],
+      },
+    ]);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label>Modifiers</Label>
+        <Button type="button" variant="outline" size="sm" onClick={handleAddGroup}>
+          <Plus className="h-4 w-4 mr-1" />
+          Add Group
+        </Button>
+      </div>
+      {groups.length === 0 && (
+        <p className="text-sm text-muted-foreground">
+          No sizes, sugar levels or add-ons for this item.
+        </p>
+      )}
+      {groups.map(group => (
+        <div key={group.id} className="border rounded-md p-3 space-y-2">
+          <div className="flex gap-2">
+            <Input
+              placeholder="Group name, e.g. Size"
+              aria-label="Group name"
+              value={group.name}
+              onChange={e => updateGroup(group.id, { name: e.target.value })}
+            />
+            <Select
+              value={group.selection}
+              onValueChange={value => updateGroup(group.id, {
+                selection: value as ModifierSelection,
+                // A single choice has at most one option, so only 0 or 1 make sense
+                ...(value === 'single' ? { minSelect: Math.min(group.minSelect, 1), maxSelect: undefined } : {}),
+              })}
+            >
+              <SelectTrigger className="w-[140px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="single">Pick one</SelectItem>
+                <SelectItem value="multiple">Pick several</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              aria-label="Remove group"
+              onClick={() => onChange(groups.filter(g => g.id !== group.id))}
+            >
+              <Trash className="h-4 w-4" />
+            </Button>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-4 text-sm">
+            <label className="flex items-center gap-2">
+              <Checkbox
+                checked={group.isRequired}
+                onCheckedChange={checked => updateGroup(group.id, { isRequired: checked === true })}
+              />
+              Required
+            </label>
+            {group.selection === 'multiple' && (
+              <>
+                <label className="flex items-center gap-2">
+                  Min
+                  <Input
+                    type="number"
+                    min="0"
+                    className="w-16 h-8"
+                    value={group.minSelect}
+                    onChange={e => updateGroup(group.id, { minSelect: parseNumber(e.target.value) })}
+                  />
+                </label>
+                <label className="flex items-center gap-2">
+                  Max
+                  <Input
+                    type="number"
+                    min="1"
+                    className="w-16 h-8"
+                    placeholder="Any"
+                    value={group.maxSelect ?? ''}
+                    onChange={e => updateGroup(group.id, {
+                      maxSelect: e.target.value ? parseNumber(e.target.value) : undefined,
+                    })}
+                  />
+                </label>
+              </>
+            )}
+          </div>
+
+          {group.options.map(option => (
+            <div key={option.id} className="grid grid-cols-[2fr_1fr_auto] gap-2 items-center">
+              <Input
+                placeholder="Option, e.g. Large"
+                aria-label="Option name"
+                value={option.name}
+                onChange={e => updateOption(group, option.id, { name: e.target.value })}
+              />
+              <Input
+                type="number"
+                aria-label="Price change"
+                value={option.priceDelta}
+                onChange={e => updateOption(group, option.id, { priceDelta: parseNumber(e.target.value) })}
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                aria-label="Remove option"
+                onClick={() => updateGroup(group.id, {
+                  options: group.options.filter(o => o.id !== option.id),
+                })}
+              >
+                <Trash className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            type="button"
+            variant="link"
+            size="sm"
+            className="px-0"
+            onClick={() => updateGroup(group.id, { options: [...group.options, newOption()] })}
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add option
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ModifierGroupsEditor;
@@ -0,0 +1,190 @@
+
+import React, { useEffect, useState } from 'react';
+import { getBundleComponents, getMenuItemPrice, getModifierSelectionError, MenuItem } from '@/lib/repository';
+import { CheckoutComponent, CheckoutModifier, PaymentMethod } from '@/lib/transactions';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+interface ModifierPickerProps {
+  item: MenuItem | null;
+  // Used to name the menu items a bundle can be filled with
+  menuItems: MenuItem[];
+  paymentMethod: PaymentMethod;
+  onConfirm: (selection: { modifiers: CheckoutModifier[]; components: CheckoutComponent[] }) => void;
+  onClose: () => void;
+}
+
+const formatDelta = (priceDelta: number) =>
+  priceDelta === 0 ? '' : `${priceDelta > 0 ? '+' : '-'}Rp ${Math.abs(priceDelta).toLocaleString()}`;
+
+// Asks the cashier for the modifiers of an item, and for a bundle which item
+// fills each slot, before it goes in the cart
+const ModifierPicker: React.FC<ModifierPickerProps> = ({ item, menuItems, paymentMethod, onConfirm, onClose }) => {
+  const groups = item?.modifierGroups || [];
+  const slots = item?.itemType === 'bundle' ? item.bundleSlots || [] : [];
+  const [selected, setSelected] = useState<Record<string, string[]>>({});
+  const [slotChoices, setSlotChoices] = useState<Record<string, string>>({});
+
+  // Start each item with the first option of its required single choices,
+  // which is usually the default size or sugar level
+  useEffect(() => {
+    const defaults: Record<string, string[]> = {};
+    (item?.modifierGroups || []).forEach(group => {
+      defaults[group.id] = group.selection === 'single' && group.isRequired && group.options.length > 0
+        ? [group.options[0].id]
+        : [];
+    });
+    setSelected(defaults);
+    setSlotChoices({});
+  }, [item]);
+
+  const getMenuItemName = (menuItemId: string) =>
+    menuItems.find(menuItem => menuItem.id === menuItemId)?.name || 'Unavailable item';
+
+  const toggleOption = (groupId: string, optionId: string, checked: boolean) => {
+    setSelected(prev => {
+      const current = prev[groupId] || [];
+      return {
+        ...prev,
+        [groupId]: checked ? [...current, optionId] : current.filter(id => id !== optionId),
+      };
+    });
+  };
+
+  const modifiers: CheckoutModifier[] = groups.flatMap(group =>
+    group.options
+      .filter(option => (selected[group.id] || []).includes(option.id))
+      .map(option => ({
+        optionId: option.id,
+        groupName: group.name,
+        optionName: option.name,
+        priceDelta: option.priceDelta,
+      }))
+  );
+  const errors = groups
+    .map(group => getModifierSelectionError(group, (selected[group.id] || []).length))
+    .filter(Boolean);
+  const price = item
+    ? getMenuItemPrice(item, paymentMethod) + modifiers.reduce((sum, modifier) => sum + modifier.priceDelta, 0)
+    : 0;
+
+  return (
+    <Dialog open={!!item} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{item?.name}</DialogTitle>
+          <DialogDescription>Choose how this item should be made.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {slots.map(slot => (
+            <div key={slot.id} className="space-y-2">
+              <Label className="font-semibold">
+                {slot.name}{slot.quantity > 1 && ` × ${slot.quantity}`}
+              </Label>
+              {slot.menuItemIds.length === 1 ? (
+                <p className="text-sm">{getMenuItemName(slot.menuItemIds[0])}</p>
+              ) : (
+                <RadioGroup
+                  value={slotChoices[slot.id] || slot.menuItemIds[0]}
+                  onValueChange={value => setSlotChoices(prev => ({ ...prev, [slot.id]: value }))}
+                >
+                  {slot.menuItemIds.map(menuItemId => (
+                    <label key={menuItemId} className="flex items-center gap-2 text-sm">
+                      <RadioGroupItem value={menuItemId} />
+                      {getMenuItemName(menuItemId)}
+                    </label>
+                  ))}
+                </RadioGroup>
+              )}
+            </div>
+          ))}
+          {groups.map(group => (
+            <div key={group.id} className="space-y-2">
+              <div className="flex items-baseline justify-between">
+                <Label className="font-semibold">{group.name}</Label>
+                <span className="text-xs text-muted-foreground">
+                  {group.isRequired ? 'Required' : 'Optional'}
+                  {group.selection === 'multiple' && group.maxSelect !== undefined && ` · up to ${group.maxSelect}`}
+                </span>
+              </div>
+              {group.selection === 'single' ? (
+                <RadioGroup
+                  value={(selected[group.id] || [])[0] || ''}
+                  onValueChange={value => setSelected(prev => ({ ...prev, [group.id]: [value] }))}
+                >
+                  {group.options.map(option => (
+                    <label key={option.id} className="flex items-center justify-between gap-2 text-sm">
+                      <span className="flex items-center gap-2">
+                        <RadioGroupItem value={option.id} />
+                        {option.name}
+                      </span>
+                      <span className="text-muted-foreground">{formatDelta(option.priceDelta)}</span>
+                    </label>
+                  ))}
+                </RadioGroup>
+              ) : (
+                <div className="space-y-2">
+                  {group.options.map(option => (
+                    <label key={option.id} className="flex items-center justify-between gap-2 text-sm">
+                      <span className="flex items-center gap-2">
+                        <Checkbox
+                          checked={(selected[group.id] || []).includes(option.id)}
+                          onCheckedChange={checked => toggleOption(group.id, option.id, checked === true)}
+                        />
+                        {option.name}
+                      </span>
+                      <span className="text-muted-foreground">{formatDelta(option.priceDelta)}</span>
+                    </label>
+                  ))}
+                </div>
+              )}
+              {!group.isRequired && group.selection === 'single' && (selected[group.id] || []).length > 0 && (
+                <Button
+                  type="button"
+                  variant="link"
+                  size="sm"
+                  className="px-0 h-auto"
+                  onClick={() => setSelected(prev => ({ ...prev, [group.id]: [] }))}
+                >
+                  Clear
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {errors.length > 0 && (
+          <p className="text-sm text-red-600 dark:text-red-400">{errors[0]}</p>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            disabled={errors.length > 0}
+            onClick={() => onConfirm({
+              modifiers,
+              components: item && slots.length > 0 ? getBundleComponents(item, slotChoices, menuItems) : [],
+            })}
+          >
+            Add to Cart · Rp {price.toLocaleString()}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ModifierPicker;
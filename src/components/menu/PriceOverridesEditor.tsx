@@ -0,0 +1,140 @@
+
+import React from 'react';
+import { Branch, MenuItemPriceOverride, Store } from '@/lib/repository';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Plus, Trash } from 'lucide-react';
+
+interface PriceOverridesEditorProps {
+  overrides: MenuItemPriceOverride[];
+  branches: Branch[];
+  stores: Store[];
+  defaultPrices: Pick<MenuItemPriceOverride, 'cashPrice' | 'qrisPrice'>;
+  onChange: (overrides: MenuItemPriceOverride[]) => void;
+}
+
+// Select values carry the kind of target, since a branch and a store could
+// in theory share an id
+const toTargetValue = (override: MenuItemPriceOverride) =>
+  override.storeId ? `store:${override.storeId}` : override.branchId ? `branch:${override.branchId}` : '';
+
+const fromTargetValue = (value: string) => {
+  const [kind, id] = value.split(':');
+  return kind === 'store' ? { storeId: id, branchId: undefined } : { storeId: undefined, branchId: id };
+};
+
+const PriceOverridesEditor: React.FC<PriceOverridesEditorProps> = ({
+  overrides,
+  branches,
+  stores,
+  defaultPrices,
+  onChange,
+}) => {
+  const updateOverride = (index: number, changes: Partial<MenuItemPriceOverride>) => {
+    onChange(overrides.map((override, i) => i === index ? { ...override, ...changes } : override));
+  };
+
+  const handlePriceChange = (index: number, field: 'cashPrice' | 'qrisPrice', value: string) => {
+    const numValue = parseFloat(value);
+    updateOverride(index, { [field]: isNaN(numValue) ? 0 : numValue });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label>Store Prices</Label>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => onChange([...overrides, { ...defaultPrices }])}
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Add Override
+        </Button>
+      </div>
+      {overrides.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          Every store sells this item at the prices above.
+        </p>
+      ) : (
+        <>
+          <div className="grid grid-cols-[2fr_1fr_1fr_auto] gap-2 text-xs text-muted-foreground">
+            <span>Store or branch</span>
+            <span>Cash</span>
+            <span>QRIS</span>
+            <span className="w-9" />
+          </div>
+          {overrides.map((override, index) => (
+            <div key={index} className="grid grid-cols-[2fr_1fr_1fr_auto] gap-2 items-center">
+              <Select
+                value={toTargetValue(override)}
+                onValueChange={value => updateOverride(index, fromTargetValue(value))}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectGroup>
+                    <SelectLabel>Stores</SelectLabel>
+                    {stores.map(store => (
+                      <SelectItem key={store.id} value={`store:${store.id}`}>
+                        {store.name}
+                      </SelectItem>
+                    ))}
+                  </SelectGroup>
+                  <SelectGroup>
+                    <SelectLabel>Whole branch</SelectLabel>
+                    {branches.map(branch => (
+                      <SelectItem key={branch.id} value={`branch:${branch.id}`}>
+                        {branch.name}
+                      </SelectItem>
+                    ))}
+                  </SelectGroup>
+                </SelectContent>
+              </Select>
+              <Input
+                type="number"
+                min="0"
+                aria-label="Cash price"
+                value={override.cashPrice}
+                onChange={e => handlePriceChange(index, 'cashPrice', e.target.value)}
+              />
+              <Input
+                type="number"
+                min="0"
+                aria-label="QRIS price"
+                value={override.qrisPrice}
+                onChange={e => handlePriceChange(index, 'qrisPrice', e.target.value)}
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                aria-label="Remove override"
+                onClick={() => onChange(overrides.filter((_, i) => i !== index))}
+              >
+                <Trash className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <p className="text-xs text-muted-foreground">
+            A store's own price is used before its branch's.
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PriceOverridesEditor;
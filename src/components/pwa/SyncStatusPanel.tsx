@@ -0,0 +1,221 @@
+
+import React, { useEffect, useState } from 'react';
+import { useAuth } from '@/context/AuthContext';
+import { usePwa } from '@/context/PwaContext';
+import { PendingOperation } from '@/lib/outbox';
+import { getCachedList } from '@/lib/local-db';
+import { Store } from '@/lib/repository';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from '@/components/ui/sheet';
+import { format } from 'date-fns';
+import { CloudUpload, Download, RotateCw, Trash2 } from 'lucide-react';
+
+const getStoreId = (operation: PendingOperation) =>
+  'storeId' in operation.data ? operation.data.storeId : undefined;
+
+const formatType = (type: string) =>
+  type.toLowerCase().split('_').map(word => word[0].toUpperCase() + word.slice(1)).join(' ');
+
+// Lists the outbox so a till that has been offline can see what hasn't reached
+// the server yet. Managers can retry or drop stuck operations and export the
+// queue for support.
+const SyncStatusPanel: React.FC = () => {
+  const { user } = useAuth();
+  const {
+    networkStatus,
+    pendingOperations,
+    syncedOperations,
+    processPendingOperations,
+    retryOperation,
+    discardOperation,
+  } = usePwa();
+  const [storeNames, setStoreNames] = useState<Record<string, string>>({});
+  const [isOpen, setIsOpen] = useState(false);
+
+  const canManage = user?.role === 'manager';
+  const failedCount = pendingOperations.filter(op => op.status === 'failed').length;
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    getCachedList<Store>('stores')
+      .then(stores => {
+        const names: Record<string, string> = {};
+        (stores || []).forEach(store => {
+          names[store.id] = store.name;
+        });
+        if (user?.storeId && user.storeName) {
+          names[user.storeId] = user.storeName;
+        }
+        setStoreNames(names);
+      })
+      .catch(error => console.error('Error loading cached stores:', error));
+  }, [isOpen, user?.storeId, user?.storeName]);
+
+  const getStoreName = (operation: PendingOperation) => {
+    const storeId = getStoreId(operation);
+    return storeId ? storeNames[storeId] || 'Unknown Store' : '-';
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([
+      JSON.stringify({
+        exportedAt: new Date().toISOString(),
+        userId: user?.id,
+        storeId: user?.storeId,
+        pendingOperations,
+      }, null, 2)
+    ], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `sync-queue-${format(new Date(), 'yyyyMMdd-HHmmss')}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const renderOperation = (operation: PendingOperation, syncedAt?: string) => (
+    <li key={`${operation.id}-${syncedAt || 'queued'}`} className="border rounded-md p-3 space-y-1">
+      <div className="flex items-center justify-between gap-2">
+        <span className="font-medium text-sm">{formatType(operation.type)}</span>
+        {syncedAt ? (
+          <Badge variant="secondary">Synced</Badge>
+        ) : operation.status === 'failed' ? (
+          <Badge variant="destructive">Failed</Badge>
+        ) : (
+          <Badge variant="outline">Queued</Badge>
+        )}
+      </div>
+      <div className="text-xs text-muted-foreground">
+        {getStoreName(operation)} · {format(new Date(operation.timestamp), 'dd MMM HH:mm:ss')}
+        {syncedAt && ` · synced ${format(new Date(syncedAt), 'HH:mm:ss')}`}
+      </div>
+      {!syncedAt && (
+        <div className="text-xs text-muted-foreground">
+          {operation.attempts} {operation.attempts === 1 ? 'attempt' : 'attempts'}
+          {operation.nextAttemptAt && operation.status === 'pending' &&
+            ` · next try ${format(new Date(operation.nextAttemptAt), 'HH:mm:ss')}`}
+        </div>
+      )}
+      {!syncedAt && operation.lastError && (
+        <div className="text-xs text-red-600 dark:text-red-400 break-words">
+          {operation.lastError}
+        </div>
+      )}
+      {!syncedAt && canManage && (
+        <div className="flex justify-end gap-2 pt-1">
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={networkStatus === 'offline'}
+            onClick={() => retryOperation(operation.id)}
+          >
+            <RotateCw className="mr-1 h-3 w-3" />
+            Retry
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => {
+              if (window.confirm('Discard this operation? It will never reach the server.')) {
+                discardOperation(operation.id);
+              }
+            }}
+          >
+            <Trash2 className="mr-1 h-3 w-3" />
+            Discard
+          </Button>
+        </div>
+      )}
+    </li>
+  );
+
+  return (
+    <Sheet open={isOpen} onOpenChange={setIsOpen}>
+      <SheetTrigger asChild>
+        <Button variant="ghost" size="sm" className="relative" aria-label="Sync status">
+          <CloudUpload size={18} />
+          {pendingOperations.length > 0 && (
+            <span
+              className={`absolute -top-1 -right-1 min-w-[1.25rem] h-5 px-1 rounded-full text-[10px] leading-5 text-white ${
+                failedCount > 0 ? 'bg-red-600' : 'bg-amber-500'
+              }`}
+            >
+              {pendingOperations.length}
+            </span>
+          )}
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="w-full sm:max-w-md overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Sync Status</SheetTitle>
+          <SheetDescription>
+            {networkStatus === 'offline'
+              ? 'Offline. Queued changes will be sent when the connection is back.'
+              : pendingOperations.length > 0
+                ? `${pendingOperations.length} change(s) waiting to be sent.`
+                : 'Everything has been sent to the server.'}
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="flex gap-2 my-4">
+          <Button
+            size="sm"
+            disabled={networkStatus === 'offline' || pendingOperations.length === 0}
+            onClick={processPendingOperations}
+          >
+            <RotateCw className="mr-1 h-4 w-4" />
+            Sync now
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={pendingOperations.length === 0}
+            onClick={handleExport}
+          >
+            <Download className="mr-1 h-4 w-4" />
+            Export JSON
+          </Button>
+        </div>
+
+        <div className="space-y-6">
+          <section>
+            <h3 className="text-sm font-semibold mb-2">
+              Waiting ({pendingOperations.length})
+            </h3>
+            {pendingOperations.length > 0 ? (
+              <ul className="space-y-2">
+                {pendingOperations.map(operation => renderOperation(operation))}
+              </ul>
+            ) : (
+              <p className="text-sm text-muted-foreground">No queued changes.</p>
+            )}
+          </section>
+
+          <section>
+            <h3 className="text-sm font-semibold mb-2">
+              Synced this session ({syncedOperations.length})
+            </h3>
+            {syncedOperations.length > 0 ? (
+              <ul className="space-y-2">
+                {syncedOperations.map(operation => renderOperation(operation, operation.syncedAt))}
+              </ul>
+            ) : (
+              <p className="text-sm text-muted-foreground">Nothing synced yet.</p>
+            )}
+          </section>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default SyncStatusPanel;
@@ -0,0 +1,31 @@
+
+import React from 'react';
+import { usePwa } from '@/context/PwaContext';
+import { Button } from '@/components/ui/button';
+import { RefreshCw } from 'lucide-react';
+
+// Shown when a new build of the app has been downloaded. The update is only
+// applied while no sale is in progress, see PwaProvider.
+const UpdateBanner: React.FC = () => {
+  const { updateAvailable, updateRequested, applyUpdate, hasActiveSale } = usePwa();
+
+  if (!updateAvailable) return null;
+
+  return (
+    <div className="px-4 py-2 bg-indigo-50 dark:bg-indigo-950 border-b border-indigo-100 dark:border-indigo-900 flex items-center justify-between gap-2">
+      <div className="flex items-center text-sm text-indigo-900 dark:text-indigo-100">
+        <RefreshCw size={16} className="mr-2 shrink-0" />
+        {updateRequested && hasActiveSale
+          ? 'The update will be installed as soon as the current sale is finished.'
+          : 'A new version of the app is available.'}
+      </div>
+      {!updateRequested && (
+        <Button size="sm" variant="outline" onClick={applyUpdate}>
+          Update now
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default UpdateBanner;
@@ -0,0 +1,117 @@
+
+import React, { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { StockMovement, fetchStockMovements, stockMovementLabels } from '@/lib/stock';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+
+interface StockHistoryDialogProps {
+  item: { id: string; name: string; unit: string } | null;
+  storeId: string;
+  storeName: string;
+  onClose: () => void;
+}
+
+const formatChange = (change: number) => (change > 0 ? `+${change}` : `${change}`);
+
+// Lists who changed an item's stock in a store, when and why
+const StockHistoryDialog: React.FC<StockHistoryDialogProps> = ({ item, storeId, storeName, onClose }) => {
+  const [movements, setMovements] = useState<StockMovement[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState(false);
+
+  useEffect(() => {
+    if (!item) return;
+
+    let cancelled = false;
+    setLoading(true);
+    setError(false);
+    fetchStockMovements(item.id, storeId)
+      .then(rows => {
+        if (!cancelled) setMovements(rows);
+      })
+      .catch(fetchError => {
+        console.error('Error fetching stock movements:', fetchError);
+        if (!cancelled) setError(true);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [item, storeId]);
+
+  return (
+    <Dialog open={!!item} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="sm:max-w-[700px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{item?.name} History</DialogTitle>
+          <DialogDescription>
+            Stock changes at {storeName}, newest first. Quantities are in {item?.unit}.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <p className="text-sm text-muted-foreground py-4 text-center">Loading history...</p>
+        ) : error ? (
+          <p className="text-sm text-red-600 dark:text-red-400 py-4 text-center">
+            Could not load the history. Check your connection and try again.
+          </p>
+        ) : movements.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-4 text-center">No stock changes recorded yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>When</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead className="text-right">Change</TableHead>
+                <TableHead className="text-right">After</TableHead>
+                <TableHead>By</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {movements.map(movement => (
+                <TableRow key={movement.id}>
+                  <TableCell className="whitespace-nowrap">
+                    {format(new Date(movement.createdAt), 'dd MMM HH:mm')}
+                  </TableCell>
+                  <TableCell>
+                    {stockMovementLabels[movement.type]}
+                    {movement.note && (
+                      <p className="text-xs text-muted-foreground">{movement.note}</p>
+                    )}
+                  </TableCell>
+                  <TableCell
+                    className={`text-right ${movement.quantityChange < 0 ? 'text-red-600 dark:text-red-400' : ''}`}
+                  >
+                    {formatChange(movement.quantityChange)}
+                  </TableCell>
+                  <TableCell className="text-right">{movement.quantityAfter}</TableCell>
+                  <TableCell>{movement.createdByName || 'Unknown'}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default StockHistoryDialog;
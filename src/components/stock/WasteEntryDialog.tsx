@@ -0,0 +1,267 @@
+
+import React, { useEffect, useState } from 'react';
+import { useAuth } from '@/context/AuthContext';
+import { usePwa } from '@/context/PwaContext';
+import { useCatalog } from '@/hooks/use-catalog';
+import { toast } from '@/hooks/use-toast';
+import { getSellingDate } from '@/lib/stock';
+import { WasteEntryInput, WasteReason, logWaste, uploadWastePhoto, wasteReasonLabels } from '@/lib/waste';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+interface WasteEntryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type WasteItemKind = 'menuItem' | 'stockItem';
+
+// Logs something thrown away at the user's store. Works offline except for
+// the photo, which needs a connection to upload. The layout keeps it mounted,
+// so the catalog is only loaded while it's open.
+const WasteEntryDialog: React.FC<WasteEntryDialogProps> = ({ open, onOpenChange }) => {
+  const { user } = useAuth();
+  const { networkStatus, addPendingOperation } = usePwa();
+  const { data: stores = [] } = useCatalog('stores', { enabled: open });
+  const { data: menuItems = [] } = useCatalog('menuItems', { enabled: open });
+  const { data: stockItems = [] } = useCatalog('stockItems', { enabled: open });
+
+  // One id per entry, kept across retries so a failed save that already
+  // uploaded the photo overwrites it instead of leaving a second copy
+  const [entryId, setEntryId] = useState('');
+  const [storeId, setStoreId] = useState('');
+  const [itemKind, setItemKind] = useState<WasteItemKind>('menuItem');
+  const [itemId, setItemId] = useState('');
+  const [quantity, setQuantity] = useState('1');
+  const [reason, setReason] = useState<WasteReason>('spilled');
+  const [note, setNote] = useState('');
+  const [photo, setPhoto] = useState<File | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const isOffline = networkStatus === 'offline';
+  const isManager = user?.role === 'manager';
+
+  // Cashiers log for their own store, managers for any store of their branch
+  const branchStores = stores.filter(store => store.branchId === user?.branchId);
+
+  // Only menu items with a recipe can be broken down into stock
+  const wastableMenuItems = menuItems.filter(item =>
+    stockItems.some(stockItem => stockItem.linkedMenuItems.some(line => line.menuItemId === item.id))
+  );
+  const items = itemKind === 'menuItem' ? wastableMenuItems : stockItems;
+  const selectedStockItem = itemKind === 'stockItem' ? stockItems.find(item => item.id === itemId) : undefined;
+
+  useEffect(() => {
+    if (!open) return;
+
+    setEntryId(crypto.randomUUID());
+    setStoreId(user?.storeId || '');
+    setItemKind('menuItem');
+    setItemId('');
+    setQuantity('1');
+    setReason('spilled');
+    setNote('');
+    setPhoto(null);
+  }, [open, user?.storeId]);
+
+  const handleKindChange = (kind: WasteItemKind) => {
+    setItemKind(kind);
+    setItemId('');
+  };
+
+  const handleSubmit = async () => {
+    const wastedQuantity = parseFloat(quantity);
+    if (!storeId || !itemId || isNaN(wastedQuantity) || wastedQuantity <= 0) {
+      toast({
+        title: "Missing or invalid fields",
+        description: "Choose the store and item, and enter a quantity above zero.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const entry: WasteEntryInput = {
+      storeId,
+      reason,
+      quantity: wastedQuantity,
+      stockItemId: itemKind === 'stockItem' ? itemId : undefined,
+      menuItemId: itemKind === 'menuItem' ? itemId : undefined,
+      note: note.trim(),
+      timestamp: new Date().toISOString(),
+    };
+
+    setSaving(true);
+    try {
+      if (isOffline) {
+        addPendingOperation({ type: 'LOG_WASTE', data: entry }, entryId);
+
+        toast({
+          title: "Waste saved offline",
+          description: "It will be taken out of stock when the connection is back.",
+        });
+      } else {
+        if (photo) {
+          entry.photoPath = await uploadWastePhoto(storeId, entryId, photo);
+        }
+        const cost = await logWaste(entryId, getSellingDate(entry.timestamp), entry);
+
+        toast({
+          title: "Waste logged",
+          description: `Rp ${Math.round(cost).toLocaleString()} written off as ${wasteReasonLabels[reason].toLowerCase()}.`,
+        });
+      }
+
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error logging waste:', error);
+      toast({
+        title: "Error logging waste",
+        description: "The waste was not recorded. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Log Waste</DialogTitle>
+          <DialogDescription>
+            Record anything thrown away instead of sold. It comes out of the store's stock straight away.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-2">
+          {isManager && (
+            <div className="space-y-2">
+              <Label>Store</Label>
+              <Select value={storeId} onValueChange={setStoreId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select store" />
+                </SelectTrigger>
+                <SelectContent>
+                  {branchStores.map(store => (
+                    <SelectItem key={store.id} value={store.id}>{store.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Log by</Label>
+              <Select value={itemKind} onValueChange={value => handleKindChange(value as WasteItemKind)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="menuItem">Menu item</SelectItem>
+                  <SelectItem value="stockItem">Stock item</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Reason</Label>
+              <Select value={reason} onValueChange={value => setReason(value as WasteReason)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(wasteReasonLabels) as WasteReason[]).map(key => (
+                    <SelectItem key={key} value={key}>{wasteReasonLabels[key]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-[1fr_8rem] gap-4">
+            <div className="space-y-2">
+              <Label>Item</Label>
+              <Select value={itemId} onValueChange={setItemId}>
+                <SelectTrigger>
+                  <SelectValue placeholder={items.length > 0 ? 'Select item' : 'No items available'} />
+                </SelectTrigger>
+                <SelectContent>
+                  {items.map(item => (
+                    <SelectItem key={item.id} value={item.id}>{item.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="wasteQuantity">
+                {selectedStockItem ? `Quantity (${selectedStockItem.unit})` : 'Quantity'}
+              </Label>
+              <Input
+                id="wasteQuantity"
+                type="number"
+                min="0"
+                step="any"
+                value={quantity}
+                onChange={e => setQuantity(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="wasteNote">Note</Label>
+            <Textarea
+              id="wasteNote"
+              placeholder="What happened?"
+              value={note}
+              onChange={e => setNote(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="wastePhoto">Photo</Label>
+            <Input
+              id="wastePhoto"
+              type="file"
+              accept="image/*"
+              capture="environment"
+              disabled={isOffline}
+              onChange={e => setPhoto(e.target.files?.[0] || null)}
+            />
+            {isOffline && (
+              <p className="text-xs text-muted-foreground">Photos can be added when you're back online.</p>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={saving}>
+            {saving ? 'Saving...' : 'Log Waste'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default WasteEntryDialog;
@@ -1,19 +1,52 @@
 
-import React, { createContext, useContext, useState, useEffect } from 'react';
-import { toast } from '@/components/ui/use-toast';
+import React, { createContext, useContext, useState, useEffect, useRef, useCallback } from 'react';
 import { useToast } from "@/hooks/use-toast";
+import {
+  PendingOperation,
+  PendingOperationInput,
+  replayDueOperations,
+} from '@/lib/outbox';
+import {
+  clearSyncCredentials,
+  getPendingOperations,
+  savePendingOperations,
+  setSyncCredentials,
+} from '@/lib/local-db';
+import { SUPABASE_PUBLISHABLE_KEY, SUPABASE_URL, supabase } from '@/integrations/supabase/client';
+import * as serviceWorkerRegistration from '@/serviceWorkerRegistration';
 
 type NetworkStatus = 'online' | 'offline';
 
+export type SyncedOperation = PendingOperation & { syncedAt: string };
+
+// How many synced operations the sync status panel keeps
+const SYNCED_HISTORY_SIZE = 50;
+
+// Background Sync isn't part of the DOM typings yet
+type BackgroundSyncRegistration = ServiceWorkerRegistration & {
+  sync?: { register: (tag: string) => Promise<void> };
+};
+
 interface PwaContextType {
   networkStatus: NetworkStatus;
   installPrompt: Event | null;
   promptInstall: () => void;
   isStandalone: boolean;
-  pendingOperations: Array<any>;
-  addPendingOperation: (operation: any) => void;
+  pendingOperations: PendingOperation[];
+  // The id is sent with the replay so the server can drop duplicates. Pass
+  // one to reuse a key the caller already holds.
+  addPendingOperation: (operation: PendingOperationInput, id?: string) => void;
   processPendingOperations: () => void;
   clearPendingOperations: () => void;
+  // Operations synced during this session, newest first
+  syncedOperations: SyncedOperation[];
+  retryOperation: (id: string) => void;
+  discardOperation: (id: string) => void;
+  updateAvailable: boolean;
+  updateRequested: boolean;
+  applyUpdate: () => void;
+  hasActiveSale: boolean;
+  setHasActiveSale: (active: boolean) => void;
 }
 
 const PwaContext = createContext<PwaContextType>({
@@ -25,6 +58,14 @@ const PwaContext = createContext<PwaContextType>({
   addPendingOperation: () => {},
   processPendingOperations: () => {},
   clearPendingOperations: () => {},
+  syncedOperations: [],
+  retryOperation: () => {},
+  discardOperation: () => {},
+  updateAvailable: false,
+  updateRequested: false,
+  applyUpdate: () => {},
+  hasActiveSale: false,
+  setHasActiveSale: () => {},
 });
 
 export const usePwa = () => useContext(PwaContext);
@@ -33,12 +74,90 @@ export const PwaProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const [networkStatus, setNetworkStatus] = useState<NetworkStatus>(navigator.onLine ? 'online' : 'offline');
   const [installPrompt, setInstallPrompt] = useState<Event | null>(null);
   const [isStandalone, setIsStandalone] = useState<boolean>(false);
-  const [pendingOperations, setPendingOperations] = useState<Array<any>>([]);
+  const [pendingOperations, setPendingOperations] = useState<PendingOperation[]>([]);
+  const [syncedOperations, setSyncedOperations] = useState<SyncedOperation[]>([]);
+  const [waitingWorker, setWaitingWorker] = useState<ServiceWorker | null>(null);
+  const [updateRequested, setUpdateRequested] = useState(false);
+  const [hasActiveSale, setHasActiveSale] = useState(false);
   const { toast } = useToast();
 
+  // The replay loop runs outside the render cycle, so it reads the queue
+  // through a ref and guards against overlapping runs.
+  const operationsRef = useRef<PendingOperation[]>([]);
+  const isLoadedRef = useRef(false);
+  const isProcessingRef = useRef(false);
+  const retryTimerRef = useRef<ReturnType<typeof setTimeout>>();
+
+  const updateOperations = useCallback((update: (operations: PendingOperation[]) => PendingOperation[]) => {
+    operationsRef.current = update(operationsRef.current);
+    setPendingOperations(operationsRef.current);
+  }, []);
+
+  const recordSynced = useCallback((operations: PendingOperation[]) => {
+    if (operations.length === 0) return;
+
+    const syncedAt = new Date().toISOString();
+    setSyncedOperations(synced => [
+      ...operations.map(operation => ({ ...operation, syncedAt })).reverse(),
+      ...synced,
+    ].slice(0, SYNCED_HISTORY_SIZE));
+  }, []);
+
+  const processPendingOperations = useCallback(async () => {
+    if (!navigator.onLine || !isLoadedRef.current || isProcessingRef.current) return;
+
+    clearTimeout(retryTimerRef.current);
+    isProcessingRef.current = true;
+
+    let syncedCount = 0;
+    let failedCount = 0;
+
+    try {
+      await replayDueOperations(operationsRef.current, {
+        onSynced: operation => {
+          updateOperations(operations => operations.filter(op => op.id !== operation.id));
+          recordSynced([operation]);
+          syncedCount++;
+        },
+        onFailed: (operation, error) => {
+          console.error(`Error syncing ${operation.type}:`, error);
+          updateOperations(operations => operations.map(op => op.id === operation.id ? operation : op));
+          failedCount++;
+        },
+      });
+    } finally {
+      isProcessingRef.current = false;
+    }
+
+    if (syncedCount > 0) {
+      toast({
+        title: "Sync complete",
+        description: `Successfully synced ${syncedCount} operation${syncedCount !== 1 ? 's' : ''} with the server.`,
+      });
+    }
+
+    if (failedCount > 0) {
+      toast({
+        title: "Sync failed",
+        description: `We couldn't sync ${failedCount} change${failedCount !== 1 ? 's' : ''} with the server. We'll try again later.`,
+        variant: "destructive"
+      });
+    }
+
+    // Schedule the next retry for operations that are backing off
+    const retryTimes = operationsRef.current
+      .filter(operation => operation.status === 'pending' && operation.nextAttemptAt)
+      .map(operation => new Date(operation.nextAttemptAt).getTime());
+
+    if (retryTimes.length > 0) {
+      const delay = Math.max(Math.min(...retryTimes) - Date.now(), 0);
+      retryTimerRef.current = setTimeout(() => processPendingOperations(), delay);
+    }
+  }, [toast, updateOperations, recordSynced]);
+
   useEffect(() => {
     // Check if the app is running in standalone mode (installed PWA)
-    const isStandaloneMode = window.matchMedia('(display-mode: standalone)').matches || 
+    const isStandaloneMode = window.matchMedia('(display-mode: standalone)').matches ||
                              (window.navigator as any).standalone === true;
     setIsStandalone(isStandaloneMode);
 
@@ -51,9 +170,10 @@ export const PwaProvider: React.FC<{ children: React.ReactNode }> = ({ children
       });
       processPendingOperations();
     };
-    
+
     const handleOffline = () => {
       setNetworkStatus('offline');
+      clearTimeout(retryTimerRef.current);
       toast({
         title: "You're offline",
         description: "Don't worry, you can still use the app. Changes will sync when you're back online.",
@@ -71,22 +191,125 @@ export const PwaProvider: React.FC<{ children: React.ReactNode }> = ({ children
     window.addEventListener('offline', handleOffline);
     window.addEventListener('beforeinstallprompt', handleBeforeInstallPrompt);
 
-    // Load pending operations from local storage
-    const storedOperations = localStorage.getItem('pendingOperations');
-    if (storedOperations) {
-      setPendingOperations(JSON.parse(storedOperations));
-    }
+    // Load the queue left over from a previous session and send it
+    getPendingOperations<PendingOperation>()
+      .catch(error => {
+        console.error('Error loading pending operations:', error);
+        return [] as PendingOperation[];
+      })
+      .then(storedOperations => {
+        // Operations queued by older builds only carry type, data and timestamp
+        const normalizedOperations = storedOperations.map(operation => ({
+          ...operation,
+          attempts: operation.attempts || 0,
+          status: operation.status || 'pending',
+        }));
+        isLoadedRef.current = true;
+        // Keep anything added while the queue was loading
+        updateOperations(operations => [
+          ...normalizedOperations.filter(stored => !operations.some(op => op.id === stored.id)),
+          ...operations,
+        ]);
+        processPendingOperations();
+      });
 
     return () => {
       window.removeEventListener('online', handleOnline);
       window.removeEventListener('offline', handleOffline);
       window.removeEventListener('beforeinstallprompt', handleBeforeInstallPrompt);
+      clearTimeout(retryTimerRef.current);
+    };
+  }, [processPendingOperations, toast, updateOperations]);
+
+  useEffect(() => {
+    // A new build is installed in the background and waits until we tell it
+    // to take over
+    serviceWorkerRegistration.register({
+      onUpdate: (registration) => setWaitingWorker(registration.waiting),
+    });
+
+    if (!('serviceWorker' in navigator)) return;
+
+    // Reload once the new worker controls the page so it serves the new build
+    let isReloading = false;
+    const handleControllerChange = () => {
+      if (isReloading) return;
+      isReloading = true;
+      window.location.reload();
+    };
+
+    navigator.serviceWorker.addEventListener('controllerchange', handleControllerChange);
+    return () => {
+      navigator.serviceWorker.removeEventListener('controllerchange', handleControllerChange);
     };
   }, []);
 
+  useEffect(() => {
+    // The service worker replays the outbox through Background Sync when the
+    // tab may be closed, so it needs the session to call Supabase itself
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+      const saveCredentials = session
+        ? setSyncCredentials({
+            supabaseUrl: SUPABASE_URL,
+            supabaseKey: SUPABASE_PUBLISHABLE_KEY,
+            accessToken: session.access_token,
+            expiresAt: session.expires_at,
+          })
+        : clearSyncCredentials();
+
+      saveCredentials.catch(error => console.error('Error saving sync credentials:', error));
+    });
+
+    if (!('serviceWorker' in navigator)) {
+      return () => subscription.unsubscribe();
+    }
+
+    // Apply what the service worker synced so the queue shown here matches
+    // the one it left in IndexedDB
+    const handleMessage = (event: MessageEvent) => {
+      if (event.data?.type !== 'PENDING_OPERATIONS_SYNCED') return;
+
+      const { syncedIds, failedOperations } = event.data as {
+        syncedIds: string[];
+        failedOperations: PendingOperation[];
+      };
+
+      recordSynced(operationsRef.current.filter(op => syncedIds.includes(op.id)));
+      updateOperations(operations => operations
+        .filter(op => !syncedIds.includes(op.id))
+        .map(op => failedOperations.find(failed => failed.id === op.id) || op)
+      );
+
+      if (syncedIds.length > 0) {
+        toast({
+          title: "Sync complete",
+          description: `Successfully synced ${syncedIds.length} operation${syncedIds.length !== 1 ? 's' : ''} in the background.`,
+        });
+      }
+    };
+
+    navigator.serviceWorker.addEventListener('message', handleMessage);
+    return () => {
+      subscription.unsubscribe();
+      navigator.serviceWorker.removeEventListener('message', handleMessage);
+    };
+  }, [toast, updateOperations, recordSynced]);
+
+  // Reloading in the middle of a sale would lose the cart, so an accepted
+  // update waits until the till is idle
+  useEffect(() => {
+    if (updateRequested && waitingWorker && !hasActiveSale) {
+      waitingWorker.postMessage({ type: 'SKIP_WAITING' });
+    }
+  }, [updateRequested, waitingWorker, hasActiveSale]);
+
   // Store pending operations when they change
   useEffect(() => {
-    localStorage.setItem('pendingOperations', JSON.stringify(pendingOperations));
+    // Don't overwrite the stored queue before it has been read
+    if (!isLoadedRef.current) return;
+
+    savePendingOperations(pendingOperations)
+      .catch(error => console.error('Error saving pending operations:', error));
   }, [pendingOperations]);
 
   const promptInstall = () => {
@@ -103,38 +326,50 @@ export const PwaProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
 
-  const addPendingOperation = (operation: any) => {
-    setPendingOperations(prev => [...prev, { ...operation, timestamp: new Date().toISOString() }]);
-  };
+  const addPendingOperation = (operation: PendingOperationInput, id = crypto.randomUUID()) => {
+    // Adding the same operation twice, e.g. from a double tap, keeps one copy
+    if (operationsRef.current.some(op => op.id === id)) return;
 
-  const processPendingOperations = async () => {
-    if (networkStatus === 'offline' || pendingOperations.length === 0) return;
-    
-    // In a real app, this would use the Supabase API to process operations
-    console.log('Processing pending operations:', pendingOperations);
-    
-    try {
-      // Mock successful processing - in a real app, this would interact with your backend
-      // Maybe use a queue or batched operations for efficiency
-      
-      // For now, we'll just simulate a success
-      toast({
-        title: "Sync complete",
-        description: `Successfully synced ${pendingOperations.length} operations with the server.`,
-      });
-      
-      clearPendingOperations();
-    } catch (error) {
-      toast({
-        title: "Sync failed",
-        description: "We couldn't sync your changes with the server. We'll try again later.",
-        variant: "destructive"
-      });
+    updateOperations(operations => [
+      ...operations,
+      {
+        ...operation,
+        id,
+        timestamp: new Date().toISOString(),
+        attempts: 0,
+        status: 'pending',
+      },
+    ]);
+
+    // Let the service worker send it once connectivity returns, even if this
+    // tab has been closed by then
+    if ('serviceWorker' in navigator) {
+      navigator.serviceWorker.ready
+        .then(registration => (registration as BackgroundSyncRegistration).sync?.register('syncPendingOperations'))
+        .catch(error => console.error('Error registering background sync:', error));
     }
   };
 
   const clearPendingOperations = () => {
-    setPendingOperations([]);
+    updateOperations(() => []);
+  };
+
+  // Gives an operation a fresh set of attempts and sends it straight away
+  const retryOperation = (id: string) => {
+    updateOperations(operations => operations.map(op =>
+      op.id === id
+        ? { ...op, attempts: 0, status: 'pending', nextAttemptAt: undefined }
+        : op
+    ));
+    processPendingOperations();
+  };
+
+  const discardOperation = (id: string) => {
+    updateOperations(operations => operations.filter(op => op.id !== id));
+  };
+
+  const applyUpdate = () => {
+    setUpdateRequested(true);
   };
 
   return (
@@ -147,7 +382,15 @@ export const PwaProvider: React.FC<{ children: React.ReactNode }> = ({ children
         pendingOperations,
         addPendingOperation,
         processPendingOperations,
-        clearPendingOperations
+        clearPendingOperations,
+        syncedOperations,
+        retryOperation,
+        discardOperation,
+        updateAvailable: waitingWorker !== null,
+        updateRequested,
+        applyUpdate,
+        hasActiveSale,
+        setHasActiveSale
       }}
     >
       {children}
@@ -0,0 +1,107 @@
+import { useEffect } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { usePwa } from '@/context/PwaContext';
+import { CatalogKey, getCachedList, setCachedList } from '@/lib/local-db';
+import {
+  CatalogItems,
+  applyPendingChanges,
+  deleteCatalogItem,
+  fetchCatalogList,
+  queryKeys,
+  saveCatalogItem,
+  toCatalogOperation,
+} from '@/lib/repository';
+
+// Reads a catalog list from Supabase and refreshes the local copy the tills
+// fall back to offline. Changes still queued in the outbox are laid over the
+// server's list until they have been sent. Pass enabled: false to hold off
+// loading until the list is actually needed.
+export const useCatalog = <K extends CatalogKey>(key: K, { enabled = true }: { enabled?: boolean } = {}) => {
+  const queryClient = useQueryClient();
+  const { networkStatus, pendingOperations, syncedOperations } = usePwa();
+  const lastSynced = syncedOperations[0];
+
+  // A replayed change may have touched this list
+  useEffect(() => {
+    if (lastSynced) {
+      queryClient.invalidateQueries({ queryKey: queryKeys.catalog(key) });
+    }
+  }, [key, lastSynced, queryClient]);
+
+  return useQuery({
+    queryKey: queryKeys.catalog(key),
+    enabled,
+    queryFn: async () => {
+      if (networkStatus === 'offline') {
+        return (await getCachedList<CatalogItems[K]>(key)) || [];
+      }
+
+      try {
+        const items = applyPendingChanges(key, await fetchCatalogList(key), pendingOperations);
+        await setCachedList(key, items);
+        return items;
+      } catch (error) {
+        console.error(`Error fetching ${key}:`, error);
+        const cached = await getCachedList<CatalogItems[K]>(key);
+        if (cached) return cached;
+        throw error;
+      }
+    },
+  });
+};
+
+type CatalogChange<K extends CatalogKey> =
+  | { type: 'create' | 'update'; item: CatalogItems[K] }
+  | { type: 'delete'; id: string };
+
+// Applies a change to the cached list straight away and writes it to Supabase,
+// or queues it in the outbox while offline. A failed write restores the list.
+export const useCatalogMutation = <K extends CatalogKey>(key: K) => {
+  const queryClient = useQueryClient();
+  const { networkStatus, addPendingOperation } = usePwa();
+  const queryKey = queryKeys.catalog(key);
+
+  const setList = async (items: CatalogItems[K][]) => {
+    queryClient.setQueryData(queryKey, items);
+    await setCachedList(key, items);
+  };
+
+  return useMutation({
+    mutationFn: async (change: CatalogChange<K>) => {
+      if (networkStatus === 'offline') {
+        addPendingOperation(toCatalogOperation(key, change));
+        return;
+      }
+
+      if (change.type === 'delete') {
+        await deleteCatalogItem(key, change.id);
+      } else {
+        await saveCatalogItem(key, change.item);
+      }
+    },
+    onMutate: async (change: CatalogChange<K>) => {
+      await queryClient.cancelQueries({ queryKey });
+      const previous = queryClient.getQueryData<CatalogItems[K][]>(queryKey) || [];
+
+      if (change.type === 'delete') {
+        await setList(previous.filter(item => item.id !== change.id));
+      } else if (previous.some(item => item.id === change.item.id)) {
+        await setList(previous.map(item => item.id === change.item.id ? change.item : item));
+      } else {
+        await setList([...previous, change.item]);
+      }
+
+      return { previous };
+    },
+    onError: async (_error, _change, context) => {
+      if (context) {
+        await setList(context.previous);
+      }
+    },
+    onSettled: () => {
+      if (networkStatus === 'online') {
+        queryClient.invalidateQueries({ queryKey });
+      }
+    },
+  });
+};
@@ -75,6 +75,80 @@ export type Database = {
         }
         Relationships: []
       }
+      bundle_slot_items: {
+        Row: {
+          created_at: string
+          menu_item_id: string
+          slot_id: string
+          sort_order: number
+        }
+        Insert: {
+          created_at?: string
+          menu_item_id: string
+          slot_id: string
+          sort_order?: number
+        }
+        Update: {
+          created_at?: string
+          menu_item_id?: string
+          slot_id?: string
+          sort_order?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bundle_slot_items_menu_item_id_fkey"
+            columns: ["menu_item_id"]
+            isOneToOne: false
+            referencedRelation: "menu_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bundle_slot_items_slot_id_fkey"
+            columns: ["slot_id"]
+            isOneToOne: false
+            referencedRelation: "bundle_slots"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      bundle_slots: {
+        Row: {
+          bundle_id: string
+          created_at: string
+          id: string
+          name: string
+          quantity: number
+          sort_order: number
+          updated_at: string
+        }
+        Insert: {
+          bundle_id: string
+          created_at?: string
+          id?: string
+          name: string
+          quantity?: number
+          sort_order?: number
+          updated_at?: string
+        }
+        Update: {
+          bundle_id?: string
+          created_at?: string
+          id?: string
+          name?: string
+          quantity?: number
+          sort_order?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bundle_slots_bundle_id_fkey"
+            columns: ["bundle_id"]
+            isOneToOne: false
+            referencedRelation: "menu_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       categories: {
         Row: {
           created_at: string
@@ -99,6 +173,203 @@ export type Database = {
         }
         Relationships: []
       }
+      goods_receipt_lines: {
+        Row: {
+          batch_number: string | null
+          expiry_date: string | null
+          id: string
+          purchase_order_line_id: string
+          quantity: number
+          receipt_id: string
+          stock_item_id: string
+          unit_cost: number
+        }
+        Insert: {
+          batch_number?: string | null
+          expiry_date?: string | null
+          id?: string
+          purchase_order_line_id: string
+          quantity: number
+          receipt_id: string
+          stock_item_id: string
+          unit_cost: number
+        }
+        Update: {
+          batch_number?: string | null
+          expiry_date?: string | null
+          id?: string
+          purchase_order_line_id?: string
+          quantity?: number
+          receipt_id?: string
+          stock_item_id?: string
+          unit_cost?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "goods_receipt_lines_purchase_order_line_id_fkey"
+            columns: ["purchase_order_line_id"]
+            isOneToOne: false
+            referencedRelation: "purchase_order_lines"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "goods_receipt_lines_receipt_id_fkey"
+            columns: ["receipt_id"]
+            isOneToOne: false
+            referencedRelation: "goods_receipts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "goods_receipt_lines_stock_item_id_fkey"
+            columns: ["stock_item_id"]
+            isOneToOne: false
+            referencedRelation: "stock_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      goods_receipts: {
+        Row: {
+          client_operation_id: string
+          id: string
+          notes: string | null
+          purchase_order_id: string
+          received_at: string
+          received_by: string | null
+          selling_date: string
+          store_id: string
+        }
+        Insert: {
+          client_operation_id: string
+          id?: string
+          notes?: string | null
+          purchase_order_id: string
+          received_at?: string
+          received_by?: string | null
+          selling_date: string
+          store_id: string
+        }
+        Update: {
+          client_operation_id?: string
+          id?: string
+          notes?: string | null
+          purchase_order_id?: string
+          received_at?: string
+          received_by?: string | null
+          selling_date?: string
+          store_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "goods_receipts_purchase_order_id_fkey"
+            columns: ["purchase_order_id"]
+            isOneToOne: false
+            referencedRelation: "purchase_orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "goods_receipts_received_by_fkey"
+            columns: ["received_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "goods_receipts_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      menu_item_price_overrides: {
+        Row: {
+          branch_id: string | null
+          cash_price: number
+          created_at: string
+          id: string
+          menu_item_id: string
+          qris_price: number
+          store_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          branch_id?: string | null
+          cash_price: number
+          created_at?: string
+          id?: string
+          menu_item_id: string
+          qris_price: number
+          store_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          branch_id?: string | null
+          cash_price?: number
+          created_at?: string
+          id?: string
+          menu_item_id?: string
+          qris_price?: number
+          store_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "menu_item_price_overrides_branch_id_fkey"
+            columns: ["branch_id"]
+            isOneToOne: false
+            referencedRelation: "branches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "menu_item_price_overrides_menu_item_id_fkey"
+            columns: ["menu_item_id"]
+            isOneToOne: false
+            referencedRelation: "menu_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "menu_item_price_overrides_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      menu_item_prices: {
+        Row: {
+          created_at: string
+          menu_item_id: string
+          payment_method: string
+          price: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          menu_item_id: string
+          payment_method: string
+          price: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          menu_item_id?: string
+          payment_method?: string
+          price?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "menu_item_prices_menu_item_id_fkey"
+            columns: ["menu_item_id"]
+            isOneToOne: false
+            referencedRelation: "menu_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       menu_items: {
         Row: {
           category_id: string | null
@@ -107,6 +378,7 @@ export type Database = {
           id: string
           image_url: string | null
           is_active: boolean | null
+          item_type: string
           name: string
           price: number
           updated_at: string
@@ -118,6 +390,7 @@ export type Database = {
           id?: string
           image_url?: string | null
           is_active?: boolean | null
+          item_type?: string
           name: string
           price: number
           updated_at?: string
@@ -129,225 +402,1108 @@ export type Database = {
           id?: string
           image_url?: string | null
           is_active?: boolean | null
+          item_type?: string
           name?: string
           price?: number
           updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "menu_items_category_id_fkey"
-            columns: ["category_id"]
+            foreignKeyName: "menu_items_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      modifier_groups: {
+        Row: {
+          created_at: string
+          id: string
+          is_required: boolean
+          max_select: number | null
+          menu_item_id: string
+          min_select: number
+          name: string
+          selection: string
+          sort_order: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          is_required?: boolean
+          max_select?: number | null
+          menu_item_id: string
+          min_select?: number
+          name: string
+          selection?: string
+          sort_order?: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          is_required?: boolean
+          max_select?: number | null
+          menu_item_id?: string
+          min_select?: number
+          name?: string
+          selection?: string
+          sort_order?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "modifier_groups_menu_item_id_fkey"
+            columns: ["menu_item_id"]
+            isOneToOne: false
+            referencedRelation: "menu_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      modifier_options: {
+        Row: {
+          created_at: string
+          group_id: string
+          id: string
+          name: string
+          price_delta: number
+          sort_order: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          group_id: string
+          id?: string
+          name: string
+          price_delta?: number
+          sort_order?: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          group_id?: string
+          id?: string
+          name?: string
+          price_delta?: number
+          sort_order?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "modifier_options_group_id_fkey"
+            columns: ["group_id"]
+            isOneToOne: false
+            referencedRelation: "modifier_groups"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profiles: {
+        Row: {
+          branch_id: string | null
+          created_at: string
+          email: string
+          id: string
+          name: string
+          role: string
+          store_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          branch_id?: string | null
+          created_at?: string
+          email: string
+          id: string
+          name: string
+          role: string
+          store_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          branch_id?: string | null
+          created_at?: string
+          email?: string
+          id?: string
+          name?: string
+          role?: string
+          store_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "profiles_branch_id_fkey"
+            columns: ["branch_id"]
+            isOneToOne: false
+            referencedRelation: "branches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "profiles_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      purchase_order_lines: {
+        Row: {
+          created_at: string
+          id: string
+          pack_cost: number
+          pack_quantity: number
+          pack_size: number
+          purchase_order_id: string
+          received_quantity: number
+          stock_item_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          pack_cost: number
+          pack_quantity: number
+          pack_size: number
+          purchase_order_id: string
+          received_quantity?: number
+          stock_item_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          pack_cost?: number
+          pack_quantity?: number
+          pack_size?: number
+          purchase_order_id?: string
+          received_quantity?: number
+          stock_item_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "purchase_order_lines_purchase_order_id_fkey"
+            columns: ["purchase_order_id"]
+            isOneToOne: false
+            referencedRelation: "purchase_orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_order_lines_stock_item_id_fkey"
+            columns: ["stock_item_id"]
+            isOneToOne: false
+            referencedRelation: "stock_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      purchase_orders: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          expected_date: string | null
+          id: string
+          notes: string | null
+          order_number: number
+          sent_at: string | null
+          status: string
+          store_id: string
+          supplier_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          expected_date?: string | null
+          id?: string
+          notes?: string | null
+          order_number?: never
+          sent_at?: string | null
+          status?: string
+          store_id: string
+          supplier_id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          expected_date?: string | null
+          id?: string
+          notes?: string | null
+          order_number?: never
+          sent_at?: string | null
+          status?: string
+          store_id?: string
+          supplier_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "purchase_orders_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_orders_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_orders_supplier_id_fkey"
+            columns: ["supplier_id"]
+            isOneToOne: false
+            referencedRelation: "suppliers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sale_stock_shortfalls: {
+        Row: {
+          created_at: string
+          deducted_quantity: number
+          required_quantity: number
+          selling_date: string
+          stock_item_id: string
+          store_id: string
+          transaction_id: string
+        }
+        Insert: {
+          created_at?: string
+          deducted_quantity: number
+          required_quantity: number
+          selling_date: string
+          stock_item_id: string
+          store_id: string
+          transaction_id: string
+        }
+        Update: {
+          created_at?: string
+          deducted_quantity?: number
+          required_quantity?: number
+          selling_date?: string
+          stock_item_id?: string
+          store_id?: string
+          transaction_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sale_stock_shortfalls_stock_item_id_fkey"
+            columns: ["stock_item_id"]
+            isOneToOne: false
+            referencedRelation: "stock_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sale_stock_shortfalls_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sale_stock_shortfalls_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stock_adjustments: {
+        Row: {
+          client_operation_id: string
+          created_at: string
+          created_by: string | null
+          delta: number
+          selling_date: string
+          stock_item_id: string
+          store_id: string
+        }
+        Insert: {
+          client_operation_id: string
+          created_at?: string
+          created_by?: string | null
+          delta: number
+          selling_date: string
+          stock_item_id: string
+          store_id: string
+        }
+        Update: {
+          client_operation_id?: string
+          created_at?: string
+          created_by?: string | null
+          delta?: number
+          selling_date?: string
+          stock_item_id?: string
+          store_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_adjustments_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_adjustments_stock_item_id_fkey"
+            columns: ["stock_item_id"]
+            isOneToOne: false
+            referencedRelation: "stock_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_adjustments_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stock_conflicts: {
+        Row: {
+          base_quantity: number
+          base_updated_at: string | null
+          client_operation_id: string
+          created_at: string
+          created_by: string | null
+          delta: number
+          id: string
+          requested_quantity: number
+          resolution: string | null
+          resolved_at: string | null
+          resolved_by: string | null
+          resolved_quantity: number | null
+          selling_date: string
+          server_quantity: number | null
+          stock_item_id: string
+          store_id: string
+        }
+        Insert: {
+          base_quantity: number
+          base_updated_at?: string | null
+          client_operation_id: string
+          created_at?: string
+          created_by?: string | null
+          delta: number
+          id?: string
+          requested_quantity: number
+          resolution?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          resolved_quantity?: number | null
+          selling_date: string
+          server_quantity?: number | null
+          stock_item_id: string
+          store_id: string
+        }
+        Update: {
+          base_quantity?: number
+          base_updated_at?: string | null
+          client_operation_id?: string
+          created_at?: string
+          created_by?: string | null
+          delta?: number
+          id?: string
+          requested_quantity?: number
+          resolution?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          resolved_quantity?: number | null
+          selling_date?: string
+          server_quantity?: number | null
+          stock_item_id?: string
+          store_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_conflicts_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_conflicts_resolved_by_fkey"
+            columns: ["resolved_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_conflicts_stock_item_id_fkey"
+            columns: ["stock_item_id"]
+            isOneToOne: false
+            referencedRelation: "stock_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_conflicts_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stock_counts: {
+        Row: {
+          counted_quantity: number
+          created_at: string
+          created_by: string | null
+          expected_quantity: number
+          id: string
+          opening_quantity: number
+          selling_date: string
+          sold_quantity: number
+          stock_item_id: string
+          store_id: string
+        }
+        Insert: {
+          counted_quantity: number
+          created_at?: string
+          created_by?: string | null
+          expected_quantity: number
+          id?: string
+          opening_quantity: number
+          selling_date: string
+          sold_quantity: number
+          stock_item_id: string
+          store_id: string
+        }
+        Update: {
+          counted_quantity?: number
+          created_at?: string
+          created_by?: string | null
+          expected_quantity?: number
+          id?: string
+          opening_quantity?: number
+          selling_date?: string
+          sold_quantity?: number
+          stock_item_id?: string
+          store_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_counts_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_counts_stock_item_id_fkey"
+            columns: ["stock_item_id"]
+            isOneToOne: false
+            referencedRelation: "stock_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_counts_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stock_item_menu_items: {
+        Row: {
+          created_at: string
+          id: string
+          menu_item_id: string
+          quantity: number
+          stock_item_id: string
+          unit: string | null
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          menu_item_id: string
+          quantity?: number
+          stock_item_id: string
+          unit?: string | null
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          menu_item_id?: string
+          quantity?: number
+          stock_item_id?: string
+          unit?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_item_menu_items_menu_item_id_fkey"
+            columns: ["menu_item_id"]
+            isOneToOne: false
+            referencedRelation: "menu_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_item_menu_items_stock_item_id_fkey"
+            columns: ["stock_item_id"]
+            isOneToOne: false
+            referencedRelation: "stock_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stock_items: {
+        Row: {
+          created_at: string
+          current_stock: number
+          id: string
+          minimum_stock: number
+          name: string
+          unit: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          current_stock?: number
+          id?: string
+          minimum_stock?: number
+          name: string
+          unit: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          current_stock?: number
+          id?: string
+          minimum_stock?: number
+          name?: string
+          unit?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      stock_movements: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          movement_type: string
+          note: string | null
+          quantity_after: number
+          quantity_change: number
+          selling_date: string | null
+          stock_item_id: string
+          store_id: string | null
+          transaction_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          movement_type: string
+          note?: string | null
+          quantity_after: number
+          quantity_change: number
+          selling_date?: string | null
+          stock_item_id: string
+          store_id?: string | null
+          transaction_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          movement_type?: string
+          note?: string | null
+          quantity_after?: number
+          quantity_change?: number
+          selling_date?: string | null
+          stock_item_id?: string
+          store_id?: string | null
+          transaction_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_movements_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_movements_stock_item_id_fkey"
+            columns: ["stock_item_id"]
+            isOneToOne: false
+            referencedRelation: "stock_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_movements_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_movements_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stock_opening_lines: {
+        Row: {
+          closing_quantity: number | null
+          counted_quantity: number
+          opening_id: string
+          proposed_quantity: number
+          received_quantity: number
+          stock_item_id: string
+        }
+        Insert: {
+          closing_quantity?: number | null
+          counted_quantity: number
+          opening_id: string
+          proposed_quantity: number
+          received_quantity?: number
+          stock_item_id: string
+        }
+        Update: {
+          closing_quantity?: number | null
+          counted_quantity?: number
+          opening_id?: string
+          proposed_quantity?: number
+          received_quantity?: number
+          stock_item_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_opening_lines_opening_id_fkey"
+            columns: ["opening_id"]
+            isOneToOne: false
+            referencedRelation: "stock_openings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_opening_lines_stock_item_id_fkey"
+            columns: ["stock_item_id"]
+            isOneToOne: false
+            referencedRelation: "stock_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stock_openings: {
+        Row: {
+          client_operation_id: string
+          created_at: string
+          created_by: string | null
+          id: string
+          selling_date: string
+          store_id: string
+        }
+        Insert: {
+          client_operation_id: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          selling_date: string
+          store_id: string
+        }
+        Update: {
+          client_operation_id?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          selling_date?: string
+          store_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_openings_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_openings_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stock_transfer_lines: {
+        Row: {
+          quantity_received: number | null
+          quantity_sent: number
+          stock_item_id: string
+          transfer_id: string
+        }
+        Insert: {
+          quantity_received?: number | null
+          quantity_sent: number
+          stock_item_id: string
+          transfer_id: string
+        }
+        Update: {
+          quantity_received?: number | null
+          quantity_sent?: number
+          stock_item_id?: string
+          transfer_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_transfer_lines_stock_item_id_fkey"
+            columns: ["stock_item_id"]
+            isOneToOne: false
+            referencedRelation: "stock_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_transfer_lines_transfer_id_fkey"
+            columns: ["transfer_id"]
+            isOneToOne: false
+            referencedRelation: "stock_transfers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stock_transfers: {
+        Row: {
+          client_operation_id: string
+          from_store_id: string
+          id: string
+          notes: string | null
+          received_at: string | null
+          received_by: string | null
+          sent_at: string
+          sent_by: string | null
+          status: string
+          to_store_id: string
+          transfer_number: number
+        }
+        Insert: {
+          client_operation_id: string
+          from_store_id: string
+          id?: string
+          notes?: string | null
+          received_at?: string | null
+          received_by?: string | null
+          sent_at?: string
+          sent_by?: string | null
+          status?: string
+          to_store_id: string
+          transfer_number?: never
+        }
+        Update: {
+          client_operation_id?: string
+          from_store_id?: string
+          id?: string
+          notes?: string | null
+          received_at?: string | null
+          received_by?: string | null
+          sent_at?: string
+          sent_by?: string | null
+          status?: string
+          to_store_id?: string
+          transfer_number?: never
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_transfers_from_store_id_fkey"
+            columns: ["from_store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_transfers_received_by_fkey"
+            columns: ["received_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_transfers_sent_by_fkey"
+            columns: ["sent_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_transfers_to_store_id_fkey"
+            columns: ["to_store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      store_stocks: {
+        Row: {
+          created_at: string
+          id: string
+          is_active: boolean
+          quantity: number
+          selling_date: string
+          stock_item_id: string
+          store_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          quantity?: number
+          selling_date?: string
+          stock_item_id: string
+          store_id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          quantity?: number
+          selling_date?: string
+          stock_item_id?: string
+          store_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "store_stocks_stock_item_id_fkey"
+            columns: ["stock_item_id"]
             isOneToOne: false
-            referencedRelation: "categories"
+            referencedRelation: "stock_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "store_stocks_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
             referencedColumns: ["id"]
           },
         ]
       }
-      profiles: {
+      stores: {
         Row: {
-          branch_id: string | null
+          address: string
+          branch_id: string
+          contact_phone: string | null
           created_at: string
-          email: string
           id: string
+          is_holiday_mode: boolean
+          manager_name: string | null
           name: string
-          role: string
-          store_id: string | null
           updated_at: string
         }
         Insert: {
-          branch_id?: string | null
+          address: string
+          branch_id: string
+          contact_phone?: string | null
           created_at?: string
-          email: string
-          id: string
+          id?: string
+          is_holiday_mode?: boolean
+          manager_name?: string | null
           name: string
-          role: string
-          store_id?: string | null
           updated_at?: string
         }
         Update: {
-          branch_id?: string | null
+          address?: string
+          branch_id?: string
+          contact_phone?: string | null
           created_at?: string
-          email?: string
           id?: string
+          is_holiday_mode?: boolean
+          manager_name?: string | null
           name?: string
-          role?: string
-          store_id?: string | null
           updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "profiles_branch_id_fkey"
+            foreignKeyName: "stores_branch_id_fkey"
             columns: ["branch_id"]
             isOneToOne: false
             referencedRelation: "branches"
             referencedColumns: ["id"]
           },
-          {
-            foreignKeyName: "profiles_store_id_fkey"
-            columns: ["store_id"]
-            isOneToOne: false
-            referencedRelation: "stores"
-            referencedColumns: ["id"]
-          },
         ]
       }
-      stock_item_menu_items: {
+      supplier_items: {
         Row: {
           created_at: string
-          id: string
-          menu_item_id: string
+          pack_cost: number
+          pack_size: number
           stock_item_id: string
+          supplier_id: string
         }
         Insert: {
           created_at?: string
-          id?: string
-          menu_item_id: string
+          pack_cost: number
+          pack_size: number
           stock_item_id: string
+          supplier_id: string
         }
         Update: {
           created_at?: string
-          id?: string
-          menu_item_id?: string
+          pack_cost?: number
+          pack_size?: number
           stock_item_id?: string
+          supplier_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "stock_item_menu_items_menu_item_id_fkey"
-            columns: ["menu_item_id"]
+            foreignKeyName: "supplier_items_stock_item_id_fkey"
+            columns: ["stock_item_id"]
             isOneToOne: false
-            referencedRelation: "menu_items"
+            referencedRelation: "stock_items"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "stock_item_menu_items_stock_item_id_fkey"
-            columns: ["stock_item_id"]
+            foreignKeyName: "supplier_items_supplier_id_fkey"
+            columns: ["supplier_id"]
             isOneToOne: false
-            referencedRelation: "stock_items"
+            referencedRelation: "suppliers"
             referencedColumns: ["id"]
           },
         ]
       }
-      stock_items: {
+      suppliers: {
         Row: {
+          contact_person: string | null
+          contact_phone: string | null
           created_at: string
-          current_stock: number
+          email: string | null
           id: string
-          minimum_stock: number
+          lead_time_days: number
           name: string
-          unit: string
           updated_at: string
         }
         Insert: {
+          contact_person?: string | null
+          contact_phone?: string | null
           created_at?: string
-          current_stock?: number
+          email?: string | null
           id?: string
-          minimum_stock?: number
+          lead_time_days?: number
           name: string
-          unit: string
           updated_at?: string
         }
         Update: {
+          contact_person?: string | null
+          contact_phone?: string | null
           created_at?: string
-          current_stock?: number
+          email?: string | null
           id?: string
-          minimum_stock?: number
+          lead_time_days?: number
           name?: string
-          unit?: string
           updated_at?: string
         }
         Relationships: []
       }
-      store_stocks: {
+      transaction_item_components: {
         Row: {
+          allocated_amount: number
           created_at: string
           id: string
-          is_active: boolean
+          menu_item_id: string
           quantity: number
-          selling_date: string
-          stock_item_id: string
-          store_id: string
-          updated_at: string
+          slot_name: string
+          transaction_item_id: string
         }
         Insert: {
+          allocated_amount?: number
           created_at?: string
           id?: string
-          is_active?: boolean
-          quantity?: number
-          selling_date?: string
-          stock_item_id: string
-          store_id: string
-          updated_at?: string
+          menu_item_id: string
+          quantity: number
+          slot_name: string
+          transaction_item_id: string
         }
         Update: {
+          allocated_amount?: number
           created_at?: string
           id?: string
-          is_active?: boolean
+          menu_item_id?: string
           quantity?: number
-          selling_date?: string
-          stock_item_id?: string
-          store_id?: string
-          updated_at?: string
+          slot_name?: string
+          transaction_item_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "store_stocks_stock_item_id_fkey"
-            columns: ["stock_item_id"]
+            foreignKeyName: "transaction_item_components_menu_item_id_fkey"
+            columns: ["menu_item_id"]
             isOneToOne: false
-            referencedRelation: "stock_items"
+            referencedRelation: "menu_items"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "store_stocks_store_id_fkey"
-            columns: ["store_id"]
+            foreignKeyName: "transaction_item_components_transaction_item_id_fkey"
+            columns: ["transaction_item_id"]
             isOneToOne: false
-            referencedRelation: "stores"
+            referencedRelation: "transaction_items"
             referencedColumns: ["id"]
           },
         ]
       }
-      stores: {
+      transaction_item_modifiers: {
         Row: {
-          address: string
-          branch_id: string
-          contact_phone: string | null
           created_at: string
+          group_name: string
           id: string
-          manager_name: string | null
-          name: string
-          updated_at: string
+          modifier_option_id: string | null
+          option_name: string
+          price_delta: number
+          transaction_item_id: string
         }
         Insert: {
-          address: string
-          branch_id: string
-          contact_phone?: string | null
           created_at?: string
+          group_name: string
           id?: string
-          manager_name?: string | null
-          name: string
-          updated_at?: string
+          modifier_option_id?: string | null
+          option_name: string
+          price_delta?: number
+          transaction_item_id: string
         }
         Update: {
-          address?: string
-          branch_id?: string
-          contact_phone?: string | null
           created_at?: string
+          group_name?: string
           id?: string
-          manager_name?: string | null
-          name?: string
-          updated_at?: string
+          modifier_option_id?: string | null
+          option_name?: string
+          price_delta?: number
+          transaction_item_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "stores_branch_id_fkey"
-            columns: ["branch_id"]
+            foreignKeyName: "transaction_item_modifiers_modifier_option_id_fkey"
+            columns: ["modifier_option_id"]
             isOneToOne: false
-            referencedRelation: "branches"
+            referencedRelation: "modifier_options"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transaction_item_modifiers_transaction_item_id_fkey"
+            columns: ["transaction_item_id"]
+            isOneToOne: false
+            referencedRelation: "transaction_items"
             referencedColumns: ["id"]
           },
         ]
       }
       transaction_items: {
         Row: {
+          base_price: number | null
           created_at: string
           id: string
           menu_item_id: string
@@ -357,6 +1513,7 @@ export type Database = {
           transaction_id: string
         }
         Insert: {
+          base_price?: number | null
           created_at?: string
           id?: string
           menu_item_id: string
@@ -366,6 +1523,7 @@ export type Database = {
           transaction_id: string
         }
         Update: {
+          base_price?: number | null
           created_at?: string
           id?: string
           menu_item_id?: string
@@ -394,6 +1552,7 @@ export type Database = {
       transactions: {
         Row: {
           cashier_id: string | null
+          client_operation_id: string | null
           created_at: string
           id: string
           payment_method: string
@@ -405,6 +1564,7 @@ export type Database = {
         }
         Insert: {
           cashier_id?: string | null
+          client_operation_id?: string | null
           created_at?: string
           id?: string
           payment_method: string
@@ -416,6 +1576,7 @@ export type Database = {
         }
         Update: {
           cashier_id?: string | null
+          client_operation_id?: string | null
           created_at?: string
           id?: string
           payment_method?: string
@@ -442,19 +1603,276 @@ export type Database = {
           },
         ]
       }
+      waste_entries: {
+        Row: {
+          client_operation_id: string
+          created_at: string
+          created_by: string | null
+          id: string
+          menu_item_id: string | null
+          note: string | null
+          photo_path: string | null
+          quantity: number
+          reason: string
+          selling_date: string
+          stock_item_id: string | null
+          store_id: string
+        }
+        Insert: {
+          client_operation_id: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          menu_item_id?: string | null
+          note?: string | null
+          photo_path?: string | null
+          quantity: number
+          reason: string
+          selling_date: string
+          stock_item_id?: string | null
+          store_id: string
+        }
+        Update: {
+          client_operation_id?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          menu_item_id?: string | null
+          note?: string | null
+          photo_path?: string | null
+          quantity?: number
+          reason?: string
+          selling_date?: string
+          stock_item_id?: string | null
+          store_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "waste_entries_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "waste_entries_menu_item_id_fkey"
+            columns: ["menu_item_id"]
+            isOneToOne: false
+            referencedRelation: "menu_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "waste_entries_stock_item_id_fkey"
+            columns: ["stock_item_id"]
+            isOneToOne: false
+            referencedRelation: "stock_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "waste_entries_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      waste_entry_lines: {
+        Row: {
+          entry_id: string
+          quantity: number
+          stock_item_id: string
+          unit_cost: number
+        }
+        Insert: {
+          entry_id: string
+          quantity: number
+          stock_item_id: string
+          unit_cost?: number
+        }
+        Update: {
+          entry_id?: string
+          quantity?: number
+          stock_item_id?: string
+          unit_cost?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "waste_entry_lines_entry_id_fkey"
+            columns: ["entry_id"]
+            isOneToOne: false
+            referencedRelation: "waste_entries"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "waste_entry_lines_stock_item_id_fkey"
+            columns: ["stock_item_id"]
+            isOneToOne: false
+            referencedRelation: "stock_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
+      adjust_store_stock: {
+        Args: {
+          p_activate?: boolean
+          p_base_quantity: number
+          p_base_updated_at: string
+          p_client_operation_id: string
+          p_delta: number
+          p_selling_date: string
+          p_stock_item_id: string
+          p_store_id: string
+        }
+        Returns: Json
+      }
+      can_manage_store: {
+        Args: {
+          p_store_id: string
+        }
+        Returns: boolean
+      }
+      can_manage_store_stock: {
+        Args: {
+          p_store_id: string
+        }
+        Returns: boolean
+      }
+      checkout_transaction: {
+        Args: {
+          p_allow_shortfall?: boolean
+          p_client_operation_id: string
+          p_items: Json
+          p_payment_method: string
+          p_selling_date?: string
+          p_sold_at?: string
+        }
+        Returns: string
+      }
+      convert_stock_unit: {
+        Args: {
+          p_from_unit: string
+          p_quantity: number
+          p_to_unit: string
+        }
+        Returns: number
+      }
       create_default_owner: {
         Args: Record<PropertyKey, never>
         Returns: undefined
       }
+      end_selling: {
+        Args: {
+          p_counts?: Json
+          p_selling_date: string
+          p_store_id: string
+        }
+        Returns: undefined
+      }
+      get_current_branch_id: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      get_current_store_id: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
       get_current_user_role: {
         Args: Record<PropertyKey, never>
         Returns: string
       }
+      get_menu_item_price: {
+        Args: {
+          p_menu_item_id: string
+          p_payment_method: string
+          p_store_id: string
+        }
+        Returns: number
+      }
+      get_stock_unit_cost: {
+        Args: {
+          p_stock_item_id: string
+          p_store_id: string
+        }
+        Returns: number
+      }
+      log_waste: {
+        Args: {
+          p_client_operation_id: string
+          p_menu_item_id?: string
+          p_note?: string
+          p_photo_path?: string
+          p_quantity: number
+          p_reason: string
+          p_selling_date: string
+          p_stock_item_id?: string
+          p_store_id: string
+        }
+        Returns: Json
+      }
+      propose_opening_stock: {
+        Args: {
+          p_selling_date: string
+          p_store_id: string
+        }
+        Returns: {
+          closing_date: string | null
+          closing_quantity: number | null
+          proposed_quantity: number
+          received_quantity: number
+          stock_item_id: string
+        }[]
+      }
+      receive_purchase_order: {
+        Args: {
+          p_client_operation_id: string
+          p_lines: Json
+          p_notes?: string
+          p_purchase_order_id: string
+          p_selling_date: string
+        }
+        Returns: Json
+      }
+      receive_stock_transfer: {
+        Args: {
+          p_lines?: Json
+          p_selling_date: string
+          p_transfer_id: string
+        }
+        Returns: undefined
+      }
+      resolve_stock_conflict: {
+        Args: {
+          p_conflict_id: string
+          p_resolution: string
+        }
+        Returns: Json
+      }
+      send_stock_transfer: {
+        Args: {
+          p_client_operation_id: string
+          p_from_store_id: string
+          p_lines: Json
+          p_notes?: string
+          p_selling_date: string
+          p_to_store_id: string
+        }
+        Returns: Json
+      }
+      start_selling: {
+        Args: {
+          p_client_operation_id: string
+          p_lines: Json
+          p_selling_date: string
+          p_store_id: string
+        }
+        Returns: Json
+      }
     }
     Enums: {
       [_ in never]: never
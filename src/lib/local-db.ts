@@ -0,0 +1,221 @@
+// Device-local storage for data the tills need while offline: the outbox of
+// pending operations, the sales recorded on this device and the cached
+// catalog lists. Backed by IndexedDB so writes are asynchronous, per record
+// and not bound by the few MB localStorage allows.
+//
+// public/service-worker.js opens the same database to replay the outbox in the
+// background, so store names and record shapes are shared with it.
+
+const DB_NAME = 'selis-pos';
+const DB_VERSION = 2;
+
+export const PENDING_OPERATIONS_STORE = 'pendingOperations';
+export const TRANSACTIONS_STORE = 'transactions';
+export const CATALOG_STORE = 'catalog';
+export const META_STORE = 'meta';
+
+// What the service worker needs to call Supabase on its own
+export interface SyncCredentials {
+  supabaseUrl: string;
+  supabaseKey: string;
+  accessToken: string;
+  // Unix time in seconds, as in the Supabase session
+  expiresAt: number;
+}
+
+// Catalog lists are small and always read as a whole, so each one is kept as a
+// single record keyed by its name.
+export type CatalogKey = 'branches' | 'stores' | 'categories' | 'menuItems' | 'stockItems' | 'suppliers';
+
+const CATALOG_KEYS: CatalogKey[] = ['branches', 'stores', 'categories', 'menuItems', 'stockItems', 'suppliers'];
+
+// The minimum a locally recorded sale needs for the indexed lookups
+export interface LocalTransaction {
+  id: string;
+  storeId: string;
+  timestamp: string;
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+const readLegacyList = (key: string): unknown[] => {
+  try {
+    const value = JSON.parse(localStorage.getItem(key) || '[]');
+    return Array.isArray(value) ? value : [];
+  } catch {
+    return [];
+  }
+};
+
+// Copies the JSON blobs older builds kept in localStorage into the new stores.
+// Runs inside the upgrade transaction, so it happens exactly once per device.
+const migrateFromLocalStorage = (transaction: IDBTransaction) => {
+  const pendingOperations = transaction.objectStore(PENDING_OPERATIONS_STORE);
+  readLegacyList('pendingOperations').forEach((operation: { id?: string }) => {
+    pendingOperations.put({ ...operation, id: operation.id || crypto.randomUUID() });
+  });
+
+  const transactions = transaction.objectStore(TRANSACTIONS_STORE);
+  readLegacyList('transactions').forEach(sale => transactions.put(sale));
+
+  const catalog = transaction.objectStore(CATALOG_STORE);
+  CATALOG_KEYS.forEach(key => {
+    if (localStorage.getItem(key) !== null) {
+      catalog.put(readLegacyList(key), key);
+    }
+  });
+
+  transaction.addEventListener('complete', () => {
+    ['pendingOperations', 'transactions', ...CATALOG_KEYS].forEach(key => localStorage.removeItem(key));
+  });
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openLocalDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+
+        if (event.oldVersion < 1) {
+          db.createObjectStore(PENDING_OPERATIONS_STORE, { keyPath: 'id' });
+
+          const transactions = db.createObjectStore(TRANSACTIONS_STORE, { keyPath: 'id' });
+          transactions.createIndex('storeId', 'storeId');
+          transactions.createIndex('timestamp', 'timestamp');
+          transactions.createIndex('storeId_timestamp', ['storeId', 'timestamp']);
+
+          db.createObjectStore(CATALOG_STORE);
+
+          migrateFromLocalStorage(request.transaction);
+        }
+
+        if (event.oldVersion < 2) {
+          db.createObjectStore(META_STORE);
+        }
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+
+  return dbPromise;
+};
+
+// Pending operations
+
+export const getPendingOperations = async <T extends { id: string; timestamp: string }>() => {
+  const db = await openLocalDb();
+  const operations = await requestToPromise<T[]>(
+    db.transaction(PENDING_OPERATIONS_STORE).objectStore(PENDING_OPERATIONS_STORE).getAll()
+  );
+  // Keys are random ids, so restore the order the operations were queued in
+  return operations.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+};
+
+// Makes the stored queue match the given list, writing only what changed
+export const savePendingOperations = async <T extends { id: string }>(operations: T[]) => {
+  const db = await openLocalDb();
+  const transaction = db.transaction(PENDING_OPERATIONS_STORE, 'readwrite');
+  const store = transaction.objectStore(PENDING_OPERATIONS_STORE);
+
+  const ids = new Set(operations.map(operation => operation.id));
+  const keysRequest = store.getAllKeys();
+  keysRequest.onsuccess = () => {
+    keysRequest.result
+      .filter(id => !ids.has(id as string))
+      .forEach(id => store.delete(id));
+  };
+  operations.forEach(operation => store.put(operation));
+
+  return transactionDone(transaction);
+};
+
+// Local transactions
+
+export const saveLocalTransaction = async <T extends LocalTransaction>(sale: T) => {
+  const db = await openLocalDb();
+  const transaction = db.transaction(TRANSACTIONS_STORE, 'readwrite');
+  transaction.objectStore(TRANSACTIONS_STORE).put(sale);
+  return transactionDone(transaction);
+};
+
+export const getLocalTransaction = async <T extends LocalTransaction>(id: string) => {
+  const db = await openLocalDb();
+  return requestToPromise<T | undefined>(
+    db.transaction(TRANSACTIONS_STORE).objectStore(TRANSACTIONS_STORE).get(id)
+  );
+};
+
+// Sales for one store, newest first. from and to are ISO timestamps; either
+// can be left out for an open range.
+export const getStoreTransactions = async <T extends LocalTransaction>(
+  storeId: string,
+  from?: string,
+  to?: string
+) => {
+  const db = await openLocalDb();
+  const index = db.transaction(TRANSACTIONS_STORE).objectStore(TRANSACTIONS_STORE).index('storeId_timestamp');
+  // '\uffff' sorts after every ISO timestamp
+  const range = IDBKeyRange.bound([storeId, from || ''], [storeId, to || '\uffff'], false, !!to);
+  const sales = await requestToPromise<T[]>(index.getAll(range));
+  return sales.reverse();
+};
+
+// Sales across every store, for the report fallbacks
+export const getAllLocalTransactions = async <T extends LocalTransaction>() => {
+  const db = await openLocalDb();
+  return requestToPromise<T[]>(
+    db.transaction(TRANSACTIONS_STORE).objectStore(TRANSACTIONS_STORE).index('timestamp').getAll()
+  );
+};
+
+// Catalog cache
+
+export const getCachedList = async <T>(key: CatalogKey): Promise<T[] | undefined> => {
+  const db = await openLocalDb();
+  return requestToPromise<T[] | undefined>(
+    db.transaction(CATALOG_STORE).objectStore(CATALOG_STORE).get(key)
+  );
+};
+
+export const setCachedList = async <T>(key: CatalogKey, items: T[]) => {
+  const db = await openLocalDb();
+  const transaction = db.transaction(CATALOG_STORE, 'readwrite');
+  transaction.objectStore(CATALOG_STORE).put(items, key);
+  return transactionDone(transaction);
+};
+
+// Sync credentials
+
+export const setSyncCredentials = async (credentials: SyncCredentials) => {
+  const db = await openLocalDb();
+  const transaction = db.transaction(META_STORE, 'readwrite');
+  transaction.objectStore(META_STORE).put(credentials, 'syncCredentials');
+  return transactionDone(transaction);
+};
+
+export const clearSyncCredentials = async () => {
+  const db = await openLocalDb();
+  const transaction = db.transaction(META_STORE, 'readwrite');
+  transaction.objectStore(META_STORE).delete('syncCredentials');
+  return transactionDone(transaction);
+};
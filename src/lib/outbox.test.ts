@@ -0,0 +1,228 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  MAX_ATTEMPTS,
+  PendingOperation,
+  getRetryDelay,
+  replayDueOperations,
+  replayOperation,
+} from '@/lib/outbox';
+import { createTransaction } from '@/lib/transactions';
+import { logWaste } from '@/lib/waste';
+import { adjustStoreStock, endSelling, startSelling } from '@/lib/stock';
+import { deleteCatalogItem, saveStore, setStoreHolidayMode } from '@/lib/repository';
+
+vi.mock('@/integrations/supabase/client', () => ({ supabase: {} }));
+
+vi.mock('@/lib/transactions', () => ({ createTransaction: vi.fn() }));
+vi.mock('@/lib/waste', () => ({ logWaste: vi.fn() }));
+vi.mock('@/lib/stock', async importOriginal => ({
+  ...await importOriginal<typeof import('@/lib/stock')>(),
+  adjustStoreStock: vi.fn(),
+  endSelling: vi.fn(),
+  setStoreStock: vi.fn(),
+  startSelling: vi.fn(),
+}));
+vi.mock('@/lib/repository', () => ({
+  deleteCatalogItem: vi.fn(),
+  saveBranch: vi.fn(),
+  saveCategory: vi.fn(),
+  saveMenuItem: vi.fn(),
+  saveStockItem: vi.fn(),
+  saveStore: vi.fn(),
+  saveSupplier: vi.fn(),
+  setStoreHolidayMode: vi.fn(),
+}));
+
+const queued = (operation: Pick<PendingOperation, 'type' | 'data'>, changes: Partial<PendingOperation> = {}) => ({
+  id: 'operation-1',
+  timestamp: '2026-10-19T08:30:00.000Z',
+  attempts: 0,
+  status: 'pending',
+  ...operation,
+  ...changes,
+}) as PendingOperation;
+
+const sale = queued({
+  type: 'CREATE_TRANSACTION',
+  data: {
+    storeId: 'store-1',
+    cashierId: 'cashier-1',
+    paymentMethod: 'qris',
+    items: [{ menuItemId: 'coffee', quantity: 2, pricePerUnit: 22000, basePrice: 20000 }],
+  },
+});
+
+beforeEach(() => {
+  vi.resetAllMocks();
+});
+
+describe('getRetryDelay', () => {
+  it('doubles the delay with every attempt', () => {
+    expect([1, 2, 3, 4].map(getRetryDelay)).toEqual([2000, 4000, 8000, 16000]);
+  });
+
+  it('waits at most five minutes', () => {
+    expect(getRetryDelay(20)).toBe(5 * 60 * 1000);
+  });
+});
+
+describe('replayOperation', () => {
+  it('records a queued sale under its operation id, at the time it was queued', async () => {
+    await replayOperation(sale);
+
+    expect(createTransaction).toHaveBeenCalledWith(
+      expect.objectContaining({ soldAt: '2026-10-19T08:30:00.000Z', paymentMethod: 'qris' }),
+      'operation-1',
+      true
+    );
+  });
+
+  it('records a sale queued by an older build at its own prices', async () => {
+    await replayOperation(queued({
+      type: 'CREATE_TRANSACTION',
+      data: {
+        id: 'TR-1',
+        items: [{ id: 'coffee', quantity: 2, cashPrice: 20000, qrisPrice: 22000 }],
+        total: 44000,
+        paymentMethod: 'qris',
+        timestamp: '2026-10-19T07:00:00.000Z',
+        storeId: 'store-1',
+        cashierId: 'cashier-1',
+      },
+    }));
+
+    expect(createTransaction).toHaveBeenCalledWith({
+      storeId: 'store-1',
+      cashierId: 'cashier-1',
+      paymentMethod: 'qris',
+      soldAt: '2026-10-19T07:00:00.000Z',
+      items: [{ menuItemId: 'coffee', quantity: 2, pricePerUnit: 22000, basePrice: 20000 }],
+    }, 'operation-1', true);
+  });
+
+  it('sends nothing for legacy stock updates', async () => {
+    await replayOperation(queued({ type: 'UPDATE_STOCK', data: { items: [{ id: 'coffee', quantity: 2 }] } }));
+
+    expect(createTransaction).not.toHaveBeenCalled();
+    expect(adjustStoreStock).not.toHaveBeenCalled();
+  });
+
+  it('opens the selling day with its opening counts', async () => {
+    const counts = [{
+      stockItemId: 'beans',
+      closingQuantity: 900,
+      receivedQuantity: 0,
+      proposedQuantity: 900,
+      countedQuantity: 1000,
+      baseQuantity: 0,
+      baseUpdatedAt: null,
+    }];
+    await replayOperation(queued({
+      type: 'START_SELLING',
+      data: { storeId: 'store-1', items: counts, timestamp: '2026-10-19T01:00:00.000Z' },
+    }));
+
+    expect(startSelling).toHaveBeenCalledWith('operation-1', 'store-1', counts, '2026-10-19');
+  });
+
+  it('ends the selling day it was queued on', async () => {
+    await replayOperation(queued({
+      type: 'END_SELLING',
+      data: { storeId: 'store-1', timestamp: '2026-10-19T14:00:00.000Z' },
+    }));
+
+    expect(endSelling).toHaveBeenCalledWith('store-1', '2026-10-19', undefined);
+  });
+
+  it('sends a stock adjustment under its operation id', async () => {
+    const adjustment = { stockItemId: 'beans', delta: -50, baseQuantity: 1000, baseUpdatedAt: null };
+    await replayOperation(queued({
+      type: 'UPDATE_STOCK_ITEM',
+      data: { storeId: 'store-1', itemId: 'beans', newStock: 950, adjustment, timestamp: '2026-10-19T09:00:00.000Z' },
+    }));
+
+    expect(adjustStoreStock).toHaveBeenCalledWith('operation-1', 'store-1', '2026-10-19', adjustment);
+  });
+
+  it('switches holiday mode', async () => {
+    await replayOperation(queued({
+      type: 'UPDATE_HOLIDAY_MODE',
+      data: { storeId: 'store-1', holidayMode: true, timestamp: '2026-10-19T09:00:00.000Z' },
+    }));
+
+    expect(setStoreHolidayMode).toHaveBeenCalledWith('store-1', true);
+  });
+
+  it('logs waste under its operation id', async () => {
+    const entry = { storeId: 'store-1', reason: 'spilled' as const, quantity: 3, timestamp: '2026-10-19T10:00:00.000Z' };
+    await replayOperation(queued({ type: 'LOG_WASTE', data: entry }));
+
+    expect(logWaste).toHaveBeenCalledWith('operation-1', '2026-10-19', entry);
+  });
+
+  it('saves and deletes catalog items', async () => {
+    const store = { id: 'store-1', name: 'Store', branchId: 'branch-1', address: 'Jl. Test 1' };
+    await replayOperation(queued({ type: 'UPDATE_STORE', data: store }));
+    await replayOperation(queued({ type: 'DELETE_STORE', data: { id: 'store-1' } }));
+
+    expect(saveStore).toHaveBeenCalledWith(store, expect.anything());
+    expect(deleteCatalogItem).toHaveBeenCalledWith('stores', 'store-1');
+  });
+
+  it('refuses to create users offline', async () => {
+    await expect(replayOperation(queued({
+      type: 'CREATE_USER',
+      data: { id: 'user-1', name: 'Cashier', email: 'cashier@test.local', role: 'cashier', branchId: '', storeId: '' },
+    }))).rejects.toThrow('User accounts can only be created while online');
+  });
+});
+
+describe('replayDueOperations', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-10-19T12:00:00.000Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('backs off after a failed attempt', async () => {
+    vi.mocked(createTransaction).mockRejectedValue(new Error('network down'));
+    const onFailed = vi.fn();
+
+    await replayDueOperations([sale], { onSynced: vi.fn(), onFailed });
+
+    expect(onFailed).toHaveBeenCalledWith(expect.objectContaining({
+      attempts: 1,
+      status: 'pending',
+      lastError: 'network down',
+      nextAttemptAt: '2026-10-19T12:00:02.000Z',
+    }), expect.any(Error));
+  });
+
+  it('marks an operation failed once it has used up its attempts', async () => {
+    vi.mocked(createTransaction).mockRejectedValue({ message: 'invalid_bundle_components' });
+    const onFailed = vi.fn();
+
+    await replayDueOperations([{ ...sale, attempts: MAX_ATTEMPTS - 1 }], { onSynced: vi.fn(), onFailed });
+
+    expect(onFailed).toHaveBeenCalledWith(
+      expect.objectContaining({ attempts: MAX_ATTEMPTS, status: 'failed', lastError: 'invalid_bundle_components' }),
+      expect.anything()
+    );
+  });
+
+  it('leaves failed operations and those still backing off alone', async () => {
+    const onSynced = vi.fn();
+
+    await replayDueOperations([
+      { ...sale, id: 'failed', status: 'failed' },
+      { ...sale, id: 'backing-off', attempts: 1, nextAttemptAt: '2026-10-19T12:00:02.000Z' },
+      { ...sale, id: 'due', attempts: 1, nextAttemptAt: '2026-10-19T11:59:58.000Z' },
+    ], { onSynced, onFailed: vi.fn() });
+
+    expect(createTransaction).toHaveBeenCalledTimes(1);
+    expect(onSynced).toHaveBeenCalledWith(expect.objectContaining({ id: 'due' }));
+  });
+});
@@ -0,0 +1,334 @@
+import { supabase } from '@/integrations/supabase/client';
+import { CheckoutPayload, PaymentMethod, createTransaction } from '@/lib/transactions';
+import { WasteEntryInput, logWaste } from '@/lib/waste';
+import {
+  ClosingCount,
+  OpeningCount,
+  StockAdjustment,
+  adjustStoreStock,
+  endSelling,
+  getSellingDate,
+  setStoreStock,
+  startSelling,
+} from '@/lib/stock';
+import {
+  Branch,
+  Category,
+  MenuItem,
+  StockItem,
+  Store,
+  Supplier,
+  deleteCatalogItem,
+  saveBranch,
+  saveCategory,
+  saveMenuItem,
+  saveStockItem,
+  saveSupplier,
+  saveStore,
+  setStoreHolidayMode,
+} from '@/lib/repository';
+
+// Payloads are the camelCase shapes the pages keep in their local cache.
+export interface BrandData {
+  name: string;
+  slogan: string;
+  description: string;
+  contactEmail: string;
+  contactPhone: string;
+  address: string;
+}
+
+export interface UserData {
+  id: string;
+  name: string;
+  email: string;
+  role: 'manager' | 'cashier';
+  branchId: string;
+  branchName?: string;
+  storeId: string;
+  storeName?: string;
+}
+
+// A sale as builds that predate the checkout RPC queued it: the whole cart,
+// with both prices of each menu item
+export interface LegacyTransaction {
+  id: string;
+  items: { id: string; quantity: number; cashPrice: number; qrisPrice: number }[];
+  total: number;
+  paymentMethod: PaymentMethod;
+  timestamp: string;
+  storeId: string;
+  cashierId: string;
+}
+
+export interface OperationPayloads {
+  CREATE_TRANSACTION: CheckoutPayload | LegacyTransaction;
+  // Queued by builds that predate the checkout RPC, always next to a
+  // CREATE_TRANSACTION whose replay already decrements the stock. Those
+  // builds queued the sale itself as a LegacyTransaction.
+  UPDATE_STOCK: { items: { id: string; quantity: number }[] };
+  // Older builds queued absolute quantities (initialStock, newStock) that
+  // overwrite the server, or plain adjustments; current builds queue the
+  // opening count
+  START_SELLING: {
+    storeId: string;
+    branchId?: string;
+    items: (OpeningCount | StockAdjustment | { id: string; initialStock: number })[];
+    timestamp: string;
+  };
+  // counts is missing from operations queued before closing counts
+  END_SELLING: { storeId: string; branchId?: string; counts?: ClosingCount[]; timestamp: string };
+  UPDATE_STOCK_ITEM: {
+    storeId: string;
+    branchId?: string;
+    itemId: string;
+    newStock: number;
+    adjustment?: StockAdjustment;
+    timestamp: string;
+  };
+  UPDATE_HOLIDAY_MODE: {
+    storeId: string;
+    branchId?: string;
+    holidayMode: boolean;
+    timestamp: string;
+  };
+  LOG_WASTE: WasteEntryInput;
+  UPDATE_BRAND: BrandData;
+  CREATE_BRANCH: Branch;
+  UPDATE_BRANCH: Branch;
+  DELETE_BRANCH: { id: string };
+  CREATE_STORE: Store;
+  UPDATE_STORE: Store;
+  DELETE_STORE: { id: string };
+  CREATE_CATEGORY: Category;
+  UPDATE_CATEGORY: Category;
+  DELETE_CATEGORY: { id: string };
+  CREATE_MENU_ITEM: MenuItem;
+  UPDATE_MENU_ITEM: MenuItem;
+  DELETE_MENU_ITEM: { id: string };
+  CREATE_STOCK_ITEM: StockItem;
+  UPDATE_STOCK_ITEM_DETAILS: StockItem;
+  DELETE_STOCK_ITEM: { id: string };
+  CREATE_SUPPLIER: Supplier;
+  UPDATE_SUPPLIER: Supplier;
+  DELETE_SUPPLIER: { id: string };
+  CREATE_USER: UserData;
+  UPDATE_USER: UserData;
+  DELETE_USER: { id: string };
+}
+
+export type OperationType = keyof OperationPayloads;
+
+export type PendingOperationInput = {
+  [K in OperationType]: { type: K; data: OperationPayloads[K] };
+}[OperationType];
+
+export type PendingOperation = PendingOperationInput & {
+  id: string;
+  timestamp: string;
+  attempts: number;
+  // 'failed' operations are kept with their error but no longer retried
+  // automatically
+  status: 'pending' | 'failed';
+  lastError?: string;
+  nextAttemptAt?: string;
+};
+
+export const MAX_ATTEMPTS = 5;
+
+const BASE_RETRY_DELAY = 2000;
+const MAX_RETRY_DELAY = 5 * 60 * 1000;
+
+export const getRetryDelay = (attempts: number) =>
+  Math.min(BASE_RETRY_DELAY * 2 ** (attempts - 1), MAX_RETRY_DELAY);
+
+export const getErrorMessage = (error: unknown) => {
+  if (error instanceof Error) return error.message;
+  if (error && typeof error === 'object' && 'message' in error) {
+    return String((error as { message: unknown }).message);
+  }
+  return String(error);
+};
+
+// Reads a queued sale in either shape. Legacy sales only know their menu
+// items' prices, without modifiers or bundles.
+export const toCheckoutPayload = (data: CheckoutPayload | LegacyTransaction): CheckoutPayload => {
+  if (!('timestamp' in data)) return data;
+
+  return {
+    storeId: data.storeId,
+    cashierId: data.cashierId,
+    paymentMethod: data.paymentMethod,
+    soldAt: data.timestamp,
+    items: data.items.map(item => ({
+      menuItemId: item.id,
+      quantity: item.quantity,
+      pricePerUnit: data.paymentMethod === 'qris' ? item.qrisPrice : item.cashPrice,
+      basePrice: item.cashPrice,
+    })),
+  };
+};
+
+const saveBrand = async (brand: BrandData) => {
+  const row = {
+    name: brand.name,
+    slogan: brand.slogan || null,
+    description: brand.description || null,
+    contact_email: brand.contactEmail || null,
+    contact_phone: brand.contactPhone || null,
+    address: brand.address || null,
+  };
+
+  // There is a single brand per deployment
+  const { data: existing, error: existingError } = await supabase
+    .from('brands')
+    .select('id')
+    .limit(1)
+    .maybeSingle();
+
+  if (existingError) throw existingError;
+
+  const { error } = existing
+    ? await supabase.from('brands').update(row).eq('id', existing.id)
+    : await supabase.from('brands').insert(row);
+
+  if (error) throw error;
+};
+
+// Catalog saves are upserts on client-generated ids, so together with deletes
+// and the keyed stock adjustments every handler is safe to run again after a
+// partial failure.
+type OperationHandlers = {
+  [K in OperationType]: (data: OperationPayloads[K], operation: PendingOperation) => Promise<void>;
+};
+
+const handlers: OperationHandlers = {
+  // The operation id doubles as the server-side idempotency key. The sale has
+  // already been made, so it is recorded even if the stock has run out since.
+  CREATE_TRANSACTION: async (data, operation) => {
+    const payload = toCheckoutPayload(data);
+    await createTransaction({ ...payload, soldAt: payload.soldAt || operation.timestamp }, operation.id, true);
+  },
+  UPDATE_STOCK: async () => {
+    // Nothing to send: stock is decremented by the CREATE_TRANSACTION replay
+  },
+  // A conflict is not a failure: the server parked the change for a manager
+  // to review on the stock conflicts screen
+  START_SELLING: async (data, operation) => {
+    const sellingDate = getSellingDate(data.timestamp);
+    const openingCounts = data.items.filter((item): item is OpeningCount => 'countedQuantity' in item);
+    if (openingCounts.length > 0) {
+      await startSelling(operation.id, data.storeId, openingCounts, sellingDate);
+      return;
+    }
+
+    for (const item of data.items) {
+      if ('delta' in item) {
+        await adjustStoreStock(operation.id, data.storeId, sellingDate, item, true);
+      } else if ('initialStock' in item) {
+        await setStoreStock(data.storeId, item.id, item.initialStock, sellingDate, true);
+      }
+    }
+  },
+  END_SELLING: (data) =>
+    endSelling(data.storeId, getSellingDate(data.timestamp), data.counts),
+  UPDATE_STOCK_ITEM: async (data, operation) => {
+    const sellingDate = getSellingDate(data.timestamp);
+    if (data.adjustment) {
+      await adjustStoreStock(operation.id, data.storeId, sellingDate, data.adjustment);
+    } else {
+      await setStoreStock(data.storeId, data.itemId, data.newStock, sellingDate);
+    }
+  },
+  UPDATE_HOLIDAY_MODE: (data) =>
+    setStoreHolidayMode(data.storeId, data.holidayMode),
+  LOG_WASTE: async (data, operation) => {
+    await logWaste(operation.id, getSellingDate(data.timestamp), data);
+  },
+  UPDATE_BRAND: saveBrand,
+  CREATE_BRANCH: saveBranch,
+  UPDATE_BRANCH: saveBranch,
+  DELETE_BRANCH: (data) => deleteCatalogItem('branches', data.id),
+  CREATE_STORE: saveStore,
+  UPDATE_STORE: saveStore,
+  DELETE_STORE: (data) => deleteCatalogItem('stores', data.id),
+  CREATE_CATEGORY: saveCategory,
+  UPDATE_CATEGORY: saveCategory,
+  DELETE_CATEGORY: (data) => deleteCatalogItem('categories', data.id),
+  CREATE_MENU_ITEM: saveMenuItem,
+  UPDATE_MENU_ITEM: saveMenuItem,
+  DELETE_MENU_ITEM: (data) => deleteCatalogItem('menuItems', data.id),
+  CREATE_STOCK_ITEM: saveStockItem,
+  UPDATE_STOCK_ITEM_DETAILS: saveStockItem,
+  DELETE_STOCK_ITEM: (data) => deleteCatalogItem('stockItems', data.id),
+  CREATE_SUPPLIER: saveSupplier,
+  UPDATE_SUPPLIER: saveSupplier,
+  DELETE_SUPPLIER: (data) => deleteCatalogItem('suppliers', data.id),
+  CREATE_USER: async () => {
+    throw new Error('User accounts can only be created while online');
+  },
+  UPDATE_USER: async (data) => {
+    const { error } = await supabase
+      .from('profiles')
+      .update({
+        name: data.name,
+        role: data.role,
+        branch_id: data.branchId || null,
+        store_id: data.storeId || null,
+      })
+      .eq('id', data.id);
+    if (error) throw error;
+  },
+  DELETE_USER: async () => {
+    throw new Error('User accounts can only be deleted while online');
+  },
+};
+
+// Performs the Supabase write for a queued operation. Resolves only once the
+// server has acknowledged it; any rejection leaves the operation queued.
+export const replayOperation = (operation: PendingOperation) => {
+  const handler = handlers[operation.type] as (
+    data: PendingOperation['data'],
+    operation: PendingOperation
+  ) => Promise<void>;
+  return handler(operation.data, operation);
+};
+
+// How an operation is kept after a failed replay: backing off before the next
+// attempt, or failed once it has used them all up
+export const recordFailedAttempt = (operation: PendingOperation, error: unknown): PendingOperation => {
+  const attempts = operation.attempts + 1;
+  return {
+    ...operation,
+    attempts,
+    lastError: getErrorMessage(error),
+    status: attempts >= MAX_ATTEMPTS ? 'failed' : 'pending',
+    nextAttemptAt: new Date(Date.now() + getRetryDelay(attempts)).toISOString(),
+  };
+};
+
+// Replays the pending operations that aren't backing off, in the order they
+// were queued, e.g. a branch is created before the stores that belong to it.
+// Each outcome is reported as it happens so the queue can be saved in between.
+export const replayDueOperations = async (
+  operations: PendingOperation[],
+  callbacks: {
+    onSynced: (operation: PendingOperation) => void;
+    onFailed: (operation: PendingOperation, error: unknown) => void;
+  }
+) => {
+  const now = Date.now();
+  const dueOperations = operations.filter(operation =>
+    operation.status === 'pending' &&
+    (!operation.nextAttemptAt || new Date(operation.nextAttemptAt).getTime() <= now)
+  );
+
+  for (const operation of dueOperations) {
+    try {
+      await replayOperation(operation);
+      callbacks.onSynced(operation);
+    } catch (error) {
+      callbacks.onFailed(recordFailedAttempt(operation, error), error);
+    }
+  }
+};
@@ -0,0 +1,85 @@
+import { describe, expect, it, vi } from 'vitest';
+import { buildLowStockOrders, LowStockItem, PurchaseOrder } from '@/lib/purchasing';
+import type { Supplier } from '@/lib/repository';
+
+vi.mock('@/integrations/supabase/client', () => ({ supabase: {} }));
+
+const supplier = (id: string, items: Supplier['items']): Supplier => ({
+  id,
+  name: `Supplier ${id}`,
+  contactPerson: '',
+  contactPhone: '',
+  email: '',
+  leadTimeDays: 2,
+  items,
+});
+
+const lowBeans: LowStockItem = {
+  stockItemId: 'beans',
+  stockItemName: 'Coffee beans',
+  unit: 'g',
+  storeId: 'store-1',
+  quantity: 200,
+  minimumStock: 1000,
+};
+
+const openOrder = (status: PurchaseOrder['status'], packQuantity: number, receivedQuantity = 0): PurchaseOrder => ({
+  id: `order-${status}`,
+  orderNumber: 1,
+  supplierId: 'a',
+  supplierName: 'Supplier a',
+  storeId: 'store-1',
+  storeName: 'Store',
+  status,
+  expectedDate: null,
+  notes: '',
+  sentAt: null,
+  createdAt: '2026-10-18T00:00:00.000Z',
+  lines: [{
+    id: 'line-1',
+    stockItemId: 'beans',
+    stockItemName: 'Coffee beans',
+    unit: 'g',
+    packQuantity,
+    packSize: 250,
+    packCost: 50000,
+    receivedQuantity,
+  }],
+});
+
+describe('buildLowStockOrders', () => {
+  it('orders whole packs from the supplier with the lowest cost per unit', () => {
+    const { orders, unsupplied } = buildLowStockOrders('store-1', 'Store', [lowBeans], [
+      supplier('a', [{ stockItemId: 'beans', packSize: 250, packCost: 50000 }]),
+      supplier('b', [{ stockItemId: 'beans', packSize: 1000, packCost: 150000 }]),
+    ], []);
+
+    expect(unsupplied).toEqual([]);
+    expect(orders).toHaveLength(1);
+    expect(orders[0]).toMatchObject({ supplierId: 'b', storeId: 'store-1', status: 'draft' });
+    expect(orders[0].lines).toMatchObject([{ stockItemId: 'beans', packQuantity: 1, packSize: 1000 }]);
+  });
+
+  it('counts stock still due on open orders towards the minimum', () => {
+    const suppliers = [supplier('a', [{ stockItemId: 'beans', packSize: 250, packCost: 50000 }])];
+
+    const { orders } = buildLowStockOrders('store-1', 'Store', [lowBeans], suppliers, [openOrder('sent', 2)]);
+    expect(orders[0].lines[0].packQuantity).toBe(2);
+
+    const covered = buildLowStockOrders('store-1', 'Store', [lowBeans], suppliers, [openOrder('sent', 4)]);
+    expect(covered.orders).toEqual([]);
+
+    const received = buildLowStockOrders('store-1', 'Store', [lowBeans], suppliers, [openOrder('received', 4, 1000)]);
+    expect(received.orders[0].lines[0].packQuantity).toBe(4);
+  });
+
+  it('lists items no supplier carries and ignores other stores', () => {
+    const { orders, unsupplied } = buildLowStockOrders('store-1', 'Store', [
+      lowBeans,
+      { ...lowBeans, storeId: 'store-2' },
+    ], [], []);
+
+    expect(orders).toEqual([]);
+    expect(unsupplied).toEqual([lowBeans]);
+  });
+});
@@ -0,0 +1,428 @@
+import { supabase } from '@/integrations/supabase/client';
+import { addDays, format } from 'date-fns';
+import type { StockItem, Supplier } from '@/lib/repository';
+import { fetchLatestStoreQuantities } from '@/lib/stock';
+
+export type PurchaseOrderStatus = 'draft' | 'sent' | 'partially_received' | 'received';
+
+export const purchaseOrderStatusLabels: Record<PurchaseOrderStatus, string> = {
+  draft: 'Draft',
+  sent: 'Sent',
+  partially_received: 'Partially Received',
+  received: 'Received',
+};
+
+// Quantities are in packs except receivedQuantity, which is in the stock
+// item's unit like the rest of the stock figures
+export interface PurchaseOrderLine {
+  id: string;
+  stockItemId: string;
+  stockItemName: string;
+  unit: string;
+  packQuantity: number;
+  packSize: number;
+  packCost: number;
+  receivedQuantity: number;
+}
+
+export interface PurchaseOrder {
+  id: string;
+  // Null until the order has been saved
+  orderNumber: number | null;
+  supplierId: string;
+  supplierName: string;
+  storeId: string;
+  storeName: string;
+  status: PurchaseOrderStatus;
+  expectedDate: string | null;
+  notes: string;
+  sentAt: string | null;
+  createdAt: string;
+  lines: PurchaseOrderLine[];
+}
+
+export const formatOrderNumber = (order: Pick<PurchaseOrder, 'orderNumber'>) =>
+  order.orderNumber ? `PO-${String(order.orderNumber).padStart(6, '0')}` : 'New order';
+
+export const getLineTotal = (line: PurchaseOrderLine) => line.packQuantity * line.packCost;
+
+export const getOrderTotal = (order: PurchaseOrder) =>
+  order.lines.reduce((total, line) => total + getLineTotal(line), 0);
+
+// Orders still waiting for goods, whose quantities count as stock on the way
+const OPEN_STATUSES: PurchaseOrderStatus[] = ['draft', 'sent', 'partially_received'];
+
+export const fetchPurchaseOrders = async (storeIds: string[]) => {
+  if (storeIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('purchase_orders')
+    .select('*, stores(name), suppliers(name), purchase_order_lines(*, stock_items(name, unit))')
+    .in('store_id', storeIds)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+
+  return (data || []).map((row): PurchaseOrder => ({
+    id: row.id,
+    orderNumber: row.order_number,
+    supplierId: row.supplier_id,
+    supplierName: row.suppliers?.name || 'Unknown Supplier',
+    storeId: row.store_id,
+    storeName: row.stores?.name || 'Unknown Store',
+    status: row.status as PurchaseOrderStatus,
+    expectedDate: row.expected_date,
+    notes: row.notes || '',
+    sentAt: row.sent_at,
+    createdAt: row.created_at,
+    lines: (row.purchase_order_lines || [])
+      .map((line): PurchaseOrderLine => ({
+        id: line.id,
+        stockItemId: line.stock_item_id,
+        stockItemName: line.stock_items?.name || 'Removed item',
+        unit: line.stock_items?.unit || '',
+        packQuantity: line.pack_quantity,
+        packSize: line.pack_size,
+        packCost: line.pack_cost,
+        receivedQuantity: line.received_quantity,
+      }))
+      .sort((a, b) => a.stockItemName.localeCompare(b.stockItemName)),
+  }));
+};
+
+// Saves a draft order and replaces its lines
+export const savePurchaseOrder = async (order: PurchaseOrder) => {
+  const { error } = await supabase.from('purchase_orders').upsert({
+    id: order.id,
+    supplier_id: order.supplierId,
+    store_id: order.storeId,
+    status: order.status,
+    expected_date: order.expectedDate,
+    notes: order.notes || null,
+  });
+
+  if (error) throw error;
+
+  const { error: deleteError } = await supabase
+    .from('purchase_order_lines')
+    .delete()
+    .eq('purchase_order_id', order.id);
+
+  if (deleteError) throw deleteError;
+
+  if (order.lines.length > 0) {
+    const { error: insertError } = await supabase
+      .from('purchase_order_lines')
+      .insert(order.lines.map(line => ({
+        id: line.id,
+        purchase_order_id: order.id,
+        stock_item_id: line.stockItemId,
+        pack_quantity: line.packQuantity,
+        pack_size: line.packSize,
+        pack_cost: line.packCost,
+      })));
+
+    if (insertError) throw insertError;
+  }
+};
+
+export const markPurchaseOrderSent = async (orderId: string) => {
+  const { error } = await supabase
+    .from('purchase_orders')
+    .update({ status: 'sent', sent_at: new Date().toISOString() })
+    .eq('id', orderId)
+    .eq('status', 'draft');
+
+  if (error) throw error;
+};
+
+export const deletePurchaseOrder = async (orderId: string) => {
+  const { error } = await supabase
+    .from('purchase_orders')
+    .delete()
+    .eq('id', orderId)
+    .eq('status', 'draft');
+
+  if (error) throw error;
+};
+
+// Sent orders with goods still to arrive
+export const isOpenForReceiving = (order: PurchaseOrder) =>
+  order.status === 'sent' || order.status === 'partially_received';
+
+// What arrived of one order line. Quantity and unit cost are per unit of the
+// stock item; batch and expiry are as printed on the goods.
+export interface GoodsReceiptLine {
+  purchaseOrderLineId: string;
+  quantity: number;
+  unitCost: number;
+  batchNumber: string;
+  expiryDate: string | null;
+}
+
+// Books a delivery into the order's store. The client operation id makes a
+// retry of the same delivery a no-op. Returns the order's new status.
+export const receivePurchaseOrder = async (
+  clientOperationId: string,
+  orderId: string,
+  sellingDate: string,
+  lines: GoodsReceiptLine[],
+  notes = ''
+) => {
+  const { data, error } = await supabase.rpc('receive_purchase_order', {
+    p_client_operation_id: clientOperationId,
+    p_purchase_order_id: orderId,
+    p_selling_date: sellingDate,
+    p_lines: lines.map(line => ({
+      purchase_order_line_id: line.purchaseOrderLineId,
+      quantity: line.quantity,
+      unit_cost: line.unitCost,
+      batch_number: line.batchNumber,
+      expiry_date: line.expiryDate,
+    })),
+    p_notes: notes || null,
+  });
+
+  if (error) throw error;
+
+  return (data as { status: PurchaseOrderStatus }).status;
+};
+
+export interface GoodsReceipt {
+  id: string;
+  receivedAt: string;
+  receivedByName: string | null;
+  notes: string;
+  lines: {
+    id: string;
+    stockItemName: string;
+    unit: string;
+    quantity: number;
+    unitCost: number;
+    batchNumber: string | null;
+    expiryDate: string | null;
+  }[];
+}
+
+// Deliveries booked against an order, newest first
+export const fetchGoodsReceipts = async (orderId: string) => {
+  const { data, error } = await supabase
+    .from('goods_receipts')
+    .select('*, profiles(name), goods_receipt_lines(*, stock_items(name, unit))')
+    .eq('purchase_order_id', orderId)
+    .order('received_at', { ascending: false });
+
+  if (error) throw error;
+
+  return (data || []).map((row): GoodsReceipt => ({
+    id: row.id,
+    receivedAt: row.received_at,
+    receivedByName: row.profiles?.name ?? null,
+    notes: row.notes || '',
+    lines: (row.goods_receipt_lines || []).map(line => ({
+      id: line.id,
+      stockItemName: line.stock_items?.name || 'Removed item',
+      unit: line.stock_items?.unit || '',
+      quantity: line.quantity,
+      unitCost: line.unit_cost,
+      batchNumber: line.batch_number,
+      expiryDate: line.expiry_date,
+    })),
+  }));
+};
+
+// A stock item a store holds less of than its minimum
+export interface LowStockItem {
+  stockItemId: string;
+  stockItemName: string;
+  unit: string;
+  storeId: string;
+  quantity: number;
+  minimumStock: number;
+}
+
+// Compares each item's latest quantity at each store with its minimum. Items
+// a store has never stocked count as zero.
+export const fetchLowStockItems = async (storeIds: string[], stockItems: StockItem[]) => {
+  if (storeIds.length === 0) return [];
+
+  const latest = await fetchLatestStoreQuantities(storeIds);
+
+  return storeIds.flatMap(storeId =>
+    stockItems
+      .map((item): LowStockItem => ({
+        stockItemId: item.id,
+        stockItemName: item.name,
+        unit: item.unit,
+        storeId,
+        quantity: latest.get(`${storeId}:${item.id}`) ?? 0,
+        minimumStock: item.minimumStock,
+      }))
+      .filter(item => item.quantity < item.minimumStock)
+  );
+};
+
+// Draft orders that bring a store's low items back to their minimum. Stock
+// already on an open order for the store counts towards it. Each item goes
+// to the supplier with the lowest cost per unit, one order per supplier, in
+// whole packs.
+export const buildLowStockOrders = (
+  storeId: string,
+  storeName: string,
+  lowStockItems: LowStockItem[],
+  suppliers: Supplier[],
+  openOrders: PurchaseOrder[]
+) => {
+  const onOrder = (stockItemId: string) =>
+    openOrders
+      .filter(order => order.storeId === storeId && OPEN_STATUSES.includes(order.status))
+      .flatMap(order => order.lines)
+      .filter(line => line.stockItemId === stockItemId)
+      .reduce((total, line) => total + Math.max(line.packQuantity * line.packSize - line.receivedQuantity, 0), 0);
+
+  const orders = new Map<string, PurchaseOrder>();
+  const unsupplied: LowStockItem[] = [];
+
+  lowStockItems
+    .filter(item => item.storeId === storeId)
+    .forEach(item => {
+      const shortfall = item.minimumStock - item.quantity - onOrder(item.stockItemId);
+      if (shortfall <= 0) return;
+
+      const offers = suppliers
+        .map(supplier => ({
+          supplier,
+          offer: supplier.items.find(supplierItem => supplierItem.stockItemId === item.stockItemId),
+        }))
+        .filter(({ offer }) => offer)
+        .sort((a, b) => a.offer.packCost / a.offer.packSize - b.offer.packCost / b.offer.packSize);
+
+      if (offers.length === 0) {
+        unsupplied.push(item);
+        return;
+      }
+
+      const { supplier, offer } = offers[0];
+      if (!orders.has(supplier.id)) {
+        orders.set(supplier.id, {
+          id: crypto.randomUUID(),
+          orderNumber: null,
+          supplierId: supplier.id,
+          supplierName: supplier.name,
+          storeId,
+          storeName,
+          status: 'draft',
+          expectedDate: format(addDays(new Date(), supplier.leadTimeDays), 'yyyy-MM-dd'),
+          notes: '',
+          sentAt: null,
+          createdAt: new Date().toISOString(),
+          lines: [],
+        });
+      }
+
+      orders.get(supplier.id).lines.push({
+        id: crypto.randomUUID(),
+        stockItemId: item.stockItemId,
+        stockItemName: item.stockItemName,
+        unit: item.unit,
+        packQuantity: Math.max(Math.ceil(shortfall / offer.packSize), 1),
+        packSize: offer.packSize,
+        packCost: offer.packCost,
+        receivedQuantity: 0,
+      });
+    });
+
+  return { orders: [...orders.values()], unsupplied };
+};
+
+const escapeCsv = (value: string | number) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const downloadPurchaseOrderCsv = (order: PurchaseOrder) => {
+  const rows: (string | number)[][] = [
+    ['Order', formatOrderNumber(order)],
+    ['Supplier', order.supplierName],
+    ['Deliver to', order.storeName],
+    ['Expected', order.expectedDate || ''],
+    [],
+    ['Item', 'Packs', 'Pack size', 'Unit', 'Pack cost', 'Line total'],
+    ...order.lines.map(line => [
+      line.stockItemName,
+      line.packQuantity,
+      line.packSize,
+      line.unit,
+      line.packCost,
+      getLineTotal(line),
+    ]),
+    [],
+    ['Total', '', '', '', '', getOrderTotal(order)],
+  ];
+
+  const blob = new Blob([rows.map(row => row.map(escapeCsv).join(',')).join('\n')], { type: 'text/csv' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${formatOrderNumber(order)}.csv`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[char]);
+
+// Opens the order as a plain document in a new window and prints it, so it
+// can be saved as a PDF or handed to the supplier
+export const printPurchaseOrder = (order: PurchaseOrder, supplier?: Supplier) => {
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) return false;
+
+  const lineRows = order.lines.map(line => `
+    <tr>
+      <td>${escapeHtml(line.stockItemName)}</td>
+      <td class="number">${line.packQuantity}</td>
+      <td class="number">${line.packSize} ${escapeHtml(line.unit)}</td>
+      <td class="number">Rp ${line.packCost.toLocaleString()}</td>
+      <td class="number">Rp ${getLineTotal(line).toLocaleString()}</td>
+    </tr>`).join('');
+  const contact = supplier
+    ? [supplier.contactPerson, supplier.contactPhone, supplier.email].filter(Boolean).map(escapeHtml).join('<br>')
+    : '';
+
+  printWindow.document.write(`<!DOCTYPE html>
+<html>
+<head>
+  <title>${formatOrderNumber(order)}</title>
+  <style>
+    body { font-family: sans-serif; margin: 2rem; color: #111; }
+    table { width: 100%; border-collapse: collapse; margin-top: 1.5rem; }
+    th, td { border-bottom: 1px solid #ddd; padding: 0.5rem; text-align: left; }
+    .number { text-align: right; }
+    .details { display: flex; justify-content: space-between; }
+  </style>
+</head>
+<body>
+  <h1>Purchase Order ${formatOrderNumber(order)}</h1>
+  <div class="details">
+    <div><strong>Supplier</strong><br>${escapeHtml(order.supplierName)}${contact ? `<br>${contact}` : ''}</div>
+    <div><strong>Deliver to</strong><br>${escapeHtml(order.storeName)}</div>
+    <div><strong>Expected</strong><br>${order.expectedDate || '-'}</div>
+  </div>
+  <table>
+    <thead>
+      <tr><th>Item</th><th class="number">Packs</th><th class="number">Pack size</th><th class="number">Pack cost</th><th class="number">Total</th></tr>
+    </thead>
+    <tbody>${lineRows}</tbody>
+    <tfoot>
+      <tr><th colspan="4">Total</th><th class="number">Rp ${getOrderTotal(order).toLocaleString()}</th></tr>
+    </tfoot>
+  </table>
+  ${order.notes ? `<p>${escapeHtml(order.notes)}</p>` : ''}
+</body>
+</html>`);
+  printWindow.document.close();
+  printWindow.focus();
+  printWindow.print();
+  return true;
+};
@@ -0,0 +1,138 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  findInvalidModifierGroup,
+  findInvalidPriceOverride,
+  getModifierSelectionError,
+  MenuItem,
+  ModifierGroup,
+  resolveMenuItemPrices,
+} from '@/lib/repository';
+
+vi.mock('@/integrations/supabase/client', () => ({ supabase: {} }));
+
+const coffee: MenuItem = {
+  id: 'coffee',
+  name: 'Coffee',
+  description: '',
+  cashPrice: 20000,
+  qrisPrice: 22000,
+  categoryId: 'drinks',
+  priceOverrides: [
+    { branchId: 'branch-1', cashPrice: 21000, qrisPrice: 23000 },
+    { storeId: 'store-1', cashPrice: 25000, qrisPrice: 27000 },
+  ],
+};
+
+describe('resolveMenuItemPrices', () => {
+  it("prefers the store's own prices", () => {
+    expect(resolveMenuItemPrices(coffee, { storeId: 'store-1', branchId: 'branch-1' }))
+      .toMatchObject({ cashPrice: 25000, qrisPrice: 27000 });
+  });
+
+  it("falls back to the branch's prices", () => {
+    expect(resolveMenuItemPrices(coffee, { storeId: 'store-2', branchId: 'branch-1' }))
+      .toMatchObject({ cashPrice: 21000, qrisPrice: 23000 });
+  });
+
+  it("keeps the item's own prices elsewhere", () => {
+    expect(resolveMenuItemPrices(coffee, { storeId: 'store-3', branchId: 'branch-2' })).toBe(coffee);
+  });
+
+  it('reads items cached before overrides were added', () => {
+    const cached = { ...coffee, priceOverrides: undefined };
+    expect(resolveMenuItemPrices(cached, { storeId: 'store-1' })).toBe(cached);
+  });
+});
+
+describe('findInvalidPriceOverride', () => {
+  it('accepts one override per store or branch', () => {
+    expect(findInvalidPriceOverride(coffee.priceOverrides)).toBeUndefined();
+  });
+
+  it('rejects an override without a store or branch', () => {
+    const override = { cashPrice: 21000, qrisPrice: 23000 };
+    expect(findInvalidPriceOverride([override])).toBe(override);
+  });
+
+  it('rejects a store listed twice', () => {
+    const duplicate = { storeId: 'store-1', cashPrice: 26000, qrisPrice: 28000 };
+    expect(findInvalidPriceOverride([...coffee.priceOverrides, duplicate])).toBe(duplicate);
+  });
+
+  it('rejects prices that are not positive', () => {
+    const free = { storeId: 'store-2', cashPrice: 0, qrisPrice: 0 };
+    expect(findInvalidPriceOverride([free])).toBe(free);
+  });
+});
+
+const size: ModifierGroup = {
+  id: 'size',
+  name: 'Size',
+  selection: 'single',
+  isRequired: true,
+  minSelect: 0,
+  options: [
+    { id: 'regular', name: 'Regular', priceDelta: 0 },
+    { id: 'large', name: 'Large', priceDelta: 5000 },
+  ],
+};
+
+const toppings: ModifierGroup = {
+  id: 'toppings',
+  name: 'Toppings',
+  selection: 'multiple',
+  isRequired: false,
+  minSelect: 0,
+  maxSelect: 2,
+  options: [
+    { id: 'boba', name: 'Boba', priceDelta: 3000 },
+    { id: 'jelly', name: 'Jelly', priceDelta: 3000 },
+    { id: 'cheese', name: 'Cheese foam', priceDelta: 5000 },
+  ],
+};
+
+describe('getModifierSelectionError', () => {
+  it('asks for a choice in a required group', () => {
+    expect(getModifierSelectionError(size, 0)).toBe('Choose a size');
+    expect(getModifierSelectionError(size, 1)).toBeNull();
+  });
+
+  it('allows one choice in a single selection group', () => {
+    expect(getModifierSelectionError(size, 2)).toBe('Choose at most 1 for Size');
+  });
+
+  it('keeps to the limits of a multiple selection group', () => {
+    expect(getModifierSelectionError(toppings, 0)).toBeNull();
+    expect(getModifierSelectionError(toppings, 3)).toBe('Choose at most 2 for Toppings');
+    expect(getModifierSelectionError({ ...toppings, minSelect: 2 }, 1)).toBe('Choose at least 2 for Toppings');
+  });
+});
+
+describe('findInvalidModifierGroup', () => {
+  it('accepts groups whose limits can be met', () => {
+    expect(findInvalidModifierGroup([size, toppings])).toBeUndefined();
+  });
+
+  it('rejects unnamed groups and options', () => {
+    const unnamed = { ...toppings, name: ' ' };
+    const unnamedOption = { ...size, options: [...size.options, { id: 'small', name: '', priceDelta: 0 }] };
+
+    expect(findInvalidModifierGroup([size, unnamed])).toBe(unnamed);
+    expect(findInvalidModifierGroup([unnamedOption])).toBe(unnamedOption);
+  });
+
+  it('rejects a group without options', () => {
+    const empty = { ...toppings, options: [] };
+    expect(findInvalidModifierGroup([empty])).toBe(empty);
+  });
+
+  it('rejects limits no selection can meet', () => {
+    const tooMany = { ...toppings, minSelect: 4, maxSelect: undefined };
+    const noneAllowed = { ...toppings, maxSelect: 0 };
+    const minAboveMax = { ...toppings, minSelect: 3, maxSelect: 2 };
+
+    expect(findInvalidModifierGroup([tooMany])).toBe(tooMany);
+    expect(findInvalidModifierGroup([noneAllowed])).toBe(noneAllowed);
+    expect(findInvalidModifierGroup([minAboveMax])).toBe(minAboveMax);
+  });
+});
@@ -0,0 +1,794 @@
+import type { PostgrestError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables, TablesInsert } from '@/integrations/supabase/types';
+import type { CatalogKey } from '@/lib/local-db';
+import type { OperationType, PendingOperation, PendingOperationInput } from '@/lib/outbox';
+import type { CheckoutComponent, PaymentMethod } from '@/lib/transactions';
+
+// Data access for the catalog tables. Rows are mapped once, here, to the
+// camelCase models the pages edit and the tills cache, with the names of
+// related rows resolved for display.
+
+export interface Branch {
+  id: string;
+  name: string;
+  address: string;
+  contactPerson: string;
+  contactPhone: string;
+}
+
+export interface Store {
+  id: string;
+  name: string;
+  branchId: string;
+  branchName?: string;
+  address: string;
+  managerName?: string;
+  contactPhone?: string;
+  isHolidayMode?: boolean;
+}
+
+export interface Category {
+  id: string;
+  name: string;
+  description?: string;
+}
+
+export interface MenuItem {
+  id: string;
+  name: string;
+  description: string;
+  cashPrice: number;
+  qrisPrice: number;
+  categoryId: string;
+  categoryName?: string;
+  imageUrl?: string;
+  // Missing on items cached before these were added
+  priceOverrides?: MenuItemPriceOverride[];
+  modifierGroups?: ModifierGroup[];
+  itemType?: MenuItemType;
+  bundleSlots?: BundleSlot[];
+}
+
+export type MenuItemType = 'single' | 'bundle';
+
+// A place in a bundle, filled at the till by one of its menu items, e.g.
+// "Drink" with Iced Coffee and Hot Coffee. A slot with one menu item is a
+// fixed part of the bundle.
+export interface BundleSlot {
+  id: string;
+  name: string;
+  quantity: number;
+  menuItemIds: string[];
+}
+
+// A store's own prices for a menu item, or a branch's for all of its stores.
+// Exactly one of storeId and branchId is set.
+export interface MenuItemPriceOverride {
+  storeId?: string;
+  branchId?: string;
+  cashPrice: number;
+  qrisPrice: number;
+}
+
+export type ModifierSelection = 'single' | 'multiple';
+
+// A choice sold with a menu item, such as a size or an add-on. Its price
+// delta applies to every payment method.
+export interface ModifierOption {
+  id: string;
+  name: string;
+  priceDelta: number;
+}
+
+export interface ModifierGroup {
+  id: string;
+  name: string;
+  selection: ModifierSelection;
+  isRequired: boolean;
+  minSelect: number;
+  maxSelect?: number;
+  options: ModifierOption[];
+}
+
+// How much of a stock item one sale of a menu item uses
+export interface RecipeLine {
+  menuItemId: string;
+  quantity: number;
+  // Defaults to the stock item's unit; may be another unit of the same
+  // kind, e.g. g for beans counted in kg
+  unit?: string;
+}
+
+export interface StockItem {
+  id: string;
+  name: string;
+  currentStock: number;
+  minimumStock: number;
+  unit: string;
+  // The menu items that use this stock item, with their recipe amounts
+  linkedMenuItems: RecipeLine[];
+}
+
+// A stock item a supplier delivers, bought in packs of packSize (in the
+// stock item's unit) at packCost each
+export interface SupplierItem {
+  stockItemId: string;
+  packSize: number;
+  packCost: number;
+}
+
+export interface Supplier {
+  id: string;
+  name: string;
+  contactPerson: string;
+  contactPhone: string;
+  email: string;
+  // Days between sending an order and the goods arriving
+  leadTimeDays: number;
+  items: SupplierItem[];
+}
+
+export interface CatalogItems {
+  branches: Branch;
+  stores: Store;
+  categories: Category;
+  menuItems: MenuItem;
+  stockItems: StockItem;
+  suppliers: Supplier;
+}
+
+// Raised by every query in this module. Keeps the PostgREST code and details
+// so callers can tell e.g. a constraint violation from a network failure.
+export class RepositoryError extends Error {
+  code?: string;
+  details?: string;
+
+  constructor(action: string, error: PostgrestError) {
+    super(`Could not ${action}: ${error.message}`);
+    this.name = 'RepositoryError';
+    this.code = error.code;
+    this.details = error.details;
+  }
+}
+
+const unwrap = <T>(action: string, result: { data: T; error: PostgrestError | null }) => {
+  if (result.error) throw new RepositoryError(action, result.error);
+  return result.data;
+};
+
+export const queryKeys = {
+  catalog: (key: CatalogKey) => ['catalog', key] as const,
+};
+
+type StoreRow = Tables<'stores'> & { branches?: Pick<Tables<'branches'>, 'name'> | null };
+type MenuItemRow = Tables<'menu_items'> & {
+  categories?: Pick<Tables<'categories'>, 'name'> | null;
+  menu_item_prices?: Pick<Tables<'menu_item_prices'>, 'payment_method' | 'price'>[] | null;
+  menu_item_price_overrides?: Pick<
+    Tables<'menu_item_price_overrides'>,
+    'store_id' | 'branch_id' | 'cash_price' | 'qris_price'
+  >[] | null;
+  modifier_groups?: (Tables<'modifier_groups'> & {
+    modifier_options?: Tables<'modifier_options'>[] | null;
+  })[] | null;
+  bundle_slots?: (Tables<'bundle_slots'> & {
+    bundle_slot_items?: Pick<Tables<'bundle_slot_items'>, 'menu_item_id' | 'sort_order'>[] | null;
+  })[] | null;
+};
+
+const bySortOrder = (a: { sort_order: number }, b: { sort_order: number }) => a.sort_order - b.sort_order;
+type StockItemRow = Tables<'stock_items'> & {
+  stock_item_menu_items?: Pick<Tables<'stock_item_menu_items'>, 'menu_item_id' | 'quantity' | 'unit'>[] | null;
+};
+type SupplierRow = Tables<'suppliers'> & {
+  supplier_items?: Pick<Tables<'supplier_items'>, 'stock_item_id' | 'pack_size' | 'pack_cost'>[] | null;
+};
+
+export const toBranch = (row: Tables<'branches'>): Branch => ({
+  id: row.id,
+  name: row.name,
+  address: row.address,
+  contactPerson: row.contact_person || '',
+  contactPhone: row.contact_phone || '',
+});
+
+export const toStore = (row: StoreRow): Store => ({
+  id: row.id,
+  name: row.name,
+  branchId: row.branch_id,
+  branchName: row.branches?.name || '',
+  address: row.address,
+  managerName: row.manager_name || '',
+  contactPhone: row.contact_phone || '',
+  isHolidayMode: row.is_holiday_mode,
+});
+
+export const toCategory = (row: Tables<'categories'>): Category => ({
+  id: row.id,
+  name: row.name,
+  description: row.description || '',
+});
+
+// Prices come from menu_item_prices; an item without a row for a payment
+// method falls back to menu_items.price, the cash price.
+export const toMenuItem = (row: MenuItemRow): MenuItem => {
+  const findPrice = (paymentMethod: PaymentMethod) =>
+    row.menu_item_prices?.find(price => price.payment_method === paymentMethod)?.price ?? row.price;
+
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description || '',
+    cashPrice: findPrice('cash'),
+    qrisPrice: findPrice('qris'),
+    categoryId: row.category_id || '',
+    categoryName: row.categories?.name || '',
+    imageUrl: row.image_url || undefined,
+    priceOverrides: (row.menu_item_price_overrides || []).map(override => ({
+      storeId: override.store_id || undefined,
+      branchId: override.branch_id || undefined,
+      cashPrice: override.cash_price,
+      qrisPrice: override.qris_price,
+    })),
+    modifierGroups: [...(row.modifier_groups || [])].sort(bySortOrder).map(group => ({
+      id: group.id,
+      name: group.name,
+      selection: group.selection as ModifierSelection,
+      isRequired: group.is_required,
+      minSelect: group.min_select,
+      maxSelect: group.max_select ?? undefined,
+      options: [...(group.modifier_options || [])].sort(bySortOrder).map(option => ({
+        id: option.id,
+        name: option.name,
+        priceDelta: option.price_delta,
+      })),
+    })),
+    itemType: row.item_type as MenuItemType,
+    bundleSlots: [...(row.bundle_slots || [])].sort(bySortOrder).map(slot => ({
+      id: slot.id,
+      name: slot.name,
+      quantity: slot.quantity,
+      menuItemIds: [...(slot.bundle_slot_items || [])].sort(bySortOrder).map(slotItem => slotItem.menu_item_id),
+    })),
+  };
+};
+
+export const toStockItem = (row: StockItemRow): StockItem => ({
+  id: row.id,
+  name: row.name,
+  currentStock: row.current_stock,
+  minimumStock: row.minimum_stock,
+  unit: row.unit,
+  linkedMenuItems: (row.stock_item_menu_items || []).map(link => ({
+    menuItemId: link.menu_item_id,
+    quantity: link.quantity,
+    unit: link.unit || undefined,
+  })),
+});
+
+export const toSupplier = (row: SupplierRow): Supplier => ({
+  id: row.id,
+  name: row.name,
+  contactPerson: row.contact_person || '',
+  contactPhone: row.contact_phone || '',
+  email: row.email || '',
+  leadTimeDays: row.lead_time_days,
+  items: (row.supplier_items || []).map(item => ({
+    stockItemId: item.stock_item_id,
+    packSize: item.pack_size,
+    packCost: item.pack_cost,
+  })),
+});
+
+const fromBranch = (branch: Branch): TablesInsert<'branches'> => ({
+  id: branch.id,
+  name: branch.name,
+  address: branch.address,
+  contact_person: branch.contactPerson || null,
+  contact_phone: branch.contactPhone || null,
+});
+
+const fromStore = (store: Store): TablesInsert<'stores'> => ({
+  id: store.id,
+  name: store.name,
+  branch_id: store.branchId,
+  address: store.address,
+  manager_name: store.managerName || null,
+  contact_phone: store.contactPhone || null,
+});
+
+const fromCategory = (category: Category): TablesInsert<'categories'> => ({
+  id: category.id,
+  name: category.name,
+  description: category.description || null,
+});
+
+const fromMenuItem = (item: MenuItem): TablesInsert<'menu_items'> => ({
+  id: item.id,
+  name: item.name,
+  description: item.description || null,
+  category_id: item.categoryId,
+  price: item.cashPrice,
+  item_type: item.itemType || 'single',
+});
+
+const fromMenuItemPrices = (item: MenuItem): TablesInsert<'menu_item_prices'>[] => [
+  { menu_item_id: item.id, payment_method: 'cash', price: item.cashPrice },
+  { menu_item_id: item.id, payment_method: 'qris', price: item.qrisPrice },
+];
+
+const fromStockItem = (item: StockItem): TablesInsert<'stock_items'> => ({
+  id: item.id,
+  name: item.name,
+  current_stock: item.currentStock,
+  minimum_stock: item.minimumStock,
+  unit: item.unit,
+});
+
+const fromSupplier = (supplier: Supplier): TablesInsert<'suppliers'> => ({
+  id: supplier.id,
+  name: supplier.name,
+  contact_person: supplier.contactPerson || null,
+  contact_phone: supplier.contactPhone || null,
+  email: supplier.email || null,
+  lead_time_days: supplier.leadTimeDays,
+});
+
+type CatalogTable = 'branches' | 'stores' | 'categories' | 'menu_items' | 'stock_items' | 'suppliers';
+
+const CATALOG_TABLES: Record<CatalogKey, CatalogTable> = {
+  branches: 'branches',
+  stores: 'stores',
+  categories: 'categories',
+  menuItems: 'menu_items',
+  stockItems: 'stock_items',
+  suppliers: 'suppliers',
+};
+
+// The outbox operations that change each list while offline
+export const CATALOG_OPERATIONS: Record<CatalogKey, { create: OperationType; update: OperationType; delete: OperationType }> = {
+  branches: { create: 'CREATE_BRANCH', update: 'UPDATE_BRANCH', delete: 'DELETE_BRANCH' },
+  stores: { create: 'CREATE_STORE', update: 'UPDATE_STORE', delete: 'DELETE_STORE' },
+  categories: { create: 'CREATE_CATEGORY', update: 'UPDATE_CATEGORY', delete: 'DELETE_CATEGORY' },
+  menuItems: { create: 'CREATE_MENU_ITEM', update: 'UPDATE_MENU_ITEM', delete: 'DELETE_MENU_ITEM' },
+  stockItems: { create: 'CREATE_STOCK_ITEM', update: 'UPDATE_STOCK_ITEM_DETAILS', delete: 'DELETE_STOCK_ITEM' },
+  suppliers: { create: 'CREATE_SUPPLIER', update: 'UPDATE_SUPPLIER', delete: 'DELETE_SUPPLIER' },
+};
+
+export const fetchBranches = async () => {
+  const rows = unwrap('load branches', await supabase
+    .from('branches')
+    .select('*')
+    .order('name'));
+
+  return (rows || []).map(toBranch);
+};
+
+export const fetchStores = async (filter: { branchId?: string } = {}) => {
+  let query = supabase
+    .from('stores')
+    .select('*, branches(name)')
+    .order('name');
+
+  if (filter.branchId) {
+    query = query.eq('branch_id', filter.branchId);
+  }
+
+  const rows = unwrap('load stores', await query);
+  return (rows || []).map(toStore);
+};
+
+export const fetchCategories = async () => {
+  const rows = unwrap('load categories', await supabase
+    .from('categories')
+    .select('*')
+    .order('name'));
+
+  return (rows || []).map(toCategory);
+};
+
+export const fetchMenuItems = async () => {
+  const rows = unwrap('load menu items', await supabase
+    .from('menu_items')
+    .select(`
+      *,
+      categories(name),
+      menu_item_prices(payment_method, price),
+      menu_item_price_overrides(store_id, branch_id, cash_price, qris_price),
+      modifier_groups(*, modifier_options(*)),
+      bundle_slots(*, bundle_slot_items(menu_item_id, sort_order))
+    `)
+    .order('name'));
+
+  return (rows || []).map(toMenuItem);
+};
+
+export const fetchStockItems = async () => {
+  const rows = unwrap('load stock items', await supabase
+    .from('stock_items')
+    .select('*, stock_item_menu_items(menu_item_id, quantity, unit)')
+    .order('name'));
+
+  return (rows || []).map(toStockItem);
+};
+
+export const fetchSuppliers = async () => {
+  const rows = unwrap('load suppliers', await supabase
+    .from('suppliers')
+    .select('*, supplier_items(stock_item_id, pack_size, pack_cost)')
+    .order('name'));
+
+  return (rows || []).map(toSupplier);
+};
+
+// Creates and updates share one function: the client generates the id, so an
+// upsert makes a replay of either operation land on the same row.
+export const saveBranch = async (branch: Branch) => {
+  unwrap('save the branch', await supabase.from('branches').upsert(fromBranch(branch)));
+};
+
+export const saveStore = async (store: Store) => {
+  unwrap('save the store', await supabase.from('stores').upsert(fromStore(store)));
+};
+
+export const saveCategory = async (category: Category) => {
+  unwrap('save the category', await supabase.from('categories').upsert(fromCategory(category)));
+};
+
+export const saveMenuItem = async (item: MenuItem) => {
+  unwrap('save the menu item', await supabase.from('menu_items').upsert(fromMenuItem(item)));
+  unwrap('save the menu prices', await supabase
+    .from('menu_item_prices')
+    .upsert(fromMenuItemPrices(item)));
+
+  // Replace the overrides with the ones from the form
+  unwrap('save the store prices', await supabase
+    .from('menu_item_price_overrides')
+    .delete()
+    .eq('menu_item_id', item.id));
+
+  const overrides = item.priceOverrides || [];
+  if (overrides.length > 0) {
+    unwrap('save the store prices', await supabase
+      .from('menu_item_price_overrides')
+      .insert(overrides.map(override => ({
+        menu_item_id: item.id,
+        store_id: override.storeId || null,
+        branch_id: override.branchId || null,
+        cash_price: override.cashPrice,
+        qris_price: override.qrisPrice,
+      }))));
+  }
+
+  await saveModifierGroups(item);
+
+  // Replace the bundle's slots with the ones from the form. Sold bundles keep
+  // a copy of their components, so nothing refers to the old slots.
+  unwrap('save the bundle', await supabase
+    .from('bundle_slots')
+    .delete()
+    .eq('bundle_id', item.id));
+
+  const slots = item.itemType === 'bundle' ? item.bundleSlots || [] : [];
+  if (slots.length > 0) {
+    unwrap('save the bundle', await supabase
+      .from('bundle_slots')
+      .insert(slots.map((slot, index) => ({
+        id: slot.id,
+        bundle_id: item.id,
+        name: slot.name,
+        quantity: slot.quantity,
+        sort_order: index,
+      }))));
+    unwrap('save the bundle', await supabase
+      .from('bundle_slot_items')
+      .insert(slots.flatMap(slot => slot.menuItemIds.map((menuItemId, index) => ({
+        slot_id: slot.id,
+        menu_item_id: menuItemId,
+        sort_order: index,
+      })))));
+  }
+};
+
+// The components of a bundle line. choices maps a slot to the menu item picked
+// for it; slots without a choice take their first menu item.
+export const getBundleComponents = (
+  bundle: MenuItem,
+  choices: Record<string, string>,
+  menuItems: MenuItem[]
+): CheckoutComponent[] =>
+  (bundle.bundleSlots || []).map(slot => {
+    const menuItemId = choices[slot.id] || slot.menuItemIds[0];
+    return {
+      menuItemId,
+      name: menuItems.find(item => item.id === menuItemId)?.name || '',
+      slotName: slot.name,
+      quantity: slot.quantity,
+    };
+  });
+
+// Why a bundle can't be saved, or null when it can
+export const getBundleError = (slots: BundleSlot[]) => {
+  if (slots.length === 0) return 'A bundle needs at least one slot.';
+  const invalidSlot = slots.find(slot =>
+    !slot.name.trim() || slot.quantity < 1 || slot.menuItemIds.length === 0
+  );
+  return invalidSlot
+    ? `${invalidSlot.name || 'Every slot'} needs a name, a quantity and at least one menu item.`
+    : null;
+};
+
+// Groups and options are upserted and only the ones removed in the form are
+// deleted, so past sales keep pointing at the options they were sold with
+const saveModifierGroups = async (item: MenuItem) => {
+  const groups = item.modifierGroups || [];
+  const groupIds = groups.map(group => group.id);
+  const options = groups.flatMap(group => group.options.map((option, index) => ({
+    id: option.id,
+    group_id: group.id,
+    name: option.name,
+    price_delta: option.priceDelta,
+    sort_order: index,
+  })));
+
+  if (groups.length > 0) {
+    unwrap('save the modifiers', await supabase
+      .from('modifier_groups')
+      .upsert(groups.map((group, index) => ({
+        id: group.id,
+        menu_item_id: item.id,
+        name: group.name,
+        selection: group.selection,
+        is_required: group.isRequired,
+        min_select: group.minSelect,
+        max_select: group.maxSelect ?? null,
+        sort_order: index,
+      }))));
+  }
+
+  const staleGroups = supabase
+    .from('modifier_groups')
+    .delete()
+    .eq('menu_item_id', item.id);
+  unwrap('save the modifiers', await (groupIds.length > 0
+    ? staleGroups.not('id', 'in', `(${groupIds.join(',')})`)
+    : staleGroups));
+
+  if (groups.length === 0) return;
+
+  if (options.length > 0) {
+    unwrap('save the modifiers', await supabase.from('modifier_options').upsert(options));
+  }
+
+  const staleOptions = supabase
+    .from('modifier_options')
+    .delete()
+    .in('group_id', groupIds);
+  unwrap('save the modifiers', await (options.length > 0
+    ? staleOptions.not('id', 'in', `(${options.map(option => option.id).join(',')})`)
+    : staleOptions));
+};
+
+// Why a number of options chosen in a group can't be sold, or null when it can
+export const getModifierSelectionError = (group: ModifierGroup, selectedCount: number) => {
+  const min = group.isRequired ? Math.max(group.minSelect, 1) : group.minSelect;
+  const max = group.selection === 'single' ? 1 : group.maxSelect;
+
+  if (selectedCount < min) {
+    return min === 1 ? `Choose a ${group.name.toLowerCase()}` : `Choose at least ${min} for ${group.name}`;
+  }
+  if (max !== undefined && selectedCount > max) {
+    return `Choose at most ${max} for ${group.name}`;
+  }
+  return null;
+};
+
+// Groups that can't be saved: unnamed, without options, with an unnamed
+// option, or with limits no selection can meet
+export const findInvalidModifierGroup = (groups: ModifierGroup[]) =>
+  groups.find(group => {
+    const max = group.selection === 'single' ? 1 : group.maxSelect ?? group.options.length;
+    const min = group.isRequired ? Math.max(group.minSelect, 1) : group.minSelect;
+    return !group.name.trim() ||
+      group.options.length === 0 ||
+      group.options.some(option => !option.name.trim()) ||
+      max < 1 ||
+      min > Math.min(max, group.options.length);
+  });
+
+// Overrides that can't be saved: one without a store or branch, a target
+// listed twice, or a price that isn't positive
+export const findInvalidPriceOverride = (overrides: MenuItemPriceOverride[]) => {
+  const targets = overrides.map(override => override.storeId || override.branchId);
+  return overrides.find((override, index) =>
+    !targets[index] ||
+    targets.indexOf(targets[index]) !== index ||
+    override.cashPrice <= 0 ||
+    override.qrisPrice <= 0
+  );
+};
+
+// The item with the prices a store sells it at: the store's override if it
+// has one, else its branch's, else the item's own prices.
+export const resolveMenuItemPrices = <T extends MenuItem>(
+  item: T,
+  location: { storeId?: string; branchId?: string }
+): T => {
+  const overrides = item.priceOverrides || [];
+  const override =
+    (location.storeId && overrides.find(o => o.storeId === location.storeId)) ||
+    (location.branchId && overrides.find(o => o.branchId === location.branchId));
+
+  return override
+    ? { ...item, cashPrice: override.cashPrice, qrisPrice: override.qrisPrice }
+    : item;
+};
+
+export const getMenuItemPrice = (item: MenuItem, paymentMethod: PaymentMethod) =>
+  paymentMethod === 'qris' ? item.qrisPrice : item.cashPrice;
+
+// Units a recipe amount can be converted between, as a multiple of the
+// smallest unit of their kind. Kept in step with convert_stock_unit.
+const stockUnits: Record<string, { kind: string; factor: number }> = {
+  g: { kind: 'mass', factor: 1 },
+  gram: { kind: 'mass', factor: 1 },
+  kg: { kind: 'mass', factor: 1000 },
+  ml: { kind: 'volume', factor: 1 },
+  l: { kind: 'volume', factor: 1000 },
+  liter: { kind: 'volume', factor: 1000 },
+  litre: { kind: 'volume', factor: 1000 },
+};
+
+const findStockUnit = (unit: string) => stockUnits[unit.trim().toLowerCase()];
+
+// The units a recipe line for a stock item counted in `unit` can be given in
+export const getRecipeUnits = (unit: string) => {
+  const stockUnit = findStockUnit(unit);
+  const units = stockUnit
+    ? ['g', 'kg', 'ml', 'l'].filter(other => stockUnits[other].kind === stockUnit.kind)
+    : [];
+  return units.includes(unit) ? units : [unit, ...units];
+};
+
+// Converts a recipe amount to the stock item's unit. Returns null when the
+// units can't be converted into each other.
+export const convertRecipeQuantity = (quantity: number, from: string | undefined, to: string) => {
+  if (!from || from.trim().toLowerCase() === to.trim().toLowerCase()) return quantity;
+  const fromUnit = findStockUnit(from);
+  const toUnit = findStockUnit(to);
+  if (!fromUnit || !toUnit || fromUnit.kind !== toUnit.kind) return null;
+  return quantity * fromUnit.factor / toUnit.factor;
+};
+
+// Recipe lines that can't be saved: an amount that isn't positive, or a unit
+// that can't be converted to the stock item's
+export const findInvalidRecipeLine = (lines: RecipeLine[], stockUnit: string) =>
+  lines.find(line => !(line.quantity > 0) || convertRecipeQuantity(line.quantity, line.unit, stockUnit) === null);
+
+export const saveStockItem = async (item: StockItem) => {
+  unwrap('save the stock item', await supabase.from('stock_items').upsert(fromStockItem(item)));
+
+  // Replace the menu item links with the ones from the form
+  unwrap('update the linked menu items', await supabase
+    .from('stock_item_menu_items')
+    .delete()
+    .eq('stock_item_id', item.id));
+
+  if (item.linkedMenuItems.length > 0) {
+    unwrap('update the linked menu items', await supabase
+      .from('stock_item_menu_items')
+      .insert(item.linkedMenuItems.map(line => ({
+        stock_item_id: item.id,
+        menu_item_id: line.menuItemId,
+        quantity: line.quantity,
+        unit: line.unit || null,
+      }))));
+  }
+};
+
+// Supplier items that can't be saved: an item listed twice, or a pack size
+// that isn't positive or a negative cost
+export const findInvalidSupplierItem = (items: SupplierItem[]) =>
+  items.find((item, index) =>
+    !item.stockItemId ||
+    items.findIndex(other => other.stockItemId === item.stockItemId) !== index ||
+    !(item.packSize > 0) ||
+    item.packCost < 0
+  );
+
+export const saveSupplier = async (supplier: Supplier) => {
+  unwrap('save the supplier', await supabase.from('suppliers').upsert(fromSupplier(supplier)));
+
+  // Replace the supplied items with the ones from the form
+  unwrap('update the supplied items', await supabase
+    .from('supplier_items')
+    .delete()
+    .eq('supplier_id', supplier.id));
+
+  if (supplier.items.length > 0) {
+    unwrap('update the supplied items', await supabase
+      .from('supplier_items')
+      .insert(supplier.items.map(item => ({
+        supplier_id: supplier.id,
+        stock_item_id: item.stockItemId,
+        pack_size: item.packSize,
+        pack_cost: item.packCost,
+      }))));
+  }
+};
+
+export const setStoreHolidayMode = async (storeId: string, isHolidayMode: boolean) => {
+  unwrap('update holiday mode', await supabase
+    .from('stores')
+    .update({ is_holiday_mode: isHolidayMode })
+    .eq('id', storeId));
+};
+
+const fetchers: { [K in CatalogKey]: () => Promise<CatalogItems[K][]> } = {
+  branches: fetchBranches,
+  stores: () => fetchStores(),
+  categories: fetchCategories,
+  menuItems: fetchMenuItems,
+  stockItems: fetchStockItems,
+  suppliers: fetchSuppliers,
+};
+
+const savers: { [K in CatalogKey]: (item: CatalogItems[K]) => Promise<void> } = {
+  branches: saveBranch,
+  stores: saveStore,
+  categories: saveCategory,
+  menuItems: saveMenuItem,
+  stockItems: saveStockItem,
+  suppliers: saveSupplier,
+};
+
+export const fetchCatalogList = <K extends CatalogKey>(key: K) =>
+  fetchers[key]() as Promise<CatalogItems[K][]>;
+
+export const saveCatalogItem = <K extends CatalogKey>(key: K, item: CatalogItems[K]) =>
+  (savers[key] as (item: CatalogItems[K]) => Promise<void>)(item);
+
+export const deleteCatalogItem = async (key: CatalogKey, id: string) => {
+  unwrap(`delete from ${CATALOG_TABLES[key]}`, await supabase
+    .from(CATALOG_TABLES[key])
+    .delete()
+    .eq('id', id));
+};
+
+export const toCatalogOperation = <K extends CatalogKey>(
+  key: K,
+  change: { type: 'create' | 'update'; item: CatalogItems[K] } | { type: 'delete'; id: string }
+) => ({
+  type: CATALOG_OPERATIONS[key][change.type],
+  data: change.type === 'delete' ? { id: change.id } : change.item,
+}) as PendingOperationInput;
+
+// Lays the changes still waiting in the outbox over a list fetched from the
+// server, so an edit made offline doesn't disappear until it has been sent.
+export const applyPendingChanges = <K extends CatalogKey>(
+  key: K,
+  items: CatalogItems[K][],
+  operations: PendingOperation[]
+) => {
+  const { create, update, delete: remove } = CATALOG_OPERATIONS[key];
+
+  return operations.reduce((list, operation) => {
+    if (operation.type === remove) {
+      const { id } = operation.data as { id: string };
+      return list.filter(item => item.id !== id);
+    }
+    if (operation.type === create || operation.type === update) {
+      const changed = operation.data as CatalogItems[K];
+      return list.some(item => item.id === changed.id)
+        ? list.map(item => item.id === changed.id ? changed : item)
+        : [...list, changed];
+    }
+    // Managers switch holiday mode without editing the rest of the store
+    if (key === 'stores' && operation.type === 'UPDATE_HOLIDAY_MODE') {
+      const { storeId, holidayMode } = operation.data;
+      return list.map(item => item.id === storeId ? { ...item, isHolidayMode: holidayMode } : item);
+    }
+    return list;
+  }, items);
+};
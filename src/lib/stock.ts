@@ -0,0 +1,318 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// store_stocks rows are keyed by the day they were opened for selling.
+// Queued operations pass their own timestamp so a replay lands on the day the
+// change was made, not the day connectivity came back.
+export const getSellingDate = (timestamp?: string) =>
+  (timestamp ? new Date(timestamp) : new Date()).toISOString().split('T')[0];
+
+// A manual stock change, expressed relative to the row the device last saw.
+// baseUpdatedAt is null when there was no row for that day yet.
+export interface StockAdjustment {
+  stockItemId: string;
+  delta: number;
+  baseQuantity: number;
+  baseUpdatedAt: string | null;
+}
+
+export interface StockAdjustmentResult {
+  // 'conflict' means the row was adjusted since the base version, possibly by
+  // the same user on another device; the change was parked for review and the
+  // quantity left as it was
+  status: 'applied' | 'conflict';
+  quantity: number | null;
+  updatedAt: string | null;
+}
+
+// Applies a stock change through the adjust_store_stock RPC, which merges it
+// with sales made since the base version and detects conflicting edits. The
+// client operation id makes a replay of the same change a no-op.
+export const adjustStoreStock = async (
+  clientOperationId: string,
+  storeId: string,
+  sellingDate: string,
+  adjustment: StockAdjustment,
+  activate = false
+): Promise<StockAdjustmentResult> => {
+  const { data, error } = await supabase.rpc('adjust_store_stock', {
+    p_client_operation_id: clientOperationId,
+    p_store_id: storeId,
+    p_stock_item_id: adjustment.stockItemId,
+    p_selling_date: sellingDate,
+    p_delta: adjustment.delta,
+    p_base_quantity: adjustment.baseQuantity,
+    p_base_updated_at: adjustment.baseUpdatedAt,
+    p_activate: activate,
+  });
+
+  if (error) throw error;
+
+  const result = data as { status: StockAdjustmentResult['status']; quantity: number | null; updated_at: string | null };
+  return { status: result.status, quantity: result.quantity, updatedAt: result.updated_at };
+};
+
+// Brings a single store_stocks row for the given day to the given quantity,
+// overwriting whatever is there. Only used to replay operations queued by
+// builds that predate adjustStoreStock; the change still goes through the RPC
+// so it shows up in the stock movements.
+export const setStoreStock = async (
+  storeId: string,
+  stockItemId: string,
+  quantity: number,
+  sellingDate: string,
+  activate = false
+) => {
+  const { data: existingRecord, error: existingError } = await supabase
+    .from('store_stocks')
+    .select('quantity, updated_at')
+    .eq('store_id', storeId)
+    .eq('stock_item_id', stockItemId)
+    .eq('selling_date', sellingDate)
+    .maybeSingle();
+
+  if (existingError) throw existingError;
+
+  const baseQuantity = existingRecord?.quantity ?? 0;
+  await adjustStoreStock(crypto.randomUUID(), storeId, sellingDate, {
+    stockItemId,
+    delta: quantity - baseQuantity,
+    baseQuantity,
+    baseUpdatedAt: existingRecord?.updated_at ?? null,
+  }, activate);
+};
+
+// Each item's latest quantity at each store, keyed by `${storeId}:${stockItemId}`:
+// today's stock while the store is selling, otherwise what it last closed
+// with or has received since
+export const fetchLatestStoreQuantities = async (storeIds: string[]) => {
+  const quantities = new Map<string, number>();
+  if (storeIds.length === 0) return quantities;
+
+  const { data, error } = await supabase
+    .from('store_stocks')
+    .select('store_id, stock_item_id, quantity, selling_date')
+    .in('store_id', storeIds)
+    .order('selling_date', { ascending: false });
+
+  if (error) throw error;
+
+  (data || []).forEach(row => {
+    const key = `${row.store_id}:${row.stock_item_id}`;
+    if (!quantities.has(key)) quantities.set(key, row.quantity);
+  });
+
+  return quantities;
+};
+
+// What each stock item has left at a store on a selling day, keyed by stock
+// item id. Only rows opened for selling are included; an item the store
+// hasn't opened has nothing to sell.
+export const fetchSellingStock = async (storeId: string, sellingDate: string) => {
+  const { data, error } = await supabase
+    .from('store_stocks')
+    .select('stock_item_id, quantity')
+    .eq('store_id', storeId)
+    .eq('selling_date', sellingDate)
+    .eq('is_active', true);
+
+  if (error) throw error;
+
+  return new Map((data || []).map(row => [row.stock_item_id, row.quantity]));
+};
+
+// What a store should open an item with: its last closing count plus goods
+// received since. closingDate and closingQuantity are null when the store
+// has never closed with the item.
+export interface OpeningProposal {
+  stockItemId: string;
+  closingDate: string | null;
+  closingQuantity: number | null;
+  receivedQuantity: number;
+  proposedQuantity: number;
+}
+
+export const fetchOpeningProposals = async (storeId: string, sellingDate: string) => {
+  const { data, error } = await supabase.rpc('propose_opening_stock', {
+    p_store_id: storeId,
+    p_selling_date: sellingDate,
+  });
+
+  if (error) throw error;
+
+  return (data || []).map((row): OpeningProposal => ({
+    stockItemId: row.stock_item_id,
+    closingDate: row.closing_date,
+    closingQuantity: row.closing_quantity,
+    receivedQuantity: row.received_quantity,
+    proposedQuantity: row.proposed_quantity,
+  }));
+};
+
+// One line of an opening count: the proposal, what the manager counted, and
+// the version of today's row the device last saw
+export interface OpeningCount extends Omit<OpeningProposal, 'closingDate'> {
+  countedQuantity: number;
+  baseQuantity: number;
+  baseUpdatedAt: string | null;
+}
+
+// Opens the store for the day from an opening count, which the server keeps
+// as a document. Results are in the same order as the lines.
+export const startSelling = async (
+  clientOperationId: string,
+  storeId: string,
+  lines: OpeningCount[],
+  sellingDate: string
+) => {
+  const { data, error } = await supabase.rpc('start_selling', {
+    p_client_operation_id: clientOperationId,
+    p_store_id: storeId,
+    p_selling_date: sellingDate,
+    p_lines: lines.map(line => ({
+      stock_item_id: line.stockItemId,
+      closing_quantity: line.closingQuantity,
+      received_quantity: line.receivedQuantity,
+      proposed_quantity: line.proposedQuantity,
+      counted_quantity: line.countedQuantity,
+      base_quantity: line.baseQuantity,
+      base_updated_at: line.baseUpdatedAt,
+    })),
+  });
+
+  if (error) throw error;
+
+  const results = data as { status: StockAdjustmentResult['status']; quantity: number | null; updated_at: string | null }[];
+  return results.map((result): StockAdjustmentResult => ({
+    status: result.status,
+    quantity: result.quantity,
+    updatedAt: result.updated_at,
+  }));
+};
+
+// What the manager found left of an item when closing
+export interface ClosingCount {
+  stockItemId: string;
+  countedQuantity: number;
+}
+
+// Closes the store for the day. Counted items are reconciled against what
+// the system expected and set to the count; the rest close at the expected
+// quantity.
+export const endSelling = async (storeId: string, sellingDate: string, counts: ClosingCount[] = []) => {
+  const { error } = await supabase.rpc('end_selling', {
+    p_store_id: storeId,
+    p_selling_date: sellingDate,
+    p_counts: counts.map(count => ({
+      stock_item_id: count.stockItemId,
+      counted_quantity: count.countedQuantity,
+    })),
+  });
+
+  if (error) throw error;
+};
+
+// A closing count with what the system expected at the time
+export interface StockCount {
+  id: string;
+  storeId: string;
+  storeName: string;
+  stockItemId: string;
+  stockItemName: string;
+  unit: string;
+  sellingDate: string;
+  openingQuantity: number;
+  soldQuantity: number;
+  expectedQuantity: number;
+  countedQuantity: number;
+  // counted - expected: below zero is missing stock
+  variance: number;
+}
+
+// Closing counts of the stores the user can see, for selling dates in the
+// inclusive range
+export const fetchStockCounts = async (fromDate: string, toDate: string) => {
+  const { data, error } = await supabase
+    .from('stock_counts')
+    .select('*, stores(name), stock_items(name, unit)')
+    .gte('selling_date', fromDate)
+    .lte('selling_date', toDate)
+    .order('selling_date', { ascending: false });
+
+  if (error) throw error;
+
+  return (data || []).map((row): StockCount => ({
+    id: row.id,
+    storeId: row.store_id,
+    storeName: row.stores?.name || 'Unknown Store',
+    stockItemId: row.stock_item_id,
+    stockItemName: row.stock_items?.name || 'Removed item',
+    unit: row.stock_items?.unit || '',
+    sellingDate: row.selling_date,
+    openingQuantity: row.opening_quantity,
+    soldQuantity: row.sold_quantity,
+    expectedQuantity: row.expected_quantity,
+    countedQuantity: row.counted_quantity,
+    variance: row.counted_quantity - row.expected_quantity,
+  }));
+};
+
+export type StockMovementType =
+  | 'sale'
+  | 'adjustment'
+  | 'opening'
+  | 'closing'
+  | 'transfer'
+  | 'waste'
+  | 'receipt';
+
+export interface StockMovement {
+  id: string;
+  type: StockMovementType;
+  quantityChange: number;
+  quantityAfter: number;
+  sellingDate: string | null;
+  transactionId: string | null;
+  note: string | null;
+  // Name of the person who made the change, when they are visible to the
+  // current user
+  createdByName: string | null;
+  createdAt: string;
+}
+
+export const stockMovementLabels: Record<StockMovementType, string> = {
+  sale: 'Sale',
+  adjustment: 'Adjustment',
+  opening: 'Opening',
+  closing: 'Closing',
+  transfer: 'Transfer',
+  waste: 'Waste',
+  receipt: 'Receipt',
+};
+
+// The most recent movements of one stock item in a store, newest first.
+// Without a store, the movements of the catalog stock.
+export const fetchStockMovements = async (stockItemId: string, storeId?: string, limit = 100) => {
+  let query = supabase
+    .from('stock_movements')
+    .select('*, profiles(name)')
+    .eq('stock_item_id', stockItemId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  query = storeId ? query.eq('store_id', storeId) : query.is('store_id', null);
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  return (data || []).map((row): StockMovement => ({
+    id: row.id,
+    type: row.movement_type as StockMovementType,
+    quantityChange: row.quantity_change,
+    quantityAfter: row.quantity_after,
+    sellingDate: row.selling_date,
+    transactionId: row.transaction_id,
+    note: row.note,
+    createdByName: row.profiles?.name ?? null,
+    createdAt: row.created_at,
+  }));
+};
@@ -0,0 +1,121 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  allocateBundleRevenue,
+  calculateSurcharge,
+  CheckoutPayload,
+  createTransaction,
+  InsufficientStockError,
+  PriceMismatchError,
+} from '@/lib/transactions';
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: { rpc: vi.fn() },
+}));
+
+const rpc = vi.mocked(supabase.rpc);
+
+const payload: CheckoutPayload = {
+  storeId: 'store-1',
+  cashierId: 'cashier-1',
+  paymentMethod: 'qris',
+  soldAt: '2026-10-19T08:30:00.000Z',
+  items: [{ menuItemId: 'coffee', quantity: 2, pricePerUnit: 22000, basePrice: 20000 }],
+};
+
+describe('allocateBundleRevenue', () => {
+  it('splits the total in proportion to the standalone prices', () => {
+    expect(allocateBundleRevenue(30000, [
+      { quantity: 1, standalonePrice: 20000 },
+      { quantity: 1, standalonePrice: 10000 },
+    ])).toEqual([20000, 10000]);
+  });
+
+  it('gives the rounding remainder to the last component', () => {
+    const amounts = allocateBundleRevenue(100, [
+      { quantity: 1, standalonePrice: 1 },
+      { quantity: 1, standalonePrice: 1 },
+      { quantity: 1, standalonePrice: 1 },
+    ]);
+
+    expect(amounts).toEqual([33.33, 33.33, 33.34]);
+    expect(amounts.reduce((sum, amount) => sum + amount, 0)).toBeCloseTo(100);
+  });
+
+  it('splits by quantity when no component has a price', () => {
+    expect(allocateBundleRevenue(9000, [
+      { quantity: 2, standalonePrice: 0 },
+      { quantity: 1, standalonePrice: 0 },
+    ])).toEqual([6000, 3000]);
+  });
+});
+
+describe('calculateSurcharge', () => {
+  it('adds up what each line was charged above its cash price', () => {
+    expect(calculateSurcharge([
+      { menuItemId: 'coffee', quantity: 2, pricePerUnit: 22000, basePrice: 20000 },
+      { menuItemId: 'tea', quantity: 1, pricePerUnit: 16500, basePrice: 15000 },
+    ])).toBe(5500);
+  });
+
+  it('takes lines without a base price to have no surcharge', () => {
+    expect(calculateSurcharge([{ menuItemId: 'coffee', quantity: 3, pricePerUnit: 22000 }])).toBe(0);
+  });
+});
+
+describe('createTransaction', () => {
+  beforeEach(() => {
+    rpc.mockReset();
+  });
+
+  it('sends the sale under its idempotency key with its selling date and returns the server id', async () => {
+    rpc.mockResolvedValue({ data: 'transaction-1', error: null } as never);
+
+    await expect(createTransaction(payload, 'operation-1')).resolves.toBe('transaction-1');
+    expect(rpc).toHaveBeenCalledWith('checkout_transaction', expect.objectContaining({
+      p_client_operation_id: 'operation-1',
+      p_payment_method: 'qris',
+      p_selling_date: '2026-10-19',
+      p_sold_at: '2026-10-19T08:30:00.000Z',
+      p_allow_shortfall: false,
+      p_items: [expect.objectContaining({ menu_item_id: 'coffee', quantity: 2 })],
+    }));
+  });
+
+  it('turns insufficient_stock into an InsufficientStockError', async () => {
+    rpc.mockResolvedValue({
+      data: null,
+      error: {
+        message: 'insufficient_stock',
+        details: JSON.stringify({ stock_item_id: 'beans', available: 1.5, requested: 2 }),
+      },
+    } as never);
+
+    const error = await createTransaction(payload, 'operation-1').catch(error => error);
+
+    expect(error).toBeInstanceOf(InsufficientStockError);
+    expect(error).toMatchObject({ stockItemId: 'beans', available: 1.5, requested: 2 });
+  });
+
+  it('turns price_mismatch into a PriceMismatchError', async () => {
+    rpc.mockResolvedValue({
+      data: null,
+      error: {
+        message: 'price_mismatch',
+        details: JSON.stringify({ menu_item_id: 'coffee', expected: 23000, received: 22000 }),
+      },
+    } as never);
+
+    const error = await createTransaction(payload, 'operation-1').catch(error => error);
+
+    expect(error).toBeInstanceOf(PriceMismatchError);
+    expect(error).toMatchObject({ menuItemId: 'coffee', expected: 23000, received: 22000 });
+  });
+
+  it('passes other errors through unchanged', async () => {
+    const serverError = { message: 'no_store_assigned', details: '' };
+    rpc.mockResolvedValue({ data: null, error: serverError } as never);
+
+    await expect(createTransaction(payload, 'operation-1')).rejects.toBe(serverError);
+  });
+});
@@ -0,0 +1,193 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { getSellingDate } from '@/lib/stock';
+
+export type PaymentMethod = 'cash' | 'qris';
+
+// A modifier chosen for a sold line, copied from the menu at the time of sale
+export interface CheckoutModifier {
+  optionId: string;
+  groupName: string;
+  optionName: string;
+  priceDelta: number;
+}
+
+// A menu item sold as part of a bundle line. quantity is per bundle.
+export interface CheckoutComponent {
+  menuItemId: string;
+  name: string;
+  slotName: string;
+  quantity: number;
+  // Share of the line's total credited to this component
+  allocatedAmount?: number;
+}
+
+export interface CheckoutLine {
+  menuItemId: string;
+  quantity: number;
+  pricePerUnit: number;
+  // Cash price of the item at the time of sale; pricePerUnit above it is the
+  // payment method's surcharge
+  basePrice?: number;
+  // Their price deltas are already included in pricePerUnit and basePrice
+  modifiers?: CheckoutModifier[];
+  // Set on bundle lines, which draw stock through their components
+  components?: CheckoutComponent[];
+}
+
+export interface CheckoutPayload {
+  storeId: string;
+  cashierId: string;
+  paymentMethod: PaymentMethod;
+  items: CheckoutLine[];
+  // When the sale was rung up. Missing from sales queued by older builds.
+  soldAt?: string;
+}
+
+// Raised when the server rejects a sale because a linked stock item ran out,
+// usually because another till sold it first.
+export class InsufficientStockError extends Error {
+  stockItemId: string;
+  available: number;
+  requested: number;
+
+  constructor(stockItemId: string, available: number, requested: number) {
+    super(`Insufficient stock: ${available} available, ${requested} requested`);
+    this.name = 'InsufficientStockError';
+    this.stockItemId = stockItemId;
+    this.available = available;
+    this.requested = requested;
+  }
+}
+
+// Raised when the server prices a line differently from the till, usually
+// because the till's copy of the catalog is out of date.
+export class PriceMismatchError extends Error {
+  menuItemId: string;
+  expected: number;
+  received: number;
+
+  constructor(menuItemId: string, expected: number, received: number) {
+    super(`Price mismatch: expected ${expected}, received ${received}`);
+    this.name = 'PriceMismatchError';
+    this.menuItemId = menuItemId;
+    this.expected = expected;
+    this.received = received;
+  }
+}
+
+// Raised when the store was put in holiday mode after the till last loaded it
+export class StoreOnHolidayError extends Error {
+  constructor() {
+    super('Store is in holiday mode');
+    this.name = 'StoreOnHolidayError';
+  }
+}
+
+export const toCheckoutLine = (
+  row: Pick<Tables<'transaction_items'>, 'menu_item_id' | 'quantity' | 'price_per_unit' | 'base_price'>
+): CheckoutLine => ({
+  menuItemId: row.menu_item_id,
+  quantity: row.quantity,
+  pricePerUnit: row.price_per_unit,
+  basePrice: row.base_price ?? undefined,
+});
+
+export const calculateCheckoutTotal = (items: CheckoutLine[]) =>
+  items.reduce((total, item) => total + item.pricePerUnit * item.quantity, 0);
+
+// How much of the lines' total was charged on top of the cash price. Lines
+// without a base price are taken to have none.
+export const calculateSurcharge = (items: CheckoutLine[]) =>
+  items.reduce(
+    (total, item) => total + (item.pricePerUnit - (item.basePrice ?? item.pricePerUnit)) * item.quantity,
+    0
+  );
+
+// Splits a bundle line's total over its components in proportion to what
+// they would have sold for alone, so reports can credit each menu item. The
+// rounding remainder goes to the last component.
+export const allocateBundleRevenue = (
+  lineTotal: number,
+  components: { quantity: number; standalonePrice: number }[]
+) => {
+  const weights = components.map(component => component.quantity * component.standalonePrice);
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  const totalQuantity = components.reduce((sum, component) => sum + component.quantity, 0);
+
+  let allocated = 0;
+  return components.map((component, index) => {
+    if (index === components.length - 1) {
+      return Math.round((lineTotal - allocated) * 100) / 100;
+    }
+    const share = totalWeight > 0 ? weights[index] / totalWeight : component.quantity / totalQuantity;
+    const amount = Math.round(lineTotal * share * 100) / 100;
+    allocated += amount;
+    return amount;
+  });
+};
+
+// Records the sale and decrements the store stock of the day it was sold
+// atomically through the checkout_transaction RPC. Store and cashier are
+// derived from the session on the server. Returns the id generated by the
+// server.
+//
+// clientOperationId is the idempotency key: the server records it with the
+// sale, and calling again with the same key returns the original transaction
+// instead of recording (and decrementing stock for) the sale twice.
+//
+// The server prices every line from the catalog. A sale is rejected with
+// PriceMismatchError when the till's prices differ, with
+// StoreOnHolidayError while the store is in holiday mode, and with
+// InsufficientStockError when the day's stock can't cover it, unless
+// allowShortfall is set. Replays of sales the till already made set it, so
+// the sale is recorded at the catalog's prices and the missing stock flagged
+// instead.
+export const createTransaction = async (
+  payload: CheckoutPayload,
+  clientOperationId: string,
+  allowShortfall = false
+): Promise<string> => {
+  const { data, error } = await supabase.rpc('checkout_transaction', {
+    p_client_operation_id: clientOperationId,
+    p_payment_method: payload.paymentMethod,
+    p_selling_date: getSellingDate(payload.soldAt),
+    p_sold_at: payload.soldAt || new Date().toISOString(),
+    p_allow_shortfall: allowShortfall,
+    p_items: payload.items.map(item => ({
+      menu_item_id: item.menuItemId,
+      quantity: item.quantity,
+      price_per_unit: item.pricePerUnit,
+      base_price: item.basePrice,
+      modifiers: (item.modifiers || []).map(modifier => ({
+        option_id: modifier.optionId,
+        group_name: modifier.groupName,
+        option_name: modifier.optionName,
+        price_delta: modifier.priceDelta,
+      })),
+      components: (item.components || []).map(component => ({
+        menu_item_id: component.menuItemId,
+        slot_name: component.slotName,
+        quantity: component.quantity,
+        allocated_amount: component.allocatedAmount,
+      })),
+    })),
+  });
+
+  if (error) {
+    if (error.message === 'insufficient_stock') {
+      const detail = JSON.parse(error.details || '{}');
+      throw new InsufficientStockError(detail.stock_item_id, detail.available ?? 0, detail.requested ?? 0);
+    }
+    if (error.message === 'price_mismatch') {
+      const detail = JSON.parse(error.details || '{}');
+      throw new PriceMismatchError(detail.menu_item_id, detail.expected ?? 0, detail.received ?? 0);
+    }
+    if (error.message === 'store_on_holiday') {
+      throw new StoreOnHolidayError();
+    }
+    throw error;
+  }
+
+  return data;
+};
@@ -0,0 +1,132 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export type StockTransferStatus = 'in_transit' | 'received';
+
+export const stockTransferStatusLabels: Record<StockTransferStatus, string> = {
+  in_transit: 'In Transit',
+  received: 'Received',
+};
+
+// Quantities are in the stock item's unit. quantityReceived is null until
+// the receiving store books the transfer in.
+export interface StockTransferLine {
+  stockItemId: string;
+  stockItemName: string;
+  unit: string;
+  quantitySent: number;
+  quantityReceived: number | null;
+}
+
+export interface StockTransfer {
+  id: string;
+  transferNumber: number;
+  fromStoreId: string;
+  fromStoreName: string;
+  toStoreId: string;
+  toStoreName: string;
+  status: StockTransferStatus;
+  notes: string;
+  sentByName: string | null;
+  sentAt: string;
+  receivedAt: string | null;
+  lines: StockTransferLine[];
+}
+
+export const formatTransferNumber = (transfer: Pick<StockTransfer, 'transferNumber'>) =>
+  `TR-${String(transfer.transferNumber).padStart(6, '0')}`;
+
+// Transfers sent from or to any of the stores, newest first
+export const fetchStockTransfers = async (storeIds: string[]) => {
+  if (storeIds.length === 0) return [];
+
+  const storeList = storeIds.join(',');
+  const { data, error } = await supabase
+    .from('stock_transfers')
+    .select(`
+      *,
+      from_store:stores!stock_transfers_from_store_id_fkey(name),
+      to_store:stores!stock_transfers_to_store_id_fkey(name),
+      sender:profiles!stock_transfers_sent_by_fkey(name),
+      stock_transfer_lines(*, stock_items(name, unit))
+    `)
+    .or(`from_store_id.in.(${storeList}),to_store_id.in.(${storeList})`)
+    .order('sent_at', { ascending: false });
+
+  if (error) throw error;
+
+  return (data || []).map((row): StockTransfer => ({
+    id: row.id,
+    transferNumber: row.transfer_number,
+    fromStoreId: row.from_store_id,
+    fromStoreName: row.from_store?.name || 'Unknown Store',
+    toStoreId: row.to_store_id,
+    toStoreName: row.to_store?.name || 'Unknown Store',
+    status: row.status as StockTransferStatus,
+    notes: row.notes || '',
+    sentByName: row.sender?.name ?? null,
+    sentAt: row.sent_at,
+    receivedAt: row.received_at,
+    lines: (row.stock_transfer_lines || [])
+      .map((line): StockTransferLine => ({
+        stockItemId: line.stock_item_id,
+        stockItemName: line.stock_items?.name || 'Removed item',
+        unit: line.stock_items?.unit || '',
+        quantitySent: line.quantity_sent,
+        quantityReceived: line.quantity_received,
+      }))
+      .sort((a, b) => a.stockItemName.localeCompare(b.stockItemName)),
+  }));
+};
+
+// One item and how much of it is sent or arrived
+export interface TransferQuantity {
+  stockItemId: string;
+  quantity: number;
+}
+
+// Takes the items out of the sending store's stock and puts them in transit.
+// The client operation id makes a retry of the same transfer a no-op.
+export const sendStockTransfer = async (
+  clientOperationId: string,
+  fromStoreId: string,
+  toStoreId: string,
+  sellingDate: string,
+  lines: TransferQuantity[],
+  notes = ''
+) => {
+  const { data, error } = await supabase.rpc('send_stock_transfer', {
+    p_client_operation_id: clientOperationId,
+    p_from_store_id: fromStoreId,
+    p_to_store_id: toStoreId,
+    p_selling_date: sellingDate,
+    p_lines: lines.map(line => ({
+      stock_item_id: line.stockItemId,
+      quantity: line.quantity,
+    })),
+    p_notes: notes || null,
+  });
+
+  if (error) throw error;
+
+  const result = data as { transfer_id: string; transfer_number: number };
+  return { id: result.transfer_id, transferNumber: result.transfer_number };
+};
+
+// Books a transfer into the receiving store's stock. Items left out of
+// lines arrived as sent.
+export const receiveStockTransfer = async (
+  transferId: string,
+  sellingDate: string,
+  lines: TransferQuantity[] = []
+) => {
+  const { error } = await supabase.rpc('receive_stock_transfer', {
+    p_transfer_id: transferId,
+    p_selling_date: sellingDate,
+    p_lines: lines.map(line => ({
+      stock_item_id: line.stockItemId,
+      quantity: line.quantity,
+    })),
+  });
+
+  if (error) throw error;
+};
@@ -0,0 +1,123 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export type WasteReason = 'spilled' | 'expired' | 'damaged' | 'quality' | 'other';
+
+export const wasteReasonLabels: Record<WasteReason, string> = {
+  spilled: 'Spilled',
+  expired: 'Expired',
+  damaged: 'Damaged',
+  quality: 'Quality issue',
+  other: 'Other',
+};
+
+// What was thrown away: a quantity of a stock item in its unit, or a count of
+// a menu item, which the server breaks down through its recipe. Exactly one
+// of stockItemId and menuItemId is set.
+export interface WasteEntryInput {
+  storeId: string;
+  reason: WasteReason;
+  quantity: number;
+  stockItemId?: string;
+  menuItemId?: string;
+  note?: string;
+  // Set once the photo has been uploaded; photos can't be queued offline
+  photoPath?: string;
+  timestamp: string;
+}
+
+// Logs waste and takes it out of the store's stock. The client operation id
+// makes a replay of the same entry a no-op. Returns the entry's cost.
+export const logWaste = async (clientOperationId: string, sellingDate: string, entry: WasteEntryInput) => {
+  const { data, error } = await supabase.rpc('log_waste', {
+    p_client_operation_id: clientOperationId,
+    p_store_id: entry.storeId,
+    p_selling_date: sellingDate,
+    p_reason: entry.reason,
+    p_quantity: entry.quantity,
+    p_stock_item_id: entry.stockItemId || null,
+    p_menu_item_id: entry.menuItemId || null,
+    p_note: entry.note || null,
+    p_photo_path: entry.photoPath || null,
+  });
+
+  if (error) throw error;
+
+  return (data as { total_cost: number }).total_cost;
+};
+
+// Stores the photo under the store's folder, where its staff can read it
+export const uploadWastePhoto = async (storeId: string, entryId: string, photo: File) => {
+  const extension = photo.name.split('.').pop()?.toLowerCase() || 'jpg';
+  const path = `${storeId}/${entryId}.${extension}`;
+
+  const { error } = await supabase.storage
+    .from('waste-photos')
+    .upload(path, photo, { contentType: photo.type, upsert: true });
+
+  if (error) throw error;
+  return path;
+};
+
+// Photos are private, so they're shown through a short-lived link
+export const getWastePhotoUrl = async (path: string) => {
+  const { data, error } = await supabase.storage
+    .from('waste-photos')
+    .createSignedUrl(path, 60 * 60);
+
+  if (error) throw error;
+  return data.signedUrl;
+};
+
+export interface WasteEntry {
+  id: string;
+  storeId: string;
+  storeName: string;
+  sellingDate: string;
+  reason: WasteReason;
+  // The stock or menu item the entry was logged for
+  itemName: string;
+  quantity: number;
+  unit: string;
+  note: string;
+  photoPath: string | null;
+  createdByName: string | null;
+  createdAt: string;
+  // Sum of the stock lines at their unit cost
+  cost: number;
+}
+
+// Waste logged at the stores the user can see, for selling dates in the
+// inclusive range, newest first
+export const fetchWasteEntries = async (fromDate: string, toDate: string) => {
+  const { data, error } = await supabase
+    .from('waste_entries')
+    .select(`
+      *,
+      stores(name),
+      stock_items(name, unit),
+      menu_items(name),
+      profiles(name),
+      waste_entry_lines(quantity, unit_cost)
+    `)
+    .gte('selling_date', fromDate)
+    .lte('selling_date', toDate)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+
+  return (data || []).map((row): WasteEntry => ({
+    id: row.id,
+    storeId: row.store_id,
+    storeName: row.stores?.name || 'Unknown Store',
+    sellingDate: row.selling_date,
+    reason: row.reason as WasteReason,
+    itemName: row.stock_items?.name || row.menu_items?.name || 'Removed item',
+    quantity: row.quantity,
+    unit: row.stock_items?.unit || '',
+    note: row.note || '',
+    photoPath: row.photo_path,
+    createdByName: row.profiles?.name ?? null,
+    createdAt: row.created_at,
+    cost: (row.waste_entry_lines || []).reduce((total, line) => total + line.quantity * line.unit_cost, 0),
+  }));
+};
@@ -24,28 +24,93 @@ import {
   TabsTrigger,
 } from "@/components/ui/tabs";
 import { Plus, Minus, Trash, CreditCard } from 'lucide-react';
+import {
+  allocateBundleRevenue,
+  calculateSurcharge,
+  createTransaction,
+  CheckoutComponent,
+  CheckoutModifier,
+  CheckoutPayload,
+  InsufficientStockError,
+  PaymentMethod,
+  PriceMismatchError,
+  StoreOnHolidayError,
+} from '@/lib/transactions';
+import { saveLocalTransaction } from '@/lib/local-db';
+import { useCatalog } from '@/hooks/use-catalog';
+import {
+  convertRecipeQuantity,
+  getBundleComponents,
+  getMenuItemPrice,
+  MenuItem,
+  resolveMenuItemPrices,
+  StockItem,
+} from '@/lib/repository';
+import { fetchSellingStock, getSellingDate } from '@/lib/stock';
+import ModifierPicker from '@/components/menu/ModifierPicker';
 
-interface MenuItem {
-  id: string;
-  name: string;
-  description: string;
-  cashPrice: number;
-  qrisPrice: number;
-  categoryId: string;
-  categoryName: string;
-  image?: string;
-  stock: number;
-}
-
+// One line of the cart. The same item made two ways takes two lines, so lines
+// are keyed by the item, its modifiers and, for a bundle, its components.
+// Prices include the modifiers' deltas.
 interface CartItem extends MenuItem {
+  lineId: string;
+  modifiers: CheckoutModifier[];
+  components: CheckoutComponent[];
   quantity: number;
 }
 
+const toCartItem = (
+  item: MenuItem,
+  modifiers: CheckoutModifier[],
+  components: CheckoutComponent[]
+): CartItem => {
+  const priceDelta = modifiers.reduce((sum, modifier) => sum + modifier.priceDelta, 0);
+  return {
+    ...item,
+    cashPrice: item.cashPrice + priceDelta,
+    qrisPrice: item.qrisPrice + priceDelta,
+    lineId: [
+      item.id,
+      ...components.map(component => component.menuItemId),
+      ...modifiers.map(modifier => modifier.optionId).sort(),
+    ].join(':'),
+    modifiers,
+    components,
+    quantity: 1,
+  };
+};
+
+// How much of each stock item a menu item uses, keyed by menu item id and in
+// the stock item's unit. Recipe lines in units that can't be converted count
+// as given, as they do on the server.
+const getStockUsage = (stockItems: StockItem[]) => {
+  const usage = new Map<string, { stockItem: StockItem; quantity: number }[]>();
+  stockItems.forEach(stockItem => {
+    stockItem.linkedMenuItems.forEach(line => {
+      const quantity = convertRecipeQuantity(line.quantity, line.unit, stockItem.unit) ?? line.quantity;
+      if (!(quantity > 0)) return;
+      usage.set(line.menuItemId, [...(usage.get(line.menuItemId) || []), { stockItem, quantity }]);
+    });
+  });
+  return usage;
+};
+
+// The cart's lines with one of them set to a new quantity
+const withLineQuantity = (cart: CartItem[], lineId: string, quantity: number) =>
+  cart.map(item => (item.lineId === lineId ? { ...item, quantity } : item));
+
+const formatLineDetails = (item: CartItem) =>
+  [
+    ...item.components.map(component => component.name),
+    ...item.modifiers.map(modifier => modifier.optionName),
+  ].join(', ');
+
 interface Transaction {
   id: string;
   items: CartItem[];
   total: number;
-  paymentMethod: 'cash' | 'qris';
+  surcharge: number;
+  paymentMethod: PaymentMethod;
   timestamp: string;
   storeId: string;
   cashierId: string;
@@ -54,8 +119,12 @@ interface Transaction {
 const POSInterface: React.FC = () => {
   const navigate = useNavigate();
   const { user } = useAuth();
-  const { networkStatus, addPendingOperation } = usePwa();
+  const { networkStatus, addPendingOperation, setHasActiveSale } = usePwa();
   const { toast } = useToast();
+  const { data: catalogMenuItems, refetch: refetchMenuItems } = useCatalog('menuItems');
+  const { data: catalogCategories } = useCatalog('categories');
+  const { data: stockItems = [] } = useCatalog('stockItems');
+  const { data: stores = [], refetch: refetchStores } = useCatalog('stores');
 
   // Mock categories and menu items
   const [categories, setCategories] = useState<{ id: string; name: string }[]>([
@@ -72,8 +141,7 @@ const POSInterface: React.FC = () => {
       cashPrice: 20000, 
       qrisPrice: 22000, 
       categoryId: '1',
-      categoryName: 'Drinks',
-      stock: 10
+      categoryName: 'Drinks'
     },
     { 
       id: '2', 
@@ -82,8 +150,7 @@ const POSInterface: React.FC = () => {
       cashPrice: 18000, 
       qrisPrice: 20000, 
       categoryId: '1',
-      categoryName: 'Drinks',
-      stock: 15
+      categoryName: 'Drinks'
     },
     { 
       id: '3', 
@@ -92,8 +159,7 @@ const POSInterface: React.FC = () => {
       cashPrice: 25000, 
       qrisPrice: 27500, 
       categoryId: '2',
-      categoryName: 'Food',
-      stock: 8
+      categoryName: 'Food'
     },
     { 
       id: '4', 
@@ -102,51 +168,83 @@ const POSInterface: React.FC = () => {
       cashPrice: 15000, 
       qrisPrice: 16500, 
       categoryId: '3',
-      categoryName: 'Snacks',
-      stock: 12
+      categoryName: 'Snacks'
     },
   ]);
 
   const [cart, setCart] = useState<CartItem[]>([]);
+  // Idempotency key of the cart's sale. Kept across retries, so a checkout
+  // whose response was lost isn't recorded twice, until the sale goes
+  // through or the cart is cleared.
+  const [checkoutKey, setCheckoutKey] = useState(() => crypto.randomUUID());
   const [activeCategory, setActiveCategory] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [showPaymentDialog, setShowPaymentDialog] = useState(false);
-  const [paymentMethod, setPaymentMethod] = useState<'cash' | 'qris'>('cash');
-  const [isHolidayMode, setIsHolidayMode] = useState(false);
+  const [pickerItem, setPickerItem] = useState<MenuItem | null>(null);
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('cash');
+  // What this store has left today by stock item, null until it has loaded.
+  // Kept while offline and counted down with each sale.
+  const [storeStock, setStoreStock] = useState<Map<string, number> | null>(null);
+
+  // Set by the store's manager; checkout turns sales down while it is on
+  const isHolidayMode = !!stores.find(store => store.id === user?.storeId)?.isHolidayMode;
 
   useEffect(() => {
-    // Check if this store is in holiday mode
-    // For demo, we'll use localStorage
-    const holidayMode = localStorage.getItem(`holidayMode-${user?.storeId}`) === 'true';
-    setIsHolidayMode(holidayMode);
-    
-    if (holidayMode) {
+    if (isHolidayMode) {
       toast({
         title: "Holiday Mode Active",
         description: "This store is currently in holiday mode. Transactions are disabled.",
         variant: "destructive",
       });
     }
-    
-    // In a real app, fetch menu items from the API with current stock levels
-    // For demo, we'll load from localStorage if available
-    const savedMenuItems = localStorage.getItem('menuItems');
-    if (savedMenuItems) {
-      setMenuItems(JSON.parse(savedMenuItems));
-    }
-    
-    // Load categories
-    const savedCategories = localStorage.getItem('categories');
-    if (savedCategories) {
-      setCategories(JSON.parse(savedCategories));
-    }
-    
+  }, [isHolidayMode, toast]);
+
+  useEffect(() => {
     // Set the first category as active
     if (categories.length > 0 && !activeCategory) {
       setActiveCategory(categories[0].id);
     }
   }, []);
 
+  // The catalog published by the owner, or this till's copy while offline,
+  // priced for this store
+  useEffect(() => {
+    if (catalogMenuItems) {
+      setMenuItems(catalogMenuItems.map(item =>
+        resolveMenuItemPrices(item, { storeId: user?.storeId, branchId: user?.branchId })
+      ));
+    }
+  }, [catalogMenuItems, user?.storeId, user?.branchId]);
+
+  useEffect(() => {
+    if (!user?.storeId || networkStatus === 'offline') return;
+
+    const fetchStoreStock = async () => {
+      try {
+        setStoreStock(await fetchSellingStock(user.storeId, getSellingDate()));
+      } catch (error) {
+        console.error('Error fetching store stock:', error);
+      }
+    };
+
+    fetchStoreStock();
+  }, [user?.storeId, networkStatus]);
+
+  useEffect(() => {
+    if (catalogCategories) {
+      setCategories(catalogCategories);
+    }
+  }, [catalogCategories]);
+
+  // Hold back app updates while a sale is being rung up
+  useEffect(() => {
+    setHasActiveSale(cart.length > 0);
+  }, [cart.length, setHasActiveSale]);
+  
+  useEffect(() => {
+    return () => setHasActiveSale(false);
+  }, [setHasActiveSale]);
+
   // Filter menu items based on active category and search term
   const filteredMenuItems = menuItems.filter(item => {
     const matchesCategory = !activeCategory || item.categoryId === activeCategory;
@@ -156,8 +254,49 @@ const POSInterface: React.FC = () => {
     return matchesCategory && matchesSearch;
   });
 
-  const addToCart = (item: MenuItem) => {
-    if (item.stock <= 0) {
+  const stockUsage = getStockUsage(stockItems);
+
+  // The stock the lines use, by stock item id. Bundle lines use their
+  // components' recipes.
+  const getRequiredStock = (lines: Pick<CartItem, 'id' | 'quantity' | 'components'>[]) => {
+    const required = new Map<string, number>();
+    lines.forEach(line => {
+      const soldItems = line.components.length > 0
+        ? line.components.map(component => ({ menuItemId: component.menuItemId, quantity: component.quantity * line.quantity }))
+        : [{ menuItemId: line.id, quantity: line.quantity }];
+      soldItems.forEach(sold => {
+        (stockUsage.get(sold.menuItemId) || []).forEach(use => {
+          required.set(use.stockItem.id, (required.get(use.stockItem.id) || 0) + use.quantity * sold.quantity);
+        });
+      });
+    });
+    return required;
+  };
+
+  // The first stock item the lines need more of than the store has left.
+  // Nothing is checked until the store's stock has loaded; the server has
+  // the final say either way.
+  const findShortStockItem = (lines: CartItem[]) => {
+    if (!storeStock) return undefined;
+    const required = getRequiredStock(lines);
+    return stockItems.find(stockItem =>
+      (required.get(stockItem.id) || 0) > (storeStock.get(stockItem.id) || 0)
+    );
+  };
+
+  // How many of a menu item the store can still make, or null when that
+  // isn't tracked: the stock hasn't loaded, the item has no recipe, or it
+  // is a bundle, whose stock depends on the components chosen.
+  const getAvailableQuantity = (item: MenuItem) => {
+    const uses = stockUsage.get(item.id) || [];
+    if (!storeStock || item.itemType === 'bundle' || uses.length === 0) return null;
+    return Math.min(...uses.map(use =>
+      Math.max(Math.floor((storeStock.get(use.stockItem.id) || 0) / use.quantity), 0)
+    ));
+  };
+
+  const handleAddItem = (item: MenuItem) => {
+    if (getAvailableQuantity(item) === 0) {
       toast({
         title: "Out of stock",
         description: `${item.name} is out of stock.`,
@@ -165,44 +304,64 @@ const POSInterface: React.FC = () => {
       });
       return;
     }
+
+    const slots = item.itemType === 'bundle' ? item.bundleSlots || [] : [];
+    const hasChoices = (item.modifierGroups || []).length > 0 ||
+      slots.some(slot => slot.menuItemIds.length > 1);
+    if (hasChoices) {
+      setPickerItem(item);
+      return;
+    }
+
+    addToCart(item, [], slots.length > 0 ? getBundleComponents(item, {}, menuItems) : []);
+  };
+
+  const addToCart = (
+    item: MenuItem,
+    modifiers: CheckoutModifier[],
+    components: CheckoutComponent[]
+  ) => {
+    const newLine = toCartItem(item, modifiers, components);
     
     setCart(prevCart => {
-      const existingItem = prevCart.find(cartItem => cartItem.id === item.id);
+      // Check stock before increasing quantity
+      const shortStockItem = findShortStockItem([...prevCart, newLine]);
+      if (shortStockItem) {
+        toast({
+          title: "Stock limit reached",
+          description: `Not enough ${shortStockItem.name} left for another ${item.name}.`,
+          variant: "destructive",
+        });
+        return prevCart;
+      }
       
+      const existingItem = prevCart.find(cartItem => cartItem.lineId === newLine.lineId);
       if (existingItem) {
-        // Check stock before increasing quantity
-        if (existingItem.quantity >= item.stock) {
-          toast({
-            title: "Stock limit reached",
-            description: `Only ${item.stock} ${item.name} available in stock.`,
-            variant: "destructive",
-          });
-          return prevCart;
-        }
-        
         return prevCart.map(cartItem => 
-          cartItem.id === item.id 
+          cartItem.lineId === newLine.lineId 
             ? { ...cartItem, quantity: cartItem.quantity + 1 } 
             : cartItem
         );
       } else {
-        return [...prevCart, { ...item, quantity: 1 }];
+        return [...prevCart, newLine];
       }
     });
   };
 
-  const updateCartItemQuantity = (itemId: string, newQuantity: number) => {
+  const updateCartItemQuantity = (lineId: string, newQuantity: number) => {
     if (newQuantity <= 0) {
-      removeFromCart(itemId);
+      removeFromCart(lineId);
       return;
     }
     
-    // Check stock limit
-    const item = menuItems.find(item => item.id === itemId);
-    if (item && newQuantity > item.stock) {
+    // Check stock limit across every line sharing the same stock
+    const line = cart.find(cartItem => cartItem.lineId === lineId);
+    const shortStockItem = line && newQuantity > line.quantity &&
+      findShortStockItem(withLineQuantity(cart, lineId, newQuantity));
+    if (shortStockItem) {
       toast({
         title: "Stock limit reached",
-        description: `Only ${item.stock} ${item.name} available in stock.`,
+        description: `Not enough ${shortStockItem.name} left for another ${line.name}.`,
         variant: "destructive",
       });
       return;
@@ -210,28 +369,41 @@ const POSInterface: React.FC = () => {
     
     setCart(prevCart => 
       prevCart.map(item => 
-        item.id === itemId 
+        item.lineId === lineId 
           ? { ...item, quantity: newQuantity } 
           : item
       )
     );
   };
 
-  const removeFromCart = (itemId: string) => {
-    setCart(prevCart => prevCart.filter(item => item.id !== itemId));
+  const removeFromCart = (lineId: string) => {
+    setCart(prevCart => prevCart.filter(item => item.lineId !== lineId));
   };
 
   const clearCart = () => {
     setCart([]);
+    setCheckoutKey(crypto.randomUUID());
   };
 
   const calculateTotal = () => {
     return cart.reduce((total, item) => {
-      const price = paymentMethod === 'cash' ? item.cashPrice : item.qrisPrice;
-      return total + (price * item.quantity);
+      return total + (getMenuItemPrice(item, paymentMethod) * item.quantity);
     }, 0);
   };
 
+  // Credits a bundle line's total to its components, weighted by what this
+  // store sells each of them for alone
+  const withAllocatedRevenue = (item: CartItem): CheckoutComponent[] => {
+    const amounts = allocateBundleRevenue(
+      getMenuItemPrice(item, paymentMethod) * item.quantity,
+      item.components.map(component => ({
+        quantity: component.quantity * item.quantity,
+        standalonePrice: menuItems.find(menuItem => menuItem.id === component.menuItemId)?.cashPrice || 0,
+      }))
+    );
+    return item.components.map((component, index) => ({ ...component, allocatedAmount: amounts[index] }));
+  };
+
   const handleCheckout = async () => {
     if (isHolidayMode) {
       toast({
@@ -252,57 +424,59 @@ const POSInterface: React.FC = () => {
     }
 
     try {
-      // Create transaction record
-      const transaction: Transaction = {
-        id: `TR-${Date.now()}`,
-        items: cart,
-        total: calculateTotal(),
-        paymentMethod,
-        timestamp: new Date().toISOString(),
+      const payload: CheckoutPayload = {
         storeId: user?.storeId || '',
         cashierId: user?.id || '',
+        paymentMethod,
+        soldAt: new Date().toISOString(),
+        items: cart.map(item => ({
+          menuItemId: item.id,
+          quantity: item.quantity,
+          pricePerUnit: getMenuItemPrice(item, paymentMethod),
+          basePrice: item.cashPrice,
+          modifiers: item.modifiers,
+          components: withAllocatedRevenue(item),
+        })),
       };
       
-      // Update stock levels
-      const updatedMenuItems = menuItems.map(item => {
-        const cartItem = cart.find(cartItem => cartItem.id === item.id);
-        if (cartItem) {
-          return {
-            ...item,
-            stock: item.stock - cartItem.quantity
-          };
-        }
-        return item;
-      });
+      // Record the sale on the server so it shows up in every report.
+      // Offline sales keep their idempotency key as a local id and are
+      // queued for sync.
+      const clientOperationId = checkoutKey;
+      const transactionId = networkStatus === 'offline'
+        ? clientOperationId
+        : await createTransaction(payload, clientOperationId);
+      
+      const transaction: Transaction = {
+        id: transactionId,
+        items: cart.map((item, index) => ({ ...item, components: payload.items[index].components || [] })),
+        total: calculateTotal(),
+        surcharge: calculateSurcharge(payload.items),
+        paymentMethod,
+        timestamp: payload.soldAt,
+        storeId: payload.storeId,
+        cashierId: payload.cashierId,
+      };
       
-      // In a real app, this would be sent to an API
-      // For demo, we'll save to localStorage
-      const savedTransactions = localStorage.getItem('transactions') || '[]';
-      const transactions = JSON.parse(savedTransactions);
-      transactions.push(transaction);
-      localStorage.setItem('transactions', JSON.stringify(transactions));
-      localStorage.setItem('menuItems', JSON.stringify(updatedMenuItems));
+      // Keep a local copy for the history screen and offline use
+      await saveLocalTransaction(transaction);
+
+      // Reflect the sale in the store's stock until it is next loaded
+      const soldStock = getRequiredStock(cart);
+      setStoreStock(prevStock => prevStock && new Map(
+        [...prevStock].map(([stockItemId, quantity]) => [stockItemId, quantity - (soldStock.get(stockItemId) || 0)])
+      ));
       
       // If offline, queue the operation for sync
       if (networkStatus === 'offline') {
+        // Replaying the checkout decrements the server stock as well
         addPendingOperation({
           type: 'CREATE_TRANSACTION',
-          data: transaction
-        });
-        
-        addPendingOperation({
-          type: 'UPDATE_STOCK',
-          data: {
-            items: cart.map(item => ({
-              id: item.id,
-              quantity: item.quantity
-            }))
-          }
-        });
+          data: payload
+        }, clientOperationId);
       }
-      
-      // Update the menu items state
-      setMenuItems(updatedMenuItems);
+
+      setCheckoutKey(crypto.randomUUID());
       
       toast({
         title: "Transaction complete",
@@ -312,6 +486,39 @@ const POSInterface: React.FC = () => {
       // Navigate to transaction history with the new transaction
       navigate(`/pos/history?transactionId=${transaction.id}`);
     } catch (error) {
+      if (error instanceof InsufficientStockError) {
+        setStoreStock(prevStock => prevStock && new Map(prevStock).set(error.stockItemId, error.available));
+        toast({
+          title: "Not enough stock",
+          description: `Another till may have sold it first. Only ${error.available} left, ${error.requested} needed.`,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      // The cart keeps the old prices, so it has to be rung up again
+      if (error instanceof PriceMismatchError) {
+        refetchMenuItems();
+        clearCart();
+        toast({
+          title: "Prices have changed",
+          description: "The menu has been refreshed. Please add the items again.",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      // Switched on since the stores were last loaded
+      if (error instanceof StoreOnHolidayError) {
+        refetchStores();
+        toast({
+          title: "Cannot process transaction",
+          description: "This store is in holiday mode. Transactions are disabled.",
+          variant: "destructive",
+        });
+        return;
+      }
+      
       toast({
         title: "Error processing transaction",
         description: "Please try again.",
@@ -363,35 +570,40 @@ const POSInterface: React.FC = () => {
           )}
           
           <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
-            {filteredMenuItems.map(item => (
-              <Card 
-                key={item.id} 
-                className={`${item.stock <= 0 ? 'opacity-50' : ''}`}
-              >
-                <CardHeader className="p-3">
-                  <CardTitle className="text-base">{item.name}</CardTitle>
-                </CardHeader>
-                <CardContent className="p-3 pt-0">
-                  <p className="text-sm text-muted-foreground mb-1">{item.description}</p>
-                  <div className="flex justify-between text-sm">
-                    <span>Cash: Rp {item.cashPrice.toLocaleString()}</span>
-                    <span>QRIS: Rp {item.qrisPrice.toLocaleString()}</span>
-                  </div>
-                  <div className="text-xs mt-2 bg-gray-100 dark:bg-gray-800 px-2 py-1 rounded-full inline-block">
-                    Stock: {item.stock}
-                  </div>
-                </CardContent>
-                <CardFooter className="p-3 pt-0">
-                  <Button 
-                    onClick={() => addToCart(item)}
-                    className="w-full"
-                    disabled={item.stock <= 0 || isHolidayMode}
-                  >
-                    Add to Cart
-                  </Button>
-                </CardFooter>
-              </Card>
-            ))}
+            {filteredMenuItems.map(item => {
+              const availableQuantity = getAvailableQuantity(item);
+              return (
+                <Card 
+                  key={item.id} 
+                  className={`${availableQuantity === 0 ? 'opacity-50' : ''}`}
+                >
+                  <CardHeader className="p-3">
+                    <CardTitle className="text-base">{item.name}</CardTitle>
+                  </CardHeader>
+                  <CardContent className="p-3 pt-0">
+                    <p className="text-sm text-muted-foreground mb-1">{item.description}</p>
+                    <div className="flex justify-between text-sm">
+                      <span>Cash: Rp {item.cashPrice.toLocaleString()}</span>
+                      <span>QRIS: Rp {item.qrisPrice.toLocaleString()}</span>
+                    </div>
+                    {availableQuantity !== null && (
+                      <div className="text-xs mt-2 bg-gray-100 dark:bg-gray-800 px-2 py-1 rounded-full inline-block">
+                        Stock: {availableQuantity}
+                      </div>
+                    )}
+                  </CardContent>
+                  <CardFooter className="p-3 pt-0">
+                    <Button 
+                      onClick={() => handleAddItem(item)}
+                      className="w-full"
+                      disabled={availableQuantity === 0 || isHolidayMode}
+                    >
+                      Add to Cart
+                    </Button>
+                  </CardFooter>
+                </Card>
+              );
+            })}
             
             {filteredMenuItems.length === 0 && (
               <div className="col-span-full text-center py-10">
@@ -416,13 +628,16 @@ const POSInterface: React.FC = () => {
                 <div className="space-y-4">
                   {cart.map(item => (
                     <div 
-                      key={item.id} 
+                      key={item.lineId} 
                       className="flex justify-between items-center border-b pb-3"
                     >
                       <div className="flex-1">
                         <p className="font-medium">{item.name}</p>
+                        {formatLineDetails(item) && (
+                          <p className="text-xs text-muted-foreground">{formatLineDetails(item)}</p>
+                        )}
                         <p className="text-sm text-muted-foreground">
-                          Rp {(paymentMethod === 'cash' ? item.cashPrice : item.qrisPrice).toLocaleString()} × {item.quantity}
+                          Rp {getMenuItemPrice(item, paymentMethod).toLocaleString()} × {item.quantity}
                         </p>
                       </div>
                       
@@ -431,7 +646,7 @@ const POSInterface: React.FC = () => {
                           variant="outline"
                           size="icon"
                           className="h-8 w-8"
-                          onClick={() => updateCartItemQuantity(item.id, item.quantity - 1)}
+                          onClick={() => updateCartItemQuantity(item.lineId, item.quantity - 1)}
                         >
                           <Minus className="h-4 w-4" />
                         </Button>
@@ -442,8 +657,8 @@ const POSInterface: React.FC = () => {
                           variant="outline"
                           size="icon"
                           className="h-8 w-8"
-                          onClick={() => updateCartItemQuantity(item.id, item.quantity + 1)}
-                          disabled={item.quantity >= item.stock}
+                          onClick={() => updateCartItemQuantity(item.lineId, item.quantity + 1)}
+                          disabled={!!findShortStockItem(withLineQuantity(cart, item.lineId, item.quantity + 1))}
                         >
                           <Plus className="h-4 w-4" />
                         </Button>
@@ -452,7 +667,7 @@ const POSInterface: React.FC = () => {
                           variant="ghost"
                           size="icon"
                           className="h-8 w-8 text-red-500"
-                          onClick={() => removeFromCart(item.id)}
+                          onClick={() => removeFromCart(item.lineId)}
                         >
                           <Trash className="h-4 w-4" />
                         </Button>
@@ -524,15 +739,18 @@ const POSInterface: React.FC = () => {
           <div className="space-y-4">
             <div className="max-h-60 overflow-y-auto">
               {cart.map(item => (
-                <div key={item.id} className="flex justify-between py-2 border-b">
+                <div key={item.lineId} className="flex justify-between py-2 border-b">
                   <div>
                     <p>{item.name} × {item.quantity}</p>
+                    {formatLineDetails(item) && (
+                      <p className="text-xs text-muted-foreground">{formatLineDetails(item)}</p>
+                    )}
                     <p className="text-sm text-muted-foreground">
-                      Rp {(paymentMethod === 'cash' ? item.cashPrice : item.qrisPrice).toLocaleString()} each
+                      Rp {getMenuItemPrice(item, paymentMethod).toLocaleString()} each
                     </p>
                   </div>
                   <p className="font-medium">
-                    Rp {((paymentMethod === 'cash' ? item.cashPrice : item.qrisPrice) * item.quantity).toLocaleString()}
+                    Rp {(getMenuItemPrice(item, paymentMethod) * item.quantity).toLocaleString()}
                   </p>
                 </div>
               ))}
@@ -560,6 +778,19 @@ const POSInterface: React.FC = () => {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+      
+      <ModifierPicker
+        item={pickerItem}
+        menuItems={menuItems}
+        paymentMethod={paymentMethod}
+        onConfirm={({ modifiers, components }) => {
+          if (pickerItem) {
+            addToCart(pickerItem, modifiers, components);
+          }
+          setPickerItem(null);
+        }}
+        onClose={() => setPickerItem(null)}
+      />
     </PosLayout>
   );
 };
@@ -17,6 +17,7 @@ import {
   PaginationPrevious,
 } from "@/components/ui/pagination";
 import { Search } from 'lucide-react';
+import { getLocalTransaction, getStoreTransactions } from '@/lib/local-db';
 
 interface CartItem {
   id: string;
@@ -24,6 +25,9 @@ interface CartItem {
   quantity: number;
   cashPrice: number;
   qrisPrice: number;
+  // Missing on sales made before modifiers and bundles existed
+  modifiers?: { optionName: string }[];
+  components?: { name: string }[];
 }
 
 interface Transaction {
@@ -54,41 +58,19 @@ const TransactionHistory: React.FC = () => {
     const transactionId = searchParams.get('transactionId');
     if (transactionId) {
       setHighlightedTransactionId(transactionId);
-    }
-    
-    // Load transactions from localStorage (in a real app, this would be from an API)
-    const savedTransactions = localStorage.getItem('transactions');
-    if (savedTransactions) {
-      const parsedTransactions: Transaction[] = JSON.parse(savedTransactions);
-      
-      // Filter transactions for this store
-      const storeTransactions = parsedTransactions.filter(
-        transaction => transaction.storeId === user?.storeId
-      );
-      
-      // Sort by timestamp (newest first)
-      storeTransactions.sort((a, b) => 
-        new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
-      );
-      
-      setTransactions(storeTransactions);
       
       // If there's a highlighted transaction, find and select it
-      if (transactionId) {
-        const transaction = storeTransactions.find(t => t.id === transactionId);
-        if (transaction) {
+      getLocalTransaction<Transaction>(transactionId).then(transaction => {
+        if (transaction && transaction.storeId === user?.storeId) {
           setSelectedTransaction(transaction);
         }
-      }
+      });
     }
   }, [searchParams, user?.storeId]);
 
-  // Filter transactions based on search term and date filter
-  const filteredTransactions = transactions.filter(transaction => {
-    const matchesSearch = !searchTerm || 
-      transaction.id.toLowerCase().includes(searchTerm.toLowerCase());
+  useEffect(() => {
+    if (!user?.storeId) return;
     
-    const transactionDate = new Date(transaction.timestamp);
     const today = new Date();
     today.setHours(0, 0, 0, 0);
     
@@ -100,20 +82,24 @@ const TransactionHistory: React.FC = () => {
     
     const thisMonthStart = new Date(today.getFullYear(), today.getMonth(), 1);
     
-    let matchesDate = true;
-    
-    if (dateFilter === 'today') {
-      matchesDate = transactionDate >= today;
-    } else if (dateFilter === 'yesterday') {
-      matchesDate = transactionDate >= yesterday && transactionDate < today;
-    } else if (dateFilter === 'thisWeek') {
-      matchesDate = transactionDate >= thisWeekStart;
-    } else if (dateFilter === 'thisMonth') {
-      matchesDate = transactionDate >= thisMonthStart;
-    }
+    const ranges: Record<string, [Date, Date?]> = {
+      today: [today],
+      yesterday: [yesterday, today],
+      thisWeek: [thisWeekStart],
+      thisMonth: [thisMonthStart],
+    };
+    const [from, to] = ranges[dateFilter] || [];
     
-    return matchesSearch && matchesDate;
-  });
+    // Load this store's transactions for the selected period (newest first)
+    getStoreTransactions<Transaction>(user.storeId, from?.toISOString(), to?.toISOString())
+      .then(setTransactions)
+      .catch(error => console.error('Error loading transactions:', error));
+  }, [dateFilter, user?.storeId]);
+
+  // Filter transactions based on search term
+  const filteredTransactions = transactions.filter(transaction =>
+    !searchTerm || transaction.id.toLowerCase().includes(searchTerm.toLowerCase())
+  );
 
   // Pagination
   const totalPages = Math.ceil(filteredTransactions.length / transactionsPerPage);
@@ -198,7 +184,7 @@ const TransactionHistory: React.FC = () => {
                             }`}
                             onClick={() => setSelectedTransaction(transaction)}
                           >
-                            <td className="p-2 pl-4 font-mono text-sm">{transaction.id.substring(3, 10)}</td>
+                            <td className="p-2 pl-4 font-mono text-sm">{transaction.id.replace(/^TR-/, '').substring(0, 8)}</td>
                             <td className="p-2">{formatTimestamp(transaction.timestamp)}</td>
                             <td className="text-right p-2">Rp {transaction.total.toLocaleString()}</td>
                             <td className="text-center p-2">
@@ -285,6 +271,14 @@ const TransactionHistory: React.FC = () => {
                     <div key={index} className="flex justify-between py-1">
                       <div>
                         <div>{item.name} × {item.quantity}</div>
+                        {[...(item.components || []), ...(item.modifiers || [])].length > 0 && (
+                          <div className="text-xs text-muted-foreground">
+                            {[
+                              ...(item.components || []).map(component => component.name),
+                              ...(item.modifiers || []).map(modifier => modifier.optionName),
+                            ].join(', ')}
+                          </div>
+                        )}
                         <div className="text-sm text-muted-foreground">
                           @ Rp {(selectedTransaction.paymentMethod === 'cash' ? item.cashPrice : item.qrisPrice).toLocaleString()}
                         </div>
@@ -0,0 +1,403 @@
+import React, { useState, useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { useAuth } from '@/context/AuthContext';
+import { usePwa } from '@/context/PwaContext';
+import PosLayout from '@/components/layouts/PosLayout';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { toast } from '@/hooks/use-toast';
+import { Store, fetchStores } from '@/lib/repository';
+import { getSellingDate } from '@/lib/stock';
+import {
+  GoodsReceipt,
+  GoodsReceiptLine,
+  PurchaseOrder,
+  fetchGoodsReceipts,
+  fetchPurchaseOrders,
+  formatOrderNumber,
+  isOpenForReceiving,
+  purchaseOrderStatusLabels,
+  receivePurchaseOrder,
+} from '@/lib/purchasing';
+import { format } from 'date-fns';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { PackageCheck } from 'lucide-react';
+
+const getOrderedQuantity = (line: PurchaseOrder['lines'][number]) => line.packQuantity * line.packSize;
+
+// Starts every line at what's still outstanding, at the ordered unit cost
+const getInitialLines = (order: PurchaseOrder): GoodsReceiptLine[] =>
+  order.lines.map(line => ({
+    purchaseOrderLineId: line.id,
+    quantity: Math.max(getOrderedQuantity(line) - line.receivedQuantity, 0),
+    unitCost: Number((line.packCost / line.packSize).toFixed(2)),
+    batchNumber: '',
+    expiryDate: null,
+  }));
+
+const GoodsReceiving: React.FC = () => {
+  const { user } = useAuth();
+  const { networkStatus } = usePwa();
+  const [searchParams] = useSearchParams();
+
+  const [stores, setStores] = useState<Store[]>([]);
+  const [selectedStoreId, setSelectedStoreId] = useState<string>('');
+  const [orders, setOrders] = useState<PurchaseOrder[]>([]);
+  const [selectedOrderId, setSelectedOrderId] = useState<string>(searchParams.get('order') || '');
+  const [receiptLines, setReceiptLines] = useState<GoodsReceiptLine[]>([]);
+  const [notes, setNotes] = useState('');
+  const [receipts, setReceipts] = useState<GoodsReceipt[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [posting, setPosting] = useState(false);
+  // Kept across retries of the same delivery so it can't be booked twice
+  const [clientOperationId, setClientOperationId] = useState(() => crypto.randomUUID());
+
+  const isOffline = networkStatus === 'offline';
+
+  const loadOrders = async (storeIds: string[]) => {
+    try {
+      setOrders((await fetchPurchaseOrders(storeIds)).filter(isOpenForReceiving));
+    } catch (error) {
+      console.error('Error fetching purchase orders:', error);
+      toast({
+        title: "Error fetching purchase orders",
+        description: "Could not load purchase orders. Please try again.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  useEffect(() => {
+    if (!user?.branchId || isOffline) {
+      setLoading(false);
+      return;
+    }
+
+    const loadStores = async () => {
+      setLoading(true);
+      try {
+        const branchStores = await fetchStores({ branchId: user.branchId });
+        setStores(branchStores);
+        setSelectedStoreId(current => current || branchStores[0]?.id || '');
+        await loadOrders(branchStores.map(store => store.id));
+      } catch (error) {
+        console.error('Error fetching stores:', error);
+        toast({
+          title: "Error fetching stores",
+          description: "Could not load your branch's stores. Please try again.",
+          variant: "destructive"
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadStores();
+  }, [user?.branchId, isOffline]);
+
+  const selectedOrder = orders.find(order => order.id === selectedOrderId);
+  const storeOrders = orders.filter(order => order.storeId === selectedStoreId);
+
+  // An order linked from the purchase orders page opens on its own store
+  useEffect(() => {
+    if (selectedOrder && selectedOrder.storeId !== selectedStoreId) {
+      setSelectedStoreId(selectedOrder.storeId);
+    }
+  }, [selectedOrder, selectedStoreId]);
+
+  // Reset the form whenever the order is reloaded, which includes after
+  // each posted delivery
+  useEffect(() => {
+    setReceiptLines(selectedOrder ? getInitialLines(selectedOrder) : []);
+    setNotes('');
+    setReceipts([]);
+    setClientOperationId(crypto.randomUUID());
+
+    if (!selectedOrder) return;
+
+    let cancelled = false;
+    fetchGoodsReceipts(selectedOrder.id)
+      .then(rows => {
+        if (!cancelled) setReceipts(rows);
+      })
+      .catch(error => console.error('Error fetching goods receipts:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedOrder]);
+
+  const handleStoreChange = (storeId: string) => {
+    setSelectedStoreId(storeId);
+    setSelectedOrderId('');
+  };
+
+  const updateReceiptLine = (lineId: string, changes: Partial<GoodsReceiptLine>) => {
+    setReceiptLines(lines =>
+      lines.map(line => line.purchaseOrderLineId === lineId ? { ...line, ...changes } : line)
+    );
+  };
+
+  const handlePost = async () => {
+    if (!selectedOrder) return;
+
+    if (receiptLines.some(line => line.quantity < 0 || line.unitCost < 0)) {
+      toast({
+        title: "Invalid quantities",
+        description: "Received quantities and unit costs can't be negative.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const lines = receiptLines.filter(line => line.quantity > 0);
+    if (lines.length === 0) {
+      toast({
+        title: "Nothing received",
+        description: "Enter the quantity that arrived for at least one item.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setPosting(true);
+    try {
+      const status = await receivePurchaseOrder(
+        clientOperationId,
+        selectedOrder.id,
+        getSellingDate(),
+        lines,
+        notes
+      );
+
+      toast({
+        title: "Delivery received",
+        description: `${formatOrderNumber(selectedOrder)} is now ${purchaseOrderStatusLabels[status].toLowerCase()}. Stock at ${selectedOrder.storeName} has been updated.`,
+      });
+
+      if (status === 'received') {
+        setSelectedOrderId('');
+      }
+      await loadOrders(stores.map(store => store.id));
+    } catch (error) {
+      console.error('Error receiving purchase order:', error);
+      toast({
+        title: "Error receiving delivery",
+        description: "The delivery was not booked in. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setPosting(false);
+    }
+  };
+
+  return (
+    <PosLayout>
+      <div className="p-4 space-y-6">
+        <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+          <h1 className="text-2xl font-bold">Receive Goods</h1>
+
+          <div className="flex flex-wrap gap-2">
+            <Select value={selectedStoreId} onValueChange={handleStoreChange}>
+              <SelectTrigger className="w-[200px]">
+                <SelectValue placeholder="Select store" />
+              </SelectTrigger>
+              <SelectContent>
+                {stores.map(store => (
+                  <SelectItem key={store.id} value={store.id}>
+                    {store.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Select value={selectedOrderId} onValueChange={setSelectedOrderId} disabled={storeOrders.length === 0}>
+              <SelectTrigger className="w-[260px]">
+                <SelectValue placeholder={storeOrders.length > 0 ? 'Select purchase order' : 'No open orders'} />
+              </SelectTrigger>
+              <SelectContent>
+                {storeOrders.map(order => (
+                  <SelectItem key={order.id} value={order.id}>
+                    {formatOrderNumber(order)} · {order.supplierName}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {isOffline ? (
+          <div className="flex justify-center p-8 border border-dashed rounded-lg">
+            <p className="text-muted-foreground">Receiving is available when you're back online.</p>
+          </div>
+        ) : loading ? (
+          <div className="flex justify-center p-8">
+            <p className="text-muted-foreground">Loading purchase orders...</p>
+          </div>
+        ) : !selectedOrder ? (
+          <div className="flex justify-center p-8 border border-dashed rounded-lg">
+            <p className="text-muted-foreground">
+              {storeOrders.length > 0
+                ? 'Select the purchase order the delivery belongs to.'
+                : 'There are no sent orders waiting for delivery at this store.'}
+            </p>
+          </div>
+        ) : (
+          <>
+            <Card>
+              <CardHeader>
+                <CardTitle>{formatOrderNumber(selectedOrder)} from {selectedOrder.supplierName}</CardTitle>
+                <CardDescription>
+                  Check each item against the delivery. Quantities and unit costs are per stock unit;
+                  enter 0 for anything that didn't arrive.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Item</TableHead>
+                      <TableHead className="text-right">Ordered</TableHead>
+                      <TableHead className="text-right">Received So Far</TableHead>
+                      <TableHead>Received Now</TableHead>
+                      <TableHead>Unit Cost</TableHead>
+                      <TableHead>Batch</TableHead>
+                      <TableHead>Expiry</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {selectedOrder.lines.map(orderLine => {
+                      const line = receiptLines.find(receiptLine => receiptLine.purchaseOrderLineId === orderLine.id);
+                      if (!line) return null;
+
+                      return (
+                        <TableRow key={orderLine.id}>
+                          <TableCell className="font-medium">{orderLine.stockItemName}</TableCell>
+                          <TableCell className="text-right whitespace-nowrap">
+                            {getOrderedQuantity(orderLine)} {orderLine.unit}
+                          </TableCell>
+                          <TableCell className="text-right whitespace-nowrap">
+                            {orderLine.receivedQuantity} {orderLine.unit}
+                          </TableCell>
+                          <TableCell>
+                            <Input
+                              type="number"
+                              min="0"
+                              step="any"
+                              className="w-24 h-8"
+                              aria-label={`Received ${orderLine.stockItemName} in ${orderLine.unit}`}
+                              value={line.quantity}
+                              onChange={e => {
+                                const quantity = parseFloat(e.target.value);
+                                updateReceiptLine(orderLine.id, { quantity: isNaN(quantity) ? 0 : quantity });
+                              }}
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <Input
+                              type="number"
+                              min="0"
+                              step="0.01"
+                              className="w-28 h-8"
+                              aria-label={`Cost per ${orderLine.unit} of ${orderLine.stockItemName}`}
+                              value={line.unitCost}
+                              onChange={e => {
+                                const unitCost = parseFloat(e.target.value);
+                                updateReceiptLine(orderLine.id, { unitCost: isNaN(unitCost) ? 0 : unitCost });
+                              }}
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <Input
+                              className="w-28 h-8"
+                              aria-label={`Batch of ${orderLine.stockItemName}`}
+                              value={line.batchNumber}
+                              onChange={e => updateReceiptLine(orderLine.id, { batchNumber: e.target.value })}
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <Input
+                              type="date"
+                              className="w-40 h-8"
+                              aria-label={`Expiry of ${orderLine.stockItemName}`}
+                              value={line.expiryDate || ''}
+                              onChange={e => updateReceiptLine(orderLine.id, { expiryDate: e.target.value || null })}
+                            />
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+
+                <div className="space-y-2">
+                  <Label htmlFor="notes">Delivery notes</Label>
+                  <Textarea
+                    id="notes"
+                    placeholder="Delivery note number, damaged goods, etc."
+                    value={notes}
+                    onChange={e => setNotes(e.target.value)}
+                  />
+                </div>
+
+                <div className="flex justify-end">
+                  <Button onClick={handlePost} disabled={posting}>
+                    <PackageCheck className="mr-2 h-4 w-4" />
+                    {posting ? 'Posting...' : 'Post to Stock'}
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+
+            {receipts.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Earlier Deliveries</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {receipts.map(receipt => (
+                    <div key={receipt.id} className="border rounded-md p-3 space-y-1">
+                      <p className="text-sm font-medium">
+                        {format(new Date(receipt.receivedAt), 'dd MMM yyyy HH:mm')}
+                        {receipt.receivedByName && ` · ${receipt.receivedByName}`}
+                      </p>
+                      <ul className="text-sm text-muted-foreground">
+                        {receipt.lines.map(line => (
+                          <li key={line.id}>
+                            {line.stockItemName}: {line.quantity} {line.unit} at Rp {line.unitCost.toLocaleString()}
+                            {line.batchNumber && `, batch ${line.batchNumber}`}
+                            {line.expiryDate && `, expires ${line.expiryDate}`}
+                          </li>
+                        ))}
+                      </ul>
+                      {receipt.notes && <p className="text-sm">{receipt.notes}</p>}
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+          </>
+        )}
+      </div>
+    </PosLayout>
+  );
+};
+
+export default GoodsReceiving;
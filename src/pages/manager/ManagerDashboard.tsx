@@ -4,18 +4,16 @@ import { useAuth } from '@/context/AuthContext';
 import PosLayout from '@/components/layouts/PosLayout';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { useCatalog } from '@/hooks/use-catalog';
+import { Store, fetchStores } from '@/lib/repository';
+import { LowStockItem, fetchLowStockItems } from '@/lib/purchasing';
 import { CircleAlert } from 'lucide-react';
 
-interface StockAlert {
-  itemId: string;
-  itemName: string;
-  currentStock: number;
-  minThreshold: number;
-}
-
 const ManagerDashboard: React.FC = () => {
   const { user } = useAuth();
-  const [stockAlerts, setStockAlerts] = useState<StockAlert[]>([]);
+  const { data: stockItems } = useCatalog('stockItems');
+  const [stores, setStores] = useState<Store[]>([]);
+  const [stockAlerts, setStockAlerts] = useState<LowStockItem[]>([]);
   const [salesData, setSalesData] = useState({
     today: 0,
     yesterday: 0,
@@ -23,16 +21,27 @@ const ManagerDashboard: React.FC = () => {
     thisMonth: 0,
   });
 
+  // Items below their minimum at any store of the branch
+  useEffect(() => {
+    if (!user?.branchId || !stockItems) return;
+
+    const fetchStockAlerts = async () => {
+      try {
+        const branchStores = await fetchStores({ branchId: user.branchId });
+        setStores(branchStores);
+        setStockAlerts(await fetchLowStockItems(branchStores.map(store => store.id), stockItems));
+      } catch (error) {
+        console.error('Error fetching stock alerts:', error);
+      }
+    };
+
+    fetchStockAlerts();
+  }, [user?.branchId, stockItems]);
+
   useEffect(() => {
     // In a real app, fetch these from an API
     // For demo, we'll use mock data
     
-    // Mock stock alerts
-    setStockAlerts([
-      { itemId: '1', itemName: 'Iced Coffee', currentStock: 2, minThreshold: 5 },
-      { itemId: '3', itemName: 'Sandwich', currentStock: 1, minThreshold: 3 },
-    ]);
-    
     // Mock sales data
     setSalesData({
       today: 250000,
@@ -111,12 +120,15 @@ const ManagerDashboard: React.FC = () => {
               {stockAlerts.length > 0 ? (
                 <div className="space-y-4">
                   {stockAlerts.map(alert => (
-                    <div key={alert.itemId} className="flex items-start space-x-4 bg-amber-50 p-3 rounded-md">
+                    <div
+                      key={`${alert.storeId}:${alert.stockItemId}`}
+                      className="flex items-start space-x-4 bg-amber-50 p-3 rounded-md"
+                    >
                       <CircleAlert className="text-amber-500 h-5 w-5 mt-0.5" />
                       <div>
-                        <h3 className="font-medium">{alert.itemName}</h3>
+                        <h3 className="font-medium">{alert.stockItemName}</h3>
                         <p className="text-sm text-muted-foreground">
-                          Current stock: {alert.currentStock} (Minimum: {alert.minThreshold})
+                          {stores.find(store => store.id === alert.storeId)?.name}: {alert.quantity} {alert.unit} (Minimum: {alert.minimumStock})
                         </p>
                       </div>
                     </div>
@@ -141,6 +153,13 @@ const ManagerDashboard: React.FC = () => {
               >
                 Manage Stock
               </Button>
+              <Button 
+                variant="outline" 
+                className="w-full justify-start" 
+                onClick={() => window.location.href = '/manager/purchase-orders'}
+              >
+                Purchase Orders
+              </Button>
               <Button 
                 variant="outline" 
                 className="w-full justify-start" 
@@ -0,0 +1,486 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '@/context/AuthContext';
+import { usePwa } from '@/context/PwaContext';
+import PosLayout from '@/components/layouts/PosLayout';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { toast } from '@/hooks/use-toast';
+import { useCatalog } from '@/hooks/use-catalog';
+import { Store, fetchStores } from '@/lib/repository';
+import {
+  PurchaseOrder,
+  PurchaseOrderStatus,
+  buildLowStockOrders,
+  deletePurchaseOrder,
+  downloadPurchaseOrderCsv,
+  fetchLowStockItems,
+  fetchPurchaseOrders,
+  formatOrderNumber,
+  getLineTotal,
+  getOrderTotal,
+  isOpenForReceiving,
+  markPurchaseOrderSent,
+  printPurchaseOrder,
+  purchaseOrderStatusLabels,
+  savePurchaseOrder,
+} from '@/lib/purchasing';
+import { format } from 'date-fns';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Download, PackageCheck, Printer, ShoppingBasket } from 'lucide-react';
+
+const statusVariants: Record<PurchaseOrderStatus, 'default' | 'secondary' | 'outline'> = {
+  draft: 'outline',
+  sent: 'default',
+  partially_received: 'secondary',
+  received: 'secondary',
+};
+
+const formatDate = (date: string | null) =>
+  date ? format(new Date(`${date}T00:00:00`), 'MMM dd, yyyy') : '-';
+
+const PurchaseOrders: React.FC = () => {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { networkStatus } = usePwa();
+  const { data: suppliers = [] } = useCatalog('suppliers');
+  const { data: stockItems = [] } = useCatalog('stockItems');
+
+  const [stores, setStores] = useState<Store[]>([]);
+  const [selectedStoreId, setSelectedStoreId] = useState<string>('');
+  const [orders, setOrders] = useState<PurchaseOrder[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [creating, setCreating] = useState(false);
+  const [saving, setSaving] = useState(false);
+  // A copy of the order being viewed, edited in place while it's a draft
+  const [openOrder, setOpenOrder] = useState<PurchaseOrder | null>(null);
+
+  const isOffline = networkStatus === 'offline';
+
+  const loadOrders = async (storeIds: string[]) => {
+    try {
+      setOrders(await fetchPurchaseOrders(storeIds));
+    } catch (error) {
+      console.error('Error fetching purchase orders:', error);
+      toast({
+        title: "Error fetching purchase orders",
+        description: "Could not load purchase orders. Please try again.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  useEffect(() => {
+    if (!user?.branchId || isOffline) {
+      setLoading(false);
+      return;
+    }
+
+    const loadStores = async () => {
+      setLoading(true);
+      try {
+        const branchStores = await fetchStores({ branchId: user.branchId });
+        setStores(branchStores);
+        setSelectedStoreId(current => current || branchStores[0]?.id || '');
+        await loadOrders(branchStores.map(store => store.id));
+      } catch (error) {
+        console.error('Error fetching stores:', error);
+        toast({
+          title: "Error fetching stores",
+          description: "Could not load your branch's stores. Please try again.",
+          variant: "destructive"
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadStores();
+  }, [user?.branchId, isOffline]);
+
+  const storeOrders = orders.filter(order => order.storeId === selectedStoreId);
+  const selectedStore = stores.find(store => store.id === selectedStoreId);
+
+  const handleCreateFromLowStock = async () => {
+    if (!selectedStore) return;
+
+    setCreating(true);
+    try {
+      const lowStockItems = await fetchLowStockItems([selectedStore.id], stockItems);
+      const { orders: drafts, unsupplied } = buildLowStockOrders(
+        selectedStore.id,
+        selectedStore.name,
+        lowStockItems,
+        suppliers,
+        orders
+      );
+
+      for (const draft of drafts) {
+        await savePurchaseOrder(draft);
+      }
+      await loadOrders(stores.map(store => store.id));
+
+      if (drafts.length === 0 && unsupplied.length === 0) {
+        toast({
+          title: "Nothing to order",
+          description: `Every item at ${selectedStore.name} is at its minimum or already on order.`,
+        });
+      } else {
+        toast({
+          title: drafts.length > 0 ? "Draft orders created" : "No orders created",
+          description: [
+            drafts.length > 0 && `${drafts.length} draft order${drafts.length !== 1 ? 's' : ''} created.`,
+            unsupplied.length > 0 &&
+              `No supplier delivers ${unsupplied.map(item => item.stockItemName).join(', ')}.`,
+          ].filter(Boolean).join(' '),
+          variant: drafts.length > 0 ? undefined : "destructive",
+        });
+      }
+    } catch (error) {
+      console.error('Error creating purchase orders:', error);
+      toast({
+        title: "Error creating purchase orders",
+        description: "There was an error processing your request.",
+        variant: "destructive"
+      });
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const updateOpenOrderLine = (lineId: string, packQuantity: number) => {
+    setOpenOrder(order => order && {
+      ...order,
+      lines: order.lines.map(line => line.id === lineId ? { ...line, packQuantity } : line),
+    });
+  };
+
+  const handleSaveDraft = async (markSent: boolean) => {
+    if (!openOrder) return;
+
+    // Lines set to zero packs are dropped from the order
+    const lines = openOrder.lines.filter(line => line.packQuantity > 0);
+    if (lines.length === 0) {
+      toast({
+        title: "Empty order",
+        description: "Order at least one pack, or delete the draft.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await savePurchaseOrder({ ...openOrder, lines });
+      if (markSent) {
+        await markPurchaseOrderSent(openOrder.id);
+      }
+      await loadOrders(stores.map(store => store.id));
+      setOpenOrder(null);
+
+      toast({
+        title: markSent ? "Order sent" : "Order saved",
+        description: markSent
+          ? `${formatOrderNumber(openOrder)} is marked as sent to ${openOrder.supplierName}.`
+          : `${formatOrderNumber(openOrder)} has been updated.`,
+      });
+    } catch (error) {
+      console.error('Error saving purchase order:', error);
+      toast({
+        title: "Error saving purchase order",
+        description: "There was an error processing your request.",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteDraft = async () => {
+    if (!openOrder) return;
+
+    setSaving(true);
+    try {
+      await deletePurchaseOrder(openOrder.id);
+      setOrders(orders.filter(order => order.id !== openOrder.id));
+      setOpenOrder(null);
+
+      toast({
+        title: "Draft deleted",
+        description: `${formatOrderNumber(openOrder)} has been removed.`,
+      });
+    } catch (error) {
+      console.error('Error deleting purchase order:', error);
+      toast({
+        title: "Error deleting purchase order",
+        description: "There was an error processing your request.",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handlePrint = (order: PurchaseOrder) => {
+    if (!printPurchaseOrder(order, suppliers.find(supplier => supplier.id === order.supplierId))) {
+      toast({
+        title: "Could not open the order",
+        description: "Allow pop-ups for this site to print purchase orders.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const isDraft = openOrder?.status === 'draft';
+
+  return (
+    <PosLayout>
+      <div className="p-4 space-y-6">
+        <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+          <h1 className="text-2xl font-bold">Purchase Orders</h1>
+
+          <div className="flex flex-wrap gap-2">
+            <Select value={selectedStoreId} onValueChange={setSelectedStoreId}>
+              <SelectTrigger className="w-[200px]">
+                <SelectValue placeholder="Select store" />
+              </SelectTrigger>
+              <SelectContent>
+                {stores.map(store => (
+                  <SelectItem key={store.id} value={store.id}>
+                    {store.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Button
+              onClick={handleCreateFromLowStock}
+              disabled={!selectedStore || creating || isOffline}
+            >
+              <ShoppingBasket className="mr-2 h-4 w-4" />
+              {creating ? 'Creating...' : 'Create from Low Stock'}
+            </Button>
+          </div>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Orders for {selectedStore?.name || 'your store'}</CardTitle>
+            <CardDescription>
+              Draft orders cover items below their minimum stock, in whole packs from the cheapest supplier.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="p-0">
+            {isOffline ? (
+              <div className="flex justify-center p-8">
+                <p className="text-muted-foreground">Purchase orders are available when you're back online.</p>
+              </div>
+            ) : loading ? (
+              <div className="flex justify-center p-8">
+                <p className="text-muted-foreground">Loading purchase orders...</p>
+              </div>
+            ) : storeOrders.length > 0 ? (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Order</TableHead>
+                    <TableHead>Supplier</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Expected</TableHead>
+                    <TableHead className="text-right">Total</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {storeOrders.map(order => (
+                    <TableRow key={order.id}>
+                      <TableCell className="font-medium">{formatOrderNumber(order)}</TableCell>
+                      <TableCell>{order.supplierName}</TableCell>
+                      <TableCell>
+                        <Badge variant={statusVariants[order.status]}>
+                          {purchaseOrderStatusLabels[order.status]}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>{formatDate(order.expectedDate)}</TableCell>
+                      <TableCell className="text-right">Rp {getOrderTotal(order).toLocaleString()}</TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setOpenOrder({ ...order, lines: order.lines.map(line => ({ ...line })) })}
+                        >
+                          {order.status === 'draft' ? 'Edit' : 'View'}
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            ) : (
+              <div className="flex justify-center p-8">
+                <p className="text-muted-foreground">No purchase orders for this store yet.</p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Dialog open={!!openOrder} onOpenChange={open => !open && setOpenOrder(null)}>
+          <DialogContent className="sm:max-w-[700px] max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>
+                {openOrder && formatOrderNumber(openOrder)} · {openOrder?.supplierName}
+              </DialogTitle>
+              <DialogDescription>
+                {openOrder && `${purchaseOrderStatusLabels[openOrder.status]} order for ${openOrder.storeName}.`}
+                {isDraft && ' Set an item to 0 packs to leave it out.'}
+              </DialogDescription>
+            </DialogHeader>
+
+            {openOrder && (
+              <div className="space-y-4">
+                {isDraft ? (
+                  <div className="grid grid-cols-4 items-center gap-4">
+                    <Label htmlFor="expectedDate" className="text-right">
+                      Expected
+                    </Label>
+                    <Input
+                      id="expectedDate"
+                      type="date"
+                      className="col-span-3"
+                      value={openOrder.expectedDate || ''}
+                      onChange={e => setOpenOrder({ ...openOrder, expectedDate: e.target.value || null })}
+                    />
+                  </div>
+                ) : (
+                  <p className="text-sm text-muted-foreground">
+                    Expected {formatDate(openOrder.expectedDate)}
+                    {openOrder.sentAt && ` · Sent ${format(new Date(openOrder.sentAt), 'dd MMM HH:mm')}`}
+                  </p>
+                )}
+
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Item</TableHead>
+                      <TableHead className="text-right">Packs</TableHead>
+                      <TableHead className="text-right">Pack Size</TableHead>
+                      {!isDraft && <TableHead className="text-right">Received</TableHead>}
+                      <TableHead className="text-right">Total</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {openOrder.lines.map(line => (
+                      <TableRow key={line.id}>
+                        <TableCell className="font-medium">{line.stockItemName}</TableCell>
+                        <TableCell className="text-right">
+                          {isDraft ? (
+                            <Input
+                              type="number"
+                              min="0"
+                              step="1"
+                              className="w-20 h-8 ml-auto text-right"
+                              aria-label={`Packs of ${line.stockItemName}`}
+                              value={line.packQuantity}
+                              onChange={e => {
+                                const packQuantity = parseFloat(e.target.value);
+                                updateOpenOrderLine(line.id, isNaN(packQuantity) ? 0 : packQuantity);
+                              }}
+                            />
+                          ) : line.packQuantity}
+                        </TableCell>
+                        <TableCell className="text-right">{line.packSize} {line.unit}</TableCell>
+                        {!isDraft && (
+                          <TableCell className="text-right">
+                            {line.receivedQuantity} / {line.packQuantity * line.packSize} {line.unit}
+                          </TableCell>
+                        )}
+                        <TableCell className="text-right">Rp {getLineTotal(line).toLocaleString()}</TableCell>
+                      </TableRow>
+                    ))}
+                    <TableRow>
+                      <TableCell colSpan={isDraft ? 3 : 4} className="font-medium">Total</TableCell>
+                      <TableCell className="text-right font-medium">
+                        Rp {getOrderTotal(openOrder).toLocaleString()}
+                      </TableCell>
+                    </TableRow>
+                  </TableBody>
+                </Table>
+
+                {isDraft ? (
+                  <div className="space-y-2">
+                    <Label htmlFor="notes">Notes for the supplier</Label>
+                    <Textarea
+                      id="notes"
+                      value={openOrder.notes}
+                      onChange={e => setOpenOrder({ ...openOrder, notes: e.target.value })}
+                    />
+                  </div>
+                ) : openOrder.notes && (
+                  <p className="text-sm">{openOrder.notes}</p>
+                )}
+              </div>
+            )}
+
+            <DialogFooter className="flex-wrap gap-2">
+              <Button variant="outline" onClick={() => openOrder && handlePrint(openOrder)}>
+                <Printer className="mr-2 h-4 w-4" />
+                Print
+              </Button>
+              <Button variant="outline" onClick={() => openOrder && downloadPurchaseOrderCsv(openOrder)}>
+                <Download className="mr-2 h-4 w-4" />
+                Export CSV
+              </Button>
+              {openOrder && isOpenForReceiving(openOrder) && (
+                <Button onClick={() => navigate(`/manager/receiving?order=${openOrder.id}`)}>
+                  <PackageCheck className="mr-2 h-4 w-4" />
+                  Receive Goods
+                </Button>
+              )}
+              {isDraft && (
+                <>
+                  <Button variant="destructive" onClick={handleDeleteDraft} disabled={saving || isOffline}>
+                    Delete Draft
+                  </Button>
+                  <Button variant="outline" onClick={() => handleSaveDraft(false)} disabled={saving || isOffline}>
+                    Save Draft
+                  </Button>
+                  <Button onClick={() => handleSaveDraft(true)} disabled={saving || isOffline}>
+                    Mark as Sent
+                  </Button>
+                </>
+              )}
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </div>
+    </PosLayout>
+  );
+};
+
+export default PurchaseOrders;
@@ -38,11 +38,16 @@ import {
 import { format, subDays, startOfWeek, endOfWeek, startOfMonth, endOfMonth, subMonths } from 'date-fns';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from '@/hooks/use-toast';
+import { getAllLocalTransactions, getCachedList } from '@/lib/local-db';
+import { Store, fetchStores } from '@/lib/repository';
+import { calculateSurcharge, toCheckoutLine } from '@/lib/transactions';
 
 interface Transaction {
   id: string;
   items: any[];
   total: number;
+  // Paid on top of the cash prices, i.e. the QRIS surcharge
+  surcharge?: number;
   paymentMethod: string;
   timestamp: string;
   storeId: string;
@@ -50,13 +55,6 @@ interface Transaction {
   cashierId: string;
 }
 
-interface Store {
-  id: string;
-  name: string;
-  branchId: string;
-  branchName: string;
-}
-
 const ManagerSalesReport: React.FC = () => {
   const { user } = useAuth();
   const { networkStatus } = usePwa();
@@ -75,25 +73,7 @@ const ManagerSalesReport: React.FC = () => {
       setLoading(true);
       try {
         // Fetch stores for this manager's branch
-        const { data: storeData, error: storeError } = await supabase
-          .from('stores')
-          .select('id, name, branch_id, branches(name)')
-          .eq('branch_id', user.branchId || '')
-          .order('name');
-
-        if (storeError) {
-          throw storeError;
-        }
-
-        if (storeData) {
-          const formattedStores = storeData.map(store => ({
-            id: store.id,
-            name: store.name,
-            branchId: store.branch_id,
-            branchName: store.branches?.name || 'Unknown Branch'
-          }));
-          setStores(formattedStores);
-        }
+        setStores(await fetchStores({ branchId: user.branchId || '' }));
 
         // Fetch transactions
         const { data: transactionData, error: transactionError } = await supabase
@@ -111,6 +91,7 @@ const ManagerSalesReport: React.FC = () => {
               menu_item_id,
               quantity,
               price_per_unit,
+              base_price,
               total_price
             )
           `)
@@ -125,6 +106,7 @@ const ManagerSalesReport: React.FC = () => {
           const formattedTransactions = transactionData.map(tx => ({
             id: tx.id,
             total: tx.total_amount,
+            surcharge: calculateSurcharge((tx.transaction_items || []).map(toCheckoutLine)),
             paymentMethod: tx.payment_method,
             timestamp: tx.transaction_date,
             storeId: tx.store_id,
@@ -143,30 +125,24 @@ const ManagerSalesReport: React.FC = () => {
           variant: "destructive"
         });
 
-        // Load from local storage as fallback
-        const savedStores = localStorage.getItem('stores');
-        if (savedStores) {
-          const allStores = JSON.parse(savedStores);
-          const branchStores = allStores.filter((store: Store) => store.branchId === user.branchId);
-          setStores(branchStores);
-        }
+        // Load from the local cache as fallback
+        const savedStores = await getCachedList<Store>('stores') || [];
+        const branchStores = savedStores.filter(store => store.branchId === user.branchId);
+        setStores(branchStores);
         
-        const savedTransactions = localStorage.getItem('transactions');
-        if (savedTransactions) {
-          const parsedTransactions = JSON.parse(savedTransactions);
-          const branchStoreIds = stores.map(store => store.id);
-          const filteredTx = parsedTransactions.filter((tx: Transaction) => 
-            branchStoreIds.includes(tx.storeId)
-          ).map((transaction: Transaction) => {
-            const store = stores.find(s => s.id === transaction.storeId);
-            return {
-              ...transaction,
-              storeName: store?.name || 'Unknown Store',
-            };
-          });
-          
-          setTransactions(filteredTx);
-        }
+        const savedTransactions = await getAllLocalTransactions<Transaction>();
+        const branchStoreIds = branchStores.map(store => store.id);
+        const filteredTx = savedTransactions.filter(tx => 
+          branchStoreIds.includes(tx.storeId)
+        ).map(transaction => {
+          const store = branchStores.find(s => s.id === transaction.storeId);
+          return {
+            ...transaction,
+            storeName: store?.name || 'Unknown Store',
+          };
+        });
+        
+        setTransactions(filteredTx);
       } finally {
         setLoading(false);
       }
@@ -245,6 +221,7 @@ const ManagerSalesReport: React.FC = () => {
   const qrisSales = filteredTransactions
     .filter(tx => tx.paymentMethod === 'qris')
     .reduce((sum, tx) => sum + tx.total, 0);
+  const qrisSurcharge = filteredTransactions.reduce((sum, tx) => sum + (tx.surcharge || 0), 0);
   const transactionCount = filteredTransactions.length;
   const averageTransaction = transactionCount > 0 ? totalSales / transactionCount : 0;
 
@@ -312,6 +289,9 @@ const ManagerSalesReport: React.FC = () => {
             </CardHeader>
             <CardContent>
               <div className="text-2xl font-bold">Rp {totalSales.toLocaleString()}</div>
+              <p className="text-xs text-muted-foreground">
+                Base revenue Rp {(totalSales - qrisSurcharge).toLocaleString()}
+              </p>
             </CardContent>
           </Card>
           
@@ -330,6 +310,9 @@ const ManagerSalesReport: React.FC = () => {
             </CardHeader>
             <CardContent>
               <div className="text-2xl font-bold">Rp {qrisSales.toLocaleString()}</div>
+              <p className="text-xs text-muted-foreground">
+                Incl. Rp {qrisSurcharge.toLocaleString()} surcharge
+              </p>
             </CardContent>
           </Card>
           
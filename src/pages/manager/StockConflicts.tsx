@@ -0,0 +1,234 @@
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '@/context/AuthContext';
+import { usePwa } from '@/context/PwaContext';
+import PosLayout from '@/components/layouts/PosLayout';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { toast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { format } from 'date-fns';
+
+interface StockConflict {
+  id: string;
+  stockItemName: string;
+  storeName: string;
+  sellingDate: string;
+  baseQuantity: number;
+  requestedQuantity: number;
+  serverQuantityAtConflict: number | null;
+  // Quantity on the server right now, which may include sales made since
+  currentQuantity: number | null;
+  createdAt: string;
+}
+
+const StockConflicts: React.FC = () => {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { networkStatus } = usePwa();
+
+  const [conflicts, setConflicts] = useState<StockConflict[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+
+  const fetchConflicts = useCallback(async () => {
+    setLoading(true);
+    try {
+      const { data: conflictData, error: conflictError } = await supabase
+        .from('stock_conflicts')
+        .select('*, stock_items(name), stores(name, branch_id)')
+        .is('resolved_at', null)
+        .order('created_at');
+
+      if (conflictError) throw conflictError;
+
+      const branchConflicts = (conflictData || []).filter(conflict =>
+        conflict.stores?.branch_id === user?.branchId
+      );
+
+      // Look up the current quantity of every row in conflict
+      let stockData: { store_id: string; stock_item_id: string; selling_date: string; quantity: number }[] = [];
+      if (branchConflicts.length > 0) {
+        const { data, error: stockError } = await supabase
+          .from('store_stocks')
+          .select('store_id, stock_item_id, selling_date, quantity')
+          .in('store_id', [...new Set(branchConflicts.map(conflict => conflict.store_id))])
+          .in('selling_date', [...new Set(branchConflicts.map(conflict => conflict.selling_date))]);
+
+        if (stockError) throw stockError;
+        stockData = data || [];
+      }
+
+      setConflicts(branchConflicts.map(conflict => {
+        const stock = stockData.find(row =>
+          row.store_id === conflict.store_id &&
+          row.stock_item_id === conflict.stock_item_id &&
+          row.selling_date === conflict.selling_date
+        );
+
+        return {
+          id: conflict.id,
+          stockItemName: conflict.stock_items?.name || 'Unknown Item',
+          storeName: conflict.stores?.name || 'Unknown Store',
+          sellingDate: conflict.selling_date,
+          baseQuantity: conflict.base_quantity,
+          requestedQuantity: conflict.requested_quantity,
+          serverQuantityAtConflict: conflict.server_quantity,
+          currentQuantity: stock ? stock.quantity : null,
+          createdAt: conflict.created_at
+        };
+      }));
+    } catch (error) {
+      console.error('Error fetching stock conflicts:', error);
+      toast({
+        title: "Error fetching conflicts",
+        description: "Could not load stock conflicts. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [user?.branchId]);
+
+  useEffect(() => {
+    if (!user?.branchId || networkStatus === 'offline') {
+      setLoading(false);
+      return;
+    }
+
+    fetchConflicts();
+  }, [user?.branchId, networkStatus, fetchConflicts]);
+
+  const handleResolve = async (conflict: StockConflict, resolution: 'server' | 'device') => {
+    setResolvingId(conflict.id);
+    try {
+      const { error } = await supabase.rpc('resolve_stock_conflict', {
+        p_conflict_id: conflict.id,
+        p_resolution: resolution
+      });
+
+      if (error) throw error;
+
+      setConflicts(conflicts.filter(c => c.id !== conflict.id));
+      toast({
+        title: "Conflict resolved",
+        description: resolution === 'device'
+          ? `${conflict.stockItemName} set to ${conflict.requestedQuantity}.`
+          : `${conflict.stockItemName} kept at its current stock.`,
+      });
+    } catch (error) {
+      console.error('Error resolving stock conflict:', error);
+      toast({
+        title: "Error",
+        description: "Could not resolve the conflict. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  return (
+    <PosLayout>
+      <div className="p-4 space-y-4">
+        <div className="flex flex-col md:flex-row justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold">Stock Conflicts</h1>
+            <p className="text-muted-foreground">
+              Stock changes that clashed with an edit made on another device
+            </p>
+          </div>
+
+          <Button variant="outline" onClick={() => navigate('/manager/stock')}>
+            Back to Stock
+          </Button>
+        </div>
+
+        {networkStatus === 'offline' ? (
+          <div className="flex flex-col items-center justify-center p-8 border border-dashed rounded-lg">
+            <p className="text-muted-foreground">Conflicts can only be reviewed while online.</p>
+          </div>
+        ) : loading ? (
+          <div className="flex justify-center p-8">
+            <p className="text-muted-foreground">Loading conflicts...</p>
+          </div>
+        ) : (
+          <Card>
+            <CardHeader>
+              <CardTitle>Unresolved Conflicts</CardTitle>
+              <CardDescription>
+                Choose which value wins. The current stock already includes any sales made since the change.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="border rounded-md overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="bg-muted/50">
+                      <th className="text-left p-2 pl-4">Item</th>
+                      <th className="text-left p-2">Store</th>
+                      <th className="text-center p-2">Changed</th>
+                      <th className="text-center p-2">Device Value</th>
+                      <th className="text-center p-2">Current Stock</th>
+                      <th className="text-right p-2 pr-4">Keep</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {conflicts.length > 0 ? (
+                      conflicts.map((conflict) => (
+                        <tr key={conflict.id} className="border-t">
+                          <td className="p-2 pl-4">{conflict.stockItemName}</td>
+                          <td className="p-2">{conflict.storeName}</td>
+                          <td className="text-center p-2 text-sm text-muted-foreground">
+                            {format(new Date(conflict.createdAt), 'dd MMM HH:mm')}
+                          </td>
+                          <td className="text-center p-2">
+                            {conflict.requestedQuantity}
+                            <div className="text-xs text-muted-foreground">
+                              was {conflict.baseQuantity}
+                            </div>
+                          </td>
+                          <td className="text-center p-2">
+                            {conflict.currentQuantity ?? '-'}
+                          </td>
+                          <td className="text-right p-2 pr-4">
+                            <div className="flex justify-end gap-2">
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                disabled={resolvingId === conflict.id}
+                                onClick={() => handleResolve(conflict, 'server')}
+                              >
+                                Current
+                              </Button>
+                              <Button
+                                size="sm"
+                                disabled={resolvingId === conflict.id}
+                                onClick={() => handleResolve(conflict, 'device')}
+                              >
+                                Device
+                              </Button>
+                            </div>
+                          </td>
+                        </tr>
+                      ))
+                    ) : (
+                      <tr>
+                        <td colSpan={6} className="text-center py-4 text-muted-foreground">
+                          No conflicts to review.
+                        </td>
+                      </tr>
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </PosLayout>
+  );
+};
+
+export default StockConflicts;
@@ -1,5 +1,6 @@
 
 import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { useAuth } from '@/context/AuthContext';
 import PosLayout from '@/components/layouts/PosLayout';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -8,6 +9,22 @@ import { Input } from '@/components/ui/input';
 import { toast } from '@/hooks/use-toast';
 import { usePwa } from '@/context/PwaContext';
 import { supabase } from '@/integrations/supabase/client';
+import { format } from 'date-fns';
+import {
+  ClosingCount,
+  OpeningCount,
+  OpeningProposal,
+  StockAdjustment,
+  adjustStoreStock,
+  endSelling,
+  fetchOpeningProposals,
+  getSellingDate,
+  startSelling,
+} from '@/lib/stock';
+import { getCachedList, setCachedList } from '@/lib/local-db';
+import { Store, StockItem, fetchStockItems, fetchStores } from '@/lib/repository';
+import StockHistoryDialog from '@/components/stock/StockHistoryDialog';
+import { History } from 'lucide-react';
 import {
   Select,
   SelectContent,
@@ -24,19 +41,15 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 
-interface StockItem {
-  id: string;
-  name: string;
-  currentStock: number;
-  minimumStock: number;
+// A catalog stock item with currentStock holding the selected store's
+// quantity for today
+interface StoreStockItem extends StockItem {
+  // What the selected store opened with today
   initialStock: number;
   storeId: string;
-}
-
-interface Store {
-  id: string;
-  name: string;
-  branchId: string;
+  // Version of today's store_stocks row the quantity was read from, sent with
+  // changes so the server can spot edits made elsewhere in the meantime
+  updatedAt?: string | null;
 }
 
 interface StoreStock {
@@ -48,11 +61,19 @@ interface StoreStock {
   sellingDate: string;
 }
 
+const toStoreStockItem = (item: StockItem): StoreStockItem => ({
+  ...item,
+  initialStock: 0,
+  storeId: '',
+  updatedAt: null
+});
+
 const StockControl: React.FC = () => {
+  const navigate = useNavigate();
   const { user } = useAuth();
-  const { networkStatus, addPendingOperation } = usePwa();
+  const { networkStatus, pendingOperations, addPendingOperation, discardOperation } = usePwa();
   
-  const [stockItems, setStockItems] = useState<StockItem[]>([]);
+  const [stockItems, setStockItems] = useState<StoreStockItem[]>([]);
   const [stores, setStores] = useState<Store[]>([]);
   const [userStores, setUserStores] = useState<Store[]>([]);
   const [selectedStoreId, setSelectedStoreId] = useState<string>('');
@@ -61,6 +82,14 @@ const StockControl: React.FC = () => {
   const [showEndSellingDialog, setShowEndSellingDialog] = useState(false);
   const [sellingStartedStores, setSellingStartedStores] = useState<string[]>([]);
   const [loading, setLoading] = useState(true);
+  const [stockDrafts, setStockDrafts] = useState<Record<string, string>>({});
+  const [historyItem, setHistoryItem] = useState<StoreStockItem | null>(null);
+  // Closing quantities typed in the end selling dialog, by stock item id
+  const [closingCounts, setClosingCounts] = useState<Record<string, string>>({});
+  const [openingProposals, setOpeningProposals] = useState<OpeningProposal[]>([]);
+  // Opening quantities typed in the start selling dialog, by stock item id
+  const [openingCounts, setOpeningCounts] = useState<Record<string, string>>({});
+  const [loadingProposals, setLoadingProposals] = useState(false);
   
   useEffect(() => {
     if (!user?.branchId) return;
@@ -69,34 +98,16 @@ const StockControl: React.FC = () => {
       setLoading(true);
       try {
         // Fetch stores for the manager's branch
-        const { data: storeData, error: storeError } = await supabase
-          .from('stores')
-          .select('id, name, branch_id')
-          .eq('branch_id', user.branchId);
-        
-        if (storeError) throw storeError;
-        
-        if (storeData) {
-          setStores(storeData);
-          
-          // Filter stores for manager's branch
-          const managerStores = storeData.filter((store: Store) => 
-            store.branchId === user.branchId
-          );
-          setUserStores(managerStores);
-          
-          // Set first store as default if none selected
-          if (managerStores.length > 0 && !selectedStoreId) {
-            setSelectedStoreId(managerStores[0].id);
-          }
+        const managerStores = await fetchStores({ branchId: user.branchId });
+        setStores(managerStores);
+        setUserStores(managerStores);
+
+        // Set first store as default if none selected
+        if (managerStores.length > 0 && !selectedStoreId) {
+          setSelectedStoreId(managerStores[0].id);
         }
-        
-        // Fetch stock items
-        const { data: stockItemsData, error: stockItemsError } = await supabase
-          .from('stock_items')
-          .select('*');
-        
-        if (stockItemsError) throw stockItemsError;
+
+        const catalogStockItems = await fetchStockItems();
         
         // Fetch current store stocks status (selling started stores)
         const { data: storeStocksData, error: storeStocksError } = await supabase
@@ -117,18 +128,7 @@ const StockControl: React.FC = () => {
           setSellingStartedStores(activeStoreIds);
         }
         
-        if (stockItemsData) {
-          // Transform to match our interface
-          const formattedStockItems = stockItemsData.map((item: any) => ({
-            id: item.id,
-            name: item.name,
-            currentStock: item.current_stock,
-            minimumStock: item.minimum_stock,
-            initialStock: item.current_stock, // Use as initial stock for now
-            storeId: ''  // This will be filled when fetching store specific stock
-          }));
-          setStockItems(formattedStockItems);
-        }
+        setStockItems(catalogStockItems.map(toStoreStockItem));
         
       } catch (error) {
         console.error('Error fetching data:', error);
@@ -139,13 +139,12 @@ const StockControl: React.FC = () => {
         });
         
         // Use cached data as fallback
-        const savedStores = localStorage.getItem('stores');
+        const savedStores = await getCachedList<Store>('stores');
         if (savedStores) {
-          const parsedStores = JSON.parse(savedStores);
-          setStores(parsedStores);
+          setStores(savedStores);
           
           // Filter stores to only include those assigned to the manager's branch
-          const managerStores = parsedStores.filter((store: Store) => 
+          const managerStores = savedStores.filter(store => 
             store.branchId === user.branchId
           );
           setUserStores(managerStores);
@@ -157,9 +156,9 @@ const StockControl: React.FC = () => {
         }
         
         // Load stock items
-        const savedStockItems = localStorage.getItem('stockItems');
+        const savedStockItems = await getCachedList<StockItem>('stockItems');
         if (savedStockItems) {
-          setStockItems(JSON.parse(savedStockItems));
+          setStockItems(savedStockItems.map(toStoreStockItem));
         }
         
         // Check selling status for each store
@@ -183,34 +182,51 @@ const StockControl: React.FC = () => {
       try {
         const { data: storeStocksData, error: storeStocksError } = await supabase
           .from('store_stocks')
-          .select('id, store_id, stock_item_id, quantity, is_active')
+          .select('id, store_id, stock_item_id, quantity, is_active, updated_at')
           .eq('store_id', selectedStoreId)
-          .eq('selling_date', new Date().toISOString().split('T')[0]);
+          .eq('selling_date', getSellingDate());
         
         if (storeStocksError) throw storeStocksError;
         
+        // Today's opening quantities, newest first so a reopened day shows
+        // its last opening
+        const { data: openingData, error: openingError } = await supabase
+          .from('stock_movements')
+          .select('stock_item_id, quantity_after')
+          .eq('store_id', selectedStoreId)
+          .eq('selling_date', getSellingDate())
+          .eq('movement_type', 'opening')
+          .order('created_at', { ascending: false });
+        
+        if (openingError) throw openingError;
+        
         // Update stock items with store-specific stock levels
-        if (storeStocksData && storeStocksData.length > 0) {
-          const updatedStockItems = stockItems.map(item => {
-            const storeStock = storeStocksData.find((ss: any) => ss.stock_item_id === item.id);
+        if (storeStocksData) {
+          setStockItems(items => items.map(item => {
+            const storeStock = storeStocksData.find(ss => ss.stock_item_id === item.id);
+            const opening = (openingData || []).find(movement => movement.stock_item_id === item.id);
             if (storeStock) {
               return {
                 ...item,
                 currentStock: storeStock.quantity,
-                storeId: selectedStoreId
+                initialStock: opening?.quantity_after ?? 0,
+                storeId: selectedStoreId,
+                updatedAt: storeStock.updated_at
               };
             }
-            return item;
-          });
-          setStockItems(updatedStockItems);
+            return { ...item, initialStock: 0, updatedAt: null };
+          }));
         }
       } catch (error) {
         console.error('Error fetching store stock:', error);
       }
     };
     
-    fetchStoreStock();
-  }, [selectedStoreId, stockItems]);
+    // Wait for the stock items to load before merging in the store's levels
+    if (!loading) {
+      fetchStoreStock();
+    }
+  }, [selectedStoreId, loading]);
 
   // Handle store selection change
   const handleStoreChange = (storeId: string) => {
@@ -229,6 +245,38 @@ const StockControl: React.FC = () => {
     return sellingStartedStores.includes(storeId);
   };
 
+  const openStartSellingDialog = async () => {
+    setOpeningProposals([]);
+    setOpeningCounts({});
+    setShowStartSellingDialog(true);
+    
+    // Offline there is nothing to propose from, so start from the last
+    // quantity this device saw for the store
+    if (networkStatus === 'offline') {
+      setOpeningCounts(Object.fromEntries(stockItems.map(item => [item.id, String(item.currentStock)])));
+      return;
+    }
+    
+    setLoadingProposals(true);
+    try {
+      const proposals = await fetchOpeningProposals(selectedStoreId, getSellingDate());
+      setOpeningProposals(proposals);
+      setOpeningCounts(Object.fromEntries(stockItems.map(item => {
+        const proposal = proposals.find(p => p.stockItemId === item.id);
+        return [item.id, String(proposal?.proposedQuantity ?? 0)];
+      })));
+    } catch (error) {
+      console.error('Error fetching opening proposals:', error);
+      toast({
+        title: "Could not propose opening stock",
+        description: "Enter the opening quantities by hand.",
+        variant: "destructive"
+      });
+    } finally {
+      setLoadingProposals(false);
+    }
+  };
+
   const handleStartSelling = async () => {
     if (!selectedStoreId) {
       toast({
@@ -239,77 +287,72 @@ const StockControl: React.FC = () => {
       return;
     }
     
+    // Bring every item to its counted opening stock, relative to what we
+    // last saw
+    const lines: OpeningCount[] = stockItems.map(item => {
+      const proposal = openingProposals.find(p => p.stockItemId === item.id);
+      const countedQuantity = parseFloat(openingCounts[item.id] ?? '');
+      const baseQuantity = item.updatedAt ? item.currentStock : 0;
+      return {
+        stockItemId: item.id,
+        closingQuantity: proposal?.closingQuantity ?? null,
+        receivedQuantity: proposal?.receivedQuantity ?? 0,
+        proposedQuantity: proposal?.proposedQuantity ?? countedQuantity,
+        countedQuantity,
+        baseQuantity,
+        baseUpdatedAt: item.updatedAt ?? null
+      };
+    });
+    
+    if (lines.some(line => isNaN(line.countedQuantity) || line.countedQuantity < 0)) {
+      toast({
+        title: "Invalid count",
+        description: "Enter an opening quantity of zero or more for every item.",
+        variant: "destructive",
+      });
+      return;
+    }
+    
     try {
-      // Start a transaction for all the stock items
-      const updatedItems = stockItems.map(item => ({
+      let updatedItems = stockItems.map((item, index) => ({
         ...item,
-        currentStock: item.initialStock,
+        currentStock: lines[index].countedQuantity,
+        initialStock: lines[index].countedQuantity,
         storeId: selectedStoreId
       }));
       
-      // For each stock item, create or update a store_stocks record
-      for (const item of updatedItems) {
-        const today = new Date().toISOString().split('T')[0];
-        
-        // Check if a record already exists for today
-        const { data: existingRecord, error: existingError } = await supabase
-          .from('store_stocks')
-          .select('id')
-          .eq('store_id', selectedStoreId)
-          .eq('stock_item_id', item.id)
-          .eq('selling_date', today)
-          .maybeSingle();
-        
-        if (existingError) throw existingError;
-        
-        if (existingRecord) {
-          // Update existing record
-          const { error: updateError } = await supabase
-            .from('store_stocks')
-            .update({
-              quantity: item.initialStock,
-              is_active: true
-            })
-            .eq('id', existingRecord.id);
-          
-          if (updateError) throw updateError;
-        } else {
-          // Create new record
-          const { error: insertError } = await supabase
-            .from('store_stocks')
-            .insert({
-              store_id: selectedStoreId,
-              stock_item_id: item.id,
-              quantity: item.initialStock,
-              is_active: true,
-              selling_date: today
-            });
-          
-          if (insertError) throw insertError;
-        }
-      }
-      
-      // Update local state
-      setStockItems(updatedItems);
-      setSellingStartedStores([...sellingStartedStores, selectedStoreId]);
-      
-      // Also update localStorage for offline fallback
-      localStorage.setItem('stockItems', JSON.stringify(updatedItems));
-      localStorage.setItem('sellingStartedStores', JSON.stringify([...sellingStartedStores, selectedStoreId]));
-      
-      // If offline, queue for sync
+      // Queue the change while offline, otherwise write it straight away
       if (networkStatus === 'offline') {
         addPendingOperation({
           type: 'START_SELLING',
           data: {
             storeId: selectedStoreId,
             branchId: user?.branchId,
-            items: updatedItems.filter(item => item.storeId === selectedStoreId),
+            items: lines,
             timestamp: new Date().toISOString()
           }
         });
+      } else {
+        const results = await startSelling(crypto.randomUUID(), selectedStoreId, lines, getSellingDate());
+        
+        // Show what the server ended up with, including conflicting items
+        updatedItems = updatedItems.map((item, index) => ({
+          ...item,
+          currentStock: results[index].quantity ?? item.currentStock,
+          updatedAt: results[index].updatedAt
+        }));
+        
+        notifyConflicts(results.filter(result => result.status === 'conflict').length);
       }
       
+      // Update local state
+      setStockItems(updatedItems);
+      setSellingStartedStores([...sellingStartedStores, selectedStoreId]);
+      
+      // Also update the local cache for offline fallback
+      await setCachedList('stockItems', updatedItems);
+      localStorage.setItem('sellingStartedStores', JSON.stringify([...sellingStartedStores, selectedStoreId]));
+      
       toast({
         title: "Selling started",
         description: `Initial stock levels have been set for ${getStoreName(selectedStoreId)}.`,
@@ -327,6 +370,13 @@ const StockControl: React.FC = () => {
     }
   };
 
+  const openEndSellingDialog = () => {
+    // Start every count at what the system expects, so the manager only
+    // corrects the items that differ
+    setClosingCounts(Object.fromEntries(stockItems.map(item => [item.id, String(item.currentStock)])));
+    setShowEndSellingDialog(true);
+  };
+
   const handleEndSelling = async () => {
     if (!selectedStoreId) {
       toast({
@@ -337,24 +387,43 @@ const StockControl: React.FC = () => {
       return;
     }
     
+    const counts: ClosingCount[] = stockItems
+      .filter(item => closingCounts[item.id]?.trim())
+      .map(item => ({ stockItemId: item.id, countedQuantity: parseFloat(closingCounts[item.id]) }));
+    
+    if (counts.some(count => isNaN(count.countedQuantity) || count.countedQuantity < 0)) {
+      toast({
+        title: "Invalid count",
+        description: "Counted quantities must be zero or more.",
+        variant: "destructive",
+      });
+      return;
+    }
+    
     try {
-      // Update all store_stocks records for this store to inactive
-      const today = new Date().toISOString().split('T')[0];
-      
-      const { error } = await supabase
-        .from('store_stocks')
-        .update({ is_active: false })
-        .eq('store_id', selectedStoreId)
-        .eq('selling_date', today);
-      
-      if (error) throw error;
+      // Mark all store_stocks records for this store as inactive, or queue
+      // the change while offline
+      if (networkStatus === 'offline') {
+        addPendingOperation({
+          type: 'END_SELLING',
+          data: {
+            storeId: selectedStoreId,
+            branchId: user?.branchId,
+            counts,
+            timestamp: new Date().toISOString()
+          }
+        });
+      } else {
+        await endSelling(selectedStoreId, getSellingDate(), counts);
+      }
       
-      // Set all items of the selected store to zero stock in our local state
+      // Keep what was counted as the items' closing stock
       const updatedItems = stockItems.map(item => {
-        if (item.storeId === selectedStoreId) {
+        const count = counts.find(count => count.stockItemId === item.id);
+        if (item.storeId === selectedStoreId && count) {
           return {
             ...item,
-            currentStock: 0
+            currentStock: count.countedQuantity
           };
         }
         return item;
@@ -366,25 +435,13 @@ const StockControl: React.FC = () => {
       const updatedSellingStarted = sellingStartedStores.filter(id => id !== selectedStoreId);
       setSellingStartedStores(updatedSellingStarted);
       
-      // Save to localStorage for offline fallback
-      localStorage.setItem('stockItems', JSON.stringify(updatedItems));
+      // Save to the local cache for offline fallback
+      await setCachedList('stockItems', updatedItems);
       localStorage.setItem('sellingStartedStores', JSON.stringify(updatedSellingStarted));
       
-      // If offline, queue for sync
-      if (networkStatus === 'offline') {
-        addPendingOperation({
-          type: 'END_SELLING',
-          data: {
-            storeId: selectedStoreId,
-            branchId: user?.branchId,
-            timestamp: new Date().toISOString()
-          }
-        });
-      }
-      
       toast({
         title: "Selling ended",
-        description: `Stock levels have been reset to zero for ${getStoreName(selectedStoreId)}.`,
+        description: `Closing counts have been recorded for ${getStoreName(selectedStoreId)}.`,
       });
       
     } catch (error) {
@@ -410,59 +467,43 @@ const StockControl: React.FC = () => {
       return;
     }
     
+    const item = stockItems.find(stockItem => stockItem.id === itemId);
+    if (!item || newStock === item.currentStock) return;
+    
+    // Send the change as a delta so sales made since we loaded the quantity
+    // are kept
+    let adjustment: StockAdjustment = {
+      stockItemId: itemId,
+      delta: newStock - item.currentStock,
+      baseQuantity: item.currentStock,
+      baseUpdatedAt: item.updatedAt ?? null
+    };
+    
     try {
-      // Update the store_stocks record
-      const today = new Date().toISOString().split('T')[0];
-      
-      const { data, error } = await supabase
-        .from('store_stocks')
-        .select('id')
-        .eq('store_id', selectedStoreId)
-        .eq('stock_item_id', itemId)
-        .eq('selling_date', today)
-        .maybeSingle();
+      let updatedItem: StoreStockItem = { ...item, currentStock: newStock, storeId: selectedStoreId };
       
-      if (error) throw error;
-      
-      if (data) {
-        // Update existing record
-        const { error: updateError } = await supabase
-          .from('store_stocks')
-          .update({
-            quantity: newStock
-          })
-          .eq('id', data.id);
+      // Update the store_stocks record, or queue the change while offline
+      if (networkStatus === 'offline') {
+        // The server would see a second change on the same base as a
+        // conflict with the first, so an earlier change to the item that was
+        // never sent is replaced by one covering both
+        const unsentChange = pendingOperations.find(operation =>
+          operation.type === 'UPDATE_STOCK_ITEM' &&
+          operation.attempts === 0 &&
+          operation.data.storeId === selectedStoreId &&
+          operation.data.itemId === itemId &&
+          operation.data.adjustment &&
+          getSellingDate(operation.data.timestamp) === getSellingDate()
+        );
         
-        if (updateError) throw updateError;
-      } else {
-        // Create new record if doesn't exist
-        const { error: insertError } = await supabase
-          .from('store_stocks')
-          .insert({
-            store_id: selectedStoreId,
-            stock_item_id: itemId,
-            quantity: newStock,
-            is_active: true,
-            selling_date: today
-          });
+        if (unsentChange?.type === 'UPDATE_STOCK_ITEM' && unsentChange.data.adjustment) {
+          adjustment = {
+            ...unsentChange.data.adjustment,
+            delta: newStock - unsentChange.data.adjustment.baseQuantity
+          };
+          discardOperation(unsentChange.id);
+        }
         
-        if (insertError) throw insertError;
-      }
-      
-      // Update local state
-      const updatedItems = stockItems.map(item => 
-        item.id === itemId ? 
-          { ...item, currentStock: newStock, storeId: selectedStoreId } : 
-          item
-      );
-      
-      setStockItems(updatedItems);
-      
-      // Save to localStorage for offline fallback
-      localStorage.setItem('stockItems', JSON.stringify(updatedItems));
-      
-      // If offline, queue for sync
-      if (networkStatus === 'offline') {
         addPendingOperation({
           type: 'UPDATE_STOCK_ITEM',
           data: {
@@ -470,11 +511,31 @@ const StockControl: React.FC = () => {
             branchId: user?.branchId,
             itemId,
             newStock,
+            adjustment,
             timestamp: new Date().toISOString()
           }
         });
+      } else {
+        const result = await adjustStoreStock(crypto.randomUUID(), selectedStoreId, getSellingDate(), adjustment);
+        updatedItem = {
+          ...updatedItem,
+          currentStock: result.quantity ?? newStock,
+          updatedAt: result.updatedAt
+        };
+        
+        notifyConflicts(result.status === 'conflict' ? 1 : 0);
       }
       
+      // Update local state
+      const updatedItems = stockItems.map(stockItem => 
+        stockItem.id === itemId ? updatedItem : stockItem
+      );
+      
+      setStockItems(updatedItems);
+      
+      // Save to the local cache for offline fallback
+      await setCachedList('stockItems', updatedItems);
+      
     } catch (error) {
       console.error('Error updating stock:', error);
       toast({
@@ -484,6 +545,29 @@ const StockControl: React.FC = () => {
       });
     }
   };
+  
+  // Commit a typed quantity once the manager leaves the field, rather than on
+  // every keystroke
+  const handleStockInputCommit = (itemId: string) => {
+    const draft = stockDrafts[itemId];
+    if (draft === undefined) return;
+    
+    setStockDrafts(drafts => {
+      const { [itemId]: _committed, ...rest } = drafts;
+      return rest;
+    });
+    handleStockChange(itemId, parseFloat(draft) || 0);
+  };
+  
+  const notifyConflicts = (conflictCount: number) => {
+    if (conflictCount === 0) return;
+    
+    toast({
+      title: "Stock changed on another device",
+      description: `${conflictCount} change${conflictCount !== 1 ? 's were' : ' was'} not applied because someone else updated the same stock. Review ${conflictCount !== 1 ? 'them' : 'it'} under Stock Conflicts.`,
+      variant: "destructive"
+    });
+  };
 
   // Helper function to get store name by id
   const getStoreName = (storeId: string): string => {
@@ -503,16 +587,25 @@ const StockControl: React.FC = () => {
           </div>
           
           <div className="flex flex-col sm:flex-row gap-2">
+            <Button variant="outline" onClick={() => navigate('/manager/stock/conflicts')}>
+              Stock Conflicts
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => navigate(`/manager/stock/transfers${selectedStoreId ? `?from=${selectedStoreId}` : ''}`)}
+            >
+              Transfers
+            </Button>
             {selectedStoreId && !isSellingStarted(selectedStoreId) ? (
               <Button 
-                onClick={() => setShowStartSellingDialog(true)}
+                onClick={openStartSellingDialog}
                 className="bg-green-600 hover:bg-green-700"
               >
                 Start Selling for {getStoreName(selectedStoreId)}
               </Button>
             ) : selectedStoreId && (
               <Button 
-                onClick={() => setShowEndSellingDialog(true)}
+                onClick={openEndSellingDialog}
                 className="bg-red-600 hover:bg-red-700"
               >
                 End Selling for {getStoreName(selectedStoreId)}
@@ -572,7 +665,7 @@ const StockControl: React.FC = () => {
                     <tr className="bg-muted/50">
                       <th className="text-left p-2 pl-4">Item</th>
                       <th className="text-center p-2">Current Stock</th>
-                      <th className="text-center p-2">Initial Stock</th>
+                      <th className="text-center p-2">Opening Stock</th>
                       <th className="text-center p-2">Minimum Stock</th>
                       <th className="text-right p-2 pr-4">Status</th>
                     </tr>
@@ -593,8 +686,12 @@ const StockControl: React.FC = () => {
                             {isSellingStarted(selectedStoreId) ? (
                               <Input
                                 type="number"
-                                value={item.currentStock}
-                                onChange={(e) => handleStockChange(item.id, parseInt(e.target.value) || 0)}
+                                value={stockDrafts[item.id] ?? item.currentStock}
+                                onChange={(e) => setStockDrafts(drafts => ({ ...drafts, [item.id]: e.target.value }))}
+                                onBlur={() => handleStockInputCommit(item.id)}
+                                onKeyDown={(e) => {
+                                  if (e.key === 'Enter') e.currentTarget.blur();
+                                }}
                                 className="w-20 text-center mx-auto"
                                 min="0"
                               />
@@ -610,6 +707,15 @@ const StockControl: React.FC = () => {
                                 Low Stock
                               </span>
                             )}
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              aria-label={`History of ${item.name}`}
+                              onClick={() => setHistoryItem(item)}
+                              disabled={networkStatus === 'offline'}
+                            >
+                              <History className="h-4 w-4" />
+                            </Button>
                           </td>
                         </tr>
                       ))
@@ -632,20 +738,86 @@ const StockControl: React.FC = () => {
         )}
       </div>
       
+      <StockHistoryDialog
+        item={historyItem}
+        storeId={selectedStoreId}
+        storeName={getStoreName(selectedStoreId)}
+        onClose={() => setHistoryItem(null)}
+      />
+      
       {/* Start Selling Dialog */}
       <Dialog open={showStartSellingDialog} onOpenChange={setShowStartSellingDialog}>
-        <DialogContent>
+        <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>Start Selling</DialogTitle>
             <DialogDescription>
-              This will set all items for {getStoreName(selectedStoreId)} to their initial stock levels. Are you sure you want to start selling for today?
+              Check what {getStoreName(selectedStoreId)} opens with today. Each item starts from its last closing count plus goods received since.
             </DialogDescription>
           </DialogHeader>
+          {loadingProposals ? (
+            <p className="text-sm text-muted-foreground py-4 text-center">Loading last closing counts...</p>
+          ) : (
+            <div className="border rounded-md">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="bg-muted/50">
+                    <th className="text-left p-2 pl-4">Item</th>
+                    <th className="text-center p-2">Last Closing</th>
+                    <th className="text-center p-2">Received</th>
+                    <th className="text-center p-2 pr-4">Opening</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {stockItems.map(item => {
+                    const proposal = openingProposals.find(p => p.stockItemId === item.id);
+                    
+                    return (
+                      <tr key={item.id} className="border-t">
+                        <td className="p-2 pl-4">{item.name}</td>
+                        <td className="text-center p-2">
+                          {proposal?.closingQuantity != null ? (
+                            <>
+                              {proposal.closingQuantity} {item.unit}
+                              {proposal.closingDate && (
+                                <span className="block text-xs text-muted-foreground">
+                                  {format(new Date(`${proposal.closingDate}T00:00:00`), 'dd MMM')}
+                                </span>
+                              )}
+                            </>
+                          ) : (
+                            <span className="text-muted-foreground">-</span>
+                          )}
+                        </td>
+                        <td className="text-center p-2">
+                          {proposal?.receivedQuantity ? `+${proposal.receivedQuantity}` : '-'}
+                        </td>
+                        <td className="text-center p-2 pr-4">
+                          <Input
+                            type="number"
+                            min="0"
+                            step="any"
+                            aria-label={`Opening ${item.name}`}
+                            value={openingCounts[item.id] ?? ''}
+                            onChange={(e) => setOpeningCounts(counts => ({ ...counts, [item.id]: e.target.value }))}
+                            className="w-24 text-center mx-auto"
+                          />
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
           <DialogFooter>
             <Button variant="outline" onClick={() => setShowStartSellingDialog(false)}>
               Cancel
             </Button>
-            <Button onClick={handleStartSelling} className="bg-green-600 hover:bg-green-700">
+            <Button
+              onClick={handleStartSelling}
+              disabled={loadingProposals}
+              className="bg-green-600 hover:bg-green-700"
+            >
               Start Selling
             </Button>
           </DialogFooter>
@@ -654,13 +826,52 @@ const StockControl: React.FC = () => {
       
       {/* End Selling Dialog */}
       <Dialog open={showEndSellingDialog} onOpenChange={setShowEndSellingDialog}>
-        <DialogContent>
+        <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>End Selling</DialogTitle>
             <DialogDescription>
-              This will reset all stock levels for {getStoreName(selectedStoreId)} to zero. Are you sure you want to end selling for today?
+              Count what is left of each item at {getStoreName(selectedStoreId)}. Differences from the expected stock are recorded for the owner to review.
             </DialogDescription>
           </DialogHeader>
+          <div className="border rounded-md">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="bg-muted/50">
+                  <th className="text-left p-2 pl-4">Item</th>
+                  <th className="text-center p-2">Expected</th>
+                  <th className="text-center p-2">Counted</th>
+                  <th className="text-right p-2 pr-4">Variance</th>
+                </tr>
+              </thead>
+              <tbody>
+                {stockItems.map(item => {
+                  const counted = parseFloat(closingCounts[item.id] ?? '');
+                  const variance = isNaN(counted) ? null : counted - item.currentStock;
+                  
+                  return (
+                    <tr key={item.id} className="border-t">
+                      <td className="p-2 pl-4">{item.name}</td>
+                      <td className="text-center p-2">{item.currentStock} {item.unit}</td>
+                      <td className="text-center p-2">
+                        <Input
+                          type="number"
+                          min="0"
+                          step="any"
+                          aria-label={`Counted ${item.name}`}
+                          value={closingCounts[item.id] ?? ''}
+                          onChange={(e) => setClosingCounts(counts => ({ ...counts, [item.id]: e.target.value }))}
+                          className="w-24 text-center mx-auto"
+                        />
+                      </td>
+                      <td className={`text-right p-2 pr-4 ${variance !== null && variance < 0 ? 'text-red-600 dark:text-red-400' : ''}`}>
+                        {variance === null ? '-' : `${variance > 0 ? '+' : ''}${Number(variance.toFixed(3))}`}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
           <DialogFooter>
             <Button variant="outline" onClick={() => setShowEndSellingDialog(false)}>
               Cancel
@@ -0,0 +1,575 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { useAuth } from '@/context/AuthContext';
+import { usePwa } from '@/context/PwaContext';
+import PosLayout from '@/components/layouts/PosLayout';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { toast } from '@/hooks/use-toast';
+import { useCatalog } from '@/hooks/use-catalog';
+import { Store, fetchStores } from '@/lib/repository';
+import { fetchLatestStoreQuantities, getSellingDate } from '@/lib/stock';
+import {
+  StockTransfer,
+  TransferQuantity,
+  fetchStockTransfers,
+  formatTransferNumber,
+  receiveStockTransfer,
+  sendStockTransfer,
+  stockTransferStatusLabels,
+} from '@/lib/transfers';
+import { format } from 'date-fns';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ArrowRight, Plus, X } from 'lucide-react';
+
+const StockTransfers: React.FC = () => {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const { user } = useAuth();
+  const { networkStatus } = usePwa();
+  const { data: stockItems = [] } = useCatalog('stockItems');
+
+  const [stores, setStores] = useState<Store[]>([]);
+  const [transfers, setTransfers] = useState<StockTransfer[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const [showSendDialog, setShowSendDialog] = useState(false);
+  const [fromStoreId, setFromStoreId] = useState<string>(searchParams.get('from') || '');
+  const [toStoreId, setToStoreId] = useState<string>('');
+  const [sendLines, setSendLines] = useState<TransferQuantity[]>([]);
+  const [sendNotes, setSendNotes] = useState('');
+  // What the sending store holds now, by stock item id
+  const [available, setAvailable] = useState<Record<string, number>>({});
+  // Kept across retries of the same transfer so it can't be sent twice
+  const [clientOperationId, setClientOperationId] = useState(() => crypto.randomUUID());
+
+  const [receivingTransfer, setReceivingTransfer] = useState<StockTransfer | null>(null);
+  // Quantities typed in the receive dialog, by stock item id
+  const [receivedQuantities, setReceivedQuantities] = useState<Record<string, string>>({});
+
+  const isOffline = networkStatus === 'offline';
+
+  const loadTransfers = async (storeIds: string[]) => {
+    try {
+      setTransfers(await fetchStockTransfers(storeIds));
+    } catch (error) {
+      console.error('Error fetching stock transfers:', error);
+      toast({
+        title: "Error fetching transfers",
+        description: "Could not load stock transfers. Please try again.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  useEffect(() => {
+    if (!user?.branchId || isOffline) {
+      setLoading(false);
+      return;
+    }
+
+    const loadStores = async () => {
+      setLoading(true);
+      try {
+        const branchStores = await fetchStores({ branchId: user.branchId });
+        setStores(branchStores);
+        await loadTransfers(branchStores.map(store => store.id));
+      } catch (error) {
+        console.error('Error fetching stores:', error);
+        toast({
+          title: "Error fetching stores",
+          description: "Could not load your branch's stores. Please try again.",
+          variant: "destructive"
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadStores();
+  }, [user?.branchId, isOffline]);
+
+  useEffect(() => {
+    if (!showSendDialog || !fromStoreId) {
+      setAvailable({});
+      return;
+    }
+
+    let cancelled = false;
+    fetchLatestStoreQuantities([fromStoreId])
+      .then(quantities => {
+        if (cancelled) return;
+        setAvailable(Object.fromEntries(
+          stockItems.map(item => [item.id, quantities.get(`${fromStoreId}:${item.id}`) ?? 0])
+        ));
+      })
+      .catch(error => console.error('Error fetching store stock:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [showSendDialog, fromStoreId, stockItems]);
+
+  const openSendDialog = () => {
+    setFromStoreId(current => current || stores[0]?.id || '');
+    setToStoreId('');
+    setSendLines([]);
+    setSendNotes('');
+    setClientOperationId(crypto.randomUUID());
+    setShowSendDialog(true);
+  };
+
+  const handleFromStoreChange = (storeId: string) => {
+    setFromStoreId(storeId);
+    if (toStoreId === storeId) setToStoreId('');
+  };
+
+  const addSendLine = () => {
+    const nextItem = stockItems.find(item => !sendLines.some(line => line.stockItemId === item.id));
+    if (!nextItem) return;
+
+    setSendLines(lines => [...lines, { stockItemId: nextItem.id, quantity: 0 }]);
+  };
+
+  const updateSendLine = (index: number, changes: Partial<TransferQuantity>) => {
+    setSendLines(lines => lines.map((line, i) => i === index ? { ...line, ...changes } : line));
+  };
+
+  const getStockItem = (stockItemId: string) => stockItems.find(item => item.id === stockItemId);
+
+  const handleSend = async () => {
+    if (!fromStoreId || !toStoreId || fromStoreId === toStoreId) {
+      toast({
+        title: "Choose both stores",
+        description: "Pick the store sending the stock and a different store receiving it.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const lines = sendLines.filter(line => line.quantity > 0);
+    const duplicate = lines.find((line, index) =>
+      lines.findIndex(other => other.stockItemId === line.stockItemId) !== index
+    );
+    if (lines.length === 0 || duplicate || lines.length !== sendLines.length) {
+      toast({
+        title: "Invalid items",
+        description: duplicate
+          ? `${getStockItem(duplicate.stockItemId)?.name || 'An item'} is listed twice.`
+          : "Add at least one item, each with a quantity above zero.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const overdrawn = lines.find(line => line.quantity > (available[line.stockItemId] ?? 0));
+    if (overdrawn) {
+      const item = getStockItem(overdrawn.stockItemId);
+      toast({
+        title: "Not enough stock",
+        description: `${getStoreName(fromStoreId)} only has ${available[overdrawn.stockItemId] ?? 0} ${item?.unit || ''} of ${item?.name || 'this item'}.`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const transfer = await sendStockTransfer(
+        clientOperationId,
+        fromStoreId,
+        toStoreId,
+        getSellingDate(),
+        lines,
+        sendNotes
+      );
+      await loadTransfers(stores.map(store => store.id));
+      setShowSendDialog(false);
+
+      toast({
+        title: "Transfer sent",
+        description: `${formatTransferNumber(transfer)} is on its way to ${getStoreName(toStoreId)}.`,
+      });
+    } catch (error) {
+      console.error('Error sending stock transfer:', error);
+      toast({
+        title: "Error sending transfer",
+        description: "The stock was not moved. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const openReceiveDialog = (transfer: StockTransfer) => {
+    setReceivedQuantities(Object.fromEntries(
+      transfer.lines.map(line => [line.stockItemId, String(line.quantitySent)])
+    ));
+    setReceivingTransfer(transfer);
+  };
+
+  const handleReceive = async () => {
+    if (!receivingTransfer) return;
+
+    const lines = receivingTransfer.lines.map(line => ({
+      stockItemId: line.stockItemId,
+      quantity: parseFloat(receivedQuantities[line.stockItemId]),
+      quantitySent: line.quantitySent,
+    }));
+
+    if (lines.some(line => isNaN(line.quantity) || line.quantity < 0 || line.quantity > line.quantitySent)) {
+      toast({
+        title: "Invalid quantities",
+        description: "Enter what arrived of each item, from 0 up to what was sent.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await receiveStockTransfer(receivingTransfer.id, getSellingDate(), lines);
+      await loadTransfers(stores.map(store => store.id));
+      setReceivingTransfer(null);
+
+      toast({
+        title: "Transfer received",
+        description: `Stock at ${receivingTransfer.toStoreName} has been updated.`,
+      });
+    } catch (error) {
+      console.error('Error receiving stock transfer:', error);
+      toast({
+        title: "Error receiving transfer",
+        description: "The transfer was not booked in. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const getStoreName = (storeId: string) =>
+    stores.find(store => store.id === storeId)?.name || 'Unknown Store';
+
+  // What went missing between the two stores
+  const getShortfall = (transfer: StockTransfer) =>
+    transfer.lines.filter(line => line.quantityReceived !== null && line.quantityReceived < line.quantitySent);
+
+  return (
+    <PosLayout>
+      <div className="p-4 space-y-6">
+        <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+          <div>
+            <h1 className="text-2xl font-bold">Stock Transfers</h1>
+            <p className="text-muted-foreground">
+              Move stock between the stores of your branch
+            </p>
+          </div>
+
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Button variant="outline" onClick={() => navigate('/manager/stock')}>
+              Back to Stock
+            </Button>
+            <Button onClick={openSendDialog} disabled={isOffline || stores.length < 2}>
+              <Plus className="mr-2 h-4 w-4" />
+              New Transfer
+            </Button>
+          </div>
+        </div>
+
+        <Card>
+          <CardContent className="p-0">
+            {isOffline ? (
+              <div className="flex justify-center p-8">
+                <p className="text-muted-foreground">Transfers are available when you're back online.</p>
+              </div>
+            ) : loading ? (
+              <div className="flex justify-center p-8">
+                <p className="text-muted-foreground">Loading transfers...</p>
+              </div>
+            ) : transfers.length > 0 ? (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Transfer</TableHead>
+                    <TableHead>Route</TableHead>
+                    <TableHead>Items</TableHead>
+                    <TableHead>Sent</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {transfers.map(transfer => {
+                    const shortfall = getShortfall(transfer);
+
+                    return (
+                      <TableRow key={transfer.id}>
+                        <TableCell className="font-medium">{formatTransferNumber(transfer)}</TableCell>
+                        <TableCell>
+                          <span className="inline-flex items-center gap-1">
+                            {transfer.fromStoreName}
+                            <ArrowRight className="h-3 w-3" />
+                            {transfer.toStoreName}
+                          </span>
+                        </TableCell>
+                        <TableCell>
+                          {transfer.lines.map(line => (
+                            <p key={line.stockItemId} className="text-sm">
+                              {line.stockItemName}: {line.quantitySent} {line.unit}
+                              {line.quantityReceived !== null && line.quantityReceived !== line.quantitySent && (
+                                <span className="text-red-600 dark:text-red-400">
+                                  {' '}({line.quantityReceived} received)
+                                </span>
+                              )}
+                            </p>
+                          ))}
+                          {transfer.notes && (
+                            <p className="text-xs text-muted-foreground">{transfer.notes}</p>
+                          )}
+                        </TableCell>
+                        <TableCell className="whitespace-nowrap">
+                          {format(new Date(transfer.sentAt), 'dd MMM HH:mm')}
+                          {transfer.sentByName && (
+                            <p className="text-xs text-muted-foreground">{transfer.sentByName}</p>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={transfer.status === 'in_transit' ? 'default' : 'secondary'}>
+                            {stockTransferStatusLabels[transfer.status]}
+                          </Badge>
+                          {shortfall.length > 0 && (
+                            <p className="text-xs text-red-600 dark:text-red-400 mt-1">
+                              {shortfall.length} item{shortfall.length !== 1 ? 's' : ''} short
+                            </p>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {transfer.status === 'in_transit' && (
+                            <Button size="sm" onClick={() => openReceiveDialog(transfer)}>
+                              Receive
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            ) : (
+              <div className="flex justify-center p-8">
+                <p className="text-muted-foreground">No transfers between your stores yet.</p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Dialog open={showSendDialog} onOpenChange={setShowSendDialog}>
+          <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>New Transfer</DialogTitle>
+              <DialogDescription>
+                The items leave the sending store's stock now and reach the other store when it receives them.
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="grid gap-4 py-2">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>From</Label>
+                  <Select value={fromStoreId} onValueChange={handleFromStoreChange}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Sending store" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {stores.map(store => (
+                        <SelectItem key={store.id} value={store.id}>{store.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>To</Label>
+                  <Select value={toStoreId} onValueChange={setToStoreId}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Receiving store" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {stores.filter(store => store.id !== fromStoreId).map(store => (
+                        <SelectItem key={store.id} value={store.id}>{store.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Items</Label>
+                <div className="border rounded-md p-3 space-y-2">
+                  {sendLines.map((line, index) => {
+                    const item = getStockItem(line.stockItemId);
+
+                    return (
+                      <div key={index} className="grid grid-cols-[1fr_7rem_2rem] gap-2 items-center">
+                        <Select
+                          value={line.stockItemId}
+                          onValueChange={stockItemId => updateSendLine(index, { stockItemId })}
+                        >
+                          <SelectTrigger className="h-8">
+                            <SelectValue placeholder="Select item" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {stockItems.map(stockItem => (
+                              <SelectItem key={stockItem.id} value={stockItem.id}>
+                                {stockItem.name} ({available[stockItem.id] ?? 0} {stockItem.unit} available)
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Input
+                          type="number"
+                          min="0"
+                          step="any"
+                          className="h-8"
+                          aria-label={`Quantity of ${item?.name || 'item'} in ${item?.unit || 'units'}`}
+                          placeholder={item?.unit}
+                          value={line.quantity || ''}
+                          onChange={e => {
+                            const quantity = parseFloat(e.target.value);
+                            updateSendLine(index, { quantity: isNaN(quantity) ? 0 : quantity });
+                          }}
+                        />
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 w-8 p-0"
+                          aria-label="Remove item"
+                          onClick={() => setSendLines(lines => lines.filter((_, i) => i !== index))}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    );
+                  })}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={addSendLine}
+                    disabled={sendLines.length >= stockItems.length}
+                  >
+                    <Plus className="mr-2 h-4 w-4" />
+                    Add Item
+                  </Button>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="transferNotes">Notes</Label>
+                <Textarea
+                  id="transferNotes"
+                  value={sendNotes}
+                  onChange={e => setSendNotes(e.target.value)}
+                />
+              </div>
+            </div>
+
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setShowSendDialog(false)}>
+                Cancel
+              </Button>
+              <Button onClick={handleSend} disabled={saving}>
+                {saving ? 'Sending...' : 'Send Transfer'}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
+        <Dialog open={!!receivingTransfer} onOpenChange={open => !open && setReceivingTransfer(null)}>
+          <DialogContent className="sm:max-w-[500px]">
+            <DialogHeader>
+              <DialogTitle>
+                Receive {receivingTransfer && formatTransferNumber(receivingTransfer)}
+              </DialogTitle>
+              <DialogDescription>
+                Count what arrived at {receivingTransfer?.toStoreName} from {receivingTransfer?.fromStoreName}.
+                Anything short is recorded as lost in transit.
+              </DialogDescription>
+            </DialogHeader>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Item</TableHead>
+                  <TableHead className="text-right">Sent</TableHead>
+                  <TableHead className="text-right">Received</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {receivingTransfer?.lines.map(line => (
+                  <TableRow key={line.stockItemId}>
+                    <TableCell className="font-medium">{line.stockItemName}</TableCell>
+                    <TableCell className="text-right">{line.quantitySent} {line.unit}</TableCell>
+                    <TableCell className="text-right">
+                      <Input
+                        type="number"
+                        min="0"
+                        max={line.quantitySent}
+                        step="any"
+                        className="w-24 h-8 ml-auto text-right"
+                        aria-label={`Received ${line.stockItemName} in ${line.unit}`}
+                        value={receivedQuantities[line.stockItemId] ?? ''}
+                        onChange={e => setReceivedQuantities(quantities => ({
+                          ...quantities,
+                          [line.stockItemId]: e.target.value,
+                        }))}
+                      />
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setReceivingTransfer(null)}>
+                Cancel
+              </Button>
+              <Button onClick={handleReceive} disabled={saving || isOffline}>
+                {saving ? 'Receiving...' : 'Receive Transfer'}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </div>
+    </PosLayout>
+  );
+};
+
+export default StockTransfers;
@@ -1,5 +1,6 @@
 
-import React, { useState, useEffect } from 'react';
+import React from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import { useAuth } from '@/context/AuthContext';
 import PosLayout from '@/components/layouts/PosLayout';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -8,27 +9,21 @@ import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
 import { useToast } from '@/hooks/use-toast';
 import { usePwa } from '@/context/PwaContext';
+import { useCatalog } from '@/hooks/use-catalog';
+import { setCachedList } from '@/lib/local-db';
+import { queryKeys, setStoreHolidayMode } from '@/lib/repository';
 
 const StoreSettings: React.FC = () => {
   const { user } = useAuth();
   const { toast } = useToast();
   const { networkStatus, addPendingOperation } = usePwa();
-  
-  const [holidayMode, setHolidayMode] = useState(false);
+  const queryClient = useQueryClient();
+  const { data: stores = [] } = useCatalog('stores');
 
-  useEffect(() => {
-    // Check if store is in holiday mode
-    const isHolidayMode = localStorage.getItem(`holidayMode-${user?.storeId}`) === 'true';
-    setHolidayMode(isHolidayMode);
-  }, [user?.storeId]);
+  const holidayMode = !!stores.find(store => store.id === user?.storeId)?.isHolidayMode;
 
-  const handleHolidayModeToggle = (enabled: boolean) => {
-    setHolidayMode(enabled);
-    
-    // Save to localStorage
-    localStorage.setItem(`holidayMode-${user?.storeId}`, enabled ? 'true' : 'false');
-    
-    // If offline, queue the operation for sync
+  const handleHolidayModeToggle = async (enabled: boolean) => {
+    // Update the store, or queue the change while offline
     if (networkStatus === 'offline') {
       addPendingOperation({
         type: 'UPDATE_HOLIDAY_MODE',
@@ -39,8 +34,28 @@ const StoreSettings: React.FC = () => {
           timestamp: new Date().toISOString()
         }
       });
+    } else {
+      try {
+        await setStoreHolidayMode(user?.storeId, enabled);
+      } catch (error) {
+        console.error('Error updating holiday mode:', error);
+        toast({
+          title: "Error updating holiday mode",
+          description: "Could not save the holiday mode setting. Please try again.",
+          variant: "destructive"
+        });
+        return;
+      }
     }
     
+    // Show the switch on this device's copy of the store straight away,
+    // including while the change is queued
+    const updatedStores = stores.map(store =>
+      store.id === user?.storeId ? { ...store, isHolidayMode: enabled } : store
+    );
+    queryClient.setQueryData(queryKeys.catalog('stores'), updatedStores);
+    await setCachedList('stores', updatedStores);
+    
     toast({
       title: enabled ? "Holiday mode enabled" : "Holiday mode disabled",
       description: enabled 
@@ -1,12 +1,13 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import AdminLayout from '@/components/layouts/AdminLayout';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { useToast } from '@/hooks/use-toast';
-import { usePwa } from '@/context/PwaContext';
+import { useCatalog, useCatalogMutation } from '@/hooks/use-catalog';
+import { Branch } from '@/lib/repository';
 import {
   Dialog,
   DialogContent,
@@ -18,19 +19,10 @@ import {
 } from "@/components/ui/dialog";
 import { Plus, Edit, Trash } from 'lucide-react';
 
-interface Branch {
-  id: string;
-  name: string;
-  address: string;
-  contactPerson: string;
-  contactPhone: string;
-}
-
 const BranchManagement: React.FC = () => {
   const { toast } = useToast();
-  const { networkStatus, addPendingOperation } = usePwa();
-  
-  const [branches, setBranches] = useState<Branch[]>([]);
+  const { data: branches = [], isLoading } = useCatalog('branches');
+  const branchMutation = useCatalogMutation('branches');
   const [formData, setFormData] = useState<Omit<Branch, 'id'>>({
     name: '',
     address: '',
@@ -41,14 +33,6 @@ const BranchManagement: React.FC = () => {
   const [currentBranchId, setCurrentBranchId] = useState<string | null>(null);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
 
-  useEffect(() => {
-    // In a real app, this would be an API call
-    const savedBranches = localStorage.getItem('branches');
-    if (savedBranches) {
-      setBranches(JSON.parse(savedBranches));
-    }
-  }, []);
-
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
     setFormData(prevData => ({
@@ -57,7 +41,7 @@ const BranchManagement: React.FC = () => {
     }));
   };
 
-  const handleSubmit = () => {
+  const handleSubmit = async () => {
     if (!formData.name || !formData.address) {
       toast({
         title: "Missing required fields",
@@ -70,20 +54,10 @@ const BranchManagement: React.FC = () => {
     try {
       if (isEditing && currentBranchId) {
         // Update existing branch
-        const updatedBranches = branches.map(branch =>
-          branch.id === currentBranchId
-            ? { ...branch, ...formData }
-            : branch
-        );
-        setBranches(updatedBranches);
-        localStorage.setItem('branches', JSON.stringify(updatedBranches));
-        
-        if (networkStatus === 'offline') {
-          addPendingOperation({
-            type: 'UPDATE_BRANCH',
-            data: { id: currentBranchId, ...formData }
-          });
-        }
+        await branchMutation.mutateAsync({
+          type: 'update',
+          item: { id: currentBranchId, ...formData }
+        });
         
         toast({
           title: "Branch updated",
@@ -92,20 +66,11 @@ const BranchManagement: React.FC = () => {
       } else {
         // Create new branch
         const newBranch: Branch = {
-          id: `branch-${Date.now()}`,
+          id: crypto.randomUUID(),
           ...formData
         };
         
-        const updatedBranches = [...branches, newBranch];
-        setBranches(updatedBranches);
-        localStorage.setItem('branches', JSON.stringify(updatedBranches));
-        
-        if (networkStatus === 'offline') {
-          addPendingOperation({
-            type: 'CREATE_BRANCH',
-            data: newBranch
-          });
-        }
+        await branchMutation.mutateAsync({ type: 'create', item: newBranch });
         
         toast({
           title: "Branch created",
@@ -145,18 +110,9 @@ const BranchManagement: React.FC = () => {
     setIsDialogOpen(true);
   };
 
-  const handleDelete = (branchId: string) => {
+  const handleDelete = async (branchId: string) => {
     try {
-      const updatedBranches = branches.filter(branch => branch.id !== branchId);
-      setBranches(updatedBranches);
-      localStorage.setItem('branches', JSON.stringify(updatedBranches));
-      
-      if (networkStatus === 'offline') {
-        addPendingOperation({
-          type: 'DELETE_BRANCH',
-          data: { id: branchId }
-        });
-      }
+      await branchMutation.mutateAsync({ type: 'delete', id: branchId });
       
       toast({
         title: "Branch deleted",
@@ -264,7 +220,11 @@ const BranchManagement: React.FC = () => {
       </div>
 
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-        {branches.length > 0 ? (
+        {isLoading ? (
+          <div className="col-span-full flex justify-center p-8">
+            <p className="text-muted-foreground">Loading branches...</p>
+          </div>
+        ) : branches.length > 0 ? (
           branches.map((branch) => (
             <Card key={branch.id}>
               <CardHeader>
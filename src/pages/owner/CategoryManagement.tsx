@@ -1,12 +1,13 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import AdminLayout from '@/components/layouts/AdminLayout';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { useToast } from '@/hooks/use-toast';
-import { usePwa } from '@/context/PwaContext';
+import { useCatalog, useCatalogMutation } from '@/hooks/use-catalog';
+import { Category } from '@/lib/repository';
 import {
   Dialog,
   DialogContent,
@@ -18,17 +19,10 @@ import {
 } from "@/components/ui/dialog";
 import { Plus, Edit, Trash } from 'lucide-react';
 
-interface Category {
-  id: string;
-  name: string;
-  description?: string;
-}
-
 const CategoryManagement: React.FC = () => {
   const { toast } = useToast();
-  const { networkStatus, addPendingOperation } = usePwa();
-  
-  const [categories, setCategories] = useState<Category[]>([]);
+  const { data: categories = [], isLoading } = useCatalog('categories');
+  const categoryMutation = useCatalogMutation('categories');
   const [formData, setFormData] = useState<Omit<Category, 'id'>>({
     name: '',
     description: '',
@@ -37,14 +31,6 @@ const CategoryManagement: React.FC = () => {
   const [currentCategoryId, setCurrentCategoryId] = useState<string | null>(null);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
 
-  useEffect(() => {
-    // In a real app, this would be an API call
-    const savedCategories = localStorage.getItem('categories');
-    if (savedCategories) {
-      setCategories(JSON.parse(savedCategories));
-    }
-  }, []);
-
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
     setFormData(prevData => ({
@@ -53,7 +39,7 @@ const CategoryManagement: React.FC = () => {
     }));
   };
 
-  const handleSubmit = () => {
+  const handleSubmit = async () => {
     if (!formData.name) {
       toast({
         title: "Category name is required",
@@ -65,20 +51,10 @@ const CategoryManagement: React.FC = () => {
     try {
       if (isEditing && currentCategoryId) {
         // Update existing category
-        const updatedCategories = categories.map(category =>
-          category.id === currentCategoryId
-            ? { ...category, ...formData }
-            : category
-        );
-        setCategories(updatedCategories);
-        localStorage.setItem('categories', JSON.stringify(updatedCategories));
-        
-        if (networkStatus === 'offline') {
-          addPendingOperation({
-            type: 'UPDATE_CATEGORY',
-            data: { id: currentCategoryId, ...formData }
-          });
-        }
+        await categoryMutation.mutateAsync({
+          type: 'update',
+          item: { id: currentCategoryId, ...formData }
+        });
         
         toast({
           title: "Category updated",
@@ -87,20 +63,11 @@ const CategoryManagement: React.FC = () => {
       } else {
         // Create new category
         const newCategory: Category = {
-          id: `category-${Date.now()}`,
+          id: crypto.randomUUID(),
           ...formData
         };
         
-        const updatedCategories = [...categories, newCategory];
-        setCategories(updatedCategories);
-        localStorage.setItem('categories', JSON.stringify(updatedCategories));
-        
-        if (networkStatus === 'offline') {
-          addPendingOperation({
-            type: 'CREATE_CATEGORY',
-            data: newCategory
-          });
-        }
+        await categoryMutation.mutateAsync({ type: 'create', item: newCategory });
         
         toast({
           title: "Category created",
@@ -136,18 +103,9 @@ const CategoryManagement: React.FC = () => {
     setIsDialogOpen(true);
   };
 
-  const handleDelete = (categoryId: string) => {
+  const handleDelete = async (categoryId: string) => {
     try {
-      const updatedCategories = categories.filter(category => category.id !== categoryId);
-      setCategories(updatedCategories);
-      localStorage.setItem('categories', JSON.stringify(updatedCategories));
-      
-      if (networkStatus === 'offline') {
-        addPendingOperation({
-          type: 'DELETE_CATEGORY',
-          data: { id: categoryId }
-        });
-      }
+      await categoryMutation.mutateAsync({ type: 'delete', id: categoryId });
       
       toast({
         title: "Category deleted",
@@ -228,7 +186,11 @@ const CategoryManagement: React.FC = () => {
       </div>
 
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-        {categories.length > 0 ? (
+        {isLoading ? (
+          <div className="col-span-full flex justify-center p-8">
+            <p className="text-muted-foreground">Loading categories...</p>
+          </div>
+        ) : categories.length > 0 ? (
           categories.map((category) => (
             <Card key={category.id}>
               <CardHeader>
@@ -1,12 +1,23 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import AdminLayout from '@/components/layouts/AdminLayout';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { useToast } from '@/hooks/use-toast';
-import { usePwa } from '@/context/PwaContext';
+import { useCatalog, useCatalogMutation } from '@/hooks/use-catalog';
+import {
+  findInvalidModifierGroup,
+  findInvalidPriceOverride,
+  getBundleError,
+  MenuItem,
+  MenuItemType,
+} from '@/lib/repository';
+import PriceOverridesEditor from '@/components/menu/PriceOverridesEditor';
+import ModifierGroupsEditor from '@/components/menu/ModifierGroupsEditor';
+import BundleSlotsEditor from '@/components/menu/BundleSlotsEditor';
+import { Badge } from '@/components/ui/badge';
 import { 
   Select,
   SelectContent,
@@ -32,27 +43,13 @@ import {
 } from "@/components/ui/tabs";
 import { Plus, Edit, Trash } from 'lucide-react';
 
-interface Category {
-  id: string;
-  name: string;
-}
-
-interface MenuItem {
-  id: string;
-  name: string;
-  description: string;
-  cashPrice: number;
-  qrisPrice: number;
-  categoryId: string;
-  categoryName: string;
-}
-
 const MenuManagement: React.FC = () => {
   const { toast } = useToast();
-  const { networkStatus, addPendingOperation } = usePwa();
-  
-  const [menuItems, setMenuItems] = useState<MenuItem[]>([]);
-  const [categories, setCategories] = useState<Category[]>([]);
+  const { data: menuItems = [], isLoading } = useCatalog('menuItems');
+  const { data: categories = [] } = useCatalog('categories');
+  const { data: branches = [] } = useCatalog('branches');
+  const { data: stores = [] } = useCatalog('stores');
+  const menuItemMutation = useCatalogMutation('menuItems');
   const [activeCategory, setActiveCategory] = useState<string>('all');
   const [formData, setFormData] = useState<Omit<MenuItem, 'id' | 'categoryName'>>({
     name: '',
@@ -65,20 +62,6 @@ const MenuManagement: React.FC = () => {
   const [currentItemId, setCurrentItemId] = useState<string | null>(null);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
 
-  useEffect(() => {
-    // Load categories
-    const savedCategories = localStorage.getItem('categories');
-    if (savedCategories) {
-      setCategories(JSON.parse(savedCategories));
-    }
-    
-    // Load menu items
-    const savedMenuItems = localStorage.getItem('menuItems');
-    if (savedMenuItems) {
-      setMenuItems(JSON.parse(savedMenuItems));
-    }
-  }, []);
-
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
     
@@ -101,7 +84,7 @@ const MenuManagement: React.FC = () => {
     setFormData(prev => ({ ...prev, categoryId: value }));
   };
 
-  const handleSubmit = () => {
+  const handleSubmit = async () => {
     if (!formData.name || !formData.categoryId || formData.cashPrice <= 0 || formData.qrisPrice <= 0) {
       toast({
         title: "Missing or invalid fields",
@@ -111,6 +94,35 @@ const MenuManagement: React.FC = () => {
       return;
     }
 
+    if (findInvalidPriceOverride(formData.priceOverrides || [])) {
+      toast({
+        title: "Invalid store prices",
+        description: "Each override needs a store or branch, listed once, with valid prices.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const invalidGroup = findInvalidModifierGroup(formData.modifierGroups || []);
+    if (invalidGroup) {
+      toast({
+        title: "Invalid modifiers",
+        description: `Check ${invalidGroup.name || 'the unnamed group'}: every group and option needs a name, and its limits must fit its options.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const bundleError = formData.itemType === 'bundle' ? getBundleError(formData.bundleSlots || []) : null;
+    if (bundleError) {
+      toast({
+        title: "Invalid bundle",
+        description: bundleError,
+        variant: "destructive",
+      });
+      return;
+    }
+
     try {
       const selectedCategory = categories.find(cat => cat.id === formData.categoryId);
       if (!selectedCategory) {
@@ -124,24 +136,10 @@ const MenuManagement: React.FC = () => {
       
       if (isEditing && currentItemId) {
         // Update existing menu item
-        const updatedMenuItems = menuItems.map(item =>
-          item.id === currentItemId
-            ? { 
-                ...item, 
-                ...formData,
-                categoryName: selectedCategory.name
-              }
-            : item
-        );
-        setMenuItems(updatedMenuItems);
-        localStorage.setItem('menuItems', JSON.stringify(updatedMenuItems));
-        
-        if (networkStatus === 'offline') {
-          addPendingOperation({
-            type: 'UPDATE_MENU_ITEM',
-            data: { id: currentItemId, ...formData, categoryName: selectedCategory.name }
-          });
-        }
+        await menuItemMutation.mutateAsync({
+          type: 'update',
+          item: { id: currentItemId, ...formData, categoryName: selectedCategory.name }
+        });
         
         toast({
           title: "Menu item updated",
@@ -150,21 +148,12 @@ const MenuManagement: React.FC = () => {
       } else {
         // Create new menu item
         const newMenuItem: MenuItem = {
-          id: `menu-${Date.now()}`,
+          id: crypto.randomUUID(),
           ...formData,
           categoryName: selectedCategory.name
         };
         
-        const updatedMenuItems = [...menuItems, newMenuItem];
-        setMenuItems(updatedMenuItems);
-        localStorage.setItem('menuItems', JSON.stringify(updatedMenuItems));
-        
-        if (networkStatus === 'offline') {
-          addPendingOperation({
-            type: 'CREATE_MENU_ITEM',
-            data: newMenuItem
-          });
-        }
+        await menuItemMutation.mutateAsync({ type: 'create', item: newMenuItem });
         
         toast({
           title: "Menu item created",
@@ -200,24 +189,19 @@ const MenuManagement: React.FC = () => {
       cashPrice: item.cashPrice,
       qrisPrice: item.qrisPrice,
       categoryId: item.categoryId,
+      priceOverrides: item.priceOverrides || [],
+      modifierGroups: item.modifierGroups || [],
+      itemType: item.itemType || 'single',
+      bundleSlots: item.bundleSlots || [],
     });
     setIsEditing(true);
     setCurrentItemId(item.id);
     setIsDialogOpen(true);
   };
 
-  const handleDelete = (itemId: string) => {
+  const handleDelete = async (itemId: string) => {
     try {
-      const updatedMenuItems = menuItems.filter(item => item.id !== itemId);
-      setMenuItems(updatedMenuItems);
-      localStorage.setItem('menuItems', JSON.stringify(updatedMenuItems));
-      
-      if (networkStatus === 'offline') {
-        addPendingOperation({
-          type: 'DELETE_MENU_ITEM',
-          data: { id: itemId }
-        });
-      }
+      await menuItemMutation.mutateAsync({ type: 'delete', id: itemId });
       
       toast({
         title: "Menu item deleted",
@@ -267,7 +251,7 @@ const MenuManagement: React.FC = () => {
               Add Menu Item
             </Button>
           </DialogTrigger>
-          <DialogContent className="sm:max-w-[475px]">
+          <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
             <DialogHeader>
               <DialogTitle>{isEditing ? 'Edit Menu Item' : 'Add New Menu Item'}</DialogTitle>
               <DialogDescription>
@@ -320,6 +304,23 @@ const MenuManagement: React.FC = () => {
                   </SelectContent>
                 </Select>
               </div>
+              <div className="grid grid-cols-4 items-center gap-4">
+                <Label htmlFor="itemType" className="text-right">
+                  Type
+                </Label>
+                <Select
+                  onValueChange={value => setFormData(prev => ({ ...prev, itemType: value as MenuItemType }))}
+                  value={formData.itemType || 'single'}
+                >
+                  <SelectTrigger id="itemType" className="col-span-3">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="single">Single item</SelectItem>
+                    <SelectItem value="bundle">Bundle of other items</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
               <div className="grid grid-cols-4 items-center gap-4">
                 <Label htmlFor="cashPrice" className="text-right">
                   Cash Price
@@ -350,6 +351,24 @@ const MenuManagement: React.FC = () => {
                   required
                 />
               </div>
+              <PriceOverridesEditor
+                overrides={formData.priceOverrides || []}
+                branches={branches}
+                stores={stores}
+                defaultPrices={{ cashPrice: formData.cashPrice, qrisPrice: formData.qrisPrice }}
+                onChange={priceOverrides => setFormData(prev => ({ ...prev, priceOverrides }))}
+              />
+              {formData.itemType === 'bundle' && (
+                <BundleSlotsEditor
+                  slots={formData.bundleSlots || []}
+                  menuItems={menuItems.filter(item => item.itemType !== 'bundle' && item.id !== currentItemId)}
+                  onChange={bundleSlots => setFormData(prev => ({ ...prev, bundleSlots }))}
+                />
+              )}
+              <ModifierGroupsEditor
+                groups={formData.modifierGroups || []}
+                onChange={modifierGroups => setFormData(prev => ({ ...prev, modifierGroups }))}
+              />
             </div>
             <DialogFooter>
               <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
@@ -393,11 +412,18 @@ const MenuManagement: React.FC = () => {
           </Tabs>
           
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-            {filteredMenuItems.length > 0 ? (
+            {isLoading ? (
+              <div className="col-span-full flex justify-center p-8">
+                <p className="text-muted-foreground">Loading menu items...</p>
+              </div>
+            ) : filteredMenuItems.length > 0 ? (
               filteredMenuItems.map((item) => (
                 <Card key={item.id}>
                   <CardHeader>
-                    <CardTitle>{item.name}</CardTitle>
+                    <CardTitle className="flex items-center gap-2">
+                      {item.name}
+                      {item.itemType === 'bundle' && <Badge variant="secondary">Bundle</Badge>}
+                    </CardTitle>
                     <CardDescription>{item.description}</CardDescription>
                   </CardHeader>
                   <CardContent>
@@ -414,6 +440,16 @@ const MenuManagement: React.FC = () => {
                     <p className="text-sm mt-2">
                       Category: {item.categoryName}
                     </p>
+                    {item.priceOverrides && item.priceOverrides.length > 0 && (
+                      <p className="text-sm text-muted-foreground">
+                        {item.priceOverrides.length} store price override(s)
+                      </p>
+                    )}
+                    {item.modifierGroups && item.modifierGroups.length > 0 && (
+                      <p className="text-sm text-muted-foreground">
+                        Modifiers: {item.modifierGroups.map(group => group.name).join(', ')}
+                      </p>
+                    )}
                   </CardContent>
                   <CardFooter className="flex justify-end space-x-2">
                     <Button variant="outline" size="sm" onClick={() => handleEdit(item)}>
@@ -35,12 +35,39 @@ import {
   Legend,
   ResponsiveContainer
 } from 'recharts';
-import { format, subDays, startOfWeek, endOfWeek, startOfMonth, endOfMonth, subMonths } from 'date-fns';
+import {
+  format,
+  subDays,
+  startOfDay,
+  endOfDay,
+  startOfWeek,
+  endOfWeek,
+  startOfMonth,
+  endOfMonth,
+  subMonths,
+} from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import { getAllLocalTransactions, getCachedList } from '@/lib/local-db';
+import { Branch, Store, fetchBranches, fetchStores } from '@/lib/repository';
+import { calculateSurcharge, toCheckoutLine } from '@/lib/transactions';
+
+// Units and revenue of one menu item in a sale. Bundle lines count towards
+// their components, with the share of revenue allocated to each at checkout.
+interface ItemSale {
+  menuItemId: string;
+  name: string;
+  quantity: number;
+  revenue: number;
+}
 
 interface Transaction {
   id: string;
   items: any[];
+  itemSales?: ItemSale[];
   total: number;
+  // Paid on top of the cash prices, i.e. the QRIS surcharge
+  surcharge?: number;
   paymentMethod: 'cash' | 'qris';
   timestamp: string;
   storeId: string;
@@ -50,17 +77,23 @@ interface Transaction {
   cashierId: string;
 }
 
-interface Branch {
-  id: string;
-  name: string;
-}
-
-interface Store {
-  id: string;
-  name: string;
-  branchId: string;
-  branchName: string;
-}
+// The first and last moment of a date range option
+const getDateRangeBounds = (dateRange: string, now = new Date()) => {
+  switch (dateRange) {
+    case 'today':
+      return { from: startOfDay(now), to: endOfDay(now) };
+    case 'yesterday':
+      return { from: startOfDay(subDays(now, 1)), to: endOfDay(subDays(now, 1)) };
+    case 'this-week':
+      return { from: startOfWeek(now, { weekStartsOn: 1 }), to: endOfWeek(now, { weekStartsOn: 1 }) };
+    case 'this-month':
+      return { from: startOfMonth(now), to: endOfMonth(now) };
+    case 'last-month':
+      return { from: startOfMonth(subMonths(now, 1)), to: endOfMonth(subMonths(now, 1)) };
+    default:
+      return null;
+  }
+};
 
 const SalesReport: React.FC = () => {
   const [transactions, setTransactions] = useState<Transaction[]>([]);
@@ -72,37 +105,125 @@ const SalesReport: React.FC = () => {
   const [filteredTransactions, setFilteredTransactions] = useState<Transaction[]>([]);
   
   useEffect(() => {
-    // Load branches
-    const savedBranches = localStorage.getItem('branches');
-    if (savedBranches) {
-      setBranches(JSON.parse(savedBranches));
-    }
-    
-    // Load stores
-    const savedStores = localStorage.getItem('stores');
-    if (savedStores) {
-      setStores(JSON.parse(savedStores));
-    }
+    const fetchData = async () => {
+      try {
+        const branchData = await fetchBranches();
+        const storeData = await fetchStores();
+
+        let query = supabase
+          .from('transactions')
+          .select(`
+            id,
+            total_amount,
+            payment_method,
+            transaction_date,
+            store_id,
+            cashier_id,
+            stores(name, branch_id, branches(name)),
+            transaction_items(
+              id,
+              menu_item_id,
+              quantity,
+              price_per_unit,
+              base_price,
+              total_price,
+              menu_items(name),
+              transaction_item_components(menu_item_id, quantity, allocated_amount, menu_items(name))
+            )
+          `)
+          .order('transaction_date', { ascending: false });
+
+        // Only load the sales of the selected range
+        const bounds = getDateRangeBounds(dateRange);
+        if (bounds) {
+          query = query
+            .gte('transaction_date', bounds.from.toISOString())
+            .lte('transaction_date', bounds.to.toISOString());
+        }
+
+        const { data: transactionData, error: transactionError } = await query;
+        
+        if (transactionError) throw transactionError;
+        
+        setBranches(branchData);
+        setStores(storeData);
+        setTransactions((transactionData || []).map(tx => ({
+          id: tx.id,
+          items: tx.transaction_items || [],
+          total: tx.total_amount,
+          surcharge: calculateSurcharge((tx.transaction_items || []).map(toCheckoutLine)),
+          itemSales: (tx.transaction_items || []).flatMap(item =>
+            item.transaction_item_components?.length
+              ? item.transaction_item_components.map(component => ({
+                  menuItemId: component.menu_item_id,
+                  name: component.menu_items?.name || 'Unknown Item',
+                  quantity: component.quantity,
+                  revenue: component.allocated_amount,
+                }))
+              : [{
+                  menuItemId: item.menu_item_id,
+                  name: item.menu_items?.name || 'Unknown Item',
+                  quantity: item.quantity,
+                  revenue: item.total_price,
+                }]
+          ),
+          paymentMethod: tx.payment_method as Transaction['paymentMethod'],
+          timestamp: tx.transaction_date,
+          storeId: tx.store_id,
+          storeName: tx.stores?.name || 'Unknown Store',
+          branchId: tx.stores?.branch_id || 'unknown',
+          branchName: tx.stores?.branches?.name || 'Unknown Branch',
+          cashierId: tx.cashier_id
+        })));
+      } catch (error) {
+        console.error('Error fetching sales data:', error);
+        toast({
+          title: "Error",
+          description: "Failed to load sales data. Using cached data if available.",
+          variant: "destructive"
+        });
+        
+        // Load from the local cache as fallback
+        const savedBranches = await getCachedList<Branch>('branches');
+        if (savedBranches) {
+          setBranches(savedBranches);
+        }
+        
+        const savedStores = await getCachedList<Store>('stores') || [];
+        setStores(savedStores);
+        
+        // Enhance transactions with store and branch info
+        const savedTransactions = await getAllLocalTransactions<Transaction>();
+        setTransactions(savedTransactions.map(transaction => {
+          const store = savedStores.find(s => s.id === transaction.storeId);
+          return {
+            ...transaction,
+            // The till's copy of each line, with bundle components as sold
+            itemSales: transaction.items.flatMap(item =>
+              item.components?.length
+                ? item.components.map(component => ({
+                    menuItemId: component.menuItemId,
+                    name: component.name,
+                    quantity: component.quantity * item.quantity,
+                    revenue: component.allocatedAmount || 0,
+                  }))
+                : [{
+                    menuItemId: item.id,
+                    name: item.name,
+                    quantity: item.quantity,
+                    revenue: (transaction.paymentMethod === 'cash' ? item.cashPrice : item.qrisPrice) * item.quantity,
+                  }]
+            ),
+            storeName: store?.name || 'Unknown Store',
+            branchId: store?.branchId || 'unknown',
+            branchName: store?.branchName || 'Unknown Branch'
+          };
+        }));
+      }
+    };
     
-    // Load transactions
-    const savedTransactions = localStorage.getItem('transactions');
-    if (savedTransactions) {
-      let parsedTransactions = JSON.parse(savedTransactions);
-      
-      // Enhance transactions with store and branch info
-      parsedTransactions = parsedTransactions.map((transaction: Transaction) => {
-        const store = stores.find(s => s.id === transaction.storeId);
-        return {
-          ...transaction,
-          storeName: store?.name || 'Unknown Store',
-          branchId: store?.branchId || 'unknown',
-          branchName: store?.branchName || 'Unknown Branch'
-        };
-      });
-      
-      setTransactions(parsedTransactions);
-    }
-  }, []);
+    fetchData();
+  }, [dateRange]);
 
   useEffect(() => {
     // Apply filters whenever filter criteria change
@@ -123,49 +244,12 @@ const SalesReport: React.FC = () => {
     }
     
     // Filter by date range
-    const now = new Date();
-    
-    switch (dateRange) {
-      case 'today':
-        filtered = filtered.filter(transaction => {
-          const txDate = new Date(transaction.timestamp);
-          return txDate.setHours(0, 0, 0, 0) === now.setHours(0, 0, 0, 0);
-        });
-        break;
-      case 'yesterday':
-        const yesterday = subDays(now, 1);
-        filtered = filtered.filter(transaction => {
-          const txDate = new Date(transaction.timestamp);
-          return txDate.setHours(0, 0, 0, 0) === yesterday.setHours(0, 0, 0, 0);
-        });
-        break;
-      case 'this-week':
-        const weekStart = startOfWeek(now, { weekStartsOn: 1 });
-        const weekEnd = endOfWeek(now, { weekStartsOn: 1 });
-        filtered = filtered.filter(transaction => {
-          const txDate = new Date(transaction.timestamp);
-          return txDate >= weekStart && txDate <= weekEnd;
-        });
-        break;
-      case 'this-month':
-        const monthStart = startOfMonth(now);
-        const monthEnd = endOfMonth(now);
-        filtered = filtered.filter(transaction => {
-          const txDate = new Date(transaction.timestamp);
-          return txDate >= monthStart && txDate <= monthEnd;
-        });
-        break;
-      case 'last-month':
-        const lastMonth = subMonths(now, 1);
-        const lastMonthStart = startOfMonth(lastMonth);
-        const lastMonthEnd = endOfMonth(lastMonth);
-        filtered = filtered.filter(transaction => {
-          const txDate = new Date(transaction.timestamp);
-          return txDate >= lastMonthStart && txDate <= lastMonthEnd;
-        });
-        break;
-      default:
-        break;
+    const bounds = getDateRangeBounds(dateRange);
+    if (bounds) {
+      filtered = filtered.filter(transaction => {
+        const txDate = new Date(transaction.timestamp);
+        return txDate >= bounds.from && txDate <= bounds.to;
+      });
     }
     
     setFilteredTransactions(filtered);
@@ -184,6 +268,7 @@ const SalesReport: React.FC = () => {
   const qrisSales = filteredTransactions
     .filter(tx => tx.paymentMethod === 'qris')
     .reduce((sum, tx) => sum + tx.total, 0);
+  const qrisSurcharge = filteredTransactions.reduce((sum, tx) => sum + (tx.surcharge || 0), 0);
   const transactionCount = filteredTransactions.length;
   const averageTransaction = transactionCount > 0 ? totalSales / transactionCount : 0;
 
@@ -200,6 +285,23 @@ const SalesReport: React.FC = () => {
     return Array.from(storeMap.entries()).map(([name, value]) => ({ name, value }));
   };
 
+  const getItemData = () => {
+    const itemMap = new Map<string, ItemSale>();
+    
+    filteredTransactions.forEach(tx => {
+      (tx.itemSales || []).forEach(sale => {
+        const current = itemMap.get(sale.menuItemId);
+        itemMap.set(sale.menuItemId, {
+          ...sale,
+          quantity: (current?.quantity || 0) + sale.quantity,
+          revenue: (current?.revenue || 0) + sale.revenue,
+        });
+      });
+    });
+    
+    return Array.from(itemMap.values()).sort((a, b) => b.revenue - a.revenue);
+  };
+
   const getPaymentMethodData = () => [
     { name: 'Cash', value: cashSales },
     { name: 'QRIS', value: qrisSales }
@@ -271,6 +373,9 @@ const SalesReport: React.FC = () => {
             </CardHeader>
             <CardContent>
               <div className="text-2xl font-bold">Rp {totalSales.toLocaleString()}</div>
+              <p className="text-xs text-muted-foreground">
+                Base revenue Rp {(totalSales - qrisSurcharge).toLocaleString()}
+              </p>
             </CardContent>
           </Card>
           
@@ -289,6 +394,9 @@ const SalesReport: React.FC = () => {
             </CardHeader>
             <CardContent>
               <div className="text-2xl font-bold">Rp {qrisSales.toLocaleString()}</div>
+              <p className="text-xs text-muted-foreground">
+                Incl. Rp {qrisSurcharge.toLocaleString()} surcharge
+              </p>
             </CardContent>
           </Card>
           
@@ -309,6 +417,7 @@ const SalesReport: React.FC = () => {
         <Tabs defaultValue="charts" className="w-full">
           <TabsList>
             <TabsTrigger value="charts">Charts</TabsTrigger>
+            <TabsTrigger value="items">Items</TabsTrigger>
             <TabsTrigger value="transactions">Transactions</TabsTrigger>
           </TabsList>
           
@@ -352,6 +461,43 @@ const SalesReport: React.FC = () => {
             </div>
           </TabsContent>
           
+          <TabsContent value="items">
+            <Card>
+              <CardHeader>
+                <CardTitle>Sales by Item</CardTitle>
+                <CardDescription>
+                  Bundles are split into their items, each credited with its share of the bundle price.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="p-0">
+                {getItemData().length > 0 ? (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Item</TableHead>
+                        <TableHead className="text-right">Units Sold</TableHead>
+                        <TableHead className="text-right">Revenue</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {getItemData().map(item => (
+                        <TableRow key={item.menuItemId}>
+                          <TableCell className="font-medium">{item.name}</TableCell>
+                          <TableCell className="text-right">{item.quantity}</TableCell>
+                          <TableCell className="text-right">Rp {item.revenue.toLocaleString()}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                ) : (
+                  <div className="flex flex-col items-center justify-center p-8">
+                    <p className="text-muted-foreground">No items sold for the selected filters.</p>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+          
           <TabsContent value="transactions">
             <Card>
               <CardContent className="p-0">
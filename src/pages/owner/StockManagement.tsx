@@ -1,12 +1,13 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import AdminLayout from '@/components/layouts/AdminLayout';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { useToast } from '@/hooks/use-toast';
-import { usePwa } from '@/context/PwaContext';
+import { useCatalog, useCatalogMutation } from '@/hooks/use-catalog';
+import { findInvalidRecipeLine, getRecipeUnits, RecipeLine, StockItem } from '@/lib/repository';
 import { 
   Select,
   SelectContent,
@@ -34,27 +35,14 @@ import {
 } from "@/components/ui/table";
 import { Plus, Edit, Trash } from 'lucide-react';
 
-interface MenuItem {
-  id: string;
-  name: string;
-}
-
-interface StockItem {
-  id: string;
-  name: string;
-  currentStock: number;
-  minimumStock: number;
-  unit: string;
-  linkedMenuItems: string[]; // Array of menu item IDs
-}
-
 const StockManagement: React.FC = () => {
   const { toast } = useToast();
-  const { networkStatus, addPendingOperation } = usePwa();
-  
-  const [stockItems, setStockItems] = useState<StockItem[]>([]);
-  const [menuItems, setMenuItems] = useState<MenuItem[]>([]);
-  const [selectedMenuItems, setSelectedMenuItems] = useState<string[]>([]);
+  const { data: stockItems = [], isLoading } = useCatalog('stockItems');
+  const { data: menuItems = [] } = useCatalog('menuItems');
+  // Bundles draw stock through their components, so they aren't linked
+  const linkableMenuItems = menuItems.filter(item => item.itemType !== 'bundle');
+  const stockItemMutation = useCatalogMutation('stockItems');
+  const [selectedMenuItems, setSelectedMenuItems] = useState<RecipeLine[]>([]);
   const [formData, setFormData] = useState<Omit<StockItem, 'id' | 'linkedMenuItems'>>({
     name: '',
     currentStock: 0,
@@ -65,21 +53,6 @@ const StockManagement: React.FC = () => {
   const [currentItemId, setCurrentItemId] = useState<string | null>(null);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
 
-  useEffect(() => {
-    // Load menu items
-    const savedMenuItems = localStorage.getItem('menuItems');
-    if (savedMenuItems) {
-      const parsedMenuItems = JSON.parse(savedMenuItems);
-      setMenuItems(parsedMenuItems.map((item: any) => ({ id: item.id, name: item.name })));
-    }
-    
-    // Load stock items
-    const savedStockItems = localStorage.getItem('stockItems');
-    if (savedStockItems) {
-      setStockItems(JSON.parse(savedStockItems));
-    }
-  }, []);
-
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
     
@@ -100,15 +73,24 @@ const StockManagement: React.FC = () => {
 
   const toggleMenuItemSelection = (menuItemId: string) => {
     setSelectedMenuItems(prev => {
-      if (prev.includes(menuItemId)) {
-        return prev.filter(id => id !== menuItemId);
+      if (prev.some(line => line.menuItemId === menuItemId)) {
+        return prev.filter(line => line.menuItemId !== menuItemId);
       } else {
-        return [...prev, menuItemId];
+        return [...prev, { menuItemId, quantity: 1 }];
       }
     });
   };
 
-  const handleSubmit = () => {
+  const updateRecipeLine = (menuItemId: string, changes: Partial<RecipeLine>) => {
+    setSelectedMenuItems(prev =>
+      prev.map(line => line.menuItemId === menuItemId ? { ...line, ...changes } : line)
+    );
+  };
+
+  // A recipe amount can be entered in any unit of the stock item's kind
+  const recipeUnits = formData.unit ? getRecipeUnits(formData.unit) : [];
+
+  const handleSubmit = async () => {
     if (!formData.name || !formData.unit || formData.minimumStock < 0) {
       toast({
         title: "Missing or invalid fields",
@@ -118,27 +100,24 @@ const StockManagement: React.FC = () => {
       return;
     }
 
+    const invalidLine = findInvalidRecipeLine(selectedMenuItems, formData.unit);
+    if (invalidLine) {
+      const menuItemName = menuItems.find(item => item.id === invalidLine.menuItemId)?.name || 'A menu item';
+      toast({
+        title: "Invalid recipe amount",
+        description: `${menuItemName} needs an amount above zero in a unit that converts to ${formData.unit}.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
     try {      
       if (isEditing && currentItemId) {
         // Update existing stock item
-        const updatedStockItems = stockItems.map(item =>
-          item.id === currentItemId
-            ? { 
-                ...item, 
-                ...formData,
-                linkedMenuItems: selectedMenuItems
-              }
-            : item
-        );
-        setStockItems(updatedStockItems);
-        localStorage.setItem('stockItems', JSON.stringify(updatedStockItems));
-        
-        if (networkStatus === 'offline') {
-          addPendingOperation({
-            type: 'UPDATE_STOCK_ITEM',
-            data: { id: currentItemId, ...formData, linkedMenuItems: selectedMenuItems }
-          });
-        }
+        await stockItemMutation.mutateAsync({
+          type: 'update',
+          item: { id: currentItemId, ...formData, linkedMenuItems: selectedMenuItems }
+        });
         
         toast({
           title: "Stock item updated",
@@ -147,21 +126,12 @@ const StockManagement: React.FC = () => {
       } else {
         // Create new stock item
         const newStockItem: StockItem = {
-          id: `stock-${Date.now()}`,
+          id: crypto.randomUUID(),
           ...formData,
           linkedMenuItems: selectedMenuItems
         };
         
-        const updatedStockItems = [...stockItems, newStockItem];
-        setStockItems(updatedStockItems);
-        localStorage.setItem('stockItems', JSON.stringify(updatedStockItems));
-        
-        if (networkStatus === 'offline') {
-          addPendingOperation({
-            type: 'CREATE_STOCK_ITEM',
-            data: newStockItem
-          });
-        }
+        await stockItemMutation.mutateAsync({ type: 'create', item: newStockItem });
         
         toast({
           title: "Stock item created",
@@ -197,24 +167,15 @@ const StockManagement: React.FC = () => {
       minimumStock: item.minimumStock,
       unit: item.unit,
     });
-    setSelectedMenuItems([...item.linkedMenuItems]);
+    setSelectedMenuItems(item.linkedMenuItems.map(line => ({ ...line })));
     setIsEditing(true);
     setCurrentItemId(item.id);
     setIsDialogOpen(true);
   };
 
-  const handleDelete = (itemId: string) => {
+  const handleDelete = async (itemId: string) => {
     try {
-      const updatedStockItems = stockItems.filter(item => item.id !== itemId);
-      setStockItems(updatedStockItems);
-      localStorage.setItem('stockItems', JSON.stringify(updatedStockItems));
-      
-      if (networkStatus === 'offline') {
-        addPendingOperation({
-          type: 'DELETE_STOCK_ITEM',
-          data: { id: itemId }
-        });
-      }
+      await stockItemMutation.mutateAsync({ type: 'delete', id: itemId });
       
       toast({
         title: "Stock item deleted",
@@ -230,10 +191,13 @@ const StockManagement: React.FC = () => {
     }
   };
 
-  const getLinkedMenuItemNames = (linkedIds: string[]) => {
-    return menuItems
-      .filter(item => linkedIds.includes(item.id))
-      .map(item => item.name)
+  const getLinkedMenuItemNames = (item: StockItem) => {
+    return item.linkedMenuItems
+      .map(line => {
+        const menuItem = menuItems.find(menuItem => menuItem.id === line.menuItemId);
+        return menuItem && `${menuItem.name} (${line.quantity} ${line.unit || item.unit})`;
+      })
+      .filter(Boolean)
       .join(', ');
   };
 
@@ -258,7 +222,7 @@ const StockManagement: React.FC = () => {
               Add Stock Item
             </Button>
           </DialogTrigger>
-          <DialogContent>
+          <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
             <DialogHeader>
               <DialogTitle>{isEditing ? 'Edit Stock Item' : 'Add New Stock Item'}</DialogTitle>
               <DialogDescription>
@@ -322,24 +286,65 @@ const StockManagement: React.FC = () => {
               </div>
               <div className="grid grid-cols-4 gap-4">
                 <Label className="text-right mt-2">
-                  Menu Items
+                  Used Per Sale
                 </Label>
-                <div className="col-span-3 border rounded-md p-3 max-h-40 overflow-y-auto">
-                  {menuItems.length > 0 ? (
-                    menuItems.map(item => (
-                      <div key={item.id} className="flex items-center space-x-2 py-1">
-                        <input
-                          type="checkbox"
-                          id={`menu-${item.id}`}
-                          checked={selectedMenuItems.includes(item.id)}
-                          onChange={() => toggleMenuItemSelection(item.id)}
-                          className="h-4 w-4 rounded border-gray-300"
-                        />
-                        <label htmlFor={`menu-${item.id}`} className="text-sm">
-                          {item.name}
-                        </label>
-                      </div>
-                    ))
+                <div className="col-span-3 border rounded-md p-3 max-h-60 overflow-y-auto">
+                  {linkableMenuItems.length > 0 ? (
+                    linkableMenuItems.map(item => {
+                      const line = selectedMenuItems.find(line => line.menuItemId === item.id);
+
+                      return (
+                        <div key={item.id} className="flex items-center gap-2 py-1">
+                          <input
+                            type="checkbox"
+                            id={`menu-${item.id}`}
+                            checked={!!line}
+                            onChange={() => toggleMenuItemSelection(item.id)}
+                            className="h-4 w-4 rounded border-gray-300"
+                          />
+                          <label htmlFor={`menu-${item.id}`} className="text-sm flex-1">
+                            {item.name}
+                          </label>
+                          {line && (
+                            <>
+                              <Input
+                                type="number"
+                                min="0"
+                                step="any"
+                                className="w-24 h-8"
+                                aria-label={`Amount used by ${item.name}`}
+                                value={line.quantity}
+                                onChange={e => {
+                                  const quantity = parseFloat(e.target.value);
+                                  updateRecipeLine(item.id, { quantity: isNaN(quantity) ? 0 : quantity });
+                                }}
+                              />
+                              {recipeUnits.length > 1 ? (
+                                <Select
+                                  value={line.unit || formData.unit}
+                                  onValueChange={unit => updateRecipeLine(item.id, {
+                                    unit: unit === formData.unit ? undefined : unit,
+                                  })}
+                                >
+                                  <SelectTrigger className="w-20 h-8">
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    {recipeUnits.map(unit => (
+                                      <SelectItem key={unit} value={unit}>{unit}</SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                              ) : (
+                                <span className="w-20 text-sm text-muted-foreground">
+                                  {line.unit || formData.unit}
+                                </span>
+                              )}
+                            </>
+                          )}
+                        </div>
+                      );
+                    })
                   ) : (
                     <p className="text-sm text-gray-500">No menu items available.</p>
                   )}
@@ -358,7 +363,11 @@ const StockManagement: React.FC = () => {
         </Dialog>
       </div>
 
-      {stockItems.length > 0 ? (
+      {isLoading ? (
+        <div className="flex justify-center p-8">
+          <p className="text-muted-foreground">Loading stock items...</p>
+        </div>
+      ) : stockItems.length > 0 ? (
         <Card>
           <CardContent className="p-0">
             <Table>
@@ -381,7 +390,7 @@ const StockManagement: React.FC = () => {
                     </TableCell>
                     <TableCell>{item.minimumStock}</TableCell>
                     <TableCell>{item.unit}</TableCell>
-                    <TableCell>{getLinkedMenuItemNames(item.linkedMenuItems)}</TableCell>
+                    <TableCell>{getLinkedMenuItemNames(item)}</TableCell>
                     <TableCell className="text-right">
                       <Button variant="ghost" size="sm" onClick={() => handleEdit(item)}>
                         <Edit className="h-4 w-4" />
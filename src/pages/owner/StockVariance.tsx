@@ -0,0 +1,249 @@
+
+import React, { useEffect, useState } from 'react';
+import AdminLayout from '@/components/layouts/AdminLayout';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { toast } from '@/hooks/use-toast';
+import { useCatalog } from '@/hooks/use-catalog';
+import { StockCount, fetchStockCounts } from '@/lib/stock';
+import { format, subDays, startOfWeek, endOfWeek, startOfMonth, endOfMonth, subMonths } from 'date-fns';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+// Selling dates covered by each date range option, inclusive
+const getDateRange = (dateRange: string): [Date, Date] => {
+  const now = new Date();
+
+  switch (dateRange) {
+    case 'yesterday':
+      return [subDays(now, 1), subDays(now, 1)];
+    case 'this-week':
+      return [startOfWeek(now, { weekStartsOn: 1 }), endOfWeek(now, { weekStartsOn: 1 })];
+    case 'this-month':
+      return [startOfMonth(now), endOfMonth(now)];
+    case 'last-month':
+      return [startOfMonth(subMonths(now, 1)), endOfMonth(subMonths(now, 1))];
+    default:
+      return [now, now];
+  }
+};
+
+const formatQuantity = (quantity: number) => Number(quantity.toFixed(3)).toLocaleString();
+
+const formatVariance = (variance: number) =>
+  `${variance > 0 ? '+' : ''}${formatQuantity(variance)}`;
+
+const StockVariance: React.FC = () => {
+  const { data: branches = [] } = useCatalog('branches');
+  const { data: stores = [] } = useCatalog('stores');
+  const [counts, setCounts] = useState<StockCount[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dateRange, setDateRange] = useState<string>('today');
+  const [selectedBranch, setSelectedBranch] = useState<string>('all');
+  const [selectedStore, setSelectedStore] = useState<string>('all');
+  const [countFilter, setCountFilter] = useState<string>('variances');
+
+  useEffect(() => {
+    const fetchCounts = async () => {
+      setLoading(true);
+      try {
+        const [fromDate, toDate] = getDateRange(dateRange);
+        setCounts(await fetchStockCounts(format(fromDate, 'yyyy-MM-dd'), format(toDate, 'yyyy-MM-dd')));
+      } catch (error) {
+        console.error('Error fetching stock counts:', error);
+        toast({
+          title: "Error fetching stock counts",
+          description: "Could not load the closing counts. Please try again.",
+          variant: "destructive"
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchCounts();
+  }, [dateRange]);
+
+  const handleBranchChange = (branchId: string) => {
+    setSelectedBranch(branchId);
+    setSelectedStore('all');
+  };
+
+  const availableStores = selectedBranch === 'all'
+    ? stores
+    : stores.filter(store => store.branchId === selectedBranch);
+
+  const storeCounts = counts.filter(count =>
+    selectedStore !== 'all'
+      ? count.storeId === selectedStore
+      : availableStores.some(store => store.id === count.storeId)
+  );
+  // Largest shortfalls first within each day
+  const visibleCounts = storeCounts
+    .filter(count => countFilter === 'all' || count.variance !== 0)
+    .sort((a, b) => b.sellingDate.localeCompare(a.sellingDate) || a.variance - b.variance);
+
+  const shortCount = storeCounts.filter(count => count.variance < 0).length;
+  const overCount = storeCounts.filter(count => count.variance > 0).length;
+  const countedStoreCount = new Set(storeCounts.map(count => `${count.storeId}:${count.sellingDate}`)).size;
+
+  return (
+    <AdminLayout title="Stock Variance">
+      <div className="flex flex-col space-y-6">
+        <div className="flex flex-col md:flex-row justify-between gap-4">
+          <h1 className="text-2xl font-bold">Stock Variance</h1>
+
+          <div className="flex flex-wrap gap-2">
+            <Select value={dateRange} onValueChange={setDateRange}>
+              <SelectTrigger className="w-[180px]">
+                <SelectValue placeholder="Select date range" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="today">Today</SelectItem>
+                <SelectItem value="yesterday">Yesterday</SelectItem>
+                <SelectItem value="this-week">This Week</SelectItem>
+                <SelectItem value="this-month">This Month</SelectItem>
+                <SelectItem value="last-month">Last Month</SelectItem>
+              </SelectContent>
+            </Select>
+
+            <Select value={selectedBranch} onValueChange={handleBranchChange}>
+              <SelectTrigger className="w-[180px]">
+                <SelectValue placeholder="Select branch" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Branches</SelectItem>
+                {branches.map(branch => (
+                  <SelectItem key={branch.id} value={branch.id}>
+                    {branch.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Select value={selectedStore} onValueChange={setSelectedStore}>
+              <SelectTrigger className="w-[180px]">
+                <SelectValue placeholder="Select store" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Stores</SelectItem>
+                {availableStores.map(store => (
+                  <SelectItem key={store.id} value={store.id}>
+                    {store.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Select value={countFilter} onValueChange={setCountFilter}>
+              <SelectTrigger className="w-[180px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="variances">Only Variances</SelectItem>
+                <SelectItem value="all">All Counts</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium">Closings Counted</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{countedStoreCount}</div>
+              <p className="text-xs text-muted-foreground">
+                {storeCounts.length} item count{storeCounts.length !== 1 ? 's' : ''}
+              </p>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium">Items Short</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold text-red-600 dark:text-red-400">{shortCount}</div>
+              <p className="text-xs text-muted-foreground">Shrinkage or overpouring</p>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium">Items Over</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{overCount}</div>
+              <p className="text-xs text-muted-foreground">Underpouring or miscounts</p>
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card>
+          <CardContent className="p-0">
+            {loading ? (
+              <div className="flex justify-center p-8">
+                <p className="text-muted-foreground">Loading closing counts...</p>
+              </div>
+            ) : visibleCounts.length > 0 ? (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Store</TableHead>
+                    <TableHead>Item</TableHead>
+                    <TableHead className="text-right">Opening</TableHead>
+                    <TableHead className="text-right">Sold</TableHead>
+                    <TableHead className="text-right">Expected</TableHead>
+                    <TableHead className="text-right">Counted</TableHead>
+                    <TableHead className="text-right">Variance</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visibleCounts.map(count => (
+                    <TableRow key={count.id}>
+                      <TableCell>{format(new Date(`${count.sellingDate}T00:00:00`), 'MMM dd, yyyy')}</TableCell>
+                      <TableCell>{count.storeName}</TableCell>
+                      <TableCell className="font-medium">{count.stockItemName}</TableCell>
+                      <TableCell className="text-right">{formatQuantity(count.openingQuantity)}</TableCell>
+                      <TableCell className="text-right">{formatQuantity(count.soldQuantity)}</TableCell>
+                      <TableCell className="text-right">{formatQuantity(count.expectedQuantity)}</TableCell>
+                      <TableCell className="text-right">{formatQuantity(count.countedQuantity)}</TableCell>
+                      <TableCell
+                        className={`text-right font-medium ${count.variance < 0 ? 'text-red-600 dark:text-red-400' : ''}`}
+                      >
+                        {formatVariance(count.variance)} {count.unit}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            ) : (
+              <div className="flex justify-center p-8">
+                <p className="text-muted-foreground">
+                  {storeCounts.length > 0 ? 'Every count matched the expected stock.' : 'No closing counts for this period.'}
+                </p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </AdminLayout>
+  );
+};
+
+export default StockVariance;
@@ -1,12 +1,13 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import AdminLayout from '@/components/layouts/AdminLayout';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { useToast } from '@/hooks/use-toast';
-import { usePwa } from '@/context/PwaContext';
+import { useCatalog, useCatalogMutation } from '@/hooks/use-catalog';
+import { Store } from '@/lib/repository';
 import { 
   Select,
   SelectContent,
@@ -25,27 +26,11 @@ import {
 } from "@/components/ui/dialog";
 import { Plus, Edit, Trash } from 'lucide-react';
 
-interface Branch {
-  id: string;
-  name: string;
-}
-
-interface Store {
-  id: string;
-  name: string;
-  branchId: string;
-  branchName: string;
-  address: string;
-  managerName?: string;
-  contactPhone?: string;
-}
-
 const StoreManagement: React.FC = () => {
   const { toast } = useToast();
-  const { networkStatus, addPendingOperation } = usePwa();
-  
-  const [stores, setStores] = useState<Store[]>([]);
-  const [branches, setBranches] = useState<Branch[]>([]);
+  const { data: stores = [], isLoading: storesLoading } = useCatalog('stores');
+  const { data: branches = [], isLoading: branchesLoading } = useCatalog('branches');
+  const storeMutation = useCatalogMutation('stores');
   const [formData, setFormData] = useState<Omit<Store, 'id' | 'branchName'>>({
     name: '',
     branchId: '',
@@ -57,20 +42,6 @@ const StoreManagement: React.FC = () => {
   const [currentStoreId, setCurrentStoreId] = useState<string | null>(null);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
 
-  useEffect(() => {
-    // Load branches
-    const savedBranches = localStorage.getItem('branches');
-    if (savedBranches) {
-      setBranches(JSON.parse(savedBranches));
-    }
-    
-    // Load stores
-    const savedStores = localStorage.getItem('stores');
-    if (savedStores) {
-      setStores(JSON.parse(savedStores));
-    }
-  }, []);
-
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
     setFormData(prevData => ({
@@ -83,7 +54,7 @@ const StoreManagement: React.FC = () => {
     setFormData(prev => ({ ...prev, branchId: value }));
   };
 
-  const handleSubmit = () => {
+  const handleSubmit = async () => {
     if (!formData.name || !formData.branchId || !formData.address) {
       toast({
         title: "Missing required fields",
@@ -106,24 +77,10 @@ const StoreManagement: React.FC = () => {
       
       if (isEditing && currentStoreId) {
         // Update existing store
-        const updatedStores = stores.map(store =>
-          store.id === currentStoreId
-            ? { 
-                ...store, 
-                ...formData,
-                branchName: selectedBranch.name
-              }
-            : store
-        );
-        setStores(updatedStores);
-        localStorage.setItem('stores', JSON.stringify(updatedStores));
-        
-        if (networkStatus === 'offline') {
-          addPendingOperation({
-            type: 'UPDATE_STORE',
-            data: { id: currentStoreId, ...formData, branchName: selectedBranch.name }
-          });
-        }
+        await storeMutation.mutateAsync({
+          type: 'update',
+          item: { id: currentStoreId, ...formData, branchName: selectedBranch.name }
+        });
         
         toast({
           title: "Store updated",
@@ -132,21 +89,12 @@ const StoreManagement: React.FC = () => {
       } else {
         // Create new store
         const newStore: Store = {
-          id: `store-${Date.now()}`,
+          id: crypto.randomUUID(),
           ...formData,
           branchName: selectedBranch.name
         };
         
-        const updatedStores = [...stores, newStore];
-        setStores(updatedStores);
-        localStorage.setItem('stores', JSON.stringify(updatedStores));
-        
-        if (networkStatus === 'offline') {
-          addPendingOperation({
-            type: 'CREATE_STORE',
-            data: newStore
-          });
-        }
+        await storeMutation.mutateAsync({ type: 'create', item: newStore });
         
         toast({
           title: "Store created",
@@ -188,18 +136,9 @@ const StoreManagement: React.FC = () => {
     setIsDialogOpen(true);
   };
 
-  const handleDelete = (storeId: string) => {
+  const handleDelete = async (storeId: string) => {
     try {
-      const updatedStores = stores.filter(store => store.id !== storeId);
-      setStores(updatedStores);
-      localStorage.setItem('stores', JSON.stringify(updatedStores));
-      
-      if (networkStatus === 'offline') {
-        addPendingOperation({
-          type: 'DELETE_STORE',
-          data: { id: storeId }
-        });
-      }
+      await storeMutation.mutateAsync({ type: 'delete', id: storeId });
       
       toast({
         title: "Store deleted",
@@ -340,7 +279,11 @@ const StoreManagement: React.FC = () => {
         </Dialog>
       </div>
 
-      {branches.length === 0 ? (
+      {branchesLoading || storesLoading ? (
+        <div className="flex justify-center p-8">
+          <p className="text-muted-foreground">Loading stores...</p>
+        </div>
+      ) : branches.length === 0 ? (
         <div className="flex flex-col items-center justify-center p-8 border border-dashed rounded-lg">
           <p className="text-muted-foreground mb-4">No branches created yet. You need to create branches first.</p>
           <Button
@@ -0,0 +1,438 @@
+import React, { useState } from 'react';
+import AdminLayout from '@/components/layouts/AdminLayout';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import { useCatalog, useCatalogMutation } from '@/hooks/use-catalog';
+import { findInvalidSupplierItem, Supplier, SupplierItem } from '@/lib/repository';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Plus, Edit, Trash, X } from 'lucide-react';
+
+const emptySupplier: Omit<Supplier, 'id' | 'items'> = {
+  name: '',
+  contactPerson: '',
+  contactPhone: '',
+  email: '',
+  leadTimeDays: 1,
+};
+
+const SupplierManagement: React.FC = () => {
+  const { toast } = useToast();
+  const { data: suppliers = [], isLoading } = useCatalog('suppliers');
+  const { data: stockItems = [] } = useCatalog('stockItems');
+  const supplierMutation = useCatalogMutation('suppliers');
+  const [formData, setFormData] = useState<Omit<Supplier, 'id' | 'items'>>(emptySupplier);
+  const [supplierItems, setSupplierItems] = useState<SupplierItem[]>([]);
+  const [isEditing, setIsEditing] = useState(false);
+  const [currentSupplierId, setCurrentSupplierId] = useState<string | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+
+  const resetForm = () => {
+    setFormData(emptySupplier);
+    setSupplierItems([]);
+    setIsEditing(false);
+    setCurrentSupplierId(null);
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+
+    if (name === 'leadTimeDays') {
+      const numValue = parseInt(value);
+      setFormData(prevData => ({
+        ...prevData,
+        leadTimeDays: isNaN(numValue) ? 0 : numValue
+      }));
+    } else {
+      setFormData(prevData => ({
+        ...prevData,
+        [name]: value
+      }));
+    }
+  };
+
+  const addSupplierItem = () => {
+    // Start the new line on the first item the supplier doesn't list yet
+    const nextItem = stockItems.find(item => !supplierItems.some(line => line.stockItemId === item.id));
+    if (!nextItem) return;
+
+    setSupplierItems(prev => [...prev, { stockItemId: nextItem.id, packSize: 1, packCost: 0 }]);
+  };
+
+  const updateSupplierItem = (index: number, changes: Partial<SupplierItem>) => {
+    setSupplierItems(prev => prev.map((line, i) => i === index ? { ...line, ...changes } : line));
+  };
+
+  const removeSupplierItem = (index: number) => {
+    setSupplierItems(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const handleSubmit = async () => {
+    if (!formData.name || formData.leadTimeDays < 0) {
+      toast({
+        title: "Missing or invalid fields",
+        description: "Please fill in all required fields with valid values.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const invalidItem = findInvalidSupplierItem(supplierItems);
+    if (invalidItem) {
+      const stockItemName = stockItems.find(item => item.id === invalidItem.stockItemId)?.name || 'An item';
+      toast({
+        title: "Invalid supplied item",
+        description: `${stockItemName} must be listed once, with a pack size above zero and a cost of zero or more.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      if (isEditing && currentSupplierId) {
+        await supplierMutation.mutateAsync({
+          type: 'update',
+          item: { id: currentSupplierId, ...formData, items: supplierItems }
+        });
+
+        toast({
+          title: "Supplier updated",
+          description: "Supplier has been updated successfully."
+        });
+      } else {
+        const newSupplier: Supplier = {
+          id: crypto.randomUUID(),
+          ...formData,
+          items: supplierItems
+        };
+
+        await supplierMutation.mutateAsync({ type: 'create', item: newSupplier });
+
+        toast({
+          title: "Supplier created",
+          description: "New supplier has been added successfully."
+        });
+      }
+
+      resetForm();
+      setIsDialogOpen(false);
+    } catch (error) {
+      toast({
+        title: "Error saving supplier",
+        description: "There was an error processing your request.",
+        variant: "destructive",
+      });
+      console.error('Error saving supplier:', error);
+    }
+  };
+
+  const handleEdit = (supplier: Supplier) => {
+    setFormData({
+      name: supplier.name,
+      contactPerson: supplier.contactPerson,
+      contactPhone: supplier.contactPhone,
+      email: supplier.email,
+      leadTimeDays: supplier.leadTimeDays,
+    });
+    setSupplierItems(supplier.items.map(item => ({ ...item })));
+    setIsEditing(true);
+    setCurrentSupplierId(supplier.id);
+    setIsDialogOpen(true);
+  };
+
+  const handleDelete = async (supplierId: string) => {
+    try {
+      await supplierMutation.mutateAsync({ type: 'delete', id: supplierId });
+
+      toast({
+        title: "Supplier deleted",
+        description: "Supplier has been removed successfully."
+      });
+    } catch (error) {
+      toast({
+        title: "Error deleting supplier",
+        description: "Suppliers with purchase orders can't be deleted.",
+        variant: "destructive",
+      });
+      console.error('Error deleting supplier:', error);
+    }
+  };
+
+  const getSuppliedItemNames = (supplier: Supplier) => {
+    return supplier.items
+      .map(line => {
+        const stockItem = stockItems.find(item => item.id === line.stockItemId);
+        return stockItem && `${stockItem.name} (${line.packSize} ${stockItem.unit})`;
+      })
+      .filter(Boolean)
+      .join(', ');
+  };
+
+  return (
+    <AdminLayout title="Suppliers">
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-bold">Suppliers</h1>
+        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+          <DialogTrigger asChild>
+            <Button onClick={resetForm}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Supplier
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="sm:max-w-[650px] max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>{isEditing ? 'Edit Supplier' : 'Add New Supplier'}</DialogTitle>
+              <DialogDescription>
+                Contact details, delivery lead time and the stock items this supplier delivers.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="grid gap-4 py-4">
+              <div className="grid grid-cols-4 items-center gap-4">
+                <Label htmlFor="name" className="text-right">
+                  Name
+                </Label>
+                <Input
+                  id="name"
+                  name="name"
+                  className="col-span-3"
+                  value={formData.name}
+                  onChange={handleChange}
+                  required
+                />
+              </div>
+              <div className="grid grid-cols-4 items-center gap-4">
+                <Label htmlFor="contactPerson" className="text-right">
+                  Contact
+                </Label>
+                <Input
+                  id="contactPerson"
+                  name="contactPerson"
+                  className="col-span-3"
+                  value={formData.contactPerson}
+                  onChange={handleChange}
+                />
+              </div>
+              <div className="grid grid-cols-4 items-center gap-4">
+                <Label htmlFor="contactPhone" className="text-right">
+                  Phone
+                </Label>
+                <Input
+                  id="contactPhone"
+                  name="contactPhone"
+                  type="tel"
+                  className="col-span-3"
+                  value={formData.contactPhone}
+                  onChange={handleChange}
+                />
+              </div>
+              <div className="grid grid-cols-4 items-center gap-4">
+                <Label htmlFor="email" className="text-right">
+                  Email
+                </Label>
+                <Input
+                  id="email"
+                  name="email"
+                  type="email"
+                  className="col-span-3"
+                  value={formData.email}
+                  onChange={handleChange}
+                />
+              </div>
+              <div className="grid grid-cols-4 items-center gap-4">
+                <Label htmlFor="leadTimeDays" className="text-right">
+                  Lead Time (days)
+                </Label>
+                <Input
+                  id="leadTimeDays"
+                  name="leadTimeDays"
+                  type="number"
+                  className="col-span-3"
+                  value={formData.leadTimeDays}
+                  onChange={handleChange}
+                  min="0"
+                />
+              </div>
+              <div className="grid grid-cols-4 gap-4">
+                <Label className="text-right mt-2">
+                  Items Supplied
+                </Label>
+                <div className="col-span-3 border rounded-md p-3 space-y-2">
+                  {supplierItems.length > 0 && (
+                    <div className="grid grid-cols-[1fr_6rem_6rem_2rem] gap-2 text-xs text-muted-foreground">
+                      <span>Item</span>
+                      <span>Pack size</span>
+                      <span>Pack cost</span>
+                      <span />
+                    </div>
+                  )}
+                  {supplierItems.map((line, index) => {
+                    const stockItem = stockItems.find(item => item.id === line.stockItemId);
+
+                    return (
+                      <div key={index} className="grid grid-cols-[1fr_6rem_6rem_2rem] gap-2 items-center">
+                        <Select
+                          value={line.stockItemId}
+                          onValueChange={stockItemId => updateSupplierItem(index, { stockItemId })}
+                        >
+                          <SelectTrigger className="h-8">
+                            <SelectValue placeholder="Select item" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {stockItems.map(item => (
+                              <SelectItem key={item.id} value={item.id}>{item.name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Input
+                          type="number"
+                          min="0"
+                          step="any"
+                          className="h-8"
+                          aria-label={`Pack size in ${stockItem?.unit || 'units'}`}
+                          title={stockItem ? `In ${stockItem.unit}` : undefined}
+                          value={line.packSize}
+                          onChange={e => {
+                            const packSize = parseFloat(e.target.value);
+                            updateSupplierItem(index, { packSize: isNaN(packSize) ? 0 : packSize });
+                          }}
+                        />
+                        <Input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          className="h-8"
+                          aria-label="Pack cost"
+                          value={line.packCost}
+                          onChange={e => {
+                            const packCost = parseFloat(e.target.value);
+                            updateSupplierItem(index, { packCost: isNaN(packCost) ? 0 : packCost });
+                          }}
+                        />
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 w-8 p-0"
+                          aria-label="Remove item"
+                          onClick={() => removeSupplierItem(index)}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    );
+                  })}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={addSupplierItem}
+                    disabled={supplierItems.length >= stockItems.length}
+                  >
+                    <Plus className="mr-2 h-4 w-4" />
+                    Add Item
+                  </Button>
+                </div>
+              </div>
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button onClick={handleSubmit}>
+                {isEditing ? 'Update' : 'Add'} Supplier
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center p-8">
+          <p className="text-muted-foreground">Loading suppliers...</p>
+        </div>
+      ) : suppliers.length > 0 ? (
+        <Card>
+          <CardContent className="p-0">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Contact</TableHead>
+                  <TableHead>Lead Time</TableHead>
+                  <TableHead>Items Supplied</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {suppliers.map(supplier => (
+                  <TableRow key={supplier.id}>
+                    <TableCell className="font-medium">{supplier.name}</TableCell>
+                    <TableCell>
+                      {supplier.contactPerson}
+                      {(supplier.contactPhone || supplier.email) && (
+                        <p className="text-xs text-muted-foreground">
+                          {[supplier.contactPhone, supplier.email].filter(Boolean).join(' · ')}
+                        </p>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {supplier.leadTimeDays} day{supplier.leadTimeDays !== 1 ? 's' : ''}
+                    </TableCell>
+                    <TableCell>{getSuppliedItemNames(supplier)}</TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="sm" onClick={() => handleEdit(supplier)}>
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => handleDelete(supplier.id)}>
+                        <Trash className="h-4 w-4 text-red-500" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="flex flex-col items-center justify-center p-8 border border-dashed rounded-lg">
+          <p className="text-muted-foreground mb-4">No suppliers added yet</p>
+          <Button
+            variant="outline"
+            onClick={() => {
+              resetForm();
+              setIsDialogOpen(true);
+            }}
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            Add Your First Supplier
+          </Button>
+        </div>
+      )}
+    </AdminLayout>
+  );
+};
+
+export default SupplierManagement;
@@ -7,6 +7,8 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { useToast } from '@/hooks/use-toast';
 import { usePwa } from '@/context/PwaContext';
+import { getCachedList } from '@/lib/local-db';
+import { Branch, Store } from '@/lib/repository';
 import { 
   Select,
   SelectContent,
@@ -33,18 +35,6 @@ import {
 } from "@/components/ui/table";
 import { Plus, Edit, Trash } from 'lucide-react';
 
-interface Branch {
-  id: string;
-  name: string;
-}
-
-interface Store {
-  id: string;
-  name: string;
-  branchId: string;
-  branchName: string;
-}
-
 interface User {
   id: string;
   name: string;
@@ -79,16 +69,18 @@ const UserManagement: React.FC = () => {
 
   useEffect(() => {
     // Load branches
-    const savedBranches = localStorage.getItem('branches');
-    if (savedBranches) {
-      setBranches(JSON.parse(savedBranches));
-    }
+    getCachedList<Branch>('branches').then(savedBranches => {
+      if (savedBranches) {
+        setBranches(savedBranches);
+      }
+    });
     
     // Load stores
-    const savedStores = localStorage.getItem('stores');
-    if (savedStores) {
-      setStores(JSON.parse(savedStores));
-    }
+    getCachedList<Store>('stores').then(savedStores => {
+      if (savedStores) {
+        setStores(savedStores);
+      }
+    });
     
     // Load users
     const savedUsers = localStorage.getItem('users');
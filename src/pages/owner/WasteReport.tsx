@@ -0,0 +1,345 @@
+import React, { useEffect, useState } from 'react';
+import AdminLayout from '@/components/layouts/AdminLayout';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { toast } from '@/hooks/use-toast';
+import { useCatalog } from '@/hooks/use-catalog';
+import { WasteEntry, WasteReason, fetchWasteEntries, getWastePhotoUrl, wasteReasonLabels } from '@/lib/waste';
+import { format, subDays, startOfWeek, endOfWeek, startOfMonth, endOfMonth, subMonths } from 'date-fns';
+import { Image } from 'lucide-react';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+// Selling dates covered by each date range option, inclusive
+const getDateRange = (dateRange: string): [Date, Date] => {
+  const now = new Date();
+
+  switch (dateRange) {
+    case 'yesterday':
+      return [subDays(now, 1), subDays(now, 1)];
+    case 'this-week':
+      return [startOfWeek(now, { weekStartsOn: 1 }), endOfWeek(now, { weekStartsOn: 1 })];
+    case 'this-month':
+      return [startOfMonth(now), endOfMonth(now)];
+    case 'last-month':
+      return [startOfMonth(subMonths(now, 1)), endOfMonth(subMonths(now, 1))];
+    default:
+      return [now, now];
+  }
+};
+
+const formatCost = (cost: number) => `Rp ${Math.round(cost).toLocaleString()}`;
+
+interface WasteSummaryRow {
+  storeId: string;
+  storeName: string;
+  reason: WasteReason;
+  entryCount: number;
+  cost: number;
+}
+
+const WasteReport: React.FC = () => {
+  const { data: branches = [] } = useCatalog('branches');
+  const { data: stores = [] } = useCatalog('stores');
+  const [entries, setEntries] = useState<WasteEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dateRange, setDateRange] = useState<string>('this-week');
+  const [selectedBranch, setSelectedBranch] = useState<string>('all');
+  const [selectedStore, setSelectedStore] = useState<string>('all');
+  const [selectedReason, setSelectedReason] = useState<string>('all');
+
+  useEffect(() => {
+    const fetchEntries = async () => {
+      setLoading(true);
+      try {
+        const [fromDate, toDate] = getDateRange(dateRange);
+        setEntries(await fetchWasteEntries(format(fromDate, 'yyyy-MM-dd'), format(toDate, 'yyyy-MM-dd')));
+      } catch (error) {
+        console.error('Error fetching waste entries:', error);
+        toast({
+          title: "Error fetching waste",
+          description: "Could not load the waste entries. Please try again.",
+          variant: "destructive"
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchEntries();
+  }, [dateRange]);
+
+  const handleBranchChange = (branchId: string) => {
+    setSelectedBranch(branchId);
+    setSelectedStore('all');
+  };
+
+  const handleViewPhoto = async (path: string) => {
+    // Opened before the link is fetched so the browser doesn't block it
+    const photoWindow = window.open('', '_blank');
+    try {
+      const url = await getWastePhotoUrl(path);
+      if (photoWindow) {
+        photoWindow.location.href = url;
+      }
+    } catch (error) {
+      photoWindow?.close();
+      console.error('Error opening waste photo:', error);
+      toast({
+        title: "Error opening photo",
+        description: "Could not load the photo. Please try again.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const availableStores = selectedBranch === 'all'
+    ? stores
+    : stores.filter(store => store.branchId === selectedBranch);
+
+  const visibleEntries = entries.filter(entry =>
+    (selectedStore !== 'all'
+      ? entry.storeId === selectedStore
+      : availableStores.some(store => store.id === entry.storeId)) &&
+    (selectedReason === 'all' || entry.reason === selectedReason)
+  );
+
+  // One row per store and reason, costliest first
+  const summaryRows = Object.values(
+    visibleEntries.reduce((rows, entry) => {
+      const key = `${entry.storeId}:${entry.reason}`;
+      const row = rows[key] || {
+        storeId: entry.storeId,
+        storeName: entry.storeName,
+        reason: entry.reason,
+        entryCount: 0,
+        cost: 0,
+      };
+      row.entryCount += 1;
+      row.cost += entry.cost;
+      rows[key] = row;
+      return rows;
+    }, {} as Record<string, WasteSummaryRow>)
+  ).sort((a, b) => b.cost - a.cost);
+
+  const totalCost = visibleEntries.reduce((total, entry) => total + entry.cost, 0);
+
+  const costByReason = visibleEntries.reduce((totals, entry) => {
+    totals[entry.reason] = (totals[entry.reason] || 0) + entry.cost;
+    return totals;
+  }, {} as Partial<Record<WasteReason, number>>);
+  const topReason = (Object.keys(costByReason) as WasteReason[])
+    .sort((a, b) => costByReason[b] - costByReason[a])[0];
+
+  return (
+    <AdminLayout title="Waste">
+      <div className="flex flex-col space-y-6">
+        <div className="flex flex-col md:flex-row justify-between gap-4">
+          <h1 className="text-2xl font-bold">Waste</h1>
+
+          <div className="flex flex-wrap gap-2">
+            <Select value={dateRange} onValueChange={setDateRange}>
+              <SelectTrigger className="w-[180px]">
+                <SelectValue placeholder="Select date range" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="today">Today</SelectItem>
+                <SelectItem value="yesterday">Yesterday</SelectItem>
+                <SelectItem value="this-week">This Week</SelectItem>
+                <SelectItem value="this-month">This Month</SelectItem>
+                <SelectItem value="last-month">Last Month</SelectItem>
+              </SelectContent>
+            </Select>
+
+            <Select value={selectedBranch} onValueChange={handleBranchChange}>
+              <SelectTrigger className="w-[180px]">
+                <SelectValue placeholder="Select branch" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Branches</SelectItem>
+                {branches.map(branch => (
+                  <SelectItem key={branch.id} value={branch.id}>
+                    {branch.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Select value={selectedStore} onValueChange={setSelectedStore}>
+              <SelectTrigger className="w-[180px]">
+                <SelectValue placeholder="Select store" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Stores</SelectItem>
+                {availableStores.map(store => (
+                  <SelectItem key={store.id} value={store.id}>
+                    {store.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Select value={selectedReason} onValueChange={setSelectedReason}>
+              <SelectTrigger className="w-[180px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Reasons</SelectItem>
+                {(Object.keys(wasteReasonLabels) as WasteReason[]).map(reason => (
+                  <SelectItem key={reason} value={reason}>
+                    {wasteReasonLabels[reason]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium">Waste Cost</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold text-red-600 dark:text-red-400">{formatCost(totalCost)}</div>
+              <p className="text-xs text-muted-foreground">At the latest unit cost when logged</p>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium">Entries</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{visibleEntries.length}</div>
+              <p className="text-xs text-muted-foreground">
+                Across {new Set(visibleEntries.map(entry => entry.storeId)).size} store(s)
+              </p>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium">Top Reason</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{topReason ? wasteReasonLabels[topReason] : '-'}</div>
+              <p className="text-xs text-muted-foreground">
+                {topReason ? `${formatCost(costByReason[topReason])} of waste` : 'No waste logged'}
+              </p>
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>By Store and Reason</CardTitle>
+          </CardHeader>
+          <CardContent className="p-0">
+            {loading ? (
+              <div className="flex justify-center p-8">
+                <p className="text-muted-foreground">Loading waste...</p>
+              </div>
+            ) : summaryRows.length > 0 ? (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Store</TableHead>
+                    <TableHead>Reason</TableHead>
+                    <TableHead className="text-right">Entries</TableHead>
+                    <TableHead className="text-right">Cost</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {summaryRows.map(row => (
+                    <TableRow key={`${row.storeId}:${row.reason}`}>
+                      <TableCell className="font-medium">{row.storeName}</TableCell>
+                      <TableCell>{wasteReasonLabels[row.reason]}</TableCell>
+                      <TableCell className="text-right">{row.entryCount}</TableCell>
+                      <TableCell className="text-right">{formatCost(row.cost)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            ) : (
+              <div className="flex justify-center p-8">
+                <p className="text-muted-foreground">No waste logged for this period.</p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {!loading && visibleEntries.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Entries</CardTitle>
+            </CardHeader>
+            <CardContent className="p-0">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Store</TableHead>
+                    <TableHead>Item</TableHead>
+                    <TableHead className="text-right">Quantity</TableHead>
+                    <TableHead>Reason</TableHead>
+                    <TableHead>Logged By</TableHead>
+                    <TableHead className="text-right">Cost</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visibleEntries.map(entry => (
+                    <TableRow key={entry.id}>
+                      <TableCell>{format(new Date(`${entry.sellingDate}T00:00:00`), 'MMM dd, yyyy')}</TableCell>
+                      <TableCell>{entry.storeName}</TableCell>
+                      <TableCell>
+                        <div className="font-medium">{entry.itemName}</div>
+                        {entry.note && (
+                          <div className="text-xs text-muted-foreground">{entry.note}</div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {Number(entry.quantity.toFixed(3)).toLocaleString()} {entry.unit}
+                      </TableCell>
+                      <TableCell>{wasteReasonLabels[entry.reason]}</TableCell>
+                      <TableCell>{entry.createdByName || '-'}</TableCell>
+                      <TableCell className="text-right">{formatCost(entry.cost)}</TableCell>
+                      <TableCell>
+                        {entry.photoPath && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleViewPhoto(entry.photoPath)}
+                            title="View photo"
+                          >
+                            <Image className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </AdminLayout>
+  );
+};
+
+export default WasteReport;
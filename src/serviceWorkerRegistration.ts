@@ -1,29 +1,62 @@
 
-// This optional code is used to register a service worker.
-// register() is not called by default.
+// Registers the service worker. Called by PwaProvider, which surfaces
+// onUpdate as the "new version available" banner.
 
 interface Config {
   onSuccess?: (registration: ServiceWorkerRegistration) => void;
   onUpdate?: (registration: ServiceWorkerRegistration) => void;
 }
 
+// The browser only looks for a new worker on navigation, which an installed
+// till left open for days never does
+const UPDATE_CHECK_INTERVAL = 60 * 60 * 1000;
+
 export function register(config?: Config) {
   if ('serviceWorker' in navigator) {
-    // The URL constructor is available in all browsers that support SW.
-    const publicUrl = new URL(window.location.href);
-    
-    window.addEventListener('load', () => {
-      const swUrl = `/service-worker.js`;
+    const swUrl = `/service-worker.js`;
 
+    // Wait for the page to load so the worker doesn't compete with it for
+    // bandwidth. React may call this after the load event has already fired.
+    if (document.readyState === 'complete') {
       registerValidSW(swUrl, config);
-    });
+    } else {
+      window.addEventListener('load', () => {
+        registerValidSW(swUrl, config);
+      });
+    }
   }
 }
 
+function checkForUpdates(registration: ServiceWorkerRegistration) {
+  const update = () => {
+    if (!navigator.onLine) return;
+    registration.update().catch((error) => {
+      console.error('Error checking for a service worker update:', error);
+    });
+  };
+
+  setInterval(update, UPDATE_CHECK_INTERVAL);
+  window.addEventListener('online', update);
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'visible') {
+      update();
+    }
+  });
+}
+
 function registerValidSW(swUrl: string, config?: Config) {
   navigator.serviceWorker
     .register(swUrl)
     .then((registration) => {
+      checkForUpdates(registration);
+
+      // An update installed during a previous visit is still waiting
+      if (registration.waiting && navigator.serviceWorker.controller) {
+        if (config && config.onUpdate) {
+          config.onUpdate(registration);
+        }
+      }
+
       registration.onupdatefound = () => {
         const installingWorker = registration.installing;
         if (installingWorker == null) {
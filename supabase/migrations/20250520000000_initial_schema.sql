@@ -0,0 +1,237 @@
+-- The POS schema as it existed before the migrations that follow. Written with
+-- "if not exists" so it can be applied to the hosted project, where these
+-- objects were created from the dashboard, as well as to a fresh local stack.
+--
+-- This file was added after the checkout, idempotency, stock adjustment and
+-- row-level security migrations that build on it, and is dated before them so
+-- it runs first. Revisions of the repository from before it was added can't
+-- set up a fresh database on their own; deploy from a revision that has it.
+
+create or replace function public.set_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$;
+
+-- There is a single brand per deployment
+create table if not exists public.brands (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  slogan text,
+  description text,
+  contact_email text,
+  contact_phone text,
+  address text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists public.branches (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  address text not null,
+  contact_person text,
+  contact_phone text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists public.stores (
+  id uuid primary key default gen_random_uuid(),
+  branch_id uuid not null references public.branches(id) on delete cascade,
+  name text not null,
+  address text not null,
+  manager_name text,
+  contact_phone text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists stores_branch_id_idx on public.stores (branch_id);
+
+create table if not exists public.categories (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  description text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists public.menu_items (
+  id uuid primary key default gen_random_uuid(),
+  category_id uuid references public.categories(id) on delete set null,
+  name text not null,
+  description text,
+  price numeric(12, 2) not null check (price >= 0),
+  image_url text,
+  is_active boolean default true,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists public.stock_items (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  unit text not null,
+  current_stock integer not null default 0,
+  minimum_stock integer not null default 0,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- Which stock items a sale of a menu item draws from
+create table if not exists public.stock_item_menu_items (
+  id uuid primary key default gen_random_uuid(),
+  stock_item_id uuid not null references public.stock_items(id) on delete cascade,
+  menu_item_id uuid not null references public.menu_items(id) on delete cascade,
+  created_at timestamptz not null default now(),
+  unique (stock_item_id, menu_item_id)
+);
+
+create index if not exists stock_item_menu_items_menu_item_id_idx
+  on public.stock_item_menu_items (menu_item_id);
+
+-- One row per authenticated user. Managers and cashiers belong to a branch,
+-- cashiers also to the store whose till they sell from.
+create table if not exists public.profiles (
+  id uuid primary key references auth.users(id) on delete cascade,
+  email text not null,
+  name text not null,
+  role text not null default 'cashier' check (role in ('owner', 'manager', 'cashier')),
+  branch_id uuid references public.branches(id) on delete set null,
+  store_id uuid references public.stores(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- A store's stock for one selling day. Selling starts by activating the day's
+-- rows with the opening quantities and ends by deactivating them.
+create table if not exists public.store_stocks (
+  id uuid primary key default gen_random_uuid(),
+  store_id uuid not null references public.stores(id) on delete cascade,
+  stock_item_id uuid not null references public.stock_items(id) on delete cascade,
+  selling_date date not null default current_date,
+  quantity integer not null default 0,
+  is_active boolean not null default false,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (store_id, stock_item_id, selling_date)
+);
+
+create table if not exists public.transactions (
+  id uuid primary key default gen_random_uuid(),
+  store_id uuid not null references public.stores(id) on delete restrict,
+  cashier_id uuid references public.profiles(id) on delete set null,
+  payment_method text not null check (payment_method in ('cash', 'qris')),
+  status text not null default 'completed',
+  total_amount numeric(12, 2) not null,
+  transaction_date timestamptz not null default now(),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists transactions_store_date_idx
+  on public.transactions (store_id, transaction_date);
+
+create table if not exists public.transaction_items (
+  id uuid primary key default gen_random_uuid(),
+  transaction_id uuid not null references public.transactions(id) on delete cascade,
+  menu_item_id uuid not null references public.menu_items(id) on delete restrict,
+  quantity integer not null check (quantity > 0),
+  price_per_unit numeric(12, 2) not null,
+  total_price numeric(12, 2) not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists transaction_items_transaction_id_idx
+  on public.transaction_items (transaction_id);
+
+do $$
+declare
+  v_table text;
+begin
+  foreach v_table in array array[
+    'brands', 'branches', 'stores', 'categories', 'menu_items', 'stock_items',
+    'profiles', 'store_stocks', 'transactions'
+  ]
+  loop
+    execute format('drop trigger if exists set_updated_at on public.%I', v_table);
+    execute format(
+      'create trigger set_updated_at before update on public.%I
+         for each row execute function public.set_updated_at()',
+      v_table
+    );
+  end loop;
+end;
+$$;
+
+-- Every new account starts as a cashier with no store; an owner assigns the
+-- role and store afterwards. The role is never taken from the sign-up
+-- metadata, which the user controls.
+create or replace function public.handle_new_user()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into profiles (id, email, name)
+  values (
+    new.id,
+    coalesce(new.email, ''),
+    coalesce(new.raw_user_meta_data->>'name', split_part(coalesce(new.email, ''), '@', 1))
+  )
+  on conflict (id) do nothing;
+  return new;
+end;
+$$;
+
+drop trigger if exists on_auth_user_created on auth.users;
+create trigger on_auth_user_created
+  after insert on auth.users
+  for each row execute function public.handle_new_user();
+
+-- Used by the row-level security policies. Security definer so reading the
+-- caller's own profile doesn't go through the profiles policies again.
+create or replace function public.get_current_user_role()
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select role from profiles where id = auth.uid();
+$$;
+
+-- Makes the calling user the owner of a deployment that has none yet, so the
+-- first account can set up the brand and invite everyone else.
+create or replace function public.create_default_owner()
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is null then
+    raise exception 'not_authenticated' using errcode = 'P0001';
+  end if;
+
+  -- Serialise concurrent first sign-ins
+  lock table profiles in share row exclusive mode;
+
+  if exists (select 1 from profiles where role = 'owner') then
+    return;
+  end if;
+
+  update profiles
+  set role = 'owner', branch_id = null, store_id = null
+  where id = auth.uid();
+end;
+$$;
+
+grant execute on function public.get_current_user_role() to authenticated;
+grant execute on function public.create_default_owner() to authenticated;
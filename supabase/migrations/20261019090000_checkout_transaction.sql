@@ -0,0 +1,93 @@
+-- Records a sale and decrements today's store stock in a single database
+-- transaction. The store and cashier are taken from the caller's profile so a
+-- till can only sell from its own inventory.
+--
+-- p_items is a JSON array of { menu_item_id, quantity, price_per_unit }.
+--
+-- Raises 'insufficient_stock' (SQLSTATE P0001) when a linked stock item has no
+-- active row for today or would go negative, e.g. because another till sold it
+-- first. The detail carries { stock_item_id, available, requested } as JSON.
+create or replace function public.checkout_transaction(
+  p_payment_method text,
+  p_items jsonb
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_store_id uuid;
+  v_transaction_id uuid;
+  v_required record;
+  v_remaining integer;
+begin
+  select store_id into v_store_id
+  from profiles
+  where id = auth.uid();
+
+  if v_store_id is null then
+    raise exception 'no_store_assigned' using errcode = 'P0001';
+  end if;
+
+  if p_items is null or jsonb_array_length(p_items) = 0 then
+    raise exception 'empty_cart' using errcode = 'P0001';
+  end if;
+
+  if p_payment_method not in ('cash', 'qris') then
+    raise exception 'invalid_payment_method' using errcode = 'P0001';
+  end if;
+
+  -- Decrement every stock item linked to the sold menu items. Rows are
+  -- updated in a stable order so two tills selling the same items can't
+  -- deadlock; the row lock makes the second till wait for the first.
+  for v_required in
+    select link.stock_item_id, sum((item->>'quantity')::integer) as quantity
+    from jsonb_array_elements(p_items) item
+    join stock_item_menu_items link
+      on link.menu_item_id = (item->>'menu_item_id')::uuid
+    group by link.stock_item_id
+    order by link.stock_item_id
+  loop
+    update store_stocks
+    set quantity = quantity - v_required.quantity,
+        updated_at = now()
+    where store_id = v_store_id
+      and stock_item_id = v_required.stock_item_id
+      and selling_date = current_date
+      and is_active
+    returning quantity into v_remaining;
+
+    if not found or v_remaining < 0 then
+      raise exception 'insufficient_stock'
+        using errcode = 'P0001',
+              detail = json_build_object(
+                'stock_item_id', v_required.stock_item_id,
+                'available', coalesce(v_remaining + v_required.quantity, 0),
+                'requested', v_required.quantity
+              )::text;
+    end if;
+  end loop;
+
+  insert into transactions (store_id, cashier_id, payment_method, status, total_amount)
+  select v_store_id,
+         auth.uid(),
+         p_payment_method,
+         'completed',
+         sum((item->>'quantity')::integer * (item->>'price_per_unit')::numeric)
+  from jsonb_array_elements(p_items) item
+  returning id into v_transaction_id;
+
+  insert into transaction_items (transaction_id, menu_item_id, quantity, price_per_unit, total_price)
+  select v_transaction_id,
+         (item->>'menu_item_id')::uuid,
+         (item->>'quantity')::integer,
+         (item->>'price_per_unit')::numeric,
+         (item->>'quantity')::integer * (item->>'price_per_unit')::numeric
+  from jsonb_array_elements(p_items) item;
+
+  return v_transaction_id;
+end;
+$$;
+
+grant execute on function public.checkout_transaction(text, jsonb) to authenticated;
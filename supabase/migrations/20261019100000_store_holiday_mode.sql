@@ -0,0 +1,4 @@
+-- Holiday mode disables transactions for a store. It used to live only in the
+-- manager's browser; keeping it on the store lets every till see it.
+alter table public.stores
+  add column if not exists is_holiday_mode boolean not null default false;
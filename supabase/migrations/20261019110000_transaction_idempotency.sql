@@ -0,0 +1,121 @@
+-- Sales queued offline can be replayed more than once, e.g. when a till
+-- reconnects twice in quick succession or two tabs drain the same outbox.
+-- Each checkout carries a client-generated UUID; the unique constraint makes
+-- the second replay a no-op that returns the transaction recorded by the first.
+alter table public.transactions
+  add column if not exists client_operation_id uuid unique;
+
+drop function if exists public.checkout_transaction(text, jsonb);
+
+-- Same as the previous version, plus p_client_operation_id. Calling it again
+-- with a key that was already recorded returns the existing transaction id
+-- without touching stock.
+create or replace function public.checkout_transaction(
+  p_client_operation_id uuid,
+  p_payment_method text,
+  p_items jsonb
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_store_id uuid;
+  v_transaction_id uuid;
+  v_required record;
+  v_remaining integer;
+begin
+  if p_client_operation_id is null then
+    raise exception 'missing_client_operation_id' using errcode = 'P0001';
+  end if;
+
+  select id into v_transaction_id
+  from transactions
+  where client_operation_id = p_client_operation_id;
+
+  if v_transaction_id is not null then
+    return v_transaction_id;
+  end if;
+
+  select store_id into v_store_id
+  from profiles
+  where id = auth.uid();
+
+  if v_store_id is null then
+    raise exception 'no_store_assigned' using errcode = 'P0001';
+  end if;
+
+  if p_items is null or jsonb_array_length(p_items) = 0 then
+    raise exception 'empty_cart' using errcode = 'P0001';
+  end if;
+
+  if p_payment_method not in ('cash', 'qris') then
+    raise exception 'invalid_payment_method' using errcode = 'P0001';
+  end if;
+
+  begin
+    -- Decrement every stock item linked to the sold menu items. Rows are
+    -- updated in a stable order so two tills selling the same items can't
+    -- deadlock; the row lock makes the second till wait for the first.
+    for v_required in
+      select link.stock_item_id, sum((item->>'quantity')::integer) as quantity
+      from jsonb_array_elements(p_items) item
+      join stock_item_menu_items link
+        on link.menu_item_id = (item->>'menu_item_id')::uuid
+      group by link.stock_item_id
+      order by link.stock_item_id
+    loop
+      update store_stocks
+      set quantity = quantity - v_required.quantity,
+          updated_at = now()
+      where store_id = v_store_id
+        and stock_item_id = v_required.stock_item_id
+        and selling_date = current_date
+        and is_active
+      returning quantity into v_remaining;
+
+      if not found or v_remaining < 0 then
+        raise exception 'insufficient_stock'
+          using errcode = 'P0001',
+                detail = json_build_object(
+                  'stock_item_id', v_required.stock_item_id,
+                  'available', coalesce(v_remaining + v_required.quantity, 0),
+                  'requested', v_required.quantity
+                )::text;
+      end if;
+    end loop;
+
+    insert into transactions (store_id, cashier_id, payment_method, status, total_amount, client_operation_id)
+    select v_store_id,
+           auth.uid(),
+           p_payment_method,
+           'completed',
+           sum((item->>'quantity')::integer * (item->>'price_per_unit')::numeric),
+           p_client_operation_id
+    from jsonb_array_elements(p_items) item
+    returning id into v_transaction_id;
+  exception
+    -- A concurrent replay of the same sale committed first. The stock
+    -- decrements above are rolled back with this block.
+    when unique_violation then
+      select id into v_transaction_id
+      from transactions
+      where client_operation_id = p_client_operation_id;
+
+      return v_transaction_id;
+  end;
+
+  insert into transaction_items (transaction_id, menu_item_id, quantity, price_per_unit, total_price)
+  select v_transaction_id,
+         (item->>'menu_item_id')::uuid,
+         (item->>'quantity')::integer,
+         (item->>'price_per_unit')::numeric,
+         (item->>'quantity')::integer * (item->>'price_per_unit')::numeric
+  from jsonb_array_elements(p_items) item;
+
+  return v_transaction_id;
+end;
+$$;
+
+grant execute on function public.checkout_transaction(uuid, text, jsonb) to authenticated;
@@ -0,0 +1,280 @@
+-- Manual stock changes are sent as deltas against the version of the row the
+-- device last saw, instead of absolute quantities. A delta applies cleanly on
+-- top of sales made in the meantime; only another manual change since that
+-- version counts as a conflict, which is parked for a manager to review
+-- instead of silently overwriting either side.
+
+-- Every applied manual change. Keyed by the client operation id (plus the
+-- stock item, as starting the day adjusts many items in one operation) so a
+-- replayed operation is recognised instead of applied twice.
+create table if not exists public.stock_adjustments (
+  client_operation_id uuid not null,
+  stock_item_id uuid not null references public.stock_items(id) on delete cascade,
+  store_id uuid not null references public.stores(id) on delete cascade,
+  selling_date date not null,
+  delta integer not null,
+  created_by uuid references public.profiles(id) on delete set null,
+  created_at timestamptz not null default now(),
+  primary key (client_operation_id, stock_item_id)
+);
+
+create index if not exists stock_adjustments_store_item_date_idx
+  on public.stock_adjustments (store_id, stock_item_id, selling_date, created_at);
+
+create table if not exists public.stock_conflicts (
+  id uuid primary key default gen_random_uuid(),
+  client_operation_id uuid not null,
+  stock_item_id uuid not null references public.stock_items(id) on delete cascade,
+  store_id uuid not null references public.stores(id) on delete cascade,
+  selling_date date not null,
+  -- What the device saw and what it wanted the quantity to become
+  base_quantity integer not null,
+  base_updated_at timestamptz,
+  delta integer not null,
+  requested_quantity integer not null,
+  -- The quantity on the server when the change arrived
+  server_quantity integer,
+  created_by uuid references public.profiles(id) on delete set null,
+  created_at timestamptz not null default now(),
+  -- 'server' keeps the quantity as it is, 'device' applies requested_quantity
+  resolution text check (resolution in ('server', 'device')),
+  resolved_quantity integer,
+  resolved_by uuid references public.profiles(id) on delete set null,
+  resolved_at timestamptz,
+  unique (client_operation_id, stock_item_id)
+);
+
+create index if not exists stock_conflicts_unresolved_idx
+  on public.stock_conflicts (store_id)
+  where resolved_at is null;
+
+alter table public.stock_adjustments enable row level security;
+alter table public.stock_conflicts enable row level security;
+
+-- Owners see every store, managers the stores of their branch and cashiers
+-- their own store. Every profile has a branch, so the branch only counts for
+-- managers.
+create or replace function public.can_manage_store(p_store_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from profiles p
+    join stores s on s.id = p_store_id
+    where p.id = auth.uid()
+      and (
+        p.role = 'owner'
+        or (p.role = 'manager' and p.branch_id = s.branch_id)
+        or p.store_id = s.id
+      )
+  );
+$$;
+
+-- Counting, adjusting and moving a store's stock is for the owners and the
+-- managers of the store; its cashiers only sell from it
+create or replace function public.can_manage_store_stock(p_store_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from profiles p
+    join stores s on s.id = p_store_id
+    where p.id = auth.uid()
+      and (
+        p.role = 'owner'
+        or (p.role = 'manager' and (p.branch_id = s.branch_id or p.store_id = s.id))
+      )
+  );
+$$;
+
+create policy "Store staff can read stock adjustments"
+  on public.stock_adjustments for select
+  using (public.can_manage_store(store_id));
+
+create policy "Store staff can read stock conflicts"
+  on public.stock_conflicts for select
+  using (public.can_manage_store(store_id));
+
+-- Applies p_delta to a store's stock for the given day, or records a conflict
+-- when the row was adjusted after p_base_updated_at (null means the device saw
+-- no row for that day). That includes the caller's own changes from another
+-- device, which the device sending this one hasn't seen either. p_activate
+-- also marks the row active, which is how a selling day is started.
+--
+-- Returns { status: 'applied' | 'conflict', quantity, updated_at } with the
+-- row as it is on the server afterwards.
+create or replace function public.adjust_store_stock(
+  p_client_operation_id uuid,
+  p_store_id uuid,
+  p_stock_item_id uuid,
+  p_selling_date date,
+  p_delta integer,
+  p_base_quantity integer,
+  p_base_updated_at timestamptz,
+  p_activate boolean default false
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_stock store_stocks%rowtype;
+  v_has_conflict boolean;
+begin
+  if not public.can_manage_store_stock(p_store_id) then
+    raise exception 'not_authorized' using errcode = 'P0001';
+  end if;
+
+  select * into v_stock
+  from store_stocks
+  where store_id = p_store_id
+    and stock_item_id = p_stock_item_id
+    and selling_date = p_selling_date
+  for update;
+
+  -- Replays of an operation that was already handled
+  if exists (
+    select 1 from stock_adjustments
+    where client_operation_id = p_client_operation_id
+      and stock_item_id = p_stock_item_id
+  ) then
+    return jsonb_build_object('status', 'applied', 'quantity', v_stock.quantity, 'updated_at', v_stock.updated_at);
+  end if;
+
+  if exists (
+    select 1 from stock_conflicts
+    where client_operation_id = p_client_operation_id
+      and stock_item_id = p_stock_item_id
+  ) then
+    return jsonb_build_object('status', 'conflict', 'quantity', v_stock.quantity, 'updated_at', v_stock.updated_at);
+  end if;
+
+  select exists (
+    select 1 from stock_adjustments
+    where store_id = p_store_id
+      and stock_item_id = p_stock_item_id
+      and selling_date = p_selling_date
+      and (p_base_updated_at is null or created_at > p_base_updated_at)
+  ) into v_has_conflict;
+
+  if v_has_conflict then
+    insert into stock_conflicts (
+      client_operation_id, stock_item_id, store_id, selling_date,
+      base_quantity, base_updated_at, delta, requested_quantity,
+      server_quantity, created_by
+    )
+    values (
+      p_client_operation_id, p_stock_item_id, p_store_id, p_selling_date,
+      p_base_quantity, p_base_updated_at, p_delta, greatest(p_base_quantity + p_delta, 0),
+      v_stock.quantity, auth.uid()
+    );
+
+    return jsonb_build_object('status', 'conflict', 'quantity', v_stock.quantity, 'updated_at', v_stock.updated_at);
+  end if;
+
+  if v_stock.id is null then
+    insert into store_stocks (store_id, stock_item_id, selling_date, quantity, is_active)
+    values (p_store_id, p_stock_item_id, p_selling_date, greatest(p_delta, 0), true)
+    returning * into v_stock;
+  else
+    update store_stocks
+    set quantity = greatest(quantity + p_delta, 0),
+        is_active = is_active or p_activate,
+        updated_at = now()
+    where id = v_stock.id
+    returning * into v_stock;
+  end if;
+
+  insert into stock_adjustments (client_operation_id, stock_item_id, store_id, selling_date, delta, created_by)
+  values (p_client_operation_id, p_stock_item_id, p_store_id, p_selling_date, p_delta, auth.uid());
+
+  return jsonb_build_object('status', 'applied', 'quantity', v_stock.quantity, 'updated_at', v_stock.updated_at);
+end;
+$$;
+
+-- Settles a conflict. 'device' sets the quantity the device asked for,
+-- 'server' leaves the current quantity. Either way the choice is recorded
+-- as an adjustment so it becomes the new base for later edits.
+create or replace function public.resolve_stock_conflict(
+  p_conflict_id uuid,
+  p_resolution text
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_conflict stock_conflicts%rowtype;
+  v_stock store_stocks%rowtype;
+  v_delta integer := 0;
+begin
+  select * into v_conflict
+  from stock_conflicts
+  where id = p_conflict_id
+  for update;
+
+  if v_conflict.id is null then
+    raise exception 'conflict_not_found' using errcode = 'P0001';
+  end if;
+
+  if not public.can_manage_store_stock(v_conflict.store_id) then
+    raise exception 'not_authorized' using errcode = 'P0001';
+  end if;
+
+  if v_conflict.resolved_at is not null then
+    raise exception 'conflict_already_resolved' using errcode = 'P0001';
+  end if;
+
+  if p_resolution not in ('server', 'device') then
+    raise exception 'invalid_resolution' using errcode = 'P0001';
+  end if;
+
+  select * into v_stock
+  from store_stocks
+  where store_id = v_conflict.store_id
+    and stock_item_id = v_conflict.stock_item_id
+    and selling_date = v_conflict.selling_date
+  for update;
+
+  if p_resolution = 'device' then
+    if v_stock.id is null then
+      insert into store_stocks (store_id, stock_item_id, selling_date, quantity, is_active)
+      values (v_conflict.store_id, v_conflict.stock_item_id, v_conflict.selling_date, v_conflict.requested_quantity, true)
+      returning * into v_stock;
+      v_delta := v_conflict.requested_quantity;
+    else
+      v_delta := v_conflict.requested_quantity - v_stock.quantity;
+      update store_stocks
+      set quantity = v_conflict.requested_quantity,
+          updated_at = now()
+      where id = v_stock.id
+      returning * into v_stock;
+    end if;
+  end if;
+
+  insert into stock_adjustments (client_operation_id, stock_item_id, store_id, selling_date, delta, created_by)
+  values (gen_random_uuid(), v_conflict.stock_item_id, v_conflict.store_id, v_conflict.selling_date, v_delta, auth.uid());
+
+  update stock_conflicts
+  set resolution = p_resolution,
+      resolved_quantity = v_stock.quantity,
+      resolved_by = auth.uid(),
+      resolved_at = now()
+  where id = v_conflict.id;
+
+  return jsonb_build_object('quantity', v_stock.quantity, 'updated_at', v_stock.updated_at);
+end;
+$$;
+
+grant execute on function public.adjust_store_stock(uuid, uuid, uuid, date, integer, integer, timestamptz, boolean) to authenticated;
+grant execute on function public.resolve_stock_conflict(uuid, text) to authenticated;
@@ -0,0 +1,250 @@
+-- Row-level security for the POS tables. Roles come from profiles.role:
+--
+--   owner    reads and writes everything, and is the only role that can edit
+--            the catalog (brand, branches, stores, categories, menu, stock
+--            items) and user profiles
+--   manager  sees the stores of their branch, runs their stock and can put
+--            them in holiday mode
+--   cashier  sees their own store and records sales for it
+--
+-- Sales normally go through checkout_transaction, which is security definer
+-- and takes the store from the caller's profile; the insert policies below
+-- hold direct writes to the same rule.
+
+create or replace function public.get_current_store_id()
+returns uuid
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select store_id from profiles where id = auth.uid();
+$$;
+
+create or replace function public.get_current_branch_id()
+returns uuid
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select branch_id from profiles where id = auth.uid();
+$$;
+
+grant execute on function public.get_current_store_id() to authenticated;
+grant execute on function public.get_current_branch_id() to authenticated;
+
+alter table public.brands enable row level security;
+alter table public.branches enable row level security;
+alter table public.stores enable row level security;
+alter table public.categories enable row level security;
+alter table public.menu_items enable row level security;
+alter table public.stock_items enable row level security;
+alter table public.stock_item_menu_items enable row level security;
+alter table public.profiles enable row level security;
+alter table public.store_stocks enable row level security;
+alter table public.transactions enable row level security;
+alter table public.transaction_items enable row level security;
+
+-- Catalog: readable by every signed-in user, written by owners only
+
+drop policy if exists "Signed-in users can read the brand" on public.brands;
+create policy "Signed-in users can read the brand"
+  on public.brands for select to authenticated
+  using (true);
+
+drop policy if exists "Owners can edit the brand" on public.brands;
+create policy "Owners can edit the brand"
+  on public.brands for all to authenticated
+  using (public.get_current_user_role() = 'owner')
+  with check (public.get_current_user_role() = 'owner');
+
+drop policy if exists "Signed-in users can read categories" on public.categories;
+create policy "Signed-in users can read categories"
+  on public.categories for select to authenticated
+  using (true);
+
+drop policy if exists "Owners can edit categories" on public.categories;
+create policy "Owners can edit categories"
+  on public.categories for all to authenticated
+  using (public.get_current_user_role() = 'owner')
+  with check (public.get_current_user_role() = 'owner');
+
+drop policy if exists "Signed-in users can read menu items" on public.menu_items;
+create policy "Signed-in users can read menu items"
+  on public.menu_items for select to authenticated
+  using (true);
+
+drop policy if exists "Owners can edit menu items" on public.menu_items;
+create policy "Owners can edit menu items"
+  on public.menu_items for all to authenticated
+  using (public.get_current_user_role() = 'owner')
+  with check (public.get_current_user_role() = 'owner');
+
+drop policy if exists "Signed-in users can read stock items" on public.stock_items;
+create policy "Signed-in users can read stock items"
+  on public.stock_items for select to authenticated
+  using (true);
+
+drop policy if exists "Owners can edit stock items" on public.stock_items;
+create policy "Owners can edit stock items"
+  on public.stock_items for all to authenticated
+  using (public.get_current_user_role() = 'owner')
+  with check (public.get_current_user_role() = 'owner');
+
+drop policy if exists "Signed-in users can read stock links" on public.stock_item_menu_items;
+create policy "Signed-in users can read stock links"
+  on public.stock_item_menu_items for select to authenticated
+  using (true);
+
+drop policy if exists "Owners can edit stock links" on public.stock_item_menu_items;
+create policy "Owners can edit stock links"
+  on public.stock_item_menu_items for all to authenticated
+  using (public.get_current_user_role() = 'owner')
+  with check (public.get_current_user_role() = 'owner');
+
+-- Branches and stores: owners see all of them, everyone else their own
+
+drop policy if exists "Staff can read their branch" on public.branches;
+create policy "Staff can read their branch"
+  on public.branches for select to authenticated
+  using (public.get_current_user_role() = 'owner' or id = public.get_current_branch_id());
+
+drop policy if exists "Owners can edit branches" on public.branches;
+create policy "Owners can edit branches"
+  on public.branches for all to authenticated
+  using (public.get_current_user_role() = 'owner')
+  with check (public.get_current_user_role() = 'owner');
+
+drop policy if exists "Staff can read their stores" on public.stores;
+create policy "Staff can read their stores"
+  on public.stores for select to authenticated
+  using (public.can_manage_store(id));
+
+drop policy if exists "Owners can edit stores" on public.stores;
+create policy "Owners can edit stores"
+  on public.stores for all to authenticated
+  using (public.get_current_user_role() = 'owner')
+  with check (public.get_current_user_role() = 'owner');
+
+drop policy if exists "Managers can update their stores" on public.stores;
+create policy "Managers can update their stores"
+  on public.stores for update to authenticated
+  using (public.get_current_user_role() = 'manager' and branch_id = public.get_current_branch_id())
+  with check (public.get_current_user_role() = 'manager' and branch_id = public.get_current_branch_id());
+
+-- Policies can't limit columns, so this keeps managers to the holiday switch
+create or replace function public.restrict_manager_store_update()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if public.get_current_user_role() is distinct from 'owner'
+     and auth.uid() is not null
+     and (new.name, new.address, new.branch_id, new.manager_name, new.contact_phone)
+         is distinct from
+         (old.name, old.address, old.branch_id, old.manager_name, old.contact_phone)
+  then
+    raise exception 'only_owners_can_edit_stores' using errcode = '42501';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists restrict_manager_store_update on public.stores;
+create trigger restrict_manager_store_update
+  before update on public.stores
+  for each row execute function public.restrict_manager_store_update();
+
+-- Profiles: users read their own, managers their branch's staff, owners all.
+-- Only owners change roles and assignments.
+
+drop policy if exists "Users can read visible profiles" on public.profiles;
+create policy "Users can read visible profiles"
+  on public.profiles for select to authenticated
+  using (
+    id = auth.uid()
+    or public.get_current_user_role() = 'owner'
+    or (public.get_current_user_role() = 'manager' and branch_id = public.get_current_branch_id())
+  );
+
+drop policy if exists "Owners can edit profiles" on public.profiles;
+create policy "Owners can edit profiles"
+  on public.profiles for all to authenticated
+  using (public.get_current_user_role() = 'owner')
+  with check (public.get_current_user_role() = 'owner');
+
+-- Store stock: staff of the store can read it, managers and owners set it
+
+drop policy if exists "Store staff can read store stock" on public.store_stocks;
+create policy "Store staff can read store stock"
+  on public.store_stocks for select to authenticated
+  using (public.can_manage_store(store_id));
+
+drop policy if exists "Managers can set store stock" on public.store_stocks;
+create policy "Managers can set store stock"
+  on public.store_stocks for all to authenticated
+  using (
+    public.get_current_user_role() in ('owner', 'manager')
+    and public.can_manage_store(store_id)
+  )
+  with check (
+    public.get_current_user_role() in ('owner', 'manager')
+    and public.can_manage_store(store_id)
+  );
+
+-- Sales: recorded by the signed-in cashier for their own store only
+
+drop policy if exists "Store staff can read transactions" on public.transactions;
+create policy "Store staff can read transactions"
+  on public.transactions for select to authenticated
+  using (public.can_manage_store(store_id));
+
+drop policy if exists "Cashiers can record sales for their store" on public.transactions;
+create policy "Cashiers can record sales for their store"
+  on public.transactions for insert to authenticated
+  with check (
+    store_id = public.get_current_store_id()
+    and cashier_id = auth.uid()
+  );
+
+drop policy if exists "Owners can correct transactions" on public.transactions;
+create policy "Owners can correct transactions"
+  on public.transactions for update to authenticated
+  using (public.get_current_user_role() = 'owner')
+  with check (public.get_current_user_role() = 'owner');
+
+drop policy if exists "Owners can delete transactions" on public.transactions;
+create policy "Owners can delete transactions"
+  on public.transactions for delete to authenticated
+  using (public.get_current_user_role() = 'owner');
+
+drop policy if exists "Store staff can read transaction items" on public.transaction_items;
+create policy "Store staff can read transaction items"
+  on public.transaction_items for select to authenticated
+  using (
+    exists (
+      select 1 from public.transactions t
+      where t.id = transaction_id
+        and public.can_manage_store(t.store_id)
+    )
+  );
+
+drop policy if exists "Cashiers can add items to their sales" on public.transaction_items;
+create policy "Cashiers can add items to their sales"
+  on public.transaction_items for insert to authenticated
+  with check (
+    exists (
+      select 1 from public.transactions t
+      where t.id = transaction_id
+        and t.cashier_id = auth.uid()
+        and t.store_id = public.get_current_store_id()
+    )
+  );
+
+drop policy if exists "Owners can edit transaction items" on public.transaction_items;
+create policy "Owners can edit transaction items"
+  on public.transaction_items for all to authenticated
+  using (public.get_current_user_role() = 'owner')
+  with check (public.get_current_user_role() = 'owner');
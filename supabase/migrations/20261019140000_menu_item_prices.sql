@@ -0,0 +1,166 @@
+-- Menu items are sold at a different price per payment method: QRIS sales
+-- carry a surcharge on top of the cash price. menu_items.price stays as the
+-- cash price for older clients; menu_item_prices is the price list.
+create table if not exists public.menu_item_prices (
+  menu_item_id uuid not null references public.menu_items(id) on delete cascade,
+  payment_method text not null check (payment_method in ('cash', 'qris')),
+  price numeric(12, 2) not null check (price >= 0),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  primary key (menu_item_id, payment_method)
+);
+
+drop trigger if exists set_updated_at on public.menu_item_prices;
+create trigger set_updated_at before update on public.menu_item_prices
+  for each row execute function public.set_updated_at();
+
+-- Until now both methods were charged the single price
+insert into public.menu_item_prices (menu_item_id, payment_method, price)
+select item.id, method.payment_method, item.price
+from public.menu_items item
+cross join (values ('cash'), ('qris')) as method(payment_method)
+on conflict (menu_item_id, payment_method) do nothing;
+
+alter table public.menu_item_prices enable row level security;
+
+drop policy if exists "Signed-in users can read menu prices" on public.menu_item_prices;
+create policy "Signed-in users can read menu prices"
+  on public.menu_item_prices for select to authenticated
+  using (true);
+
+drop policy if exists "Owners can edit menu prices" on public.menu_item_prices;
+create policy "Owners can edit menu prices"
+  on public.menu_item_prices for all to authenticated
+  using (public.get_current_user_role() = 'owner')
+  with check (public.get_current_user_role() = 'owner');
+
+-- The cash price of each line at the time of sale. price_per_unit minus
+-- base_price is the surcharge for the payment method used. Lines recorded
+-- before this column existed had no surcharge.
+alter table public.transaction_items
+  add column if not exists base_price numeric(12, 2);
+
+update public.transaction_items
+set base_price = price_per_unit
+where base_price is null;
+
+-- Same as the previous version, plus base_price on each line. Sales queued by
+-- older clients don't send it and get the current cash price instead.
+create or replace function public.checkout_transaction(
+  p_client_operation_id uuid,
+  p_payment_method text,
+  p_items jsonb
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_store_id uuid;
+  v_transaction_id uuid;
+  v_required record;
+  v_remaining integer;
+begin
+  if p_client_operation_id is null then
+    raise exception 'missing_client_operation_id' using errcode = 'P0001';
+  end if;
+
+  select id into v_transaction_id
+  from transactions
+  where client_operation_id = p_client_operation_id;
+
+  if v_transaction_id is not null then
+    return v_transaction_id;
+  end if;
+
+  select store_id into v_store_id
+  from profiles
+  where id = auth.uid();
+
+  if v_store_id is null then
+    raise exception 'no_store_assigned' using errcode = 'P0001';
+  end if;
+
+  if p_items is null or jsonb_array_length(p_items) = 0 then
+    raise exception 'empty_cart' using errcode = 'P0001';
+  end if;
+
+  if p_payment_method not in ('cash', 'qris') then
+    raise exception 'invalid_payment_method' using errcode = 'P0001';
+  end if;
+
+  begin
+    -- Decrement every stock item linked to the sold menu items. Rows are
+    -- updated in a stable order so two tills selling the same items can't
+    -- deadlock; the row lock makes the second till wait for the first.
+    for v_required in
+      select link.stock_item_id, sum((item->>'quantity')::integer) as quantity
+      from jsonb_array_elements(p_items) item
+      join stock_item_menu_items link
+        on link.menu_item_id = (item->>'menu_item_id')::uuid
+      group by link.stock_item_id
+      order by link.stock_item_id
+    loop
+      update store_stocks
+      set quantity = quantity - v_required.quantity,
+          updated_at = now()
+      where store_id = v_store_id
+        and stock_item_id = v_required.stock_item_id
+        and selling_date = current_date
+        and is_active
+      returning quantity into v_remaining;
+
+      if not found or v_remaining < 0 then
+        raise exception 'insufficient_stock'
+          using errcode = 'P0001',
+                detail = json_build_object(
+                  'stock_item_id', v_required.stock_item_id,
+                  'available', coalesce(v_remaining + v_required.quantity, 0),
+                  'requested', v_required.quantity
+                )::text;
+      end if;
+    end loop;
+
+    insert into transactions (store_id, cashier_id, payment_method, status, total_amount, client_operation_id)
+    select v_store_id,
+           auth.uid(),
+           p_payment_method,
+           'completed',
+           sum((item->>'quantity')::integer * (item->>'price_per_unit')::numeric),
+           p_client_operation_id
+    from jsonb_array_elements(p_items) item
+    returning id into v_transaction_id;
+  exception
+    -- A concurrent replay of the same sale committed first. The stock
+    -- decrements above are rolled back with this block.
+    when unique_violation then
+      select id into v_transaction_id
+      from transactions
+      where client_operation_id = p_client_operation_id;
+
+      return v_transaction_id;
+  end;
+
+  insert into transaction_items (transaction_id, menu_item_id, quantity, price_per_unit, base_price, total_price)
+  select v_transaction_id,
+         (item->>'menu_item_id')::uuid,
+         (item->>'quantity')::integer,
+         (item->>'price_per_unit')::numeric,
+         coalesce(
+           (item->>'base_price')::numeric,
+           cash_price.price,
+           menu_item.price,
+           (item->>'price_per_unit')::numeric
+         ),
+         (item->>'quantity')::integer * (item->>'price_per_unit')::numeric
+  from jsonb_array_elements(p_items) item
+  left join menu_items menu_item
+    on menu_item.id = (item->>'menu_item_id')::uuid
+  left join menu_item_prices cash_price
+    on cash_price.menu_item_id = (item->>'menu_item_id')::uuid
+   and cash_price.payment_method = 'cash';
+
+  return v_transaction_id;
+end;
+$$;
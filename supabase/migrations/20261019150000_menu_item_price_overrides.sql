@@ -0,0 +1,41 @@
+-- Stores can sell a menu item at their own price, e.g. mall stores charging
+-- more than street kiosks. An override targets either one store or a whole
+-- branch; at the till the store's override wins over its branch's, which wins
+-- over the item's price list.
+create table if not exists public.menu_item_price_overrides (
+  id uuid primary key default gen_random_uuid(),
+  menu_item_id uuid not null references public.menu_items(id) on delete cascade,
+  store_id uuid references public.stores(id) on delete cascade,
+  branch_id uuid references public.branches(id) on delete cascade,
+  cash_price numeric(12, 2) not null check (cash_price >= 0),
+  qris_price numeric(12, 2) not null check (qris_price >= 0),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  check (num_nonnulls(store_id, branch_id) = 1),
+  unique (menu_item_id, store_id),
+  unique (menu_item_id, branch_id)
+);
+
+create index if not exists menu_item_price_overrides_menu_item_id_idx
+  on public.menu_item_price_overrides (menu_item_id);
+
+drop trigger if exists set_updated_at on public.menu_item_price_overrides;
+create trigger set_updated_at before update on public.menu_item_price_overrides
+  for each row execute function public.set_updated_at();
+
+alter table public.menu_item_price_overrides enable row level security;
+
+drop policy if exists "Signed-in users can read price overrides" on public.menu_item_price_overrides;
+create policy "Signed-in users can read price overrides"
+  on public.menu_item_price_overrides for select to authenticated
+  using (true);
+
+drop policy if exists "Owners can edit price overrides" on public.menu_item_price_overrides;
+create policy "Owners can edit price overrides"
+  on public.menu_item_price_overrides for all to authenticated
+  using (public.get_current_user_role() = 'owner')
+  with check (public.get_current_user_role() = 'owner');
+
+-- checkout_transaction only falls back to the item's cash price for lines
+-- without a base price, so it needs no change: the till resolves the store's
+-- price and sends it as price_per_unit and base_price.
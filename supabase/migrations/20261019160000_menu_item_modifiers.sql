@@ -0,0 +1,251 @@
+-- Modifiers let one menu item be sold in several ways ("Iced Coffee, large,
+-- less sugar, extra shot") instead of needing a menu item per combination.
+-- Each menu item has its own groups; a group's options add a price delta to
+-- the item's price, the same for every payment method.
+create table if not exists public.modifier_groups (
+  id uuid primary key default gen_random_uuid(),
+  menu_item_id uuid not null references public.menu_items(id) on delete cascade,
+  name text not null,
+  selection text not null default 'single' check (selection in ('single', 'multiple')),
+  is_required boolean not null default false,
+  min_select integer not null default 0 check (min_select >= 0),
+  max_select integer check (max_select is null or max_select >= 1),
+  sort_order integer not null default 0,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  check (max_select is null or max_select >= min_select)
+);
+
+create index if not exists modifier_groups_menu_item_id_idx
+  on public.modifier_groups (menu_item_id);
+
+create table if not exists public.modifier_options (
+  id uuid primary key default gen_random_uuid(),
+  group_id uuid not null references public.modifier_groups(id) on delete cascade,
+  name text not null,
+  price_delta numeric(12, 2) not null default 0,
+  sort_order integer not null default 0,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists modifier_options_group_id_idx
+  on public.modifier_options (group_id);
+
+-- The modifiers chosen for a sold line. Names and deltas are copied so the
+-- sale still reads the same after the menu changes or the option is removed.
+create table if not exists public.transaction_item_modifiers (
+  id uuid primary key default gen_random_uuid(),
+  transaction_item_id uuid not null references public.transaction_items(id) on delete cascade,
+  modifier_option_id uuid references public.modifier_options(id) on delete set null,
+  group_name text not null,
+  option_name text not null,
+  price_delta numeric(12, 2) not null default 0,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists transaction_item_modifiers_transaction_item_id_idx
+  on public.transaction_item_modifiers (transaction_item_id);
+
+do $$
+declare
+  v_table text;
+begin
+  foreach v_table in array array['modifier_groups', 'modifier_options']
+  loop
+    execute format('drop trigger if exists set_updated_at on public.%I', v_table);
+    execute format(
+      'create trigger set_updated_at before update on public.%I
+         for each row execute function public.set_updated_at()',
+      v_table
+    );
+  end loop;
+end;
+$$;
+
+alter table public.modifier_groups enable row level security;
+alter table public.modifier_options enable row level security;
+alter table public.transaction_item_modifiers enable row level security;
+
+drop policy if exists "Signed-in users can read modifier groups" on public.modifier_groups;
+create policy "Signed-in users can read modifier groups"
+  on public.modifier_groups for select to authenticated
+  using (true);
+
+drop policy if exists "Owners can edit modifier groups" on public.modifier_groups;
+create policy "Owners can edit modifier groups"
+  on public.modifier_groups for all to authenticated
+  using (public.get_current_user_role() = 'owner')
+  with check (public.get_current_user_role() = 'owner');
+
+drop policy if exists "Signed-in users can read modifier options" on public.modifier_options;
+create policy "Signed-in users can read modifier options"
+  on public.modifier_options for select to authenticated
+  using (true);
+
+drop policy if exists "Owners can edit modifier options" on public.modifier_options;
+create policy "Owners can edit modifier options"
+  on public.modifier_options for all to authenticated
+  using (public.get_current_user_role() = 'owner')
+  with check (public.get_current_user_role() = 'owner');
+
+-- Written by checkout_transaction only
+drop policy if exists "Store staff can read sold modifiers" on public.transaction_item_modifiers;
+create policy "Store staff can read sold modifiers"
+  on public.transaction_item_modifiers for select to authenticated
+  using (
+    exists (
+      select 1
+      from public.transaction_items ti
+      join public.transactions t on t.id = ti.transaction_id
+      where ti.id = transaction_item_id
+        and public.can_manage_store(t.store_id)
+    )
+  );
+
+drop policy if exists "Owners can edit sold modifiers" on public.transaction_item_modifiers;
+create policy "Owners can edit sold modifiers"
+  on public.transaction_item_modifiers for all to authenticated
+  using (public.get_current_user_role() = 'owner')
+  with check (public.get_current_user_role() = 'owner');
+
+-- Same as the previous version, except that lines are inserted one at a time
+-- so each line's modifiers can be recorded against it. A line's modifiers are
+-- sent as [{ option_id, group_name, option_name, price_delta }]; its
+-- price_per_unit and base_price already include the deltas.
+create or replace function public.checkout_transaction(
+  p_client_operation_id uuid,
+  p_payment_method text,
+  p_items jsonb
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_store_id uuid;
+  v_transaction_id uuid;
+  v_transaction_item_id uuid;
+  v_required record;
+  v_remaining integer;
+  v_item jsonb;
+begin
+  if p_client_operation_id is null then
+    raise exception 'missing_client_operation_id' using errcode = 'P0001';
+  end if;
+
+  select id into v_transaction_id
+  from transactions
+  where client_operation_id = p_client_operation_id;
+
+  if v_transaction_id is not null then
+    return v_transaction_id;
+  end if;
+
+  select store_id into v_store_id
+  from profiles
+  where id = auth.uid();
+
+  if v_store_id is null then
+    raise exception 'no_store_assigned' using errcode = 'P0001';
+  end if;
+
+  if p_items is null or jsonb_array_length(p_items) = 0 then
+    raise exception 'empty_cart' using errcode = 'P0001';
+  end if;
+
+  if p_payment_method not in ('cash', 'qris') then
+    raise exception 'invalid_payment_method' using errcode = 'P0001';
+  end if;
+
+  begin
+    -- Decrement every stock item linked to the sold menu items. Rows are
+    -- updated in a stable order so two tills selling the same items can't
+    -- deadlock; the row lock makes the second till wait for the first.
+    for v_required in
+      select link.stock_item_id, sum((item->>'quantity')::integer) as quantity
+      from jsonb_array_elements(p_items) item
+      join stock_item_menu_items link
+        on link.menu_item_id = (item->>'menu_item_id')::uuid
+      group by link.stock_item_id
+      order by link.stock_item_id
+    loop
+      update store_stocks
+      set quantity = quantity - v_required.quantity,
+          updated_at = now()
+      where store_id = v_store_id
+        and stock_item_id = v_required.stock_item_id
+        and selling_date = current_date
+        and is_active
+      returning quantity into v_remaining;
+
+      if not found or v_remaining < 0 then
+        raise exception 'insufficient_stock'
+          using errcode = 'P0001',
+                detail = json_build_object(
+                  'stock_item_id', v_required.stock_item_id,
+                  'available', coalesce(v_remaining + v_required.quantity, 0),
+                  'requested', v_required.quantity
+                )::text;
+      end if;
+    end loop;
+
+    insert into transactions (store_id, cashier_id, payment_method, status, total_amount, client_operation_id)
+    select v_store_id,
+           auth.uid(),
+           p_payment_method,
+           'completed',
+           sum((item->>'quantity')::integer * (item->>'price_per_unit')::numeric),
+           p_client_operation_id
+    from jsonb_array_elements(p_items) item
+    returning id into v_transaction_id;
+  exception
+    -- A concurrent replay of the same sale committed first. The stock
+    -- decrements above are rolled back with this block.
+    when unique_violation then
+      select id into v_transaction_id
+      from transactions
+      where client_operation_id = p_client_operation_id;
+
+      return v_transaction_id;
+  end;
+
+  for v_item in select value from jsonb_array_elements(p_items)
+  loop
+    insert into transaction_items (transaction_id, menu_item_id, quantity, price_per_unit, base_price, total_price)
+    select v_transaction_id,
+           (v_item->>'menu_item_id')::uuid,
+           (v_item->>'quantity')::integer,
+           (v_item->>'price_per_unit')::numeric,
+           coalesce(
+             (v_item->>'base_price')::numeric,
+             cash_price.price,
+             menu_item.price,
+             (v_item->>'price_per_unit')::numeric
+           ),
+           (v_item->>'quantity')::integer * (v_item->>'price_per_unit')::numeric
+    from (select 1) as line
+    left join menu_items menu_item
+      on menu_item.id = (v_item->>'menu_item_id')::uuid
+    left join menu_item_prices cash_price
+      on cash_price.menu_item_id = (v_item->>'menu_item_id')::uuid
+     and cash_price.payment_method = 'cash'
+    returning id into v_transaction_item_id;
+
+    -- The option may have been removed since an offline sale was queued;
+    -- the copied names still record what was sold
+    insert into transaction_item_modifiers (transaction_item_id, modifier_option_id, group_name, option_name, price_delta)
+    select v_transaction_item_id,
+           modifier_option.id,
+           modifier->>'group_name',
+           modifier->>'option_name',
+           coalesce((modifier->>'price_delta')::numeric, 0)
+    from jsonb_array_elements(coalesce(v_item->'modifiers', '[]'::jsonb)) modifier
+    left join modifier_options modifier_option
+      on modifier_option.id = (modifier->>'option_id')::uuid;
+  end loop;
+
+  return v_transaction_id;
+end;
+$$;
@@ -0,0 +1,255 @@
+-- Bundles are menu items sold as a package of other menu items, e.g. "coffee
+-- + sandwich" at a discount. A bundle is made of slots; each slot is filled
+-- by one of its menu items, chosen at the till when it offers more than one.
+-- Stock is drawn from the chosen components, never from the bundle itself.
+alter table public.menu_items
+  add column if not exists item_type text not null default 'single'
+    check (item_type in ('single', 'bundle'));
+
+create table if not exists public.bundle_slots (
+  id uuid primary key default gen_random_uuid(),
+  bundle_id uuid not null references public.menu_items(id) on delete cascade,
+  name text not null,
+  quantity integer not null default 1 check (quantity > 0),
+  sort_order integer not null default 0,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists bundle_slots_bundle_id_idx
+  on public.bundle_slots (bundle_id);
+
+create table if not exists public.bundle_slot_items (
+  slot_id uuid not null references public.bundle_slots(id) on delete cascade,
+  menu_item_id uuid not null references public.menu_items(id) on delete cascade,
+  sort_order integer not null default 0,
+  created_at timestamptz not null default now(),
+  primary key (slot_id, menu_item_id)
+);
+
+-- The components sold with a bundle line. quantity is the total for the line
+-- and allocated_amount the share of the line's total credited to the
+-- component, so reports can count revenue per menu item.
+create table if not exists public.transaction_item_components (
+  id uuid primary key default gen_random_uuid(),
+  transaction_item_id uuid not null references public.transaction_items(id) on delete cascade,
+  menu_item_id uuid not null references public.menu_items(id) on delete restrict,
+  slot_name text not null,
+  quantity integer not null check (quantity > 0),
+  allocated_amount numeric(12, 2) not null default 0,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists transaction_item_components_transaction_item_id_idx
+  on public.transaction_item_components (transaction_item_id);
+
+drop trigger if exists set_updated_at on public.bundle_slots;
+create trigger set_updated_at before update on public.bundle_slots
+  for each row execute function public.set_updated_at();
+
+alter table public.bundle_slots enable row level security;
+alter table public.bundle_slot_items enable row level security;
+alter table public.transaction_item_components enable row level security;
+
+drop policy if exists "Signed-in users can read bundle slots" on public.bundle_slots;
+create policy "Signed-in users can read bundle slots"
+  on public.bundle_slots for select to authenticated
+  using (true);
+
+drop policy if exists "Owners can edit bundle slots" on public.bundle_slots;
+create policy "Owners can edit bundle slots"
+  on public.bundle_slots for all to authenticated
+  using (public.get_current_user_role() = 'owner')
+  with check (public.get_current_user_role() = 'owner');
+
+drop policy if exists "Signed-in users can read bundle slot items" on public.bundle_slot_items;
+create policy "Signed-in users can read bundle slot items"
+  on public.bundle_slot_items for select to authenticated
+  using (true);
+
+drop policy if exists "Owners can edit bundle slot items" on public.bundle_slot_items;
+create policy "Owners can edit bundle slot items"
+  on public.bundle_slot_items for all to authenticated
+  using (public.get_current_user_role() = 'owner')
+  with check (public.get_current_user_role() = 'owner');
+
+-- Written by checkout_transaction only
+drop policy if exists "Store staff can read sold components" on public.transaction_item_components;
+create policy "Store staff can read sold components"
+  on public.transaction_item_components for select to authenticated
+  using (
+    exists (
+      select 1
+      from public.transaction_items ti
+      join public.transactions t on t.id = ti.transaction_id
+      where ti.id = transaction_item_id
+        and public.can_manage_store(t.store_id)
+    )
+  );
+
+drop policy if exists "Owners can edit sold components" on public.transaction_item_components;
+create policy "Owners can edit sold components"
+  on public.transaction_item_components for all to authenticated
+  using (public.get_current_user_role() = 'owner')
+  with check (public.get_current_user_role() = 'owner');
+
+-- Same as the previous version, except that a line sent with components
+-- ([{ menu_item_id, slot_name, quantity, allocated_amount }], quantity per
+-- bundle) draws stock through them instead of through its own menu item, and
+-- records them against the line.
+create or replace function public.checkout_transaction(
+  p_client_operation_id uuid,
+  p_payment_method text,
+  p_items jsonb
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_store_id uuid;
+  v_transaction_id uuid;
+  v_transaction_item_id uuid;
+  v_required record;
+  v_remaining integer;
+  v_item jsonb;
+begin
+  if p_client_operation_id is null then
+    raise exception 'missing_client_operation_id' using errcode = 'P0001';
+  end if;
+
+  select id into v_transaction_id
+  from transactions
+  where client_operation_id = p_client_operation_id;
+
+  if v_transaction_id is not null then
+    return v_transaction_id;
+  end if;
+
+  select store_id into v_store_id
+  from profiles
+  where id = auth.uid();
+
+  if v_store_id is null then
+    raise exception 'no_store_assigned' using errcode = 'P0001';
+  end if;
+
+  if p_items is null or jsonb_array_length(p_items) = 0 then
+    raise exception 'empty_cart' using errcode = 'P0001';
+  end if;
+
+  if p_payment_method not in ('cash', 'qris') then
+    raise exception 'invalid_payment_method' using errcode = 'P0001';
+  end if;
+
+  begin
+    -- Decrement every stock item linked to the sold menu items. Rows are
+    -- updated in a stable order so two tills selling the same items can't
+    -- deadlock; the row lock makes the second till wait for the first.
+    for v_required in
+      with sold as (
+        select (item->>'menu_item_id')::uuid as menu_item_id,
+               (item->>'quantity')::integer as quantity
+        from jsonb_array_elements(p_items) item
+        where coalesce(jsonb_array_length(item->'components'), 0) = 0
+        union all
+        select (component->>'menu_item_id')::uuid,
+               (item->>'quantity')::integer * (component->>'quantity')::integer
+        from jsonb_array_elements(p_items) item
+        cross join jsonb_array_elements(item->'components') component
+        where coalesce(jsonb_array_length(item->'components'), 0) > 0
+      )
+      select link.stock_item_id, sum(sold.quantity) as quantity
+      from sold
+      join stock_item_menu_items link
+        on link.menu_item_id = sold.menu_item_id
+      group by link.stock_item_id
+      order by link.stock_item_id
+    loop
+      update store_stocks
+      set quantity = quantity - v_required.quantity,
+          updated_at = now()
+      where store_id = v_store_id
+        and stock_item_id = v_required.stock_item_id
+        and selling_date = current_date
+        and is_active
+      returning quantity into v_remaining;
+
+      if not found or v_remaining < 0 then
+        raise exception 'insufficient_stock'
+          using errcode = 'P0001',
+                detail = json_build_object(
+                  'stock_item_id', v_required.stock_item_id,
+                  'available', coalesce(v_remaining + v_required.quantity, 0),
+                  'requested', v_required.quantity
+                )::text;
+      end if;
+    end loop;
+
+    insert into transactions (store_id, cashier_id, payment_method, status, total_amount, client_operation_id)
+    select v_store_id,
+           auth.uid(),
+           p_payment_method,
+           'completed',
+           sum((item->>'quantity')::integer * (item->>'price_per_unit')::numeric),
+           p_client_operation_id
+    from jsonb_array_elements(p_items) item
+    returning id into v_transaction_id;
+  exception
+    -- A concurrent replay of the same sale committed first. The stock
+    -- decrements above are rolled back with this block.
+    when unique_violation then
+      select id into v_transaction_id
+      from transactions
+      where client_operation_id = p_client_operation_id;
+
+      return v_transaction_id;
+  end;
+
+  for v_item in select value from jsonb_array_elements(p_items)
+  loop
+    insert into transaction_items (transaction_id, menu_item_id, quantity, price_per_unit, base_price, total_price)
+    select v_transaction_id,
+           (v_item->>'menu_item_id')::uuid,
+           (v_item->>'quantity')::integer,
+           (v_item->>'price_per_unit')::numeric,
+           coalesce(
+             (v_item->>'base_price')::numeric,
+             cash_price.price,
+             menu_item.price,
+             (v_item->>'price_per_unit')::numeric
+           ),
+           (v_item->>'quantity')::integer * (v_item->>'price_per_unit')::numeric
+    from (select 1) as line
+    left join menu_items menu_item
+      on menu_item.id = (v_item->>'menu_item_id')::uuid
+    left join menu_item_prices cash_price
+      on cash_price.menu_item_id = (v_item->>'menu_item_id')::uuid
+     and cash_price.payment_method = 'cash'
+    returning id into v_transaction_item_id;
+
+    -- The option may have been removed since an offline sale was queued;
+    -- the copied names still record what was sold
+    insert into transaction_item_modifiers (transaction_item_id, modifier_option_id, group_name, option_name, price_delta)
+    select v_transaction_item_id,
+           modifier_option.id,
+           modifier->>'group_name',
+           modifier->>'option_name',
+           coalesce((modifier->>'price_delta')::numeric, 0)
+    from jsonb_array_elements(coalesce(v_item->'modifiers', '[]'::jsonb)) modifier
+    left join modifier_options modifier_option
+      on modifier_option.id = (modifier->>'option_id')::uuid;
+
+    insert into transaction_item_components (transaction_item_id, menu_item_id, slot_name, quantity, allocated_amount)
+    select v_transaction_item_id,
+           (component->>'menu_item_id')::uuid,
+           component->>'slot_name',
+           (v_item->>'quantity')::integer * (component->>'quantity')::integer,
+           coalesce((component->>'allocated_amount')::numeric, 0)
+    from jsonb_array_elements(coalesce(v_item->'components', '[]'::jsonb)) component;
+  end loop;
+
+  return v_transaction_id;
+end;
+$$;
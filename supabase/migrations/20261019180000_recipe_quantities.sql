@@ -0,0 +1,383 @@
+-- Links between stock items and menu items become recipe lines: selling a
+-- latte can use 18 g of beans and 200 ml of milk instead of one unit of
+-- each. The amount may be given in another unit of the same kind as the
+-- stock item's (g for a stock item counted in kg), and is converted when a
+-- sale is recorded.
+alter table public.stock_item_menu_items
+  add column if not exists quantity numeric(12, 3) not null default 1 check (quantity > 0),
+  add column if not exists unit text;
+
+-- Recipe amounts are rarely whole units of stock, so store stock and the
+-- manual adjustments made to it are no longer counted in integers
+alter table public.store_stocks
+  alter column quantity type numeric(12, 3);
+
+alter table public.stock_adjustments
+  alter column delta type numeric(12, 3);
+
+alter table public.stock_conflicts
+  alter column base_quantity type numeric(12, 3),
+  alter column delta type numeric(12, 3),
+  alter column requested_quantity type numeric(12, 3),
+  alter column server_quantity type numeric(12, 3),
+  alter column resolved_quantity type numeric(12, 3);
+
+-- Converts an amount between units of the same kind. A missing unit means
+-- the target unit; units the function doesn't know, or of different kinds,
+-- are taken as equal, as the app doesn't let them be saved together.
+create or replace function public.convert_stock_unit(
+  p_quantity numeric,
+  p_from_unit text,
+  p_to_unit text
+)
+returns numeric
+language sql
+immutable
+as $$
+  with units (unit, kind, factor) as (
+    values
+      ('g', 'mass', 1::numeric), ('gram', 'mass', 1), ('kg', 'mass', 1000),
+      ('ml', 'volume', 1), ('l', 'volume', 1000), ('liter', 'volume', 1000), ('litre', 'volume', 1000)
+  )
+  select coalesce(
+    (
+      select p_quantity * from_unit.factor / to_unit.factor
+      from units from_unit, units to_unit
+      where from_unit.unit = lower(trim(p_from_unit))
+        and to_unit.unit = lower(trim(p_to_unit))
+        and from_unit.kind = to_unit.kind
+    ),
+    p_quantity
+  );
+$$;
+
+-- The same as before with numeric quantities. The integer version is
+-- dropped so PostgREST doesn't have two candidates to choose from.
+drop function if exists public.adjust_store_stock(uuid, uuid, uuid, date, integer, integer, timestamptz, boolean);
+
+create or replace function public.adjust_store_stock(
+  p_client_operation_id uuid,
+  p_store_id uuid,
+  p_stock_item_id uuid,
+  p_selling_date date,
+  p_delta numeric,
+  p_base_quantity numeric,
+  p_base_updated_at timestamptz,
+  p_activate boolean default false
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_stock store_stocks%rowtype;
+  v_has_conflict boolean;
+begin
+  if not public.can_manage_store_stock(p_store_id) then
+    raise exception 'not_authorized' using errcode = 'P0001';
+  end if;
+
+  select * into v_stock
+  from store_stocks
+  where store_id = p_store_id
+    and stock_item_id = p_stock_item_id
+    and selling_date = p_selling_date
+  for update;
+
+  -- Replays of an operation that was already handled
+  if exists (
+    select 1 from stock_adjustments
+    where client_operation_id = p_client_operation_id
+      and stock_item_id = p_stock_item_id
+  ) then
+    return jsonb_build_object('status', 'applied', 'quantity', v_stock.quantity, 'updated_at', v_stock.updated_at);
+  end if;
+
+  if exists (
+    select 1 from stock_conflicts
+    where client_operation_id = p_client_operation_id
+      and stock_item_id = p_stock_item_id
+  ) then
+    return jsonb_build_object('status', 'conflict', 'quantity', v_stock.quantity, 'updated_at', v_stock.updated_at);
+  end if;
+
+  select exists (
+    select 1 from stock_adjustments
+    where store_id = p_store_id
+      and stock_item_id = p_stock_item_id
+      and selling_date = p_selling_date
+      and (p_base_updated_at is null or created_at > p_base_updated_at)
+  ) into v_has_conflict;
+
+  if v_has_conflict then
+    insert into stock_conflicts (
+      client_operation_id, stock_item_id, store_id, selling_date,
+      base_quantity, base_updated_at, delta, requested_quantity,
+      server_quantity, created_by
+    )
+    values (
+      p_client_operation_id, p_stock_item_id, p_store_id, p_selling_date,
+      p_base_quantity, p_base_updated_at, p_delta, greatest(p_base_quantity + p_delta, 0),
+      v_stock.quantity, auth.uid()
+    );
+
+    return jsonb_build_object('status', 'conflict', 'quantity', v_stock.quantity, 'updated_at', v_stock.updated_at);
+  end if;
+
+  if v_stock.id is null then
+    insert into store_stocks (store_id, stock_item_id, selling_date, quantity, is_active)
+    values (p_store_id, p_stock_item_id, p_selling_date, greatest(p_delta, 0), true)
+    returning * into v_stock;
+  else
+    update store_stocks
+    set quantity = greatest(quantity + p_delta, 0),
+        is_active = is_active or p_activate,
+        updated_at = now()
+    where id = v_stock.id
+    returning * into v_stock;
+  end if;
+
+  insert into stock_adjustments (client_operation_id, stock_item_id, store_id, selling_date, delta, created_by)
+  values (p_client_operation_id, p_stock_item_id, p_store_id, p_selling_date, p_delta, auth.uid());
+
+  return jsonb_build_object('status', 'applied', 'quantity', v_stock.quantity, 'updated_at', v_stock.updated_at);
+end;
+$$;
+
+grant execute on function public.adjust_store_stock(uuid, uuid, uuid, date, numeric, numeric, timestamptz, boolean) to authenticated;
+
+-- The same as before with a numeric delta
+create or replace function public.resolve_stock_conflict(
+  p_conflict_id uuid,
+  p_resolution text
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_conflict stock_conflicts%rowtype;
+  v_stock store_stocks%rowtype;
+  v_delta numeric := 0;
+begin
+  select * into v_conflict
+  from stock_conflicts
+  where id = p_conflict_id
+  for update;
+
+  if v_conflict.id is null then
+    raise exception 'conflict_not_found' using errcode = 'P0001';
+  end if;
+
+  if not public.can_manage_store_stock(v_conflict.store_id) then
+    raise exception 'not_authorized' using errcode = 'P0001';
+  end if;
+
+  if v_conflict.resolved_at is not null then
+    raise exception 'conflict_already_resolved' using errcode = 'P0001';
+  end if;
+
+  if p_resolution not in ('server', 'device') then
+    raise exception 'invalid_resolution' using errcode = 'P0001';
+  end if;
+
+  select * into v_stock
+  from store_stocks
+  where store_id = v_conflict.store_id
+    and stock_item_id = v_conflict.stock_item_id
+    and selling_date = v_conflict.selling_date
+  for update;
+
+  if p_resolution = 'device' then
+    if v_stock.id is null then
+      insert into store_stocks (store_id, stock_item_id, selling_date, quantity, is_active)
+      values (v_conflict.store_id, v_conflict.stock_item_id, v_conflict.selling_date, v_conflict.requested_quantity, true)
+      returning * into v_stock;
+      v_delta := v_conflict.requested_quantity;
+    else
+      v_delta := v_conflict.requested_quantity - v_stock.quantity;
+      update store_stocks
+      set quantity = v_conflict.requested_quantity,
+          updated_at = now()
+      where id = v_stock.id
+      returning * into v_stock;
+    end if;
+  end if;
+
+  insert into stock_adjustments (client_operation_id, stock_item_id, store_id, selling_date, delta, created_by)
+  values (gen_random_uuid(), v_conflict.stock_item_id, v_conflict.store_id, v_conflict.selling_date, v_delta, auth.uid());
+
+  update stock_conflicts
+  set resolution = p_resolution,
+      resolved_quantity = v_stock.quantity,
+      resolved_by = auth.uid(),
+      resolved_at = now()
+  where id = v_conflict.id;
+
+  return jsonb_build_object('quantity', v_stock.quantity, 'updated_at', v_stock.updated_at);
+end;
+$$;
+
+-- Same as the previous version, except that each sold menu item uses its
+-- recipe amounts of stock, converted to the stock items' units
+create or replace function public.checkout_transaction(
+  p_client_operation_id uuid,
+  p_payment_method text,
+  p_items jsonb
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_store_id uuid;
+  v_transaction_id uuid;
+  v_transaction_item_id uuid;
+  v_required record;
+  v_remaining numeric;
+  v_item jsonb;
+begin
+  if p_client_operation_id is null then
+    raise exception 'missing_client_operation_id' using errcode = 'P0001';
+  end if;
+
+  select id into v_transaction_id
+  from transactions
+  where client_operation_id = p_client_operation_id;
+
+  if v_transaction_id is not null then
+    return v_transaction_id;
+  end if;
+
+  select store_id into v_store_id
+  from profiles
+  where id = auth.uid();
+
+  if v_store_id is null then
+    raise exception 'no_store_assigned' using errcode = 'P0001';
+  end if;
+
+  if p_items is null or jsonb_array_length(p_items) = 0 then
+    raise exception 'empty_cart' using errcode = 'P0001';
+  end if;
+
+  if p_payment_method not in ('cash', 'qris') then
+    raise exception 'invalid_payment_method' using errcode = 'P0001';
+  end if;
+
+  begin
+    -- Decrement every stock item used by the sold menu items. Rows are
+    -- updated in a stable order so two tills selling the same items can't
+    -- deadlock; the row lock makes the second till wait for the first.
+    for v_required in
+      with sold as (
+        select (item->>'menu_item_id')::uuid as menu_item_id,
+               (item->>'quantity')::integer as quantity
+        from jsonb_array_elements(p_items) item
+        where coalesce(jsonb_array_length(item->'components'), 0) = 0
+        union all
+        select (component->>'menu_item_id')::uuid,
+               (item->>'quantity')::integer * (component->>'quantity')::integer
+        from jsonb_array_elements(p_items) item
+        cross join jsonb_array_elements(item->'components') component
+        where coalesce(jsonb_array_length(item->'components'), 0) > 0
+      )
+      select link.stock_item_id,
+             sum(sold.quantity * public.convert_stock_unit(link.quantity, link.unit, stock_item.unit)) as quantity
+      from sold
+      join stock_item_menu_items link
+        on link.menu_item_id = sold.menu_item_id
+      join stock_items stock_item
+        on stock_item.id = link.stock_item_id
+      group by link.stock_item_id
+      order by link.stock_item_id
+    loop
+      update store_stocks
+      set quantity = quantity - v_required.quantity,
+          updated_at = now()
+      where store_id = v_store_id
+        and stock_item_id = v_required.stock_item_id
+        and selling_date = current_date
+        and is_active
+      returning quantity into v_remaining;
+
+      if not found or v_remaining < 0 then
+        raise exception 'insufficient_stock'
+          using errcode = 'P0001',
+                detail = json_build_object(
+                  'stock_item_id', v_required.stock_item_id,
+                  'available', coalesce(v_remaining + v_required.quantity, 0),
+                  'requested', v_required.quantity
+                )::text;
+      end if;
+    end loop;
+
+    insert into transactions (store_id, cashier_id, payment_method, status, total_amount, client_operation_id)
+    select v_store_id,
+           auth.uid(),
+           p_payment_method,
+           'completed',
+           sum((item->>'quantity')::integer * (item->>'price_per_unit')::numeric),
+           p_client_operation_id
+    from jsonb_array_elements(p_items) item
+    returning id into v_transaction_id;
+  exception
+    -- A concurrent replay of the same sale committed first. The stock
+    -- decrements above are rolled back with this block.
+    when unique_violation then
+      select id into v_transaction_id
+      from transactions
+      where client_operation_id = p_client_operation_id;
+
+      return v_transaction_id;
+  end;
+
+  for v_item in select value from jsonb_array_elements(p_items)
+  loop
+    insert into transaction_items (transaction_id, menu_item_id, quantity, price_per_unit, base_price, total_price)
+    select v_transaction_id,
+           (v_item->>'menu_item_id')::uuid,
+           (v_item->>'quantity')::integer,
+           (v_item->>'price_per_unit')::numeric,
+           coalesce(
+             (v_item->>'base_price')::numeric,
+             cash_price.price,
+             menu_item.price,
+             (v_item->>'price_per_unit')::numeric
+           ),
+           (v_item->>'quantity')::integer * (v_item->>'price_per_unit')::numeric
+    from (select 1) as line
+    left join menu_items menu_item
+      on menu_item.id = (v_item->>'menu_item_id')::uuid
+    left join menu_item_prices cash_price
+      on cash_price.menu_item_id = (v_item->>'menu_item_id')::uuid
+     and cash_price.payment_method = 'cash'
+    returning id into v_transaction_item_id;
+
+    -- The option may have been removed since an offline sale was queued;
+    -- the copied names still record what was sold
+    insert into transaction_item_modifiers (transaction_item_id, modifier_option_id, group_name, option_name, price_delta)
+    select v_transaction_item_id,
+           modifier_option.id,
+           modifier->>'group_name',
+           modifier->>'option_name',
+           coalesce((modifier->>'price_delta')::numeric, 0)
+    from jsonb_array_elements(coalesce(v_item->'modifiers', '[]'::jsonb)) modifier
+    left join modifier_options modifier_option
+      on modifier_option.id = (modifier->>'option_id')::uuid;
+
+    insert into transaction_item_components (transaction_item_id, menu_item_id, slot_name, quantity, allocated_amount)
+    select v_transaction_item_id,
+           (component->>'menu_item_id')::uuid,
+           component->>'slot_name',
+           (v_item->>'quantity')::integer * (component->>'quantity')::integer,
+           coalesce((component->>'allocated_amount')::numeric, 0)
+    from jsonb_array_elements(coalesce(v_item->'components', '[]'::jsonb)) component;
+  end loop;
+
+  return v_transaction_id;
+end;
+$$;
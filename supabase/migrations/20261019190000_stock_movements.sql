@@ -0,0 +1,474 @@
+-- Every change to a stock level, so a manager can see why stock is what it
+-- is. Rows are only ever added, by the functions below that change stock;
+-- nobody can edit or delete them.
+create table if not exists public.stock_movements (
+  id uuid primary key default gen_random_uuid(),
+  stock_item_id uuid not null references public.stock_items(id) on delete cascade,
+  -- Null for the catalog stock kept on stock_items.current_stock
+  store_id uuid references public.stores(id) on delete cascade,
+  selling_date date,
+  movement_type text not null
+    check (movement_type in ('sale', 'adjustment', 'opening', 'closing', 'transfer', 'waste', 'receipt')),
+  quantity_change numeric(12, 3) not null,
+  -- The stock level right after the movement
+  quantity_after numeric(12, 3) not null,
+  transaction_id uuid references public.transactions(id) on delete set null,
+  note text,
+  created_by uuid references public.profiles(id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists stock_movements_item_store_idx
+  on public.stock_movements (stock_item_id, store_id, created_at desc);
+
+alter table public.stock_movements enable row level security;
+
+drop policy if exists "Store staff can read stock movements" on public.stock_movements;
+create policy "Store staff can read stock movements"
+  on public.stock_movements for select to authenticated
+  using (
+    case
+      when store_id is null then public.get_current_user_role() = 'owner'
+      else public.can_manage_store(store_id)
+    end
+  );
+
+-- Store stock only changes through the functions below, so that every change
+-- is recorded; staff can still read it
+drop policy if exists "Managers can set store stock" on public.store_stocks;
+
+-- The catalog stock is edited through the stock_items table itself, so its
+-- movements are recorded by a trigger
+create or replace function public.record_catalog_stock_movement()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' or new.current_stock is distinct from old.current_stock then
+    insert into stock_movements (stock_item_id, movement_type, quantity_change, quantity_after, created_by)
+    values (
+      new.id,
+      'adjustment',
+      new.current_stock - case when tg_op = 'INSERT' then 0 else old.current_stock end,
+      new.current_stock,
+      auth.uid()
+    );
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists record_stock_movement on public.stock_items;
+create trigger record_stock_movement after insert or update of current_stock on public.stock_items
+  for each row execute function public.record_catalog_stock_movement();
+
+-- Same as the previous version, except that an applied change is recorded as
+-- an opening movement when it starts the selling day, else as an adjustment
+create or replace function public.adjust_store_stock(
+  p_client_operation_id uuid,
+  p_store_id uuid,
+  p_stock_item_id uuid,
+  p_selling_date date,
+  p_delta numeric,
+  p_base_quantity numeric,
+  p_base_updated_at timestamptz,
+  p_activate boolean default false
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_stock store_stocks%rowtype;
+  v_has_conflict boolean;
+  v_previous_quantity numeric;
+begin
+  if not public.can_manage_store_stock(p_store_id) then
+    raise exception 'not_authorized' using errcode = 'P0001';
+  end if;
+
+  select * into v_stock
+  from store_stocks
+  where store_id = p_store_id
+    and stock_item_id = p_stock_item_id
+    and selling_date = p_selling_date
+  for update;
+
+  -- Replays of an operation that was already handled
+  if exists (
+    select 1 from stock_adjustments
+    where client_operation_id = p_client_operation_id
+      and stock_item_id = p_stock_item_id
+  ) then
+    return jsonb_build_object('status', 'applied', 'quantity', v_stock.quantity, 'updated_at', v_stock.updated_at);
+  end if;
+
+  if exists (
+    select 1 from stock_conflicts
+    where client_operation_id = p_client_operation_id
+      and stock_item_id = p_stock_item_id
+  ) then
+    return jsonb_build_object('status', 'conflict', 'quantity', v_stock.quantity, 'updated_at', v_stock.updated_at);
+  end if;
+
+  select exists (
+    select 1 from stock_adjustments
+    where store_id = p_store_id
+      and stock_item_id = p_stock_item_id
+      and selling_date = p_selling_date
+      and (p_base_updated_at is null or created_at > p_base_updated_at)
+  ) into v_has_conflict;
+
+  if v_has_conflict then
+    insert into stock_conflicts (
+      client_operation_id, stock_item_id, store_id, selling_date,
+      base_quantity, base_updated_at, delta, requested_quantity,
+      server_quantity, created_by
+    )
+    values (
+      p_client_operation_id, p_stock_item_id, p_store_id, p_selling_date,
+      p_base_quantity, p_base_updated_at, p_delta, greatest(p_base_quantity + p_delta, 0),
+      v_stock.quantity, auth.uid()
+    );
+
+    return jsonb_build_object('status', 'conflict', 'quantity', v_stock.quantity, 'updated_at', v_stock.updated_at);
+  end if;
+
+  v_previous_quantity := coalesce(v_stock.quantity, 0);
+
+  if v_stock.id is null then
+    insert into store_stocks (store_id, stock_item_id, selling_date, quantity, is_active)
+    values (p_store_id, p_stock_item_id, p_selling_date, greatest(p_delta, 0), true)
+    returning * into v_stock;
+  else
+    update store_stocks
+    set quantity = greatest(quantity + p_delta, 0),
+        is_active = is_active or p_activate,
+        updated_at = now()
+    where id = v_stock.id
+    returning * into v_stock;
+  end if;
+
+  insert into stock_adjustments (client_operation_id, stock_item_id, store_id, selling_date, delta, created_by)
+  values (p_client_operation_id, p_stock_item_id, p_store_id, p_selling_date, p_delta, auth.uid());
+
+  -- The opening level is worth recording even when it didn't change
+  if p_activate or v_stock.quantity <> v_previous_quantity then
+    insert into stock_movements (
+      stock_item_id, store_id, selling_date, movement_type,
+      quantity_change, quantity_after, created_by
+    )
+    values (
+      p_stock_item_id, p_store_id, p_selling_date,
+      case when p_activate then 'opening' else 'adjustment' end,
+      v_stock.quantity - v_previous_quantity, v_stock.quantity, auth.uid()
+    );
+  end if;
+
+  return jsonb_build_object('status', 'applied', 'quantity', v_stock.quantity, 'updated_at', v_stock.updated_at);
+end;
+$$;
+
+-- Same as the previous version, except that applying the device's quantity
+-- is recorded as an adjustment
+create or replace function public.resolve_stock_conflict(
+  p_conflict_id uuid,
+  p_resolution text
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_conflict stock_conflicts%rowtype;
+  v_stock store_stocks%rowtype;
+  v_delta numeric := 0;
+begin
+  select * into v_conflict
+  from stock_conflicts
+  where id = p_conflict_id
+  for update;
+
+  if v_conflict.id is null then
+    raise exception 'conflict_not_found' using errcode = 'P0001';
+  end if;
+
+  if not public.can_manage_store_stock(v_conflict.store_id) then
+    raise exception 'not_authorized' using errcode = 'P0001';
+  end if;
+
+  if v_conflict.resolved_at is not null then
+    raise exception 'conflict_already_resolved' using errcode = 'P0001';
+  end if;
+
+  if p_resolution not in ('server', 'device') then
+    raise exception 'invalid_resolution' using errcode = 'P0001';
+  end if;
+
+  select * into v_stock
+  from store_stocks
+  where store_id = v_conflict.store_id
+    and stock_item_id = v_conflict.stock_item_id
+    and selling_date = v_conflict.selling_date
+  for update;
+
+  if p_resolution = 'device' then
+    if v_stock.id is null then
+      insert into store_stocks (store_id, stock_item_id, selling_date, quantity, is_active)
+      values (v_conflict.store_id, v_conflict.stock_item_id, v_conflict.selling_date, v_conflict.requested_quantity, true)
+      returning * into v_stock;
+      v_delta := v_conflict.requested_quantity;
+    else
+      v_delta := v_conflict.requested_quantity - v_stock.quantity;
+      update store_stocks
+      set quantity = v_conflict.requested_quantity,
+          updated_at = now()
+      where id = v_stock.id
+      returning * into v_stock;
+    end if;
+
+    if v_delta <> 0 then
+      insert into stock_movements (
+        stock_item_id, store_id, selling_date, movement_type,
+        quantity_change, quantity_after, note, created_by
+      )
+      values (
+        v_conflict.stock_item_id, v_conflict.store_id, v_conflict.selling_date, 'adjustment',
+        v_delta, v_stock.quantity, 'Conflicting change applied', auth.uid()
+      );
+    end if;
+  end if;
+
+  insert into stock_adjustments (client_operation_id, stock_item_id, store_id, selling_date, delta, created_by)
+  values (gen_random_uuid(), v_conflict.stock_item_id, v_conflict.store_id, v_conflict.selling_date, v_delta, auth.uid());
+
+  update stock_conflicts
+  set resolution = p_resolution,
+      resolved_quantity = v_stock.quantity,
+      resolved_by = auth.uid(),
+      resolved_at = now()
+  where id = v_conflict.id;
+
+  return jsonb_build_object('quantity', v_stock.quantity, 'updated_at', v_stock.updated_at);
+end;
+$$;
+
+-- Ends a store's selling day, recording what was left of each item as its
+-- closing level. Ending a day that isn't active does nothing, so a replay is
+-- harmless.
+create or replace function public.end_selling(
+  p_store_id uuid,
+  p_selling_date date
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.can_manage_store_stock(p_store_id) then
+    raise exception 'not_authorized' using errcode = 'P0001';
+  end if;
+
+  with closed as (
+    update store_stocks
+    set is_active = false,
+        updated_at = now()
+    where store_id = p_store_id
+      and selling_date = p_selling_date
+      and is_active
+    returning stock_item_id, quantity
+  )
+  insert into stock_movements (
+    stock_item_id, store_id, selling_date, movement_type,
+    quantity_change, quantity_after, created_by
+  )
+  select stock_item_id, p_store_id, p_selling_date, 'closing', 0, quantity, auth.uid()
+  from closed;
+end;
+$$;
+
+grant execute on function public.end_selling(uuid, date) to authenticated;
+
+-- Same as the previous version, except that the stock used by the sale is
+-- recorded as sale movements against the new transaction
+create or replace function public.checkout_transaction(
+  p_client_operation_id uuid,
+  p_payment_method text,
+  p_items jsonb
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_store_id uuid;
+  v_transaction_id uuid;
+  v_transaction_item_id uuid;
+  v_required record;
+  v_remaining numeric;
+  v_item jsonb;
+  v_sold_stock_item_ids uuid[] := '{}';
+  v_sold_quantities numeric[] := '{}';
+  v_remaining_quantities numeric[] := '{}';
+begin
+  if p_client_operation_id is null then
+    raise exception 'missing_client_operation_id' using errcode = 'P0001';
+  end if;
+
+  select id into v_transaction_id
+  from transactions
+  where client_operation_id = p_client_operation_id;
+
+  if v_transaction_id is not null then
+    return v_transaction_id;
+  end if;
+
+  select store_id into v_store_id
+  from profiles
+  where id = auth.uid();
+
+  if v_store_id is null then
+    raise exception 'no_store_assigned' using errcode = 'P0001';
+  end if;
+
+  if p_items is null or jsonb_array_length(p_items) = 0 then
+    raise exception 'empty_cart' using errcode = 'P0001';
+  end if;
+
+  if p_payment_method not in ('cash', 'qris') then
+    raise exception 'invalid_payment_method' using errcode = 'P0001';
+  end if;
+
+  begin
+    -- Decrement every stock item used by the sold menu items. Rows are
+    -- updated in a stable order so two tills selling the same items can't
+    -- deadlock; the row lock makes the second till wait for the first.
+    for v_required in
+      with sold as (
+        select (item->>'menu_item_id')::uuid as menu_item_id,
+               (item->>'quantity')::integer as quantity
+        from jsonb_array_elements(p_items) item
+        where coalesce(jsonb_array_length(item->'components'), 0) = 0
+        union all
+        select (component->>'menu_item_id')::uuid,
+               (item->>'quantity')::integer * (component->>'quantity')::integer
+        from jsonb_array_elements(p_items) item
+        cross join jsonb_array_elements(item->'components') component
+        where coalesce(jsonb_array_length(item->'components'), 0) > 0
+      )
+      select link.stock_item_id,
+             sum(sold.quantity * public.convert_stock_unit(link.quantity, link.unit, stock_item.unit)) as quantity
+      from sold
+      join stock_item_menu_items link
+        on link.menu_item_id = sold.menu_item_id
+      join stock_items stock_item
+        on stock_item.id = link.stock_item_id
+      group by link.stock_item_id
+      order by link.stock_item_id
+    loop
+      update store_stocks
+      set quantity = quantity - v_required.quantity,
+          updated_at = now()
+      where store_id = v_store_id
+        and stock_item_id = v_required.stock_item_id
+        and selling_date = current_date
+        and is_active
+      returning quantity into v_remaining;
+
+      if not found or v_remaining < 0 then
+        raise exception 'insufficient_stock'
+          using errcode = 'P0001',
+                detail = json_build_object(
+                  'stock_item_id', v_required.stock_item_id,
+                  'available', coalesce(v_remaining + v_required.quantity, 0),
+                  'requested', v_required.quantity
+                )::text;
+      end if;
+
+      v_sold_stock_item_ids := v_sold_stock_item_ids || v_required.stock_item_id;
+      v_sold_quantities := v_sold_quantities || v_required.quantity;
+      v_remaining_quantities := v_remaining_quantities || v_remaining;
+    end loop;
+
+    insert into transactions (store_id, cashier_id, payment_method, status, total_amount, client_operation_id)
+    select v_store_id,
+           auth.uid(),
+           p_payment_method,
+           'completed',
+           sum((item->>'quantity')::integer * (item->>'price_per_unit')::numeric),
+           p_client_operation_id
+    from jsonb_array_elements(p_items) item
+    returning id into v_transaction_id;
+
+    insert into stock_movements (
+      stock_item_id, store_id, selling_date, movement_type,
+      quantity_change, quantity_after, transaction_id, created_by
+    )
+    select sold.stock_item_id, v_store_id, current_date, 'sale',
+           -sold.quantity, sold.remaining, v_transaction_id, auth.uid()
+    from unnest(v_sold_stock_item_ids, v_sold_quantities, v_remaining_quantities)
+      as sold (stock_item_id, quantity, remaining);
+  exception
+    -- A concurrent replay of the same sale committed first. The stock
+    -- decrements above are rolled back with this block.
+    when unique_violation then
+      select id into v_transaction_id
+      from transactions
+      where client_operation_id = p_client_operation_id;
+
+      return v_transaction_id;
+  end;
+
+  for v_item in select value from jsonb_array_elements(p_items)
+  loop
+    insert into transaction_items (transaction_id, menu_item_id, quantity, price_per_unit, base_price, total_price)
+    select v_transaction_id,
+           (v_item->>'menu_item_id')::uuid,
+           (v_item->>'quantity')::integer,
+           (v_item->>'price_per_unit')::numeric,
+           coalesce(
+             (v_item->>'base_price')::numeric,
+             cash_price.price,
+             menu_item.price,
+             (v_item->>'price_per_unit')::numeric
+           ),
+           (v_item->>'quantity')::integer * (v_item->>'price_per_unit')::numeric
+    from (select 1) as line
+    left join menu_items menu_item
+      on menu_item.id = (v_item->>'menu_item_id')::uuid
+    left join menu_item_prices cash_price
+      on cash_price.menu_item_id = (v_item->>'menu_item_id')::uuid
+     and cash_price.payment_method = 'cash'
+    returning id into v_transaction_item_id;
+
+    -- The option may have been removed since an offline sale was queued;
+    -- the copied names still record what was sold
+    insert into transaction_item_modifiers (transaction_item_id, modifier_option_id, group_name, option_name, price_delta)
+    select v_transaction_item_id,
+           modifier_option.id,
+           modifier->>'group_name',
+           modifier->>'option_name',
+           coalesce((modifier->>'price_delta')::numeric, 0)
+    from jsonb_array_elements(coalesce(v_item->'modifiers', '[]'::jsonb)) modifier
+    left join modifier_options modifier_option
+      on modifier_option.id = (modifier->>'option_id')::uuid;
+
+    insert into transaction_item_components (transaction_item_id, menu_item_id, slot_name, quantity, allocated_amount)
+    select v_transaction_item_id,
+           (component->>'menu_item_id')::uuid,
+           component->>'slot_name',
+           (v_item->>'quantity')::integer * (component->>'quantity')::integer,
+           coalesce((component->>'allocated_amount')::numeric, 0)
+    from jsonb_array_elements(coalesce(v_item->'components', '[]'::jsonb)) component;
+  end loop;
+
+  return v_transaction_id;
+end;
+$$;
@@ -0,0 +1,131 @@
+-- Closing counts taken when a store ends its selling day. Each count is
+-- compared to what should have been left: the opening stock, less what the
+-- recipes of the day's sales used, plus or minus manual changes. The
+-- difference (counted - expected) is the item's variance for the day;
+-- below zero it's shrinkage or overpouring, above zero under-pouring or a
+-- miscount.
+create table if not exists public.stock_counts (
+  id uuid primary key default gen_random_uuid(),
+  store_id uuid not null references public.stores(id) on delete cascade,
+  stock_item_id uuid not null references public.stock_items(id) on delete cascade,
+  selling_date date not null,
+  opening_quantity numeric(12, 3) not null,
+  sold_quantity numeric(12, 3) not null,
+  expected_quantity numeric(12, 3) not null,
+  counted_quantity numeric(12, 3) not null check (counted_quantity >= 0),
+  created_by uuid references public.profiles(id) on delete set null,
+  created_at timestamptz not null default now(),
+  -- A store that reopens and closes again on the same day keeps the last count
+  unique (store_id, stock_item_id, selling_date)
+);
+
+create index if not exists stock_counts_selling_date_idx
+  on public.stock_counts (selling_date);
+
+alter table public.stock_counts enable row level security;
+
+-- Written by end_selling only
+drop policy if exists "Store staff can read stock counts" on public.stock_counts;
+create policy "Store staff can read stock counts"
+  on public.stock_counts for select to authenticated
+  using (public.can_manage_store(store_id));
+
+drop function if exists public.end_selling(uuid, date);
+
+-- Ends a store's selling day. p_counts ([{ stock_item_id, counted_quantity }])
+-- holds what the manager counted; each counted item is reconciled and its
+-- stock set to the count, and items left uncounted close at the quantity the
+-- system expects. Ending a day that isn't active does nothing, so a replay is
+-- harmless.
+create or replace function public.end_selling(
+  p_store_id uuid,
+  p_selling_date date,
+  p_counts jsonb default '[]'::jsonb
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_stock store_stocks%rowtype;
+  v_counted numeric;
+  v_opening numeric;
+  v_sold numeric;
+begin
+  if not public.can_manage_store_stock(p_store_id) then
+    raise exception 'not_authorized' using errcode = 'P0001';
+  end if;
+
+  for v_stock in
+    select *
+    from store_stocks
+    where store_id = p_store_id
+      and selling_date = p_selling_date
+      and is_active
+    order by stock_item_id
+    for update
+  loop
+    select (closing_count->>'counted_quantity')::numeric into v_counted
+    from jsonb_array_elements(coalesce(p_counts, '[]'::jsonb)) closing_count
+    where (closing_count->>'stock_item_id')::uuid = v_stock.stock_item_id
+    limit 1;
+
+    if v_counted < 0 then
+      raise exception 'invalid_count' using errcode = 'P0001';
+    end if;
+
+    if v_counted is not null then
+      select quantity_after into v_opening
+      from stock_movements
+      where store_id = p_store_id
+        and stock_item_id = v_stock.stock_item_id
+        and selling_date = p_selling_date
+        and movement_type = 'opening'
+      order by created_at desc
+      limit 1;
+
+      select coalesce(-sum(quantity_change), 0) into v_sold
+      from stock_movements
+      where store_id = p_store_id
+        and stock_item_id = v_stock.stock_item_id
+        and selling_date = p_selling_date
+        and movement_type = 'sale';
+
+      insert into stock_counts (
+        store_id, stock_item_id, selling_date, opening_quantity,
+        sold_quantity, expected_quantity, counted_quantity, created_by
+      )
+      values (
+        p_store_id, v_stock.stock_item_id, p_selling_date, coalesce(v_opening, 0),
+        v_sold, v_stock.quantity, v_counted, auth.uid()
+      )
+      on conflict (store_id, stock_item_id, selling_date) do update
+      set opening_quantity = excluded.opening_quantity,
+          sold_quantity = excluded.sold_quantity,
+          expected_quantity = excluded.expected_quantity,
+          counted_quantity = excluded.counted_quantity,
+          created_by = excluded.created_by,
+          created_at = now();
+    end if;
+
+    update store_stocks
+    set quantity = coalesce(v_counted, quantity),
+        is_active = false,
+        updated_at = now()
+    where id = v_stock.id;
+
+    insert into stock_movements (
+      stock_item_id, store_id, selling_date, movement_type,
+      quantity_change, quantity_after, note, created_by
+    )
+    values (
+      v_stock.stock_item_id, p_store_id, p_selling_date, 'closing',
+      coalesce(v_counted - v_stock.quantity, 0), coalesce(v_counted, v_stock.quantity),
+      case when v_counted is not null then 'Counted at close' end, auth.uid()
+    );
+  end loop;
+end;
+$$;
+
+grant execute on function public.end_selling(uuid, date, jsonb) to authenticated;
@@ -0,0 +1,170 @@
+-- Opening counts taken when a store starts its selling day. Each line keeps
+-- what the system proposed (the store's last closing count plus goods
+-- received since) next to what the manager actually opened with.
+create table if not exists public.stock_openings (
+  id uuid primary key default gen_random_uuid(),
+  -- The operation that started the day, so a replay doesn't add a second
+  -- document
+  client_operation_id uuid not null unique,
+  store_id uuid not null references public.stores(id) on delete cascade,
+  selling_date date not null,
+  created_by uuid references public.profiles(id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists stock_openings_store_date_idx
+  on public.stock_openings (store_id, selling_date);
+
+create table if not exists public.stock_opening_lines (
+  opening_id uuid not null references public.stock_openings(id) on delete cascade,
+  stock_item_id uuid not null references public.stock_items(id) on delete cascade,
+  -- Null when the store had never closed with this item before
+  closing_quantity numeric(12, 3),
+  received_quantity numeric(12, 3) not null default 0,
+  proposed_quantity numeric(12, 3) not null,
+  counted_quantity numeric(12, 3) not null check (counted_quantity >= 0),
+  primary key (opening_id, stock_item_id)
+);
+
+alter table public.stock_openings enable row level security;
+alter table public.stock_opening_lines enable row level security;
+
+-- Both written by start_selling only
+drop policy if exists "Store staff can read stock openings" on public.stock_openings;
+create policy "Store staff can read stock openings"
+  on public.stock_openings for select to authenticated
+  using (public.can_manage_store(store_id));
+
+drop policy if exists "Store staff can read stock opening lines" on public.stock_opening_lines;
+create policy "Store staff can read stock opening lines"
+  on public.stock_opening_lines for select to authenticated
+  using (
+    exists (
+      select 1
+      from public.stock_openings o
+      where o.id = opening_id
+        and public.can_manage_store(o.store_id)
+    )
+  );
+
+-- What each stock item should open with at a store: the quantity it last
+-- closed with before p_selling_date, plus goods received or transferred in
+-- since. Runs with the caller's rights, so it only sees stores they manage.
+create or replace function public.propose_opening_stock(
+  p_store_id uuid,
+  p_selling_date date
+)
+returns table (
+  stock_item_id uuid,
+  closing_date date,
+  closing_quantity numeric,
+  received_quantity numeric,
+  proposed_quantity numeric
+)
+language sql
+stable
+set search_path = public
+as $$
+  select stock_item.id,
+         closing.selling_date,
+         closing.quantity_after,
+         coalesce(received.quantity, 0),
+         coalesce(closing.quantity_after, 0) + coalesce(received.quantity, 0)
+  from stock_items stock_item
+  left join lateral (
+    select movement.selling_date, movement.quantity_after, movement.created_at
+    from stock_movements movement
+    where movement.store_id = p_store_id
+      and movement.stock_item_id = stock_item.id
+      and movement.movement_type = 'closing'
+      and movement.selling_date < p_selling_date
+    order by movement.selling_date desc, movement.created_at desc
+    limit 1
+  ) closing on true
+  left join lateral (
+    select sum(movement.quantity_change) as quantity
+    from stock_movements movement
+    where movement.store_id = p_store_id
+      and movement.stock_item_id = stock_item.id
+      and movement.movement_type in ('receipt', 'transfer')
+      and (closing.created_at is null or movement.created_at > closing.created_at)
+  ) received on true
+  order by stock_item.name;
+$$;
+
+grant execute on function public.propose_opening_stock(uuid, date) to authenticated;
+
+-- Starts a store's selling day from an opening count. p_lines is
+-- [{ stock_item_id, closing_quantity, received_quantity, proposed_quantity,
+-- counted_quantity, base_quantity, base_updated_at }]: each item is brought to
+-- its counted quantity through adjust_store_stock, relative to the row the
+-- device last saw, and the count is kept as a stock_openings document.
+--
+-- Returns the adjust_store_stock result of every line, in order.
+create or replace function public.start_selling(
+  p_client_operation_id uuid,
+  p_store_id uuid,
+  p_selling_date date,
+  p_lines jsonb
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_opening_id uuid;
+  v_line jsonb;
+  v_results jsonb := '[]'::jsonb;
+begin
+  if not public.can_manage_store_stock(p_store_id) then
+    raise exception 'not_authorized' using errcode = 'P0001';
+  end if;
+
+  if exists (
+    select 1
+    from jsonb_array_elements(coalesce(p_lines, '[]'::jsonb)) line
+    where (line->>'counted_quantity')::numeric < 0
+  ) then
+    raise exception 'invalid_count' using errcode = 'P0001';
+  end if;
+
+  insert into stock_openings (client_operation_id, store_id, selling_date, created_by)
+  values (p_client_operation_id, p_store_id, p_selling_date, auth.uid())
+  on conflict (client_operation_id) do nothing
+  returning id into v_opening_id;
+
+  -- Null on a replay, whose document is already there
+  if v_opening_id is not null then
+    insert into stock_opening_lines (
+      opening_id, stock_item_id, closing_quantity, received_quantity,
+      proposed_quantity, counted_quantity
+    )
+    select v_opening_id,
+           (line->>'stock_item_id')::uuid,
+           (line->>'closing_quantity')::numeric,
+           coalesce((line->>'received_quantity')::numeric, 0),
+           coalesce((line->>'proposed_quantity')::numeric, (line->>'counted_quantity')::numeric),
+           (line->>'counted_quantity')::numeric
+    from jsonb_array_elements(coalesce(p_lines, '[]'::jsonb)) line;
+  end if;
+
+  for v_line in select value from jsonb_array_elements(coalesce(p_lines, '[]'::jsonb))
+  loop
+    v_results := v_results || jsonb_build_array(public.adjust_store_stock(
+      p_client_operation_id,
+      p_store_id,
+      (v_line->>'stock_item_id')::uuid,
+      p_selling_date,
+      (v_line->>'counted_quantity')::numeric - coalesce((v_line->>'base_quantity')::numeric, 0),
+      coalesce((v_line->>'base_quantity')::numeric, 0),
+      (v_line->>'base_updated_at')::timestamptz,
+      true
+    ));
+  end loop;
+
+  return v_results;
+end;
+$$;
+
+grant execute on function public.start_selling(uuid, uuid, date, jsonb) to authenticated;
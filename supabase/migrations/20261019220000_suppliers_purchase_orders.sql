@@ -0,0 +1,123 @@
+-- Suppliers and the stock items they deliver. Items are bought in packs: a
+-- pack holds pack_size of the stock item's unit and costs pack_cost.
+create table if not exists public.suppliers (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  contact_person text,
+  contact_phone text,
+  email text,
+  -- Days between sending an order and the goods arriving
+  lead_time_days integer not null default 1 check (lead_time_days >= 0),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists public.supplier_items (
+  supplier_id uuid not null references public.suppliers(id) on delete cascade,
+  stock_item_id uuid not null references public.stock_items(id) on delete cascade,
+  pack_size numeric(12, 3) not null check (pack_size > 0),
+  pack_cost numeric(12, 2) not null check (pack_cost >= 0),
+  created_at timestamptz not null default now(),
+  primary key (supplier_id, stock_item_id)
+);
+
+create index if not exists supplier_items_stock_item_id_idx
+  on public.supplier_items (stock_item_id);
+
+-- An order to one supplier for one store. Goes from draft to sent, and is
+-- marked partially received or received as deliveries are booked in.
+create table if not exists public.purchase_orders (
+  id uuid primary key default gen_random_uuid(),
+  -- Shown as PO-000123
+  order_number bigint generated always as identity unique,
+  supplier_id uuid not null references public.suppliers(id) on delete restrict,
+  store_id uuid not null references public.stores(id) on delete cascade,
+  status text not null default 'draft'
+    check (status in ('draft', 'sent', 'partially_received', 'received')),
+  expected_date date,
+  notes text,
+  created_by uuid references public.profiles(id) on delete set null,
+  sent_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists purchase_orders_store_id_idx
+  on public.purchase_orders (store_id, created_at desc);
+
+-- Pack size and cost are copied from the supplier when the line is added, so
+-- a later price change doesn't alter orders already placed
+create table if not exists public.purchase_order_lines (
+  id uuid primary key default gen_random_uuid(),
+  purchase_order_id uuid not null references public.purchase_orders(id) on delete cascade,
+  stock_item_id uuid not null references public.stock_items(id) on delete restrict,
+  pack_quantity numeric(12, 3) not null check (pack_quantity > 0),
+  pack_size numeric(12, 3) not null check (pack_size > 0),
+  pack_cost numeric(12, 2) not null check (pack_cost >= 0),
+  -- In the stock item's unit
+  received_quantity numeric(12, 3) not null default 0,
+  created_at timestamptz not null default now(),
+  unique (purchase_order_id, stock_item_id)
+);
+
+drop trigger if exists set_updated_at on public.suppliers;
+create trigger set_updated_at before update on public.suppliers
+  for each row execute function public.set_updated_at();
+
+drop trigger if exists set_updated_at on public.purchase_orders;
+create trigger set_updated_at before update on public.purchase_orders
+  for each row execute function public.set_updated_at();
+
+alter table public.suppliers enable row level security;
+alter table public.supplier_items enable row level security;
+alter table public.purchase_orders enable row level security;
+alter table public.purchase_order_lines enable row level security;
+
+drop policy if exists "Signed-in users can read suppliers" on public.suppliers;
+create policy "Signed-in users can read suppliers"
+  on public.suppliers for select to authenticated
+  using (true);
+
+drop policy if exists "Owners can edit suppliers" on public.suppliers;
+create policy "Owners can edit suppliers"
+  on public.suppliers for all to authenticated
+  using (public.get_current_user_role() = 'owner')
+  with check (public.get_current_user_role() = 'owner');
+
+drop policy if exists "Signed-in users can read supplier items" on public.supplier_items;
+create policy "Signed-in users can read supplier items"
+  on public.supplier_items for select to authenticated
+  using (true);
+
+drop policy if exists "Owners can edit supplier items" on public.supplier_items;
+create policy "Owners can edit supplier items"
+  on public.supplier_items for all to authenticated
+  using (public.get_current_user_role() = 'owner')
+  with check (public.get_current_user_role() = 'owner');
+
+-- Managers order for the stores of their branch, owners for any store
+drop policy if exists "Store managers can manage purchase orders" on public.purchase_orders;
+create policy "Store managers can manage purchase orders"
+  on public.purchase_orders for all to authenticated
+  using (public.can_manage_store_stock(store_id))
+  with check (public.can_manage_store_stock(store_id));
+
+drop policy if exists "Store managers can manage purchase order lines" on public.purchase_order_lines;
+create policy "Store managers can manage purchase order lines"
+  on public.purchase_order_lines for all to authenticated
+  using (
+    exists (
+      select 1
+      from public.purchase_orders po
+      where po.id = purchase_order_id
+        and public.can_manage_store_stock(po.store_id)
+    )
+  )
+  with check (
+    exists (
+      select 1
+      from public.purchase_orders po
+      where po.id = purchase_order_id
+        and public.can_manage_store_stock(po.store_id)
+    )
+  );
@@ -0,0 +1,228 @@
+-- Deliveries booked in against a purchase order. Each line records how much
+-- of an ordered item arrived (in the stock item's unit), what it cost per
+-- unit, and the batch and expiry printed on it.
+create table if not exists public.goods_receipts (
+  id uuid primary key default gen_random_uuid(),
+  -- The operation that posted the delivery, so a retry doesn't book it twice
+  client_operation_id uuid not null unique,
+  purchase_order_id uuid not null references public.purchase_orders(id) on delete cascade,
+  store_id uuid not null references public.stores(id) on delete cascade,
+  selling_date date not null,
+  notes text,
+  received_by uuid references public.profiles(id) on delete set null,
+  received_at timestamptz not null default now()
+);
+
+create index if not exists goods_receipts_purchase_order_id_idx
+  on public.goods_receipts (purchase_order_id);
+
+create table if not exists public.goods_receipt_lines (
+  id uuid primary key default gen_random_uuid(),
+  receipt_id uuid not null references public.goods_receipts(id) on delete cascade,
+  purchase_order_line_id uuid not null references public.purchase_order_lines(id) on delete cascade,
+  stock_item_id uuid not null references public.stock_items(id) on delete restrict,
+  quantity numeric(12, 3) not null check (quantity > 0),
+  unit_cost numeric(12, 2) not null check (unit_cost >= 0),
+  batch_number text,
+  expiry_date date
+);
+
+create index if not exists goods_receipt_lines_receipt_id_idx
+  on public.goods_receipt_lines (receipt_id);
+
+alter table public.goods_receipts enable row level security;
+alter table public.goods_receipt_lines enable row level security;
+
+-- Both written by receive_purchase_order only
+drop policy if exists "Store staff can read goods receipts" on public.goods_receipts;
+create policy "Store staff can read goods receipts"
+  on public.goods_receipts for select to authenticated
+  using (public.can_manage_store(store_id));
+
+drop policy if exists "Store staff can read goods receipt lines" on public.goods_receipt_lines;
+create policy "Store staff can read goods receipt lines"
+  on public.goods_receipt_lines for select to authenticated
+  using (
+    exists (
+      select 1
+      from public.goods_receipts r
+      where r.id = receipt_id
+        and public.can_manage_store(r.store_id)
+    )
+  );
+
+-- Books a delivery against a sent purchase order. p_lines is
+-- [{ purchase_order_line_id, quantity, unit_cost, batch_number, expiry_date }]
+-- with quantities in the stock item's unit; lines with nothing received are
+-- skipped.
+--
+-- Received stock is added to the store's row for p_selling_date, which
+-- starts from the store's last known quantity when the day hasn't been
+-- opened yet, and recorded as a receipt movement so the next opening count
+-- proposes it. The order moves to partially received, or received once every
+-- line has arrived in full.
+create or replace function public.receive_purchase_order(
+  p_client_operation_id uuid,
+  p_purchase_order_id uuid,
+  p_selling_date date,
+  p_lines jsonb,
+  p_notes text default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order purchase_orders%rowtype;
+  v_receipt_id uuid;
+  v_line jsonb;
+  v_order_line purchase_order_lines%rowtype;
+  v_quantity numeric;
+  v_stock store_stocks%rowtype;
+  v_previous_quantity numeric;
+  v_status text;
+begin
+  select * into v_order
+  from purchase_orders
+  where id = p_purchase_order_id
+  for update;
+
+  if v_order.id is null then
+    raise exception 'order_not_found' using errcode = 'P0001';
+  end if;
+
+  if not public.can_manage_store_stock(v_order.store_id) then
+    raise exception 'not_authorized' using errcode = 'P0001';
+  end if;
+
+  -- A retry of a delivery that was already booked
+  select id into v_receipt_id
+  from goods_receipts
+  where client_operation_id = p_client_operation_id;
+
+  if v_receipt_id is not null then
+    return jsonb_build_object('receipt_id', v_receipt_id, 'status', v_order.status);
+  end if;
+
+  if v_order.status not in ('sent', 'partially_received') then
+    raise exception 'order_not_open' using errcode = 'P0001';
+  end if;
+
+  if exists (
+    select 1
+    from jsonb_array_elements(coalesce(p_lines, '[]'::jsonb)) line
+    where (line->>'quantity')::numeric < 0
+       or coalesce((line->>'unit_cost')::numeric, 0) < 0
+  ) then
+    raise exception 'invalid_quantity' using errcode = 'P0001';
+  end if;
+
+  if not exists (
+    select 1
+    from jsonb_array_elements(coalesce(p_lines, '[]'::jsonb)) line
+    where (line->>'quantity')::numeric > 0
+  ) then
+    raise exception 'nothing_received' using errcode = 'P0001';
+  end if;
+
+  insert into goods_receipts (
+    client_operation_id, purchase_order_id, store_id, selling_date, notes, received_by
+  )
+  values (
+    p_client_operation_id, v_order.id, v_order.store_id, p_selling_date, p_notes, auth.uid()
+  )
+  returning id into v_receipt_id;
+
+  for v_line in select value from jsonb_array_elements(coalesce(p_lines, '[]'::jsonb))
+  loop
+    v_quantity := (v_line->>'quantity')::numeric;
+    continue when v_quantity is null or v_quantity = 0;
+
+    select * into v_order_line
+    from purchase_order_lines
+    where id = (v_line->>'purchase_order_line_id')::uuid
+      and purchase_order_id = v_order.id
+    for update;
+
+    if v_order_line.id is null then
+      raise exception 'line_not_on_order' using errcode = 'P0001';
+    end if;
+
+    insert into goods_receipt_lines (
+      receipt_id, purchase_order_line_id, stock_item_id, quantity,
+      unit_cost, batch_number, expiry_date
+    )
+    values (
+      v_receipt_id, v_order_line.id, v_order_line.stock_item_id, v_quantity,
+      coalesce((v_line->>'unit_cost')::numeric, v_order_line.pack_cost / v_order_line.pack_size),
+      nullif(trim(v_line->>'batch_number'), ''),
+      (v_line->>'expiry_date')::date
+    );
+
+    update purchase_order_lines
+    set received_quantity = received_quantity + v_quantity
+    where id = v_order_line.id;
+
+    select * into v_stock
+    from store_stocks
+    where store_id = v_order.store_id
+      and stock_item_id = v_order_line.stock_item_id
+      and selling_date = p_selling_date
+    for update;
+
+    if v_stock.id is null then
+      select coalesce((
+        select quantity
+        from store_stocks
+        where store_id = v_order.store_id
+          and stock_item_id = v_order_line.stock_item_id
+          and selling_date < p_selling_date
+        order by selling_date desc
+        limit 1
+      ), 0) into v_previous_quantity;
+
+      insert into store_stocks (store_id, stock_item_id, selling_date, quantity, is_active)
+      values (v_order.store_id, v_order_line.stock_item_id, p_selling_date, v_previous_quantity + v_quantity, false)
+      returning * into v_stock;
+    else
+      update store_stocks
+      set quantity = quantity + v_quantity,
+          updated_at = now()
+      where id = v_stock.id
+      returning * into v_stock;
+    end if;
+
+    insert into stock_movements (
+      stock_item_id, store_id, selling_date, movement_type,
+      quantity_change, quantity_after, note, created_by
+    )
+    values (
+      v_order_line.stock_item_id, v_order.store_id, p_selling_date, 'receipt',
+      v_quantity, v_stock.quantity,
+      concat_ws(', ',
+        'PO-' || lpad(v_order.order_number::text, 6, '0'),
+        'batch ' || nullif(trim(v_line->>'batch_number'), ''),
+        'expires ' || (v_line->>'expiry_date')
+      ),
+      auth.uid()
+    );
+  end loop;
+
+  select case
+           when bool_and(received_quantity >= pack_quantity * pack_size) then 'received'
+           else 'partially_received'
+         end
+  into v_status
+  from purchase_order_lines
+  where purchase_order_id = v_order.id;
+
+  update purchase_orders
+  set status = v_status
+  where id = v_order.id;
+
+  return jsonb_build_object('receipt_id', v_receipt_id, 'status', v_status);
+end;
+$$;
+
+grant execute on function public.receive_purchase_order(uuid, uuid, date, jsonb, text) to authenticated;
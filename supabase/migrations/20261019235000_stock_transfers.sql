@@ -0,0 +1,308 @@
+-- Stock moved between two stores of the same branch. The sending store's
+-- stock goes down when the transfer is sent and the receiving store's goes
+-- up when it's booked in; in between the goods are in transit. Anything that
+-- doesn't arrive stays recorded on the line as the gap between sent and
+-- received.
+create table if not exists public.stock_transfers (
+  id uuid primary key default gen_random_uuid(),
+  -- Shown as TR-000123
+  transfer_number bigint generated always as identity unique,
+  -- The operation that sent the transfer, so a retry doesn't send it twice
+  client_operation_id uuid not null unique,
+  from_store_id uuid not null references public.stores(id) on delete cascade,
+  to_store_id uuid not null references public.stores(id) on delete cascade,
+  status text not null default 'in_transit'
+    check (status in ('in_transit', 'received')),
+  notes text,
+  sent_by uuid references public.profiles(id) on delete set null,
+  sent_at timestamptz not null default now(),
+  received_by uuid references public.profiles(id) on delete set null,
+  received_at timestamptz,
+  check (from_store_id <> to_store_id)
+);
+
+create index if not exists stock_transfers_from_store_id_idx
+  on public.stock_transfers (from_store_id, sent_at desc);
+
+create index if not exists stock_transfers_to_store_id_idx
+  on public.stock_transfers (to_store_id, sent_at desc);
+
+create table if not exists public.stock_transfer_lines (
+  transfer_id uuid not null references public.stock_transfers(id) on delete cascade,
+  stock_item_id uuid not null references public.stock_items(id) on delete restrict,
+  quantity_sent numeric(12, 3) not null check (quantity_sent > 0),
+  -- Null until the transfer is received
+  quantity_received numeric(12, 3) check (quantity_received >= 0),
+  primary key (transfer_id, stock_item_id)
+);
+
+alter table public.stock_transfers enable row level security;
+alter table public.stock_transfer_lines enable row level security;
+
+-- Both written by send_stock_transfer and receive_stock_transfer only
+drop policy if exists "Store staff can read stock transfers" on public.stock_transfers;
+create policy "Store staff can read stock transfers"
+  on public.stock_transfers for select to authenticated
+  using (public.can_manage_store(from_store_id) or public.can_manage_store(to_store_id));
+
+drop policy if exists "Store staff can read stock transfer lines" on public.stock_transfer_lines;
+create policy "Store staff can read stock transfer lines"
+  on public.stock_transfer_lines for select to authenticated
+  using (
+    exists (
+      select 1
+      from public.stock_transfers t
+      where t.id = transfer_id
+        and (public.can_manage_store(t.from_store_id) or public.can_manage_store(t.to_store_id))
+    )
+  );
+
+-- Changes a store's stock of an item for p_selling_date by p_quantity_change
+-- and records the movement. A day that hasn't been opened yet starts from the
+-- store's last known quantity, as receive_purchase_order does. Only called
+-- from the transfer functions below, which check who is asking.
+create or replace function public.post_store_stock_movement(
+  p_store_id uuid,
+  p_stock_item_id uuid,
+  p_selling_date date,
+  p_quantity_change numeric,
+  p_movement_type text,
+  p_note text
+)
+returns numeric
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_stock store_stocks%rowtype;
+  v_previous_quantity numeric;
+begin
+  select * into v_stock
+  from store_stocks
+  where store_id = p_store_id
+    and stock_item_id = p_stock_item_id
+    and selling_date = p_selling_date
+  for update;
+
+  if v_stock.id is null then
+    select coalesce((
+      select quantity
+      from store_stocks
+      where store_id = p_store_id
+        and stock_item_id = p_stock_item_id
+        and selling_date < p_selling_date
+      order by selling_date desc
+      limit 1
+    ), 0) into v_previous_quantity;
+  else
+    v_previous_quantity := v_stock.quantity;
+  end if;
+
+  if v_previous_quantity + p_quantity_change < 0 then
+    raise exception 'insufficient_stock' using errcode = 'P0001';
+  end if;
+
+  if v_stock.id is null then
+    insert into store_stocks (store_id, stock_item_id, selling_date, quantity, is_active)
+    values (p_store_id, p_stock_item_id, p_selling_date, v_previous_quantity + p_quantity_change, false)
+    returning * into v_stock;
+  else
+    update store_stocks
+    set quantity = quantity + p_quantity_change,
+        updated_at = now()
+    where id = v_stock.id
+    returning * into v_stock;
+  end if;
+
+  insert into stock_movements (
+    stock_item_id, store_id, selling_date, movement_type,
+    quantity_change, quantity_after, note, created_by
+  )
+  values (
+    p_stock_item_id, p_store_id, p_selling_date, p_movement_type,
+    p_quantity_change, v_stock.quantity, p_note, auth.uid()
+  );
+
+  return v_stock.quantity;
+end;
+$$;
+
+revoke execute on function public.post_store_stock_movement(uuid, uuid, date, numeric, text, text)
+  from public, anon, authenticated;
+
+-- Sends stock from one store to another in the same branch. p_lines is
+-- [{ stock_item_id, quantity }]. Each item leaves the sending store's stock
+-- for p_selling_date right away; a store can't send more than it holds.
+--
+-- Returns { transfer_id, transfer_number }.
+create or replace function public.send_stock_transfer(
+  p_client_operation_id uuid,
+  p_from_store_id uuid,
+  p_to_store_id uuid,
+  p_selling_date date,
+  p_lines jsonb,
+  p_notes text default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_transfer stock_transfers%rowtype;
+  v_to_store_name text;
+  v_line jsonb;
+begin
+  if not public.can_manage_store_stock(p_from_store_id) or not public.can_manage_store_stock(p_to_store_id) then
+    raise exception 'not_authorized' using errcode = 'P0001';
+  end if;
+
+  -- A retry of a transfer that was already sent
+  select * into v_transfer
+  from stock_transfers
+  where client_operation_id = p_client_operation_id;
+
+  if v_transfer.id is not null then
+    return jsonb_build_object('transfer_id', v_transfer.id, 'transfer_number', v_transfer.transfer_number);
+  end if;
+
+  if p_from_store_id = p_to_store_id or (
+    select count(distinct branch_id)
+    from stores
+    where id in (p_from_store_id, p_to_store_id)
+  ) <> 1 then
+    raise exception 'stores_not_in_same_branch' using errcode = 'P0001';
+  end if;
+
+  if jsonb_array_length(coalesce(p_lines, '[]'::jsonb)) = 0 or exists (
+    select 1
+    from jsonb_array_elements(p_lines) line
+    where coalesce((line->>'quantity')::numeric, 0) <= 0
+  ) then
+    raise exception 'invalid_quantity' using errcode = 'P0001';
+  end if;
+
+  insert into stock_transfers (client_operation_id, from_store_id, to_store_id, notes, sent_by)
+  values (p_client_operation_id, p_from_store_id, p_to_store_id, p_notes, auth.uid())
+  returning * into v_transfer;
+
+  select name into v_to_store_name from stores where id = p_to_store_id;
+
+  for v_line in select value from jsonb_array_elements(p_lines)
+  loop
+    insert into stock_transfer_lines (transfer_id, stock_item_id, quantity_sent)
+    values (v_transfer.id, (v_line->>'stock_item_id')::uuid, (v_line->>'quantity')::numeric);
+
+    perform public.post_store_stock_movement(
+      p_from_store_id,
+      (v_line->>'stock_item_id')::uuid,
+      p_selling_date,
+      -(v_line->>'quantity')::numeric,
+      'transfer',
+      format('TR-%s to %s', lpad(v_transfer.transfer_number::text, 6, '0'), v_to_store_name)
+    );
+  end loop;
+
+  return jsonb_build_object('transfer_id', v_transfer.id, 'transfer_number', v_transfer.transfer_number);
+end;
+$$;
+
+grant execute on function public.send_stock_transfer(uuid, uuid, uuid, date, jsonb, text) to authenticated;
+
+-- Books an in-transit transfer into the receiving store's stock for
+-- p_selling_date. p_lines ([{ stock_item_id, quantity }]) holds what
+-- actually arrived, at most what was sent of each item on the transfer;
+-- items left out arrived as sent.
+create or replace function public.receive_stock_transfer(
+  p_transfer_id uuid,
+  p_selling_date date,
+  p_lines jsonb default '[]'::jsonb
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_transfer stock_transfers%rowtype;
+  v_from_store_name text;
+  v_line stock_transfer_lines%rowtype;
+  v_received numeric;
+begin
+  select * into v_transfer
+  from stock_transfers
+  where id = p_transfer_id
+  for update;
+
+  if v_transfer.id is null then
+    raise exception 'transfer_not_found' using errcode = 'P0001';
+  end if;
+
+  if not public.can_manage_store_stock(v_transfer.to_store_id) then
+    raise exception 'not_authorized' using errcode = 'P0001';
+  end if;
+
+  -- Receiving twice does nothing, so a retry is harmless
+  if v_transfer.status = 'received' then
+    return;
+  end if;
+
+  if exists (
+    select 1
+    from jsonb_array_elements(coalesce(p_lines, '[]'::jsonb)) received
+    where not exists (
+      select 1
+      from stock_transfer_lines line
+      where line.transfer_id = v_transfer.id
+        and line.stock_item_id = (received->>'stock_item_id')::uuid
+    )
+  ) then
+    raise exception 'item_not_on_transfer' using errcode = 'P0001';
+  end if;
+
+  select name into v_from_store_name from stores where id = v_transfer.from_store_id;
+
+  for v_line in
+    select *
+    from stock_transfer_lines
+    where transfer_id = v_transfer.id
+    order by stock_item_id
+  loop
+    select (received->>'quantity')::numeric into v_received
+    from jsonb_array_elements(coalesce(p_lines, '[]'::jsonb)) received
+    where (received->>'stock_item_id')::uuid = v_line.stock_item_id
+    limit 1;
+
+    v_received := coalesce(v_received, v_line.quantity_sent);
+
+    -- More than was sent would create stock out of nothing
+    if v_received < 0 or v_received > v_line.quantity_sent then
+      raise exception 'invalid_quantity' using errcode = 'P0001';
+    end if;
+
+    update stock_transfer_lines
+    set quantity_received = v_received
+    where transfer_id = v_line.transfer_id
+      and stock_item_id = v_line.stock_item_id;
+
+    if v_received > 0 then
+      perform public.post_store_stock_movement(
+        v_transfer.to_store_id,
+        v_line.stock_item_id,
+        p_selling_date,
+        v_received,
+        'transfer',
+        format('TR-%s from %s', lpad(v_transfer.transfer_number::text, 6, '0'), v_from_store_name)
+      );
+    end if;
+  end loop;
+
+  update stock_transfers
+  set status = 'received',
+      received_by = auth.uid(),
+      received_at = now()
+  where id = v_transfer.id;
+end;
+$$;
+
+grant execute on function public.receive_stock_transfer(uuid, date, jsonb) to authenticated;
@@ -0,0 +1,244 @@
+-- Stock thrown away rather than sold: spilled drinks, expired pastries and
+-- the like. An entry is logged either for a stock item directly or for a
+-- menu item, which is broken down into its recipe. Each line is valued at
+-- the item's unit cost when it was logged.
+create table if not exists public.waste_entries (
+  id uuid primary key default gen_random_uuid(),
+  -- The operation that logged the entry, so a replay doesn't log it twice
+  client_operation_id uuid not null unique,
+  store_id uuid not null references public.stores(id) on delete cascade,
+  selling_date date not null,
+  reason text not null
+    check (reason in ('spilled', 'expired', 'damaged', 'quality', 'other')),
+  stock_item_id uuid references public.stock_items(id) on delete set null,
+  menu_item_id uuid references public.menu_items(id) on delete set null,
+  -- Of the stock item in its unit, or a count of the menu item
+  quantity numeric(12, 3) not null check (quantity > 0),
+  note text,
+  -- Object in the waste-photos bucket, under the store's folder
+  photo_path text,
+  created_by uuid references public.profiles(id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists waste_entries_store_date_idx
+  on public.waste_entries (store_id, selling_date);
+
+create table if not exists public.waste_entry_lines (
+  entry_id uuid not null references public.waste_entries(id) on delete cascade,
+  stock_item_id uuid not null references public.stock_items(id) on delete cascade,
+  -- In the stock item's unit
+  quantity numeric(12, 3) not null check (quantity > 0),
+  unit_cost numeric(12, 2) not null default 0,
+  primary key (entry_id, stock_item_id)
+);
+
+alter table public.waste_entries enable row level security;
+alter table public.waste_entry_lines enable row level security;
+
+-- Both written by log_waste only
+drop policy if exists "Store staff can read waste entries" on public.waste_entries;
+create policy "Store staff can read waste entries"
+  on public.waste_entries for select to authenticated
+  using (public.can_manage_store(store_id));
+
+drop policy if exists "Store staff can read waste entry lines" on public.waste_entry_lines;
+create policy "Store staff can read waste entry lines"
+  on public.waste_entry_lines for select to authenticated
+  using (
+    exists (
+      select 1
+      from public.waste_entries e
+      where e.id = entry_id
+        and public.can_manage_store(e.store_id)
+    )
+  );
+
+-- Photos live under <store id>/ and are visible to that store's staff
+insert into storage.buckets (id, name, public)
+values ('waste-photos', 'waste-photos', false)
+on conflict (id) do nothing;
+
+drop policy if exists "Store staff can upload waste photos" on storage.objects;
+create policy "Store staff can upload waste photos"
+  on storage.objects for insert to authenticated
+  with check (
+    bucket_id = 'waste-photos'
+    and public.can_manage_store(((storage.foldername(name))[1])::uuid)
+  );
+
+-- Retrying an entry uploads its photo again over the first attempt's
+drop policy if exists "Store staff can replace waste photos" on storage.objects;
+create policy "Store staff can replace waste photos"
+  on storage.objects for update to authenticated
+  using (
+    bucket_id = 'waste-photos'
+    and public.can_manage_store(((storage.foldername(name))[1])::uuid)
+  )
+  with check (
+    bucket_id = 'waste-photos'
+    and public.can_manage_store(((storage.foldername(name))[1])::uuid)
+  );
+
+drop policy if exists "Store staff can read waste photos" on storage.objects;
+create policy "Store staff can read waste photos"
+  on storage.objects for select to authenticated
+  using (
+    bucket_id = 'waste-photos'
+    and public.can_manage_store(((storage.foldername(name))[1])::uuid)
+  );
+
+-- What a unit of a stock item costs a store: its latest delivery there, else
+-- the latest delivery anywhere, else the cheapest supplier price, else zero
+create or replace function public.get_stock_unit_cost(p_store_id uuid, p_stock_item_id uuid)
+returns numeric
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(
+    (
+      select line.unit_cost
+      from goods_receipt_lines line
+      join goods_receipts receipt on receipt.id = line.receipt_id
+      where line.stock_item_id = p_stock_item_id
+      order by (receipt.store_id = p_store_id) desc, receipt.received_at desc
+      limit 1
+    ),
+    (
+      select min(pack_cost / pack_size)
+      from supplier_items
+      where stock_item_id = p_stock_item_id
+    ),
+    0
+  );
+$$;
+
+grant execute on function public.get_stock_unit_cost(uuid, uuid) to authenticated;
+
+-- Logs waste at a store and takes it out of the store's stock for
+-- p_selling_date. Pass p_stock_item_id with a quantity in its unit, or
+-- p_menu_item_id with a count, which is broken down through its recipe like a
+-- sale. Stock never goes below zero: when the books hold less than was
+-- thrown away the entry keeps the full quantity and the stock goes to zero.
+--
+-- Returns { entry_id, total_cost }.
+create or replace function public.log_waste(
+  p_client_operation_id uuid,
+  p_store_id uuid,
+  p_selling_date date,
+  p_reason text,
+  p_quantity numeric,
+  p_stock_item_id uuid default null,
+  p_menu_item_id uuid default null,
+  p_note text default null,
+  p_photo_path text default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_entry_id uuid;
+  v_line record;
+  v_available numeric;
+  v_reason_label text;
+begin
+  if not public.can_manage_store(p_store_id) then
+    raise exception 'not_authorized' using errcode = 'P0001';
+  end if;
+
+  -- A replay of an entry that was already logged
+  select id into v_entry_id
+  from waste_entries
+  where client_operation_id = p_client_operation_id;
+
+  if v_entry_id is not null then
+    return jsonb_build_object(
+      'entry_id', v_entry_id,
+      'total_cost', (select coalesce(sum(quantity * unit_cost), 0) from waste_entry_lines where entry_id = v_entry_id)
+    );
+  end if;
+
+  if coalesce(p_quantity, 0) <= 0 then
+    raise exception 'invalid_quantity' using errcode = 'P0001';
+  end if;
+
+  if (p_stock_item_id is null) = (p_menu_item_id is null) then
+    raise exception 'invalid_waste_item' using errcode = 'P0001';
+  end if;
+
+  if p_menu_item_id is not null and not exists (
+    select 1 from stock_item_menu_items where menu_item_id = p_menu_item_id
+  ) then
+    raise exception 'menu_item_has_no_recipe' using errcode = 'P0001';
+  end if;
+
+  insert into waste_entries (
+    client_operation_id, store_id, selling_date, reason, stock_item_id,
+    menu_item_id, quantity, note, photo_path, created_by
+  )
+  values (
+    p_client_operation_id, p_store_id, p_selling_date, p_reason, p_stock_item_id,
+    p_menu_item_id, p_quantity, p_note, p_photo_path, auth.uid()
+  )
+  returning id into v_entry_id;
+
+  v_reason_label := initcap(p_reason);
+
+  for v_line in
+    select p_stock_item_id as stock_item_id, p_quantity as quantity
+    where p_stock_item_id is not null
+    union all
+    select link.stock_item_id,
+           sum(public.convert_stock_unit(link.quantity, link.unit, stock_item.unit) * p_quantity)
+    from stock_item_menu_items link
+    join stock_items stock_item on stock_item.id = link.stock_item_id
+    where link.menu_item_id = p_menu_item_id
+    group by link.stock_item_id
+  loop
+    insert into waste_entry_lines (entry_id, stock_item_id, quantity, unit_cost)
+    values (v_entry_id, v_line.stock_item_id, v_line.quantity, public.get_stock_unit_cost(p_store_id, v_line.stock_item_id));
+
+    -- What the store's books hold for the day, as post_store_stock_movement
+    -- will see it. Today's row is locked first so a sale can't take it lower
+    -- in between.
+    perform 1
+    from store_stocks
+    where store_id = p_store_id
+      and stock_item_id = v_line.stock_item_id
+      and selling_date = p_selling_date
+    for update;
+
+    select coalesce((
+      select quantity
+      from store_stocks
+      where store_id = p_store_id
+        and stock_item_id = v_line.stock_item_id
+        and selling_date <= p_selling_date
+      order by selling_date desc
+      limit 1
+    ), 0) into v_available;
+
+    if least(v_line.quantity, v_available) > 0 then
+      perform public.post_store_stock_movement(
+        p_store_id,
+        v_line.stock_item_id,
+        p_selling_date,
+        -least(v_line.quantity, v_available),
+        'waste',
+        concat_ws(': ', v_reason_label, nullif(trim(p_note), ''))
+      );
+    end if;
+  end loop;
+
+  return jsonb_build_object(
+    'entry_id', v_entry_id,
+    'total_cost', (select coalesce(sum(quantity * unit_cost), 0) from waste_entry_lines where entry_id = v_entry_id)
+  );
+end;
+$$;
+
+grant execute on function public.log_waste(uuid, uuid, date, text, numeric, uuid, uuid, text, text) to authenticated;
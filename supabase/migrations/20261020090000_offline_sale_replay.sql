@@ -0,0 +1,253 @@
+-- A sale queued offline is replayed later, sometimes after the store ended
+-- its selling day or on the next day. It has already been paid for, so the
+-- replay must record it on the day it was made and can't be turned down for
+-- stock the till had no way to check. Whatever it needed beyond what that
+-- day's stock still held is kept here for the manager instead.
+create table if not exists public.sale_stock_shortfalls (
+  transaction_id uuid not null references public.transactions(id) on delete cascade,
+  stock_item_id uuid not null references public.stock_items(id) on delete cascade,
+  store_id uuid not null references public.stores(id) on delete cascade,
+  selling_date date not null,
+  -- In the stock item's unit: what the sale used and how much of that came
+  -- out of the store's stock
+  required_quantity numeric(12, 3) not null,
+  deducted_quantity numeric(12, 3) not null,
+  created_at timestamptz not null default now(),
+  primary key (transaction_id, stock_item_id)
+);
+
+create index if not exists sale_stock_shortfalls_store_date_idx
+  on public.sale_stock_shortfalls (store_id, selling_date);
+
+alter table public.sale_stock_shortfalls enable row level security;
+
+-- Written by checkout_transaction only
+drop policy if exists "Store staff can read sale stock shortfalls" on public.sale_stock_shortfalls;
+create policy "Store staff can read sale stock shortfalls"
+  on public.sale_stock_shortfalls for select to authenticated
+  using (public.can_manage_store(store_id));
+
+drop function if exists public.checkout_transaction(uuid, text, jsonb);
+
+-- Same as the previous version, except that the sale is recorded against
+-- p_selling_date and dated p_sold_at, the day and time it was rung up. A sale
+-- made online is still rejected with insufficient_stock when that day's stock
+-- can't cover it. A replayed offline sale passes p_allow_shortfall: it takes
+-- what stock the day has left, even when the day has already ended, and
+-- records the rest as a shortfall.
+create or replace function public.checkout_transaction(
+  p_client_operation_id uuid,
+  p_payment_method text,
+  p_items jsonb,
+  p_selling_date date default current_date,
+  p_sold_at timestamptz default now(),
+  p_allow_shortfall boolean default false
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_store_id uuid;
+  v_transaction_id uuid;
+  v_transaction_item_id uuid;
+  v_required record;
+  v_available numeric;
+  v_deducted numeric;
+  v_remaining numeric;
+  v_item jsonb;
+  v_sold_stock_item_ids uuid[] := '{}';
+  v_sold_quantities numeric[] := '{}';
+  v_remaining_quantities numeric[] := '{}';
+  v_short_stock_item_ids uuid[] := '{}';
+  v_required_quantities numeric[] := '{}';
+  v_deducted_quantities numeric[] := '{}';
+begin
+  if p_client_operation_id is null then
+    raise exception 'missing_client_operation_id' using errcode = 'P0001';
+  end if;
+
+  select id into v_transaction_id
+  from transactions
+  where client_operation_id = p_client_operation_id;
+
+  if v_transaction_id is not null then
+    return v_transaction_id;
+  end if;
+
+  select store_id into v_store_id
+  from profiles
+  where id = auth.uid();
+
+  if v_store_id is null then
+    raise exception 'no_store_assigned' using errcode = 'P0001';
+  end if;
+
+  if p_items is null or jsonb_array_length(p_items) = 0 then
+    raise exception 'empty_cart' using errcode = 'P0001';
+  end if;
+
+  if p_payment_method not in ('cash', 'qris') then
+    raise exception 'invalid_payment_method' using errcode = 'P0001';
+  end if;
+
+  begin
+    -- Decrement every stock item used by the sold menu items. Rows are
+    -- locked in a stable order so two tills selling the same items can't
+    -- deadlock; the lock makes the second till wait for the first.
+    for v_required in
+      with sold as (
+        select (item->>'menu_item_id')::uuid as menu_item_id,
+               (item->>'quantity')::integer as quantity
+        from jsonb_array_elements(p_items) item
+        where coalesce(jsonb_array_length(item->'components'), 0) = 0
+        union all
+        select (component->>'menu_item_id')::uuid,
+               (item->>'quantity')::integer * (component->>'quantity')::integer
+        from jsonb_array_elements(p_items) item
+        cross join jsonb_array_elements(item->'components') component
+        where coalesce(jsonb_array_length(item->'components'), 0) > 0
+      )
+      select link.stock_item_id,
+             sum(sold.quantity * public.convert_stock_unit(link.quantity, link.unit, stock_item.unit)) as quantity
+      from sold
+      join stock_item_menu_items link
+        on link.menu_item_id = sold.menu_item_id
+      join stock_items stock_item
+        on stock_item.id = link.stock_item_id
+      group by link.stock_item_id
+      order by link.stock_item_id
+    loop
+      select quantity into v_available
+      from store_stocks
+      where store_id = v_store_id
+        and stock_item_id = v_required.stock_item_id
+        and selling_date = p_selling_date
+        and is_active
+      for update;
+
+      v_available := greatest(coalesce(v_available, 0), 0);
+      v_deducted := least(v_required.quantity, v_available);
+
+      if v_deducted < v_required.quantity then
+        if not p_allow_shortfall then
+          raise exception 'insufficient_stock'
+            using errcode = 'P0001',
+                  detail = json_build_object(
+                    'stock_item_id', v_required.stock_item_id,
+                    'available', v_available,
+                    'requested', v_required.quantity
+                  )::text;
+        end if;
+
+        v_short_stock_item_ids := v_short_stock_item_ids || v_required.stock_item_id;
+        v_required_quantities := v_required_quantities || v_required.quantity;
+        v_deducted_quantities := v_deducted_quantities || v_deducted;
+      end if;
+
+      if v_deducted > 0 then
+        update store_stocks
+        set quantity = quantity - v_deducted,
+            updated_at = now()
+        where store_id = v_store_id
+          and stock_item_id = v_required.stock_item_id
+          and selling_date = p_selling_date
+        returning quantity into v_remaining;
+
+        v_sold_stock_item_ids := v_sold_stock_item_ids || v_required.stock_item_id;
+        v_sold_quantities := v_sold_quantities || v_deducted;
+        v_remaining_quantities := v_remaining_quantities || v_remaining;
+      end if;
+    end loop;
+
+    insert into transactions (
+      store_id, cashier_id, payment_method, status, total_amount,
+      transaction_date, client_operation_id
+    )
+    select v_store_id,
+           auth.uid(),
+           p_payment_method,
+           'completed',
+           sum((item->>'quantity')::integer * (item->>'price_per_unit')::numeric),
+           coalesce(p_sold_at, now()),
+           p_client_operation_id
+    from jsonb_array_elements(p_items) item
+    returning id into v_transaction_id;
+
+    insert into stock_movements (
+      stock_item_id, store_id, selling_date, movement_type,
+      quantity_change, quantity_after, transaction_id, created_by
+    )
+    select sold.stock_item_id, v_store_id, p_selling_date, 'sale',
+           -sold.quantity, sold.remaining, v_transaction_id, auth.uid()
+    from unnest(v_sold_stock_item_ids, v_sold_quantities, v_remaining_quantities)
+      as sold (stock_item_id, quantity, remaining);
+
+    insert into sale_stock_shortfalls (
+      transaction_id, stock_item_id, store_id, selling_date,
+      required_quantity, deducted_quantity
+    )
+    select v_transaction_id, short.stock_item_id, v_store_id, p_selling_date,
+           short.required, short.deducted
+    from unnest(v_short_stock_item_ids, v_required_quantities, v_deducted_quantities)
+      as short (stock_item_id, required, deducted);
+  exception
+    -- A concurrent replay of the same sale committed first. The stock
+    -- decrements above are rolled back with this block.
+    when unique_violation then
+      select id into v_transaction_id
+      from transactions
+      where client_operation_id = p_client_operation_id;
+
+      return v_transaction_id;
+  end;
+
+  for v_item in select value from jsonb_array_elements(p_items)
+  loop
+    insert into transaction_items (transaction_id, menu_item_id, quantity, price_per_unit, base_price, total_price)
+    select v_transaction_id,
+           (v_item->>'menu_item_id')::uuid,
+           (v_item->>'quantity')::integer,
+           (v_item->>'price_per_unit')::numeric,
+           coalesce(
+             (v_item->>'base_price')::numeric,
+             cash_price.price,
+             menu_item.price,
+             (v_item->>'price_per_unit')::numeric
+           ),
+           (v_item->>'quantity')::integer * (v_item->>'price_per_unit')::numeric
+    from (select 1) as line
+    left join menu_items menu_item
+      on menu_item.id = (v_item->>'menu_item_id')::uuid
+    left join menu_item_prices cash_price
+      on cash_price.menu_item_id = (v_item->>'menu_item_id')::uuid
+     and cash_price.payment_method = 'cash'
+    returning id into v_transaction_item_id;
+
+    -- The option may have been removed since an offline sale was queued;
+    -- the copied names still record what was sold
+    insert into transaction_item_modifiers (transaction_item_id, modifier_option_id, group_name, option_name, price_delta)
+    select v_transaction_item_id,
+           modifier_option.id,
+           modifier->>'group_name',
+           modifier->>'option_name',
+           coalesce((modifier->>'price_delta')::numeric, 0)
+    from jsonb_array_elements(coalesce(v_item->'modifiers', '[]'::jsonb)) modifier
+    left join modifier_options modifier_option
+      on modifier_option.id = (modifier->>'option_id')::uuid;
+
+    insert into transaction_item_components (transaction_item_id, menu_item_id, slot_name, quantity, allocated_amount)
+    select v_transaction_item_id,
+           (component->>'menu_item_id')::uuid,
+           component->>'slot_name',
+           (v_item->>'quantity')::integer * (component->>'quantity')::integer,
+           coalesce((component->>'allocated_amount')::numeric, 0)
+    from jsonb_array_elements(coalesce(v_item->'components', '[]'::jsonb)) component;
+  end loop;
+
+  return v_transaction_id;
+end;
+$$;
+
+grant execute on function public.checkout_transaction(uuid, text, jsonb, date, timestamptz, boolean) to authenticated;
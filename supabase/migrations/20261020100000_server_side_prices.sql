@@ -0,0 +1,321 @@
+-- The till resolves each line's price from its copy of the catalog, which an
+-- edited request can fake. Checkout now prices every line itself, the same
+-- way the till does: the store's override, else its branch's, else the price
+-- list, plus the deltas of the chosen modifiers.
+
+-- What a store sells a menu item for with a payment method, before modifiers
+create or replace function public.get_menu_item_price(
+  p_menu_item_id uuid,
+  p_store_id uuid,
+  p_payment_method text
+)
+returns numeric
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(
+    (
+      select case when p_payment_method = 'qris' then override.qris_price else override.cash_price end
+      from menu_item_price_overrides override
+      where override.menu_item_id = p_menu_item_id
+        and override.store_id = p_store_id
+    ),
+    (
+      select case when p_payment_method = 'qris' then override.qris_price else override.cash_price end
+      from menu_item_price_overrides override
+      join stores store on store.branch_id = override.branch_id
+      where override.menu_item_id = p_menu_item_id
+        and store.id = p_store_id
+    ),
+    (
+      select price
+      from menu_item_prices
+      where menu_item_id = p_menu_item_id
+        and payment_method = p_payment_method
+    ),
+    (
+      select price
+      from menu_items
+      where id = p_menu_item_id
+    )
+  );
+$$;
+
+grant execute on function public.get_menu_item_price(uuid, uuid, text) to authenticated;
+
+-- Same as the previous version, except that prices come from the catalog
+-- rather than the request. A sale whose prices don't match is rejected with
+-- price_mismatch so the till can refresh its catalog before taking payment.
+-- A replayed offline sale (p_allow_shortfall) has already been paid for, so
+-- it is recorded at the catalog's prices instead, with its bundle revenue
+-- scaled to match. Modifiers that aren't options of the line's item add
+-- nothing.
+create or replace function public.checkout_transaction(
+  p_client_operation_id uuid,
+  p_payment_method text,
+  p_items jsonb,
+  p_selling_date date default current_date,
+  p_sold_at timestamptz default now(),
+  p_allow_shortfall boolean default false
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_store_id uuid;
+  v_transaction_id uuid;
+  v_transaction_item_id uuid;
+  v_required record;
+  v_available numeric;
+  v_deducted numeric;
+  v_remaining numeric;
+  v_item jsonb;
+  v_line record;
+  v_price numeric;
+  v_base_price numeric;
+  v_price_delta numeric;
+  v_prices numeric[] := '{}';
+  v_base_prices numeric[] := '{}';
+  v_total numeric := 0;
+  v_sold_stock_item_ids uuid[] := '{}';
+  v_sold_quantities numeric[] := '{}';
+  v_remaining_quantities numeric[] := '{}';
+  v_short_stock_item_ids uuid[] := '{}';
+  v_required_quantities numeric[] := '{}';
+  v_deducted_quantities numeric[] := '{}';
+begin
+  if p_client_operation_id is null then
+    raise exception 'missing_client_operation_id' using errcode = 'P0001';
+  end if;
+
+  select id into v_transaction_id
+  from transactions
+  where client_operation_id = p_client_operation_id;
+
+  if v_transaction_id is not null then
+    return v_transaction_id;
+  end if;
+
+  select store_id into v_store_id
+  from profiles
+  where id = auth.uid();
+
+  if v_store_id is null then
+    raise exception 'no_store_assigned' using errcode = 'P0001';
+  end if;
+
+  if p_items is null or jsonb_array_length(p_items) = 0 then
+    raise exception 'empty_cart' using errcode = 'P0001';
+  end if;
+
+  if p_payment_method not in ('cash', 'qris') then
+    raise exception 'invalid_payment_method' using errcode = 'P0001';
+  end if;
+
+  for v_line in
+    select item, (item->>'menu_item_id')::uuid as menu_item_id
+    from jsonb_array_elements(p_items) item
+  loop
+    select coalesce(sum(modifier_option.price_delta), 0) into v_price_delta
+    from jsonb_array_elements(coalesce(v_line.item->'modifiers', '[]'::jsonb)) modifier
+    join modifier_options modifier_option
+      on modifier_option.id = (modifier->>'option_id')::uuid
+    join modifier_groups modifier_group
+      on modifier_group.id = modifier_option.group_id
+     and modifier_group.menu_item_id = v_line.menu_item_id;
+
+    v_price := public.get_menu_item_price(v_line.menu_item_id, v_store_id, p_payment_method) + v_price_delta;
+    v_base_price := public.get_menu_item_price(v_line.menu_item_id, v_store_id, 'cash') + v_price_delta;
+
+    if v_price is null then
+      raise exception 'unknown_menu_item'
+        using errcode = 'P0001',
+              detail = json_build_object('menu_item_id', v_line.menu_item_id)::text;
+    end if;
+
+    if not p_allow_shortfall
+       and abs(v_price - coalesce((v_line.item->>'price_per_unit')::numeric, -1)) >= 0.01 then
+      raise exception 'price_mismatch'
+        using errcode = 'P0001',
+              detail = json_build_object(
+                'menu_item_id', v_line.menu_item_id,
+                'expected', v_price,
+                'received', (v_line.item->>'price_per_unit')::numeric
+              )::text;
+    end if;
+
+    v_prices := v_prices || v_price;
+    v_base_prices := v_base_prices || v_base_price;
+    v_total := v_total + (v_line.item->>'quantity')::integer * v_price;
+  end loop;
+
+  begin
+    -- Decrement every stock item used by the sold menu items. Rows are
+    -- locked in a stable order so two tills selling the same items can't
+    -- deadlock; the lock makes the second till wait for the first.
+    for v_required in
+      with sold as (
+        select (item->>'menu_item_id')::uuid as menu_item_id,
+               (item->>'quantity')::integer as quantity
+        from jsonb_array_elements(p_items) item
+        where coalesce(jsonb_array_length(item->'components'), 0) = 0
+        union all
+        select (component->>'menu_item_id')::uuid,
+               (item->>'quantity')::integer * (component->>'quantity')::integer
+        from jsonb_array_elements(p_items) item
+        cross join jsonb_array_elements(item->'components') component
+        where coalesce(jsonb_array_length(item->'components'), 0) > 0
+      )
+      select link.stock_item_id,
+             sum(sold.quantity * public.convert_stock_unit(link.quantity, link.unit, stock_item.unit)) as quantity
+      from sold
+      join stock_item_menu_items link
+        on link.menu_item_id = sold.menu_item_id
+      join stock_items stock_item
+        on stock_item.id = link.stock_item_id
+      group by link.stock_item_id
+      order by link.stock_item_id
+    loop
+      select quantity into v_available
+      from store_stocks
+      where store_id = v_store_id
+        and stock_item_id = v_required.stock_item_id
+        and selling_date = p_selling_date
+        and is_active
+      for update;
+
+      v_available := greatest(coalesce(v_available, 0), 0);
+      v_deducted := least(v_required.quantity, v_available);
+
+      if v_deducted < v_required.quantity then
+        if not p_allow_shortfall then
+          raise exception 'insufficient_stock'
+            using errcode = 'P0001',
+                  detail = json_build_object(
+                    'stock_item_id', v_required.stock_item_id,
+                    'available', v_available,
+                    'requested', v_required.quantity
+                  )::text;
+        end if;
+
+        v_short_stock_item_ids := v_short_stock_item_ids || v_required.stock_item_id;
+        v_required_quantities := v_required_quantities || v_required.quantity;
+        v_deducted_quantities := v_deducted_quantities || v_deducted;
+      end if;
+
+      if v_deducted > 0 then
+        update store_stocks
+        set quantity = quantity - v_deducted,
+            updated_at = now()
+        where store_id = v_store_id
+          and stock_item_id = v_required.stock_item_id
+          and selling_date = p_selling_date
+        returning quantity into v_remaining;
+
+        v_sold_stock_item_ids := v_sold_stock_item_ids || v_required.stock_item_id;
+        v_sold_quantities := v_sold_quantities || v_deducted;
+        v_remaining_quantities := v_remaining_quantities || v_remaining;
+      end if;
+    end loop;
+
+    insert into transactions (
+      store_id, cashier_id, payment_method, status, total_amount,
+      transaction_date, client_operation_id
+    )
+    values (
+      v_store_id,
+      auth.uid(),
+      p_payment_method,
+      'completed',
+      v_total,
+      coalesce(p_sold_at, now()),
+      p_client_operation_id
+    )
+    returning id into v_transaction_id;
+
+    insert into stock_movements (
+      stock_item_id, store_id, selling_date, movement_type,
+      quantity_change, quantity_after, transaction_id, created_by
+    )
+    select sold.stock_item_id, v_store_id, p_selling_date, 'sale',
+           -sold.quantity, sold.remaining, v_transaction_id, auth.uid()
+    from unnest(v_sold_stock_item_ids, v_sold_quantities, v_remaining_quantities)
+      as sold (stock_item_id, quantity, remaining);
+
+    insert into sale_stock_shortfalls (
+      transaction_id, stock_item_id, store_id, selling_date,
+      required_quantity, deducted_quantity
+    )
+    select v_transaction_id, short.stock_item_id, v_store_id, p_selling_date,
+           short.required, short.deducted
+    from unnest(v_short_stock_item_ids, v_required_quantities, v_deducted_quantities)
+      as short (stock_item_id, required, deducted);
+  exception
+    -- A concurrent replay of the same sale committed first. The stock
+    -- decrements above are rolled back with this block.
+    when unique_violation then
+      select id into v_transaction_id
+      from transactions
+      where client_operation_id = p_client_operation_id;
+
+      return v_transaction_id;
+  end;
+
+  for v_item, v_price, v_base_price in
+    select item, price, base_price
+    from unnest(array(select jsonb_array_elements(p_items)), v_prices, v_base_prices)
+      as line (item, price, base_price)
+  loop
+    insert into transaction_items (transaction_id, menu_item_id, quantity, price_per_unit, base_price, total_price)
+    values (
+      v_transaction_id,
+      (v_item->>'menu_item_id')::uuid,
+      (v_item->>'quantity')::integer,
+      v_price,
+      v_base_price,
+      (v_item->>'quantity')::integer * v_price
+    )
+    returning id into v_transaction_item_id;
+
+    -- The option may have been removed since an offline sale was queued;
+    -- the copied names still record what was sold
+    insert into transaction_item_modifiers (transaction_item_id, modifier_option_id, group_name, option_name, price_delta)
+    select v_transaction_item_id,
+           modifier_option.id,
+           modifier->>'group_name',
+           modifier->>'option_name',
+           coalesce(modifier_option.price_delta, 0)
+    from jsonb_array_elements(coalesce(v_item->'modifiers', '[]'::jsonb)) modifier
+    left join (
+      modifier_options modifier_option
+      join modifier_groups modifier_group
+        on modifier_group.id = modifier_option.group_id
+    )
+      on modifier_option.id = (modifier->>'option_id')::uuid
+     and modifier_group.menu_item_id = (v_item->>'menu_item_id')::uuid;
+
+    -- The till split its own line total; a replay recorded at a different
+    -- price keeps the split in proportion
+    insert into transaction_item_components (transaction_item_id, menu_item_id, slot_name, quantity, allocated_amount)
+    select v_transaction_item_id,
+           (component->>'menu_item_id')::uuid,
+           component->>'slot_name',
+           (v_item->>'quantity')::integer * (component->>'quantity')::integer,
+           case
+             when coalesce((v_item->>'price_per_unit')::numeric, 0) > 0
+               then round(coalesce((component->>'allocated_amount')::numeric, 0)
+                 * v_price / (v_item->>'price_per_unit')::numeric, 2)
+             else coalesce((component->>'allocated_amount')::numeric, 0)
+           end
+    from jsonb_array_elements(coalesce(v_item->'components', '[]'::jsonb)) component;
+  end loop;
+
+  return v_transaction_id;
+end;
+$$;
+
+grant execute on function public.checkout_transaction(uuid, text, jsonb, date, timestamptz, boolean) to authenticated;
@@ -0,0 +1,5 @@
+-- Sales are priced and take their stock in checkout_transaction. A cashier
+-- inserting transactions or their items directly would skip both, so those
+-- rows are now only written by checkout.
+drop policy if exists "Cashiers can record sales for their store" on public.transactions;
+drop policy if exists "Cashiers can add items to their sales" on public.transaction_items;
@@ -0,0 +1,115 @@
+-- Sample catalog for a local stack, loaded by `supabase db reset`.
+--
+-- Accounts aren't seeded: create them in Studio, call create_default_owner()
+-- as the first one, then set the others' role, branch_id and store_id in
+-- profiles to try the row-level security rules.
+
+insert into public.brands (id, name, slogan)
+values ('00000000-0000-0000-0000-000000000001', 'Selis Coffee', 'Coffee for every corner')
+on conflict (id) do nothing;
+
+insert into public.branches (id, name, address, contact_person)
+values
+  ('00000000-0000-0000-0000-000000000101', 'Central', 'Jl. Merdeka 1', 'Rina'),
+  ('00000000-0000-0000-0000-000000000102', 'North', 'Jl. Utara 12', 'Budi')
+on conflict (id) do nothing;
+
+insert into public.stores (id, branch_id, name, address)
+values
+  ('00000000-0000-0000-0000-000000000201', '00000000-0000-0000-0000-000000000101', 'Central Mall', 'Central Mall L2'),
+  ('00000000-0000-0000-0000-000000000202', '00000000-0000-0000-0000-000000000101', 'Central Kiosk', 'Jl. Merdeka 3'),
+  ('00000000-0000-0000-0000-000000000203', '00000000-0000-0000-0000-000000000102', 'North Kiosk', 'Jl. Utara 14')
+on conflict (id) do nothing;
+
+insert into public.categories (id, name)
+values
+  ('00000000-0000-0000-0000-000000000301', 'Drinks'),
+  ('00000000-0000-0000-0000-000000000302', 'Food')
+on conflict (id) do nothing;
+
+insert into public.menu_items (id, category_id, name, description, price)
+values
+  ('00000000-0000-0000-0000-000000000401', '00000000-0000-0000-0000-000000000301', 'Iced Coffee', 'Cold brewed coffee with ice', 20000),
+  ('00000000-0000-0000-0000-000000000402', '00000000-0000-0000-0000-000000000301', 'Hot Coffee', 'Freshly brewed hot coffee', 18000),
+  ('00000000-0000-0000-0000-000000000403', '00000000-0000-0000-0000-000000000302', 'Sandwich', 'Chicken sandwich with veggies', 25000)
+on conflict (id) do nothing;
+
+insert into public.menu_items (id, category_id, name, description, price, item_type)
+values
+  ('00000000-0000-0000-0000-000000000404', '00000000-0000-0000-0000-000000000302', 'Coffee + Sandwich', 'Any coffee with a sandwich', 38000, 'bundle')
+on conflict (id) do nothing;
+
+insert into public.menu_item_prices (menu_item_id, payment_method, price)
+values
+  ('00000000-0000-0000-0000-000000000401', 'cash', 20000),
+  ('00000000-0000-0000-0000-000000000401', 'qris', 21000),
+  ('00000000-0000-0000-0000-000000000402', 'cash', 18000),
+  ('00000000-0000-0000-0000-000000000402', 'qris', 19000),
+  ('00000000-0000-0000-0000-000000000403', 'cash', 25000),
+  ('00000000-0000-0000-0000-000000000403', 'qris', 26500),
+  ('00000000-0000-0000-0000-000000000404', 'cash', 38000),
+  ('00000000-0000-0000-0000-000000000404', 'qris', 40000)
+on conflict (menu_item_id, payment_method) do nothing;
+
+-- The mall store charges more for coffee
+insert into public.menu_item_price_overrides (menu_item_id, store_id, cash_price, qris_price)
+values
+  ('00000000-0000-0000-0000-000000000401', '00000000-0000-0000-0000-000000000201', 23000, 24000),
+  ('00000000-0000-0000-0000-000000000402', '00000000-0000-0000-0000-000000000201', 21000, 22000)
+on conflict (menu_item_id, store_id) do nothing;
+
+insert into public.modifier_groups (id, menu_item_id, name, selection, is_required, min_select, max_select, sort_order)
+values
+  ('00000000-0000-0000-0000-000000000601', '00000000-0000-0000-0000-000000000401', 'Size', 'single', true, 1, null, 0),
+  ('00000000-0000-0000-0000-000000000602', '00000000-0000-0000-0000-000000000401', 'Add-ons', 'multiple', false, 0, 2, 1)
+on conflict (id) do nothing;
+
+insert into public.modifier_options (id, group_id, name, price_delta, sort_order)
+values
+  ('00000000-0000-0000-0000-000000000611', '00000000-0000-0000-0000-000000000601', 'Regular', 0, 0),
+  ('00000000-0000-0000-0000-000000000612', '00000000-0000-0000-0000-000000000601', 'Large', 5000, 1),
+  ('00000000-0000-0000-0000-000000000621', '00000000-0000-0000-0000-000000000602', 'Extra shot', 4000, 0),
+  ('00000000-0000-0000-0000-000000000622', '00000000-0000-0000-0000-000000000602', 'Less sugar', 0, 1)
+on conflict (id) do nothing;
+
+insert into public.stock_items (id, name, unit, current_stock, minimum_stock)
+values
+  ('00000000-0000-0000-0000-000000000501', 'Cups', 'pcs', 200, 50),
+  ('00000000-0000-0000-0000-000000000502', 'Bread', 'pcs', 40, 10),
+  ('00000000-0000-0000-0000-000000000503', 'Coffee beans', 'kg', 5, 1)
+on conflict (id) do nothing;
+
+insert into public.stock_item_menu_items (stock_item_id, menu_item_id, quantity, unit)
+values
+  ('00000000-0000-0000-0000-000000000501', '00000000-0000-0000-0000-000000000401', 1, null),
+  ('00000000-0000-0000-0000-000000000501', '00000000-0000-0000-0000-000000000402', 1, null),
+  ('00000000-0000-0000-0000-000000000502', '00000000-0000-0000-0000-000000000403', 1, null),
+  ('00000000-0000-0000-0000-000000000503', '00000000-0000-0000-0000-000000000401', 18, 'g'),
+  ('00000000-0000-0000-0000-000000000503', '00000000-0000-0000-0000-000000000402', 18, 'g')
+on conflict (stock_item_id, menu_item_id) do nothing;
+
+insert into public.suppliers (id, name, contact_person, contact_phone, email, lead_time_days)
+values
+  ('00000000-0000-0000-0000-000000000801', 'Kopi Nusantara', 'Budi', '+62 812 0000 0801', 'orders@kopinusantara.example', 2),
+  ('00000000-0000-0000-0000-000000000802', 'Roti Segar', 'Sari', '+62 812 0000 0802', null, 1)
+on conflict (id) do nothing;
+
+insert into public.supplier_items (supplier_id, stock_item_id, pack_size, pack_cost)
+values
+  ('00000000-0000-0000-0000-000000000801', '00000000-0000-0000-0000-000000000503', 1, 180000),
+  ('00000000-0000-0000-0000-000000000801', '00000000-0000-0000-0000-000000000501', 50, 45000),
+  ('00000000-0000-0000-0000-000000000802', '00000000-0000-0000-0000-000000000502', 10, 60000)
+on conflict (supplier_id, stock_item_id) do nothing;
+
+insert into public.bundle_slots (id, bundle_id, name, quantity, sort_order)
+values
+  ('00000000-0000-0000-0000-000000000701', '00000000-0000-0000-0000-000000000404', 'Coffee', 1, 0),
+  ('00000000-0000-0000-0000-000000000702', '00000000-0000-0000-0000-000000000404', 'Sandwich', 1, 1)
+on conflict (id) do nothing;
+
+insert into public.bundle_slot_items (slot_id, menu_item_id, sort_order)
+values
+  ('00000000-0000-0000-0000-000000000701', '00000000-0000-0000-0000-000000000401', 0),
+  ('00000000-0000-0000-0000-000000000701', '00000000-0000-0000-0000-000000000402', 1),
+  ('00000000-0000-0000-0000-000000000702', '00000000-0000-0000-0000-000000000403', 0)
+on conflict (slot_id, menu_item_id) do nothing;
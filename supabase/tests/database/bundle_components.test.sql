@@ -0,0 +1,127 @@
+-- Bundle lines are checked against the bundle's slots: each slot must be
+-- filled by one of its menu items, and stock is taken in the slot's quantity
+-- whatever the till sent. Run with `supabase test db`.
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(6);
+
+insert into public.branches (id, name, address)
+values ('00000000-0000-0000-0000-000000006101', 'Test Branch', 'Jl. Test 1');
+
+insert into public.stores (id, branch_id, name, address)
+values ('00000000-0000-0000-0000-000000006201', '00000000-0000-0000-0000-000000006101', 'Test Store', 'Jl. Test 2');
+
+insert into public.menu_items (id, name, price, item_type)
+values
+  ('00000000-0000-0000-0000-000000006401', 'Test Coffee', 20000, 'single'),
+  ('00000000-0000-0000-0000-000000006402', 'Test Tea', 15000, 'single'),
+  ('00000000-0000-0000-0000-000000006403', 'Test Breakfast', 30000, 'bundle');
+
+-- The breakfast comes with two coffees
+insert into public.bundle_slots (id, bundle_id, name, quantity)
+values ('00000000-0000-0000-0000-000000006701', '00000000-0000-0000-0000-000000006403', 'Drink', 2);
+
+insert into public.bundle_slot_items (slot_id, menu_item_id)
+values ('00000000-0000-0000-0000-000000006701', '00000000-0000-0000-0000-000000006401');
+
+insert into public.stock_items (id, name, unit)
+values ('00000000-0000-0000-0000-000000006501', 'Test Cups', 'pcs');
+
+insert into public.stock_item_menu_items (stock_item_id, menu_item_id, quantity)
+values
+  ('00000000-0000-0000-0000-000000006501', '00000000-0000-0000-0000-000000006401', 1),
+  ('00000000-0000-0000-0000-000000006501', '00000000-0000-0000-0000-000000006402', 1);
+
+insert into public.store_stocks (store_id, stock_item_id, selling_date, quantity, is_active)
+values ('00000000-0000-0000-0000-000000006201', '00000000-0000-0000-0000-000000006501', current_date, 10, true);
+
+insert into auth.users (id, email)
+values ('00000000-0000-0000-0000-000000006301', 'cashier@test.local');
+
+update public.profiles
+set role = 'cashier',
+    branch_id = '00000000-0000-0000-0000-000000006101',
+    store_id = '00000000-0000-0000-0000-000000006201'
+where id = '00000000-0000-0000-0000-000000006301';
+
+set local role authenticated;
+
+set local request.jwt.claims = '{"sub": "00000000-0000-0000-0000-000000006301", "role": "authenticated"}';
+
+select lives_ok(
+  $$
+    select public.checkout_transaction(
+      '00000000-0000-0000-0000-000000006601',
+      'cash',
+      '[{"menu_item_id": "00000000-0000-0000-0000-000000006403", "quantity": 1, "price_per_unit": 30000,
+         "components": [{"menu_item_id": "00000000-0000-0000-0000-000000006401", "slot_name": "Drink", "quantity": 1}]}]'
+    )
+  $$,
+  'a bundle line naming a menu item of each slot is recorded'
+);
+
+select is(
+  (select quantity from public.store_stocks
+   where store_id = '00000000-0000-0000-0000-000000006201'
+     and stock_item_id = '00000000-0000-0000-0000-000000006501'
+     and selling_date = current_date),
+  8::numeric,
+  'a bundle line takes stock in the slot''s quantity'
+);
+
+select is(
+  (select component.quantity
+   from public.transaction_item_components component
+   join public.transaction_items item on item.id = component.transaction_item_id
+   join public.transactions sale on sale.id = item.transaction_id
+   where sale.client_operation_id = '00000000-0000-0000-0000-000000006601'),
+  2,
+  'a bundle line records its components in the slot''s quantity'
+);
+
+select throws_ok(
+  $$
+    select public.checkout_transaction(
+      '00000000-0000-0000-0000-000000006602',
+      'cash',
+      '[{"menu_item_id": "00000000-0000-0000-0000-000000006403", "quantity": 1, "price_per_unit": 30000}]'
+    )
+  $$,
+  'P0001',
+  'invalid_bundle_components',
+  'a bundle line without components is rejected'
+);
+
+select throws_ok(
+  $$
+    select public.checkout_transaction(
+      '00000000-0000-0000-0000-000000006603',
+      'cash',
+      '[{"menu_item_id": "00000000-0000-0000-0000-000000006403", "quantity": 1, "price_per_unit": 30000,
+         "components": [{"menu_item_id": "00000000-0000-0000-0000-000000006402", "slot_name": "Drink", "quantity": 2}]}]'
+    )
+  $$,
+  'P0001',
+  'invalid_bundle_components',
+  'a bundle line naming a menu item outside the slot is rejected'
+);
+
+select throws_ok(
+  $$
+    select public.checkout_transaction(
+      '00000000-0000-0000-0000-000000006604',
+      'cash',
+      '[{"menu_item_id": "00000000-0000-0000-0000-000000006401", "quantity": 1, "price_per_unit": 20000,
+         "components": [{"menu_item_id": "00000000-0000-0000-0000-000000006402", "slot_name": "Drink", "quantity": 1}]}]'
+    )
+  $$,
+  'P0001',
+  'invalid_bundle_components',
+  'a single item sent with components is rejected'
+);
+
+select * from finish();
+
+rollback;
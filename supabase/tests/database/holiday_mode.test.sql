@@ -0,0 +1,67 @@
+-- A store in holiday mode can't make sales, but sales the till made offline
+-- before the switch reached it are still recorded when they are replayed.
+-- Run with `supabase test db`.
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(3);
+
+insert into public.branches (id, name, address)
+values ('00000000-0000-0000-0000-000000004101', 'Test Branch', 'Jl. Test 1');
+
+insert into public.stores (id, branch_id, name, address, is_holiday_mode)
+values ('00000000-0000-0000-0000-000000004201', '00000000-0000-0000-0000-000000004101', 'Test Store', 'Jl. Test 2', true);
+
+insert into public.menu_items (id, name, price)
+values ('00000000-0000-0000-0000-000000004401', 'Test Coffee', 20000);
+
+insert into auth.users (id, email)
+values ('00000000-0000-0000-0000-000000004301', 'cashier@test.local');
+
+update public.profiles
+set role = 'cashier',
+    branch_id = '00000000-0000-0000-0000-000000004101',
+    store_id = '00000000-0000-0000-0000-000000004201'
+where id = '00000000-0000-0000-0000-000000004301';
+
+set local role authenticated;
+
+set local request.jwt.claims = '{"sub": "00000000-0000-0000-0000-000000004301", "role": "authenticated"}';
+
+select throws_ok(
+  $$
+    select public.checkout_transaction(
+      '00000000-0000-0000-0000-000000004601',
+      'cash',
+      '[{"menu_item_id": "00000000-0000-0000-0000-000000004401", "quantity": 1, "price_per_unit": 20000}]'
+    )
+  $$,
+  'P0001',
+  'store_on_holiday',
+  'a store in holiday mode can''t make a sale'
+);
+
+select lives_ok(
+  $$
+    select public.checkout_transaction(
+      '00000000-0000-0000-0000-000000004602',
+      'cash',
+      '[{"menu_item_id": "00000000-0000-0000-0000-000000004401", "quantity": 1, "price_per_unit": 20000}]',
+      current_date,
+      now(),
+      true
+    )
+  $$,
+  'a replayed offline sale is recorded in holiday mode'
+);
+
+select is(
+  (select count(*) from public.transactions where store_id = '00000000-0000-0000-0000-000000004201'),
+  1::bigint,
+  'only the replayed sale is recorded'
+);
+
+select * from finish();
+
+rollback;
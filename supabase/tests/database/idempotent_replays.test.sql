@@ -0,0 +1,95 @@
+-- Queued sales can be sent more than once, e.g. by the app and the service
+-- worker at the same time, or replayed offline after going through online.
+-- Sending one again with the same client operation id must return the first
+-- sale without touching stock again.
+-- Run with `supabase test db`.
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(4);
+
+insert into public.branches (id, name, address)
+values ('00000000-0000-0000-0000-000000008101', 'Test Branch', 'Jl. Test 1');
+
+insert into public.stores (id, branch_id, name, address)
+values ('00000000-0000-0000-0000-000000008201', '00000000-0000-0000-0000-000000008101', 'Test Store', 'Jl. Test 2');
+
+insert into public.menu_items (id, name, price)
+values ('00000000-0000-0000-0000-000000008401', 'Test Coffee', 20000);
+
+insert into public.stock_items (id, name, unit)
+values ('00000000-0000-0000-0000-000000008501', 'Test Cups', 'pcs');
+
+insert into public.stock_item_menu_items (stock_item_id, menu_item_id, quantity)
+values ('00000000-0000-0000-0000-000000008501', '00000000-0000-0000-0000-000000008401', 1);
+
+insert into public.store_stocks (store_id, stock_item_id, selling_date, quantity, is_active)
+values ('00000000-0000-0000-0000-000000008201', '00000000-0000-0000-0000-000000008501', current_date, 10, true);
+
+insert into auth.users (id, email)
+values ('00000000-0000-0000-0000-000000008301', 'cashier@test.local');
+
+update public.profiles
+set role = 'cashier',
+    branch_id = '00000000-0000-0000-0000-000000008101',
+    store_id = '00000000-0000-0000-0000-000000008201'
+where id = '00000000-0000-0000-0000-000000008301';
+
+set local role authenticated;
+
+set local request.jwt.claims = '{"sub": "00000000-0000-0000-0000-000000008301", "role": "authenticated"}';
+
+create temporary table sale_ids (id uuid) on commit drop;
+
+insert into sale_ids
+select public.checkout_transaction(
+  '00000000-0000-0000-0000-000000008601',
+  'cash',
+  '[{"menu_item_id": "00000000-0000-0000-0000-000000008401", "quantity": 2, "price_per_unit": 20000}]'
+);
+
+insert into sale_ids
+select public.checkout_transaction(
+  '00000000-0000-0000-0000-000000008601',
+  'cash',
+  '[{"menu_item_id": "00000000-0000-0000-0000-000000008401", "quantity": 2, "price_per_unit": 20000}]'
+);
+
+select is(
+  (select count(distinct id) from sale_ids),
+  1::bigint,
+  'a replayed checkout returns the id of the first one'
+);
+
+select is(
+  (select count(*) from public.transactions where client_operation_id = '00000000-0000-0000-0000-000000008601'),
+  1::bigint,
+  'a replayed checkout records the sale once'
+);
+
+select is(
+  (select quantity from public.store_stocks
+   where store_id = '00000000-0000-0000-0000-000000008201'
+     and stock_item_id = '00000000-0000-0000-0000-000000008501'
+     and selling_date = current_date),
+  8::numeric,
+  'a replayed checkout takes its stock once'
+);
+
+select is(
+  public.checkout_transaction(
+    '00000000-0000-0000-0000-000000008601',
+    'cash',
+    '[{"menu_item_id": "00000000-0000-0000-0000-000000008401", "quantity": 2, "price_per_unit": 20000}]',
+    current_date,
+    now(),
+    true
+  ),
+  (select id from sale_ids limit 1),
+  'an offline replay of a sale already recorded online returns the same id'
+);
+
+select * from finish();
+
+rollback;
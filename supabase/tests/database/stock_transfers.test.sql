@@ -0,0 +1,115 @@
+-- Receiving a transfer can't book in more than was sent, or items that
+-- weren't on it, so a branch's stock only moves between its stores. Run with
+-- `supabase test db`.
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(7);
+
+insert into public.branches (id, name, address)
+values ('00000000-0000-0000-0000-000000007101', 'Test Branch', 'Jl. Test 1');
+
+insert into public.stores (id, branch_id, name, address)
+values
+  ('00000000-0000-0000-0000-000000007201', '00000000-0000-0000-0000-000000007101', 'Sending Store', 'Jl. Test 2'),
+  ('00000000-0000-0000-0000-000000007202', '00000000-0000-0000-0000-000000007101', 'Receiving Store', 'Jl. Test 3');
+
+insert into public.stock_items (id, name, unit)
+values
+  ('00000000-0000-0000-0000-000000007501', 'Test Milk', 'ml'),
+  ('00000000-0000-0000-0000-000000007502', 'Test Sugar', 'g');
+
+insert into public.store_stocks (store_id, stock_item_id, selling_date, quantity, is_active)
+values ('00000000-0000-0000-0000-000000007201', '00000000-0000-0000-0000-000000007501', current_date, 1000, true);
+
+insert into auth.users (id, email)
+values ('00000000-0000-0000-0000-000000007301', 'manager@test.local');
+
+update public.profiles
+set role = 'manager',
+    branch_id = '00000000-0000-0000-0000-000000007101'
+where id = '00000000-0000-0000-0000-000000007301';
+
+set local role authenticated;
+
+set local request.jwt.claims = '{"sub": "00000000-0000-0000-0000-000000007301", "role": "authenticated"}';
+
+select lives_ok(
+  $$
+    select public.send_stock_transfer(
+      '00000000-0000-0000-0000-000000007601',
+      '00000000-0000-0000-0000-000000007201',
+      '00000000-0000-0000-0000-000000007202',
+      current_date,
+      '[{"stock_item_id": "00000000-0000-0000-0000-000000007501", "quantity": 400}]'
+    )
+  $$,
+  'a manager can send stock between stores of their branch'
+);
+
+select throws_ok(
+  $$
+    select public.receive_stock_transfer(
+      (select id from public.stock_transfers where client_operation_id = '00000000-0000-0000-0000-000000007601'),
+      current_date,
+      '[{"stock_item_id": "00000000-0000-0000-0000-000000007501", "quantity": 500}]'
+    )
+  $$,
+  'P0001',
+  'invalid_quantity',
+  'a transfer cannot be received with more than was sent'
+);
+
+select throws_ok(
+  $$
+    select public.receive_stock_transfer(
+      (select id from public.stock_transfers where client_operation_id = '00000000-0000-0000-0000-000000007601'),
+      current_date,
+      '[{"stock_item_id": "00000000-0000-0000-0000-000000007502", "quantity": 100}]'
+    )
+  $$,
+  'P0001',
+  'item_not_on_transfer',
+  'a transfer cannot be received with an item that was not sent'
+);
+
+select lives_ok(
+  $$
+    select public.receive_stock_transfer(
+      (select id from public.stock_transfers where client_operation_id = '00000000-0000-0000-0000-000000007601'),
+      current_date,
+      '[{"stock_item_id": "00000000-0000-0000-0000-000000007501", "quantity": 350}]'
+    )
+  $$,
+  'a transfer can be received with less than was sent'
+);
+
+select is(
+  (select quantity from public.store_stocks
+   where store_id = '00000000-0000-0000-0000-000000007202'
+     and stock_item_id = '00000000-0000-0000-0000-000000007501'
+     and selling_date = current_date),
+  350::numeric,
+  'the receiving store gets what arrived'
+);
+
+select is(
+  (select sum(quantity) from public.store_stocks
+   where store_id in ('00000000-0000-0000-0000-000000007201', '00000000-0000-0000-0000-000000007202')
+     and stock_item_id = '00000000-0000-0000-0000-000000007501'
+     and selling_date = current_date),
+  950::numeric,
+  'the branch holds what it had less what went missing in transit'
+);
+
+select is(
+  (select quantity_received from public.stock_transfer_lines
+   where transfer_id = (select id from public.stock_transfers where client_operation_id = '00000000-0000-0000-0000-000000007601')),
+  350::numeric,
+  'the received quantity is recorded on the line'
+);
+
+select * from finish();
+
+rollback;
@@ -0,0 +1,169 @@
+-- Row-level security for sales: cashiers only see their own store, managers
+-- their branch. Run with `supabase test db`.
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(13);
+
+-- Two stores in one branch and one in another, each with a sale
+insert into public.branches (id, name, address)
+values
+  ('00000000-0000-0000-0000-000000009101', 'Test Branch', 'Jl. Test 1'),
+  ('00000000-0000-0000-0000-000000009102', 'Other Branch', 'Jl. Test 2');
+
+insert into public.stores (id, branch_id, name, address)
+values
+  ('00000000-0000-0000-0000-000000009201', '00000000-0000-0000-0000-000000009101', 'Own Store', 'Jl. Test 3'),
+  ('00000000-0000-0000-0000-000000009202', '00000000-0000-0000-0000-000000009101', 'Sibling Store', 'Jl. Test 4'),
+  ('00000000-0000-0000-0000-000000009203', '00000000-0000-0000-0000-000000009102', 'Other Branch Store', 'Jl. Test 5');
+
+insert into public.menu_items (id, name, price)
+values ('00000000-0000-0000-0000-000000009401', 'Test Coffee', 20000);
+
+insert into public.stock_items (id, name, unit)
+values ('00000000-0000-0000-0000-000000009501', 'Test Cups', 'pcs');
+
+insert into public.store_stocks (store_id, stock_item_id, selling_date, quantity, is_active)
+values ('00000000-0000-0000-0000-000000009202', '00000000-0000-0000-0000-000000009501', current_date, 10, true);
+
+-- Profiles are created by the sign-up trigger
+insert into auth.users (id, email)
+values
+  ('00000000-0000-0000-0000-000000009301', 'cashier@test.local'),
+  ('00000000-0000-0000-0000-000000009302', 'manager@test.local');
+
+update public.profiles
+set role = 'cashier',
+    branch_id = '00000000-0000-0000-0000-000000009101',
+    store_id = '00000000-0000-0000-0000-000000009201'
+where id = '00000000-0000-0000-0000-000000009301';
+
+update public.profiles
+set role = 'manager',
+    branch_id = '00000000-0000-0000-0000-000000009101'
+where id = '00000000-0000-0000-0000-000000009302';
+
+insert into public.transactions (store_id, payment_method, total_amount)
+values
+  ('00000000-0000-0000-0000-000000009201', 'cash', 20000),
+  ('00000000-0000-0000-0000-000000009202', 'cash', 25000),
+  ('00000000-0000-0000-0000-000000009203', 'qris', 30000);
+
+set local role authenticated;
+
+-- Signed in as the cashier
+set local request.jwt.claims = '{"sub": "00000000-0000-0000-0000-000000009301", "role": "authenticated"}';
+
+select is(
+  (select count(*) from public.transactions where store_id = '00000000-0000-0000-0000-000000009201'),
+  1::bigint,
+  'a cashier can read the sales of their own store'
+);
+
+select is(
+  (select count(*) from public.transactions where store_id = '00000000-0000-0000-0000-000000009202'),
+  0::bigint,
+  'a cashier cannot read the sales of a sibling store in their branch'
+);
+
+select is(
+  public.can_manage_store('00000000-0000-0000-0000-000000009202'),
+  false,
+  'a cashier has no access to a sibling store'
+);
+
+select is(
+  public.can_manage_store_stock('00000000-0000-0000-0000-000000009201'),
+  false,
+  'a cashier cannot change the stock of their own store'
+);
+
+select throws_ok(
+  $$
+    insert into public.transactions (store_id, cashier_id, payment_method, total_amount)
+    values ('00000000-0000-0000-0000-000000009202', '00000000-0000-0000-0000-000000009301', 'cash', 1000)
+  $$,
+  '42501',
+  null,
+  'a cashier cannot record a sale for a sibling store'
+);
+
+select throws_ok(
+  $$
+    insert into public.transactions (store_id, cashier_id, payment_method, total_amount)
+    values ('00000000-0000-0000-0000-000000009201', '00000000-0000-0000-0000-000000009301', 'cash', 1000)
+  $$,
+  '42501',
+  null,
+  'a cashier cannot record a sale for their own store without checkout'
+);
+
+select throws_ok(
+  $$
+    insert into public.transaction_items (transaction_id, menu_item_id, quantity, price_per_unit, total_price)
+    select id, '00000000-0000-0000-0000-000000009401', 1, 1000, 1000
+    from public.transactions
+    where store_id = '00000000-0000-0000-0000-000000009201'
+  $$,
+  '42501',
+  null,
+  'a cashier cannot add items to a sale without checkout'
+);
+
+-- Signed in as the manager
+set local request.jwt.claims = '{"sub": "00000000-0000-0000-0000-000000009302", "role": "authenticated"}';
+
+select is(
+  (select count(*) from public.transactions where store_id in (
+    '00000000-0000-0000-0000-000000009201',
+    '00000000-0000-0000-0000-000000009202'
+  )),
+  2::bigint,
+  'a manager can read the sales of every store in their branch'
+);
+
+select is(
+  (select count(*) from public.transactions where store_id = '00000000-0000-0000-0000-000000009203'),
+  0::bigint,
+  'a manager cannot read the sales of another branch'
+);
+
+select is(
+  public.can_manage_store_stock('00000000-0000-0000-0000-000000009202'),
+  true,
+  'a manager can change the stock of every store in their branch'
+);
+
+select is(
+  public.can_manage_store_stock('00000000-0000-0000-0000-000000009203'),
+  false,
+  'a manager cannot change the stock of another branch'
+);
+
+select throws_ok(
+  $$
+    insert into public.store_stocks (store_id, stock_item_id, selling_date, quantity, is_active)
+    values ('00000000-0000-0000-0000-000000009202', '00000000-0000-0000-0000-000000009501', current_date + 1, 10, true)
+  $$,
+  '42501',
+  null,
+  'a manager cannot add store stock without it being recorded'
+);
+
+update public.store_stocks
+set quantity = 50
+where store_id = '00000000-0000-0000-0000-000000009202'
+  and stock_item_id = '00000000-0000-0000-0000-000000009501';
+
+select is(
+  (select quantity from public.store_stocks
+   where store_id = '00000000-0000-0000-0000-000000009202'
+     and stock_item_id = '00000000-0000-0000-0000-000000009501'),
+  10::numeric,
+  'a manager cannot change store stock without it being recorded'
+);
+
+select * from finish();
+
+rollback;
@@ -0,0 +1,105 @@
+-- Waste logged offline is replayed, possibly more than once, and a retry
+-- uploads the entry's photo again. Replays must log the waste once and
+-- retries must be able to replace the photo. Run with `supabase test db`.
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(5);
+
+insert into public.branches (id, name, address)
+values ('00000000-0000-0000-0000-000000005101', 'Test Branch', 'Jl. Test 1');
+
+insert into public.stores (id, branch_id, name, address)
+values ('00000000-0000-0000-0000-000000005201', '00000000-0000-0000-0000-000000005101', 'Test Store', 'Jl. Test 2');
+
+insert into public.stock_items (id, name, unit)
+values ('00000000-0000-0000-0000-000000005501', 'Test Cups', 'pcs');
+
+insert into public.store_stocks (store_id, stock_item_id, selling_date, quantity, is_active)
+values ('00000000-0000-0000-0000-000000005201', '00000000-0000-0000-0000-000000005501', current_date, 10, true);
+
+insert into auth.users (id, email)
+values ('00000000-0000-0000-0000-000000005301', 'cashier@test.local');
+
+update public.profiles
+set role = 'cashier',
+    branch_id = '00000000-0000-0000-0000-000000005101',
+    store_id = '00000000-0000-0000-0000-000000005201'
+where id = '00000000-0000-0000-0000-000000005301';
+
+set local role authenticated;
+
+set local request.jwt.claims = '{"sub": "00000000-0000-0000-0000-000000005301", "role": "authenticated"}';
+
+create temporary table waste_results (result jsonb) on commit drop;
+
+insert into waste_results
+select public.log_waste(
+  '00000000-0000-0000-0000-000000005701',
+  '00000000-0000-0000-0000-000000005201',
+  current_date,
+  'spilled',
+  3,
+  '00000000-0000-0000-0000-000000005501'
+);
+
+insert into waste_results
+select public.log_waste(
+  '00000000-0000-0000-0000-000000005701',
+  '00000000-0000-0000-0000-000000005201',
+  current_date,
+  'spilled',
+  3,
+  '00000000-0000-0000-0000-000000005501'
+);
+
+select is(
+  (select count(distinct result->>'entry_id') from waste_results),
+  1::bigint,
+  'a replayed waste entry returns the id of the first one'
+);
+
+select is(
+  (select count(*) from public.waste_entries where client_operation_id = '00000000-0000-0000-0000-000000005701'),
+  1::bigint,
+  'a replayed waste entry is logged once'
+);
+
+select is(
+  (select quantity from public.store_stocks
+   where store_id = '00000000-0000-0000-0000-000000005201'
+     and stock_item_id = '00000000-0000-0000-0000-000000005501'
+     and selling_date = current_date),
+  7::numeric,
+  'a replayed waste entry takes its stock once'
+);
+
+select is(
+  (select count(*) from public.stock_movements
+   where store_id = '00000000-0000-0000-0000-000000005201'
+     and stock_item_id = '00000000-0000-0000-0000-000000005501'),
+  1::bigint,
+  'a replayed waste entry has one movement in the ledger'
+);
+
+-- A photo left by a failed attempt is replaced by the retry's
+insert into storage.objects (bucket_id, name)
+values ('waste-photos', '00000000-0000-0000-0000-000000005201/00000000-0000-0000-0000-000000005701.jpg');
+
+update storage.objects
+set owner = '00000000-0000-0000-0000-000000005301'
+where bucket_id = 'waste-photos'
+  and name = '00000000-0000-0000-0000-000000005201/00000000-0000-0000-0000-000000005701.jpg';
+
+select is(
+  (select owner from storage.objects
+   where bucket_id = 'waste-photos'
+     and name = '00000000-0000-0000-0000-000000005201/00000000-0000-0000-0000-000000005701.jpg'),
+  '00000000-0000-0000-0000-000000005301'::uuid,
+  'store staff can replace a waste photo of their store'
+);
+
+select * from finish();
+
+rollback;
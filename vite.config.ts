@@ -1,8 +1,56 @@
-import { defineConfig } from "vite";
+import { defineConfig, Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
+import fs from "fs";
+import { createHash } from "crypto";
 import { componentTagger } from "lovable-tagger";
 
+const SERVICE_WORKER_FILE = "service-worker.js";
+
+// Files from public/ the service worker needs to serve the app shell offline.
+// The icons listed in manifest.json are left out until they exist, since a
+// single 404 makes the whole precache fail.
+const PUBLIC_PRECACHE_FILES = ["/index.html", "/offline.html", "/manifest.json", "/favicon.ico"];
+
+// Prepends the list of files emitted by the build and a cache version derived
+// from them to public/service-worker.js, so every deploy precaches exactly the
+// hashed assets it references and old caches are dropped on activation.
+const serviceWorkerPrecache = (): Plugin => {
+  let outDir = "dist";
+  let buildAssets: string[] = [];
+
+  return {
+    name: "service-worker-precache",
+    apply: "build",
+    configResolved(config) {
+      outDir = path.resolve(config.root, config.build.outDir);
+    },
+    generateBundle(_options, bundle) {
+      buildAssets = Object.keys(bundle)
+        .filter((fileName) => !fileName.endsWith(".map") && fileName !== "index.html")
+        .map((fileName) => `/${fileName}`)
+        .sort();
+    },
+    writeBundle() {
+      const serviceWorkerPath = path.join(outDir, SERVICE_WORKER_FILE);
+      const serviceWorker = fs.readFileSync(serviceWorkerPath, "utf-8");
+      const precacheUrls = [...PUBLIC_PRECACHE_FILES, ...buildAssets];
+      const cacheVersion = createHash("sha256")
+        .update(serviceWorker)
+        .update(precacheUrls.join("\n"))
+        .digest("hex")
+        .slice(0, 12);
+
+      fs.writeFileSync(
+        serviceWorkerPath,
+        `self.__PRECACHE_URLS__ = ${JSON.stringify(precacheUrls)};\n` +
+          `self.__CACHE_VERSION__ = ${JSON.stringify(cacheVersion)};\n` +
+          serviceWorker
+      );
+    },
+  };
+};
+
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
   server: {
@@ -13,6 +61,7 @@ export default defineConfig(({ mode }) => ({
     react(),
     mode === 'development' &&
     componentTagger(),
+    serviceWorkerPrecache(),
   ].filter(Boolean),
   resolve: {
     alias: {